@@ -150,6 +150,9 @@ export async function POST(request: Request) {
       naming: `/dashboard/projects/${pid}/analysis/naming`,
       commentCoverage: `/dashboard/projects/${pid}/analysis/comment-coverage`,
       tasks: `/dashboard/projects/${pid}/analysis/tasks`,
+      callGraph: `/dashboard/projects/${pid}/analysis/call-graph`,
+      tagValidation: `/dashboard/projects/${pid}/analysis/tag-validation`,
+      complexity: `/dashboard/projects/${pid}/analysis/complexity`,
       explain: `/dashboard/projects/${pid}/ai/explain`,
       issues: `/dashboard/projects/${pid}/ai/issues`,
       search: `/dashboard/projects/${pid}/ai/search`,
@@ -241,6 +244,9 @@ Available tools (use exact URLs below):
 - Naming Conventions: ${toolLinks.naming}
 - Comment Coverage: ${toolLinks.commentCoverage}
 - Task Configuration: ${toolLinks.tasks}
+- Routine Call Graph: ${toolLinks.callGraph}
+- Undefined References: ${toolLinks.tagValidation}
+- Logic Complexity: ${toolLinks.complexity}
 - Logic Explainer: ${toolLinks.explain}
 - Issue Finder: ${toolLinks.issues}
 - AI Search: ${toolLinks.search}
@@ -7,6 +7,7 @@ import {
 } from "@/lib/ai/claude-client";
 import { logActivity } from "@/lib/activity-log";
 import { analyzeExportTypes } from "@/lib/partial-export";
+import { findUnusedTags } from "@/lib/tag-usage";
 
 export async function POST(request: Request) {
   try {
@@ -98,11 +99,11 @@ export async function POST(request: Request) {
       await Promise.all([
         supabase
           .from("parsed_tags")
-          .select("name, data_type, scope, description, usage")
+          .select("file_id, name, data_type, scope, description, usage, alias_for")
           .in("version_id", versionIds),
         supabase
           .from("tag_references")
-          .select("tag_name, usage_type")
+          .select("file_id, tag_name, program_name, usage_type")
           .in("file_id", fileIds),
         supabase
           .from("parsed_rungs")
@@ -183,17 +184,7 @@ export async function POST(request: Request) {
     }
 
     // Compute unused tags
-    const referencedTagNames = new Set(references.map((r) => r.tag_name));
-    const unusedTags = allTags.filter((tag) => {
-      const tagParts = tag.name.split(".");
-      for (let i = 1; i <= tagParts.length; i++) {
-        const partialName = tagParts.slice(0, i).join(".");
-        if (referencedTagNames.has(partialName)) return false;
-      }
-      const baseName = tag.name.split("[")[0];
-      if (referencedTagNames.has(baseName)) return false;
-      return !referencedTagNames.has(tag.name);
-    });
+    const unusedTags = findUnusedTags(allTags, references);
 
     // Compute per-routine coverage map
     const routineCoverageMap = new Map<
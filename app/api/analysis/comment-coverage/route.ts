@@ -40,11 +40,22 @@ export async function GET(request: Request) {
       });
     }
 
-    // Get all rungs
-    const { data: rungs } = await supabase
-      .from("parsed_rungs")
-      .select("program_name, routine_name, comment")
-      .in("file_id", fileIds);
+    // Get all rungs, and the protected routines whose logic cannot be read
+    const [{ data: rungRows }, { data: protectedRoutines }] = await Promise.all([
+      supabase
+        .from("parsed_rungs")
+        .select("file_id, program_name, routine_name, comment")
+        .in("file_id", fileIds),
+      supabase
+        .from("parsed_routines")
+        .select("file_id, program_name, name")
+        .in("file_id", fileIds)
+        .eq("is_protected", true),
+    ]);
+
+    // Protected routines are excluded rather than counted as undocumented
+    const protectedKeys = new Set((protectedRoutines || []).map((r) => `${r.file_id}::${r.program_name}::${r.name}`));
+    const rungs = (rungRows || []).filter((r) => !protectedKeys.has(`${r.file_id}::${r.program_name}::${r.routine_name}`));
 
     if (!rungs || rungs.length === 0) {
       return NextResponse.json({
@@ -49,7 +49,8 @@ export async function GET(request: Request) {
       .in("file_id", fileIds);
 
     if (search) {
-      query = query.ilike("tag_name", `%${search}%`);
+      // Alias references also match the tag they resolve to
+      query = query.or(`tag_name.ilike.%${search}%,alias_target.ilike.%${search}%`);
     }
 
     if (usageType && usageType !== "all") {
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { getProtectedPrograms, isInProtectedScope } from "@/lib/protected-content";
+import { findUnusedTags } from "@/lib/tag-usage";
 
 export async function GET(request: Request) {
   try {
@@ -45,34 +47,28 @@ export async function GET(request: Request) {
     // Get all tags
     const { data: allTags } = await supabase
       .from("parsed_tags")
-      .select("id, name, data_type, scope, description")
+      .select("id, file_id, name, data_type, scope, description, alias_for")
       .in("file_id", fileIds);
 
-    // Get all referenced tag names
+    // Get all references, resolved against the tags below
     const { data: references } = await supabase
       .from("tag_references")
-      .select("tag_name")
+      .select("file_id, tag_name, program_name")
       .in("file_id", fileIds);
 
-    const referencedTagNames = new Set(references?.map((r) => r.tag_name) || []);
-
-    // Find unused tags (not in references)
-    let unusedTags = (allTags || []).filter((tag) => {
-      // Check if tag name or any base part of the tag is referenced
-      const tagParts = tag.name.split(".");
-      for (let i = 1; i <= tagParts.length; i++) {
-        const partialName = tagParts.slice(0, i).join(".");
-        if (referencedTagNames.has(partialName)) {
-          return false;
-        }
-      }
-      // Also check array base names
-      const baseName = tag.name.split("[")[0];
-      if (referencedTagNames.has(baseName)) {
-        return false;
-      }
-      return !referencedTagNames.has(tag.name);
-    });
+    // Tags in programs with protected routines may be used by the hidden logic
+    const { data: protectedRoutines } = await supabase
+      .from("parsed_routines")
+      .select("file_id, program_name, is_protected")
+      .in("file_id", fileIds)
+      .eq("is_protected", true);
+
+    const protectedPrograms = getProtectedPrograms(protectedRoutines || []);
+
+    // Find unused tags: no reference resolves to them, directly, by member or through an alias
+    let unusedTags = findUnusedTags(allTags || [], references || []).filter(
+      (tag) => !isInProtectedScope(tag, protectedPrograms)
+    );
 
     // Apply filters
     if (search) {
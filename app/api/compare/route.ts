@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { SupabaseClient } from "@supabase/supabase-js";
+import { flattenTagValue } from "@/lib/parsers/tag-data";
+import type { ParsedTagValue } from "@/lib/parsers/types";
 
 interface ComparisonResult {
   tags: ReturnType<typeof compareTags>;
@@ -23,11 +25,11 @@ async function compareFiles(
 ): Promise<ComparisonResult> {
   const [tags1, tags2, routines1, routines2, modules1, modules2] = await Promise.all([
     version1Id
-      ? supabase.from("parsed_tags").select("name, data_type, scope, description").eq("version_id", version1Id)
-      : supabase.from("parsed_tags").select("name, data_type, scope, description").eq("file_id", file1Id),
+      ? supabase.from("parsed_tags").select("name, data_type, scope, description, value, data").eq("version_id", version1Id)
+      : supabase.from("parsed_tags").select("name, data_type, scope, description, value, data").eq("file_id", file1Id),
     version2Id
-      ? supabase.from("parsed_tags").select("name, data_type, scope, description").eq("version_id", version2Id)
-      : supabase.from("parsed_tags").select("name, data_type, scope, description").eq("file_id", file2Id),
+      ? supabase.from("parsed_tags").select("name, data_type, scope, description, value, data").eq("version_id", version2Id)
+      : supabase.from("parsed_tags").select("name, data_type, scope, description, value, data").eq("file_id", file2Id),
     version1Id
       ? supabase.from("parsed_routines").select("name, program_name, type, description, rung_count").eq("version_id", version1Id)
       : supabase.from("parsed_routines").select("name, program_name, type, description, rung_count").eq("file_id", file1Id),
@@ -244,6 +246,34 @@ interface Tag {
   data_type: string;
   scope: string | null;
   description: string | null;
+  value?: string | null;
+  data?: ParsedTagValue | null;
+}
+
+const MAX_VALUE_CHANGES = 5;
+
+/** Per-member initial value differences, e.g. `Value .SpeedSP: 45.0 → 50.0`. */
+function compareTagValues(tag1: Tag, tag2: Tag): string[] {
+  const toEntries = (tag: Tag) =>
+    tag.data
+      ? flattenTagValue(tag.data)
+      : tag.value ? [{ path: "", dataType: tag.data_type, value: tag.value }] : [];
+  const values1 = new Map(toEntries(tag1).map((e) => [e.path, e.value]));
+  const values2 = new Map(toEntries(tag2).map((e) => [e.path, e.value]));
+
+  const changes: string[] = [];
+  for (const path of new Set([...values1.keys(), ...values2.keys()])) {
+    const v1 = values1.get(path);
+    const v2 = values2.get(path);
+    if (v1 !== v2) {
+      changes.push(`Value${path ? ` ${path}` : ""}: ${v1 ?? "none"} → ${v2 ?? "none"}`);
+    }
+  }
+
+  if (changes.length > MAX_VALUE_CHANGES) {
+    return [...changes.slice(0, MAX_VALUE_CHANGES), `${changes.length - MAX_VALUE_CHANGES} more values changed`];
+  }
+  return changes;
 }
 
 function compareTags(tags1: Tag[], tags2: Tag[]) {
@@ -270,6 +300,7 @@ function compareTags(tags1: Tag[], tags2: Tag[]) {
       if (tag1.description !== tag2.description) {
         changes.push(`Description changed`);
       }
+      changes.push(...compareTagValues(tag1, tag2));
       if (changes.length > 0) {
         modified.push({ name: tag1.name, data_type: tag2.data_type, changes });
       }
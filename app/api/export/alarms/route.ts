@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import * as XLSX from "xlsx";
+import { createClient } from "@/lib/supabase/server";
+import { logActivity } from "@/lib/activity-log";
+import {
+  ALARM_COLUMNS,
+  ALARM_EXPORT_HEADERS,
+  compareAlarms,
+  getAlarmExportRow,
+  type AlarmRow,
+} from "@/lib/alarms";
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+    const format = searchParams.get("format") === "xlsx" ? "xlsx" : "csv";
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: "projectId is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get project
+    const { data: project, error: projectError } = await supabase
+      .from("projects")
+      .select("name")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Get project files
+    const { data: files } = await supabase
+      .from("project_files")
+      .select("id, file_name")
+      .eq("project_id", projectId);
+
+    const fileIds = (files || []).map((f: { id: string }) => f.id);
+    const fileMap = new Map(
+      (files || []).map((f: { id: string; file_name: string }) => [f.id, f.file_name])
+    );
+
+    if (fileIds.length === 0) {
+      return new NextResponse("No alarms found", { status: 404 });
+    }
+
+    const { data: alarms, error } = await supabase
+      .from("parsed_alarms")
+      .select(ALARM_COLUMNS)
+      .in("file_id", fileIds);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!alarms || alarms.length === 0) {
+      return new NextResponse("No alarms found", { status: 404 });
+    }
+
+    const rows = (alarms as AlarmRow[])
+      .sort(compareAlarms)
+      .map((alarm) => getAlarmExportRow(alarm, fileMap.get(alarm.file_id) || ""));
+
+    const baseFilename = `${project.name.replace(/[^a-zA-Z0-9]/g, "_")}_alarms_${new Date().toISOString().split("T")[0]}`;
+
+    await logActivity({
+      projectId,
+      userId: user.id,
+      userEmail: user.email,
+      action: "alarms_exported",
+      targetType: "export",
+      targetName: `Alarms (${format.toUpperCase()})`,
+    });
+
+    if (format === "xlsx") {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([ALARM_EXPORT_HEADERS, ...rows]), "Alarms");
+      const buffer: Buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+
+      return new NextResponse(new Uint8Array(buffer), {
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="${baseFilename}.xlsx"`,
+        },
+      });
+    }
+
+    const escapeCSV = (value: string): string => {
+      if (value.includes(",") || value.includes('"') || value.includes("\n")) {
+        return `"${value.replace(/"/g, '""')}"`;
+      }
+      return value;
+    };
+
+    const csv = [ALARM_EXPORT_HEADERS, ...rows].map((row) => row.map(escapeCSV).join(",")).join("\n");
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="${baseFilename}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -56,11 +56,13 @@ export async function GET(request: Request) {
     // Build query for all matching modules
     let query = supabase
       .from("parsed_io_modules")
-      .select("name, catalog_number, parent_module, slot, connection_info, file_id")
+      .select(
+        "name, catalog_number, parent_module, slot, ip_address, rpi_ms, major_revision, minor_revision, electronic_keying, inhibited, connections, connection_info, file_id"
+      )
       .in("file_id", fileIds);
 
     if (search) {
-      query = query.ilike("name", `%${search}%`);
+      query = query.or(`name.ilike.%${search}%,ip_address.ilike.%${search}%`);
     }
 
     if (catalogNumber) {
@@ -89,6 +91,13 @@ export async function GET(request: Request) {
       "Catalog Number",
       "Parent Module",
       "Slot",
+      "IP Address",
+      "RPI (ms)",
+      "Revision",
+      "Electronic Keying",
+      "Inhibited",
+      "Input Tags",
+      "Output Tags",
       "File",
       "Connection Info",
     ];
@@ -102,12 +111,25 @@ export async function GET(request: Request) {
       return str;
     };
 
+    type ConnectionRow = { inputTag?: string; outputTag?: string };
+    const connectionTags = (connections: ConnectionRow[] | null, key: keyof ConnectionRow) =>
+      [...new Set((connections || []).map((c) => c[key]).filter(Boolean))].join("; ");
+
     const rows = modules.map((module) =>
       [
         module.name,
         module.catalog_number,
         module.parent_module,
         module.slot,
+        module.ip_address,
+        module.rpi_ms,
+        module.major_revision !== null
+          ? `${module.major_revision}${module.minor_revision !== null ? `.${module.minor_revision}` : ""}`
+          : "",
+        module.electronic_keying,
+        module.inhibited ? "Yes" : "No",
+        connectionTags(module.connections, "inputTag"),
+        connectionTags(module.connections, "outputTag"),
         fileMap.get(module.file_id) || "",
         module.connection_info ? JSON.stringify(module.connection_info) : "",
       ]
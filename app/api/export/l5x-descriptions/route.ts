@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { logActivity } from "@/lib/activity-log";
+import { writeDescriptions, type DescriptionUpdate } from "@/lib/parsers/description-writeback";
+
+const TARGET_FIELDS: Record<DescriptionUpdate["kind"], string[]> = {
+  tag: ["scope", "name"],
+  udtMember: ["dataType", "name"],
+  routine: ["programName", "name"],
+  rung: ["programName", "routineName"],
+  aoiParameter: ["aoiName", "name"],
+};
+
+function isDescriptionUpdate(value: unknown): value is DescriptionUpdate {
+  if (!value || typeof value !== "object") return false;
+  const update = value as Record<string, unknown>;
+  const fields = TARGET_FIELDS[update.kind as DescriptionUpdate["kind"]];
+  if (!fields || typeof update.text !== "string") return false;
+  if (update.language !== undefined && typeof update.language !== "string") return false;
+  if (update.kind === "rung" && typeof update.number !== "number") return false;
+  return fields.every((field) => typeof update[field] === "string" && update[field] !== "");
+}
+
+/**
+ * Patch updated descriptions into the file's original L5X and return the
+ * whole file, ready to import back into Studio 5000.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId, updates } = await request.json();
+
+    if (!fileId) {
+      return NextResponse.json({ error: "fileId is required" }, { status: 400 });
+    }
+    if (!Array.isArray(updates) || updates.length === 0 || !updates.every(isDescriptionUpdate)) {
+      return NextResponse.json({ error: "updates must be a non-empty array of description updates" }, { status: 400 });
+    }
+
+    const { data: file, error: fileError } = await supabase
+      .from("project_files")
+      .select("id, file_name, file_type, storage_path, project_id")
+      .eq("id", fileId)
+      .single();
+
+    if (fileError || !file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    if (file.file_type === "l5k" || file.file_name?.toLowerCase().endsWith(".l5k")) {
+      return NextResponse.json({ error: "Description write-back needs an L5X file" }, { status: 400 });
+    }
+
+    const { data: fileData, error: downloadError } = await supabase.storage
+      .from("project-files")
+      .download(file.storage_path);
+
+    if (downloadError || !fileData) {
+      return NextResponse.json({ error: "Failed to download file" }, { status: 500 });
+    }
+
+    // Keep a byte order mark if the export has one
+    const source = new TextDecoder("utf-8", { ignoreBOM: true }).decode(await fileData.arrayBuffer());
+    const result = writeDescriptions(source, updates);
+
+    await logActivity({
+      projectId: file.project_id,
+      userId: user.id,
+      userEmail: user.email,
+      action: "documentation_exported",
+      targetType: "file",
+      targetId: file.id,
+      targetName: file.file_name,
+      metadata: { descriptionsApplied: result.applied, descriptionsMissing: result.missing.length },
+    });
+
+    return new NextResponse(result.content, {
+      headers: {
+        "Content-Type": "application/xml",
+        "Content-Disposition": `attachment; filename="${file.file_name}"`,
+        "X-Descriptions-Applied": String(result.applied),
+        "X-Descriptions-Missing": String(result.missing.length),
+      },
+    });
+  } catch (error) {
+    console.error("L5X description write-back error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
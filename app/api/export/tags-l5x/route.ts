@@ -11,6 +11,8 @@ interface TagForExport {
   radix?: string;
   externalAccess?: string;
   dimensions?: string;
+  aliasFor?: string;
+  memberComments?: Array<{ specifier: string; comment: string }>;
 }
 
 function escapeXml(str: string): string {
@@ -83,7 +85,9 @@ function generateL5XTagFragment(tags: TagForExport[]): string {
 
 function generateTagXml(tag: TagForExport, indent: number): string {
   const spaces = " ".repeat(indent);
-  let xml = `${spaces}<Tag Name="${escapeXml(tag.name)}" TagType="Base" DataType="${escapeXml(tag.dataType)}"`;
+  let xml = tag.aliasFor
+    ? `${spaces}<Tag Name="${escapeXml(tag.name)}" TagType="Alias" AliasFor="${escapeXml(tag.aliasFor)}"`
+    : `${spaces}<Tag Name="${escapeXml(tag.name)}" TagType="Base" DataType="${escapeXml(tag.dataType)}"`;
 
   if (tag.radix) {
     xml += ` Radix="${escapeXml(tag.radix)}"`;
@@ -97,16 +101,28 @@ function generateTagXml(tag: TagForExport, indent: number): string {
     xml += ` ExternalAccess="${escapeXml(tag.externalAccess)}"`;
   }
 
-  if (tag.dimensions) {
+  if (tag.dimensions && !tag.aliasFor) {
     xml += ` Dimensions="${escapeXml(tag.dimensions)}"`;
   }
 
-  if (tag.description || tag.value) {
+  // Member comments are stored relative to the tag: Pump1.Cmd becomes .Cmd
+  const comments = (tag.memberComments || []).filter(
+    (c) => c.comment && c.specifier.toUpperCase().startsWith(tag.name.toUpperCase())
+  );
+
+  if (tag.description || comments.length > 0 || (tag.value && !tag.aliasFor)) {
     xml += `>\n`;
     if (tag.description) {
       xml += `${spaces}  <Description><![CDATA[${tag.description}]]></Description>\n`;
     }
-    if (tag.value) {
+    if (comments.length > 0) {
+      xml += `${spaces}  <Comments>\n`;
+      for (const c of comments) {
+        xml += `${spaces}    <Comment Operand="${escapeXml(c.specifier.substring(tag.name.length))}"><![CDATA[${c.comment}]]></Comment>\n`;
+      }
+      xml += `${spaces}  </Comments>\n`;
+    }
+    if (tag.value && !tag.aliasFor) {
       xml += `${spaces}  <Data Format="Decorated">\n`;
       xml += `${spaces}    <DataValue DataType="${escapeXml(tag.dataType)}" Value="${escapeXml(tag.value)}"/>\n`;
       xml += `${spaces}  </Data>\n`;
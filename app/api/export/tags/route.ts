@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { logActivity } from "@/lib/activity-log";
+import { flattenTagValue } from "@/lib/parsers/tag-data";
 
 export async function GET(request: Request) {
   try {
@@ -38,7 +39,7 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
-    const type = searchParams.get("type"); // "references" or null (definitions)
+    const type = searchParams.get("type"); // "references", "values" or null (definitions)
 
     // Get project files
     const { data: files } = await supabase
@@ -96,11 +97,54 @@ export async function GET(request: Request) {
 
       csv = [headers.join(","), ...rows].join("\n");
       fileSuffix = "referenced_tags";
+    } else if (type === "values") {
+      // Export decoded initial values, one row per atomic member/element
+      let query = supabase
+        .from("parsed_tags")
+        .select("name, data_type, scope, value, data")
+        .in("file_id", fileIds);
+
+      if (search) {
+        query = query.ilike("name", `%${search}%`);
+      }
+
+      if (scope) {
+        query = query.eq("scope", scope);
+      }
+
+      if (dataType) {
+        query = query.eq("data_type", dataType);
+      }
+
+      const { data: tags, error } = await query.order("name");
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      const headers = ["Tag", "Scope", "Member", "Data Type", "Value"];
+      const rows = (tags || []).flatMap((tag) => {
+        const entries = tag.data
+          ? flattenTagValue(tag.data)
+          : tag.value ? [{ path: "", dataType: tag.data_type, value: tag.value }] : [];
+        return entries.map((entry) =>
+          [tag.name, tag.scope, `${tag.name}${entry.path}`, entry.dataType, entry.value]
+            .map(escapeCSV)
+            .join(",")
+        );
+      });
+
+      if (rows.length === 0) {
+        return new NextResponse("No tag values found", { status: 404 });
+      }
+
+      csv = [headers.join(","), ...rows].join("\n");
+      fileSuffix = "tag_values";
     } else {
       // Export tag definitions from parsed_tags table
       let query = supabase
         .from("parsed_tags")
-        .select("name, data_type, scope, description, usage, radix, alias_for, external_access, dimensions")
+        .select("name, data_type, scope, description, usage, radix, alias_for, external_access, dimensions, value")
         .in("file_id", fileIds);
 
       if (search) {
@@ -137,6 +181,7 @@ export async function GET(request: Request) {
         "Alias For",
         "External Access",
         "Dimensions",
+        "Value",
       ];
 
       const rows = tags.map((tag) =>
@@ -150,6 +195,7 @@ export async function GET(request: Request) {
           tag.alias_for,
           tag.external_access,
           tag.dimensions,
+          tag.value,
         ]
           .map(escapeCSV)
           .join(",")
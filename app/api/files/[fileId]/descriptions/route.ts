@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+interface RouteContext {
+  params: Promise<{ fileId: string }>;
+}
+
+// Get the descriptions of a file's routines, rungs, UDT members and AOI parameters, for editing before write-back
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { fileId } = await context.params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: file, error: fileError } = await supabase
+      .from("project_files")
+      .select("id")
+      .eq("id", fileId)
+      .single();
+
+    if (fileError || !file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const [routinesResult, rungsResult, udtsResult, aoisResult] = await Promise.all([
+      supabase
+        .from("parsed_routines")
+        .select("program_name, name, description")
+        .eq("file_id", fileId)
+        .order("program_name")
+        .order("name"),
+      supabase
+        .from("parsed_rungs")
+        .select("program_name, routine_name, number, comment")
+        .eq("file_id", fileId)
+        .order("program_name")
+        .order("routine_name")
+        .order("number"),
+      supabase
+        .from("parsed_udts")
+        .select("name, parsed_udt_members(name, description)")
+        .eq("file_id", fileId)
+        .order("name"),
+      supabase
+        .from("parsed_aois")
+        .select("name, parsed_aoi_parameters(name, description)")
+        .eq("file_id", fileId)
+        .order("name"),
+    ]);
+
+    const queryError = routinesResult.error || rungsResult.error || udtsResult.error || aoisResult.error;
+    if (queryError) {
+      return NextResponse.json({ error: queryError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      routines: (routinesResult.data || []).map((r) => ({
+        programName: r.program_name,
+        name: r.name,
+        description: r.description || "",
+      })),
+      rungs: (rungsResult.data || []).map((r) => ({
+        programName: r.program_name,
+        routineName: r.routine_name,
+        number: r.number,
+        description: r.comment || "",
+      })),
+      udtMembers: (udtsResult.data || []).flatMap((udt) =>
+        (udt.parsed_udt_members || []).map((m: { name: string; description: string | null }) => ({
+          dataType: udt.name,
+          name: m.name,
+          description: m.description || "",
+        }))
+      ),
+      aoiParameters: (aoisResult.data || []).flatMap((aoi) =>
+        (aoi.parsed_aoi_parameters || []).map((p: { name: string; description: string | null }) => ({
+          aoiName: aoi.name,
+          name: p.name,
+          description: p.description || "",
+        }))
+      ),
+    });
+  } catch (error) {
+    console.error("Get descriptions error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+interface RouteContext {
+  params: Promise<{ fileId: string }>;
+}
+
+// Get parser diagnostics for the current version of a file
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { fileId } = await context.params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get file details
+    const { data: file, error: fileError } = await supabase
+      .from("project_files")
+      .select("id, current_version")
+      .eq("id", fileId)
+      .single();
+
+    if (fileError || !file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const { data: currentVersion } = await supabase
+      .from("file_versions")
+      .select("id")
+      .eq("file_id", fileId)
+      .eq("version_number", file.current_version || 1)
+      .single();
+
+    let query = supabase
+      .from("parse_diagnostics")
+      .select("id, severity, code, message, element_path, line")
+      .eq("file_id", fileId);
+    query = currentVersion ? query.eq("version_id", currentVersion.id) : query.is("version_id", null);
+
+    const { data: diagnostics, error: diagnosticsError } = await query;
+
+    if (diagnosticsError) {
+      return NextResponse.json({ error: diagnosticsError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ diagnostics: diagnostics || [] });
+  } catch (error) {
+    console.error("Get diagnostics error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,9 +1,229 @@
 import { NextResponse } from "next/server";
 import { createClient, createServiceClient } from "@/lib/supabase/server";
 import { parseL5X } from "@/lib/parsers/l5x-parser";
+import { parseL5XStream } from "@/lib/parsers/l5x-stream-parser";
 import { parseL5K } from "@/lib/parsers/l5k-parser";
+import { ParseFailure } from "@/lib/parsers/diagnostics";
+import type { ParsedDiagnostic, ParsedL5XData, ParsedTag, ParsedRung, ParsedTagReference } from "@/lib/parsers/types";
 import { logActivity } from "@/lib/activity-log";
 
+// Large exports stream-parse for several minutes
+export const maxDuration = 300;
+
+// L5X files above this size are stream-parsed and inserted batch by batch
+// instead of being read into one string
+const STREAMING_THRESHOLD_BYTES = 20 * 1024 * 1024;
+const INSERT_BATCH_SIZE = 500;
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+
+/**
+ * Delete any existing parsed data for this file. Rows a streamed parse has
+ * already inserted, stamped with its `streamedAt` creation time, are kept.
+ */
+async function clearParsedData(serviceSupabase: ServiceClient, fileId: string, streamedAt?: string) {
+  const deleteStale = (table: string) => {
+    const rows = serviceSupabase.from(table).delete().eq("file_id", fileId);
+    return streamedAt ? rows.neq("created_at", streamedAt) : rows;
+  };
+
+  // First delete child tables that reference other parsed tables
+  await Promise.all([
+    serviceSupabase.from("parsed_udt_members").delete().in(
+      "udt_id",
+      (await serviceSupabase.from("parsed_udts").select("id").eq("file_id", fileId)).data?.map(u => u.id) || []
+    ),
+    serviceSupabase.from("parsed_aoi_parameters").delete().in(
+      "aoi_id",
+      (await serviceSupabase.from("parsed_aois").select("id").eq("file_id", fileId)).data?.map(a => a.id) || []
+    ),
+    serviceSupabase.from("parsed_aoi_local_tags").delete().in(
+      "aoi_id",
+      (await serviceSupabase.from("parsed_aois").select("id").eq("file_id", fileId)).data?.map(a => a.id) || []
+    ),
+    serviceSupabase.from("parsed_aoi_routines").delete().in(
+      "aoi_id",
+      (await serviceSupabase.from("parsed_aois").select("id").eq("file_id", fileId)).data?.map(a => a.id) || []
+    ),
+    serviceSupabase.from("parsed_aoi_rungs").delete().in(
+      "aoi_id",
+      (await serviceSupabase.from("parsed_aois").select("id").eq("file_id", fileId)).data?.map(a => a.id) || []
+    ),
+  ]);
+
+  // Then delete parent tables
+  await Promise.all([
+    deleteStale("parsed_tags"),
+    serviceSupabase.from("parsed_io_modules").delete().eq("file_id", fileId),
+    serviceSupabase.from("parsed_routines").delete().eq("file_id", fileId),
+    deleteStale("parsed_rungs"),
+    deleteStale("tag_references"),
+    serviceSupabase.from("parsed_udts").delete().eq("file_id", fileId),
+    serviceSupabase.from("parsed_aois").delete().eq("file_id", fileId),
+    serviceSupabase.from("parsed_tasks").delete().eq("file_id", fileId),
+    serviceSupabase.from("parsed_programs").delete().eq("file_id", fileId),
+    // FBD elements and wires cascade from their sheet
+    serviceSupabase.from("parsed_fbd_sheets").delete().eq("file_id", fileId),
+    serviceSupabase.from("parsed_sfc_charts").delete().eq("file_id", fileId),
+    serviceSupabase.from("parsed_communications").delete().eq("file_id", fileId),
+    serviceSupabase.from("parsed_alarms").delete().eq("file_id", fileId),
+    serviceSupabase.from("parsed_aoi_calls").delete().eq("file_id", fileId),
+  ]);
+}
+
+/** Delete the tags, rungs and references a streamed parse inserted before it failed */
+async function discardStreamedRows(serviceSupabase: ServiceClient, fileId: string, streamedAt: string) {
+  await Promise.all(
+    ["parsed_tags", "parsed_rungs", "tag_references"].map((table) =>
+      serviceSupabase.from(table).delete().eq("file_id", fileId).eq("created_at", streamedAt)
+    )
+  );
+}
+
+/** Replace this version's parser diagnostics, leaving other versions' alone, and count them by severity */
+async function replaceDiagnostics(
+  serviceSupabase: ServiceClient,
+  fileId: string,
+  versionId: string | null,
+  diagnostics: ParsedDiagnostic[]
+) {
+  const staleDiagnostics = serviceSupabase.from("parse_diagnostics").delete().eq("file_id", fileId);
+  await (versionId ? staleDiagnostics.eq("version_id", versionId) : staleDiagnostics.is("version_id", null));
+
+  if (diagnostics.length > 0) {
+    const diagnosticRecords = diagnostics.map((diagnostic) => ({
+      file_id: fileId,
+      version_id: versionId,
+      severity: diagnostic.severity,
+      code: diagnostic.code,
+      message: diagnostic.message,
+      element_path: diagnostic.path,
+      line: diagnostic.line,
+    }));
+
+    const { error: insertError } = await serviceSupabase
+      .from("parse_diagnostics")
+      .insert(diagnosticRecords);
+    if (insertError) {
+      console.error("Error inserting parse diagnostics:", insertError);
+    }
+  }
+
+  const countDiagnostics = (severity: string) => diagnostics.filter((d) => d.severity === severity).length;
+  return {
+    parse_error_count: countDiagnostics("error"),
+    parse_warning_count: countDiagnostics("warning"),
+    parse_info_count: countDiagnostics("info"),
+  };
+}
+
+async function insertTags(
+  serviceSupabase: ServiceClient,
+  fileId: string,
+  versionId: string | null,
+  tags: ParsedTag[],
+  createdAt?: string
+) {
+  const tagRecords = tags.map((tag) => ({
+    ...(createdAt && { created_at: createdAt }),
+    file_id: fileId,
+    version_id: versionId,
+    name: tag.name,
+    data_type: tag.dataType,
+    scope: tag.scope,
+    description: tag.description,
+    descriptions: tag.descriptions,
+    value: tag.value,
+    data: tag.data,
+    alias_for: tag.aliasFor,
+    usage: tag.usage,
+    radix: tag.radix,
+    external_access: tag.externalAccess,
+    dimensions: tag.dimensions,
+    tag_class: tag.tagClass,
+  }));
+
+  for (let i = 0; i < tagRecords.length; i += INSERT_BATCH_SIZE) {
+    const batch = tagRecords.slice(i, i + INSERT_BATCH_SIZE);
+    const { error: insertError } = await serviceSupabase
+      .from("parsed_tags")
+      .insert(batch);
+    if (insertError) {
+      console.error("Error inserting tags batch:", insertError);
+    }
+  }
+}
+
+async function insertRungs(
+  serviceSupabase: ServiceClient,
+  fileId: string,
+  versionId: string | null,
+  rungs: ParsedRung[],
+  createdAt?: string
+) {
+  const rungRecords = rungs.map((rung) => ({
+    ...(createdAt && { created_at: createdAt }),
+    file_id: fileId,
+    version_id: versionId,
+    routine_name: rung.routineName,
+    program_name: rung.programName,
+    number: rung.number,
+    content: rung.content,
+    comment: rung.comment,
+    comments: rung.comments,
+    instruction_count: rung.metrics?.instructionCount ?? null,
+    branch_depth: rung.metrics?.branchDepth ?? null,
+    parallel_branches: rung.metrics?.parallelBranches ?? null,
+    distinct_tags: rung.metrics?.distinctTags ?? null,
+    line_length: rung.metrics?.lineLength ?? null,
+    complexity: rung.metrics?.complexity ?? null,
+  }));
+
+  for (let i = 0; i < rungRecords.length; i += INSERT_BATCH_SIZE) {
+    const batch = rungRecords.slice(i, i + INSERT_BATCH_SIZE);
+    const { error: insertError } = await serviceSupabase
+      .from("parsed_rungs")
+      .insert(batch);
+    if (insertError) {
+      console.error("Error inserting rungs batch:", insertError);
+    }
+  }
+}
+
+async function insertTagReferences(
+  serviceSupabase: ServiceClient,
+  fileId: string,
+  tagReferences: ParsedTagReference[],
+  createdAt?: string
+) {
+  const tagRefRecords = tagReferences.map((ref) => ({
+    ...(createdAt && { created_at: createdAt }),
+    file_id: fileId,
+    tag_name: ref.tagName,
+    routine_name: ref.routineName,
+    program_name: ref.programName,
+    rung_number: ref.rungNumber,
+    usage_type: ref.usageType,
+    base_tag: ref.baseTag || null,
+    member_path: ref.memberPath || null,
+    array_index: ref.arrayIndex || null,
+    indirect_index: ref.indirectIndex ?? null,
+    tag_scope: ref.tagScope || null,
+    alias_target: ref.aliasTarget || null,
+    write_instructions: ref.writeInstructions || null,
+  }));
+
+  for (let i = 0; i < tagRefRecords.length; i += INSERT_BATCH_SIZE) {
+    const batch = tagRefRecords.slice(i, i + INSERT_BATCH_SIZE);
+    const { error: insertError } = await serviceSupabase
+      .from("tag_references")
+      .insert(batch);
+    if (insertError) {
+      console.error("Error inserting tag references batch:", insertError);
+    }
+  }
+}
+
 export async function POST(request: Request) {
   try {
     const supabase = await createClient();
@@ -49,87 +269,78 @@ export async function POST(request: Request) {
       .update({ parsing_status: "processing" })
       .eq("id", fileId);
 
+    // Use service client to bypass RLS for bulk inserts
+    const serviceSupabase = await createServiceClient();
+
     try {
-      // Download file from storage
-      const { data: fileData, error: downloadError } = await supabase.storage
-        .from("project-files")
-        .download(file.storage_path);
+      const isL5K = file.file_type === "l5k" || file.file_name?.toLowerCase().endsWith(".l5k");
 
-      if (downloadError || !fileData) {
-        throw new Error(downloadError?.message || "Failed to download file");
-      }
+      let parsed: ParsedL5XData;
+      let streamedCounts: { tags: number; rungs: number; tagReferences: number } | null = null;
 
-      // Parse the file content based on file type
-      const content = await fileData.text();
-      const isL5K = file.file_type === "l5k" || file.file_name?.toLowerCase().endsWith(".l5k");
-      const parsed = isL5K ? parseL5K(content) : parseL5X(content);
-
-      // Use service client to bypass RLS for bulk inserts
-      const serviceSupabase = await createServiceClient();
-
-      // Delete any existing parsed data for this file
-      // First delete child tables that reference other parsed tables
-      await Promise.all([
-        serviceSupabase.from("parsed_udt_members").delete().in(
-          "udt_id",
-          (await serviceSupabase.from("parsed_udts").select("id").eq("file_id", fileId)).data?.map(u => u.id) || []
-        ),
-        serviceSupabase.from("parsed_aoi_parameters").delete().in(
-          "aoi_id",
-          (await serviceSupabase.from("parsed_aois").select("id").eq("file_id", fileId)).data?.map(a => a.id) || []
-        ),
-        serviceSupabase.from("parsed_aoi_local_tags").delete().in(
-          "aoi_id",
-          (await serviceSupabase.from("parsed_aois").select("id").eq("file_id", fileId)).data?.map(a => a.id) || []
-        ),
-        serviceSupabase.from("parsed_aoi_routines").delete().in(
-          "aoi_id",
-          (await serviceSupabase.from("parsed_aois").select("id").eq("file_id", fileId)).data?.map(a => a.id) || []
-        ),
-      ]);
-
-      // Then delete parent tables
-      await Promise.all([
-        serviceSupabase.from("parsed_tags").delete().eq("file_id", fileId),
-        serviceSupabase.from("parsed_io_modules").delete().eq("file_id", fileId),
-        serviceSupabase.from("parsed_routines").delete().eq("file_id", fileId),
-        serviceSupabase.from("parsed_rungs").delete().eq("file_id", fileId),
-        serviceSupabase.from("tag_references").delete().eq("file_id", fileId),
-        serviceSupabase.from("parsed_udts").delete().eq("file_id", fileId),
-        serviceSupabase.from("parsed_aois").delete().eq("file_id", fileId),
-        serviceSupabase.from("parsed_tasks").delete().eq("file_id", fileId),
-      ]);
-
-      // Insert parsed tags in batches
-      if (parsed.tags.length > 0) {
-        const tagRecords = parsed.tags.map((tag) => ({
-          file_id: fileId,
-          version_id: versionId,
-          name: tag.name,
-          data_type: tag.dataType,
-          scope: tag.scope,
-          description: tag.description,
-          value: tag.value,
-          alias_for: tag.aliasFor,
-          usage: tag.usage,
-          radix: tag.radix,
-          external_access: tag.externalAccess,
-          dimensions: tag.dimensions,
-        }));
+      if (!isL5K && file.file_size > STREAMING_THRESHOLD_BYTES) {
+        // Read the export straight from storage so it never exists as one
+        // string, inserting tags, rungs and references as the parser emits them
+        const { data: signedUrl, error: signedUrlError } = await supabase.storage
+          .from("project-files")
+          .createSignedUrl(file.storage_path, 60);
 
-        // Insert in batches of 500
-        const batchSize = 500;
-        for (let i = 0; i < tagRecords.length; i += batchSize) {
-          const batch = tagRecords.slice(i, i + batchSize);
-          const { error: insertError } = await serviceSupabase
-            .from("parsed_tags")
-            .insert(batch);
-          if (insertError) {
-            console.error("Error inserting tags batch:", insertError);
-          }
+        if (signedUrlError || !signedUrl) {
+          throw new Error(signedUrlError?.message || "Failed to download file");
+        }
+
+        const response = await fetch(signedUrl.signedUrl);
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to download file: ${response.statusText}`);
+        }
+
+        // The previous parse stays in place until this one has read the whole
+        // file; the rows it streams in are told apart by their creation time
+        const streamedAt = new Date().toISOString();
+        let streamed: Awaited<ReturnType<typeof parseL5XStream>>;
+        try {
+          streamed = await parseL5XStream(
+            response.body,
+            {
+              onTags: (tags) => insertTags(serviceSupabase, fileId, versionId, tags, streamedAt),
+              onRungs: (rungs) => insertRungs(serviceSupabase, fileId, versionId, rungs, streamedAt),
+              onTagReferences: (tagReferences) =>
+                insertTagReferences(serviceSupabase, fileId, tagReferences, streamedAt),
+            },
+            { batchSize: INSERT_BATCH_SIZE }
+          );
+        } catch (streamError) {
+          await discardStreamedRows(serviceSupabase, fileId, streamedAt);
+          throw streamError;
         }
+
+        await clearParsedData(serviceSupabase, fileId, streamedAt);
+        parsed = streamed.data;
+        streamedCounts = streamed.counts;
+      } else {
+        // Download file from storage
+        const { data: fileData, error: downloadError } = await supabase.storage
+          .from("project-files")
+          .download(file.storage_path);
+
+        if (downloadError || !fileData) {
+          throw new Error(downloadError?.message || "Failed to download file");
+        }
+
+        // Parse the file content based on file type
+        const content = await fileData.text();
+        parsed = isL5K ? parseL5K(content) : parseL5X(content);
+
+        await clearParsedData(serviceSupabase, fileId);
       }
 
+      const tagCount = streamedCounts?.tags ?? parsed.tags.length;
+      const rungCount = streamedCounts?.rungs ?? parsed.rungs.length;
+      const tagReferenceCount = streamedCounts?.tagReferences ?? parsed.tagReferences.length;
+
+      // Insert parsed tags in batches (streamed exports have already inserted theirs)
+      await insertTags(serviceSupabase, fileId, versionId, parsed.tags);
+
       // Insert parsed modules
       if (parsed.modules.length > 0) {
         const moduleRecords = parsed.modules.map((module) => ({
@@ -138,7 +349,20 @@ export async function POST(request: Request) {
           name: module.name,
           catalog_number: module.catalogNumber,
           parent_module: module.parentModule,
+          parent_port_id: module.parentPortId,
           slot: module.slot,
+          vendor_id: module.vendorId,
+          product_type: module.productType,
+          product_code: module.productCode,
+          major_revision: module.majorRevision,
+          minor_revision: module.minorRevision,
+          electronic_keying: module.electronicKeying,
+          inhibited: module.inhibited,
+          major_fault: module.majorFault,
+          ip_address: module.ipAddress,
+          rpi_ms: module.rpiMs,
+          ports: module.ports,
+          connections: module.connections,
           connection_info: module.connectionInfo,
         }));
 
@@ -159,7 +383,15 @@ export async function POST(request: Request) {
           program_name: routine.programName,
           type: routine.type,
           description: routine.description,
+          descriptions: routine.descriptions,
           rung_count: routine.rungCount,
+          is_protected: !!routine.protection,
+          protection_type: routine.protection?.kind,
+          encryption_config: routine.protection?.encryptionConfig,
+          max_complexity: routine.metrics?.maxComplexity ?? null,
+          avg_complexity: routine.metrics?.avgComplexity ?? null,
+          tag_fan_in: routine.metrics?.tagFanIn ?? null,
+          tag_fan_out: routine.metrics?.tagFanOut ?? null,
         }));
 
         const { error: insertError } = await serviceSupabase
@@ -170,52 +402,9 @@ export async function POST(request: Request) {
         }
       }
 
-      // Insert parsed rungs in batches
-      if (parsed.rungs.length > 0) {
-        const rungRecords = parsed.rungs.map((rung) => ({
-          file_id: fileId,
-          version_id: versionId,
-          routine_name: rung.routineName,
-          program_name: rung.programName,
-          number: rung.number,
-          content: rung.content,
-          comment: rung.comment,
-        }));
-
-        const batchSize = 500;
-        for (let i = 0; i < rungRecords.length; i += batchSize) {
-          const batch = rungRecords.slice(i, i + batchSize);
-          const { error: insertError } = await serviceSupabase
-            .from("parsed_rungs")
-            .insert(batch);
-          if (insertError) {
-            console.error("Error inserting rungs batch:", insertError);
-          }
-        }
-      }
-
-      // Insert tag references in batches
-      if (parsed.tagReferences.length > 0) {
-        const tagRefRecords = parsed.tagReferences.map((ref) => ({
-          file_id: fileId,
-          tag_name: ref.tagName,
-          routine_name: ref.routineName,
-          program_name: ref.programName,
-          rung_number: ref.rungNumber,
-          usage_type: ref.usageType,
-        }));
-
-        const batchSize = 500;
-        for (let i = 0; i < tagRefRecords.length; i += batchSize) {
-          const batch = tagRefRecords.slice(i, i + batchSize);
-          const { error: insertError } = await serviceSupabase
-            .from("tag_references")
-            .insert(batch);
-          if (insertError) {
-            console.error("Error inserting tag references batch:", insertError);
-          }
-        }
-      }
+      // Insert parsed rungs and tag references in batches
+      await insertRungs(serviceSupabase, fileId, versionId, parsed.rungs);
+      await insertTagReferences(serviceSupabase, fileId, parsed.tagReferences);
 
       // Insert parsed UDTs and their members
       if (parsed.udts.length > 0) {
@@ -227,6 +416,7 @@ export async function POST(request: Request) {
               version_id: versionId,
               name: udt.name,
               description: udt.description,
+              descriptions: udt.descriptions,
               family_type: udt.familyType,
             })
             .select("id")
@@ -246,6 +436,7 @@ export async function POST(request: Request) {
               radix: member.radix,
               external_access: member.externalAccess,
               description: member.description,
+              descriptions: member.descriptions,
             }));
 
             const { error: memberError } = await serviceSupabase
@@ -258,7 +449,7 @@ export async function POST(request: Request) {
         }
       }
 
-      // Insert parsed AOIs with their parameters, local tags, and routines
+      // Insert parsed AOIs with their parameters, local tags, routines and logic
       if (parsed.aois.length > 0) {
         for (const aoi of parsed.aois) {
           const { data: aoiRecord, error: aoiError } = await serviceSupabase
@@ -268,6 +459,7 @@ export async function POST(request: Request) {
               version_id: versionId,
               name: aoi.name,
               description: aoi.description,
+              descriptions: aoi.descriptions,
               revision: aoi.revision,
               vendor: aoi.vendor,
               execute_prescan: aoi.executePrescan,
@@ -277,6 +469,9 @@ export async function POST(request: Request) {
               created_by: aoi.createdBy,
               edited_date: aoi.editedDate,
               edited_by: aoi.editedBy,
+              is_protected: !!aoi.protection,
+              protection_type: aoi.protection?.kind,
+              encryption_config: aoi.protection?.encryptionConfig,
             })
             .select("id")
             .single();
@@ -298,6 +493,7 @@ export async function POST(request: Request) {
                 visible: param.visible,
                 external_access: param.externalAccess,
                 description: param.description,
+                descriptions: param.descriptions,
                 default_value: param.defaultValue,
               }));
 
@@ -318,6 +514,7 @@ export async function POST(request: Request) {
                 radix: tag.radix,
                 external_access: tag.externalAccess,
                 description: tag.description,
+                default_value: tag.defaultValue,
               }));
 
               const { error: localTagError } = await serviceSupabase
@@ -345,6 +542,27 @@ export async function POST(request: Request) {
                 console.error("Error inserting AOI routines:", routineError);
               }
             }
+
+            // Insert AOI rungs and ST lines
+            if (aoi.rungs.length > 0) {
+              const rungRecords = aoi.rungs.map((rung) => ({
+                aoi_id: aoiRecord.id,
+                routine_name: rung.routineName,
+                number: rung.number,
+                content: rung.content,
+                comment: rung.comment,
+              }));
+
+              for (let i = 0; i < rungRecords.length; i += INSERT_BATCH_SIZE) {
+                const batch = rungRecords.slice(i, i + INSERT_BATCH_SIZE);
+                const { error: rungError } = await serviceSupabase
+                  .from("parsed_aoi_rungs")
+                  .insert(batch);
+                if (rungError) {
+                  console.error("Error inserting AOI rungs:", rungError);
+                }
+              }
+            }
           }
         }
       }
@@ -363,6 +581,7 @@ export async function POST(request: Request) {
           disable_update_outputs: task.disableUpdateOutputs,
           description: task.description,
           scheduled_programs: task.scheduledPrograms,
+          task_class: task.taskClass,
         }));
 
         const { error: insertError } = await serviceSupabase
@@ -373,7 +592,208 @@ export async function POST(request: Request) {
         }
       }
 
-      // Update status to completed, and store export type metadata
+      // Insert parsed programs
+      if (parsed.programs.length > 0) {
+        const programRecords = parsed.programs.map((program) => ({
+          file_id: fileId,
+          version_id: versionId,
+          name: program.name,
+          description: program.description,
+          descriptions: program.descriptions,
+          main_routine_name: program.mainRoutineName,
+          fault_routine_name: program.faultRoutineName,
+          disabled: program.disabled,
+          use_as_folder: program.useAsFolder,
+          test_edits: program.testEdits,
+          program_class: program.programClass,
+          parent_program: program.parentProgram,
+          child_programs: program.childPrograms,
+          task_name: program.taskName,
+        }));
+
+        const { error: insertError } = await serviceSupabase
+          .from("parsed_programs")
+          .insert(programRecords);
+        if (insertError) {
+          console.error("Error inserting programs:", insertError);
+        }
+      }
+
+      // Insert FBD sheets with their elements and wires
+      if (parsed.fbdSheets.length > 0) {
+        for (const sheet of parsed.fbdSheets) {
+          const { data: sheetRecord, error: sheetError } = await serviceSupabase
+            .from("parsed_fbd_sheets")
+            .insert({
+              file_id: fileId,
+              version_id: versionId,
+              routine_name: sheet.routineName,
+              program_name: sheet.programName,
+              number: sheet.number,
+              description: sheet.description,
+            })
+            .select("id")
+            .single();
+
+          if (sheetError || !sheetRecord) {
+            console.error("Error inserting FBD sheet:", sheetError);
+            continue;
+          }
+
+          if (sheet.elements.length > 0) {
+            const elementRecords = sheet.elements.map((element) => ({
+              sheet_id: sheetRecord.id,
+              element_id: element.id,
+              element_type: element.elementType,
+              instruction: element.instruction,
+              operand: element.operand,
+              connector_name: element.connectorName,
+              x: element.x,
+              y: element.y,
+              visible_pins: element.visiblePins,
+              bindings: element.bindings,
+            }));
+
+            const { error: elementError } = await serviceSupabase
+              .from("parsed_fbd_elements")
+              .insert(elementRecords);
+            if (elementError) {
+              console.error("Error inserting FBD elements:", elementError);
+            }
+          }
+
+          if (sheet.wires.length > 0) {
+            const wireRecords = sheet.wires.map((wire) => ({
+              sheet_id: sheetRecord.id,
+              from_id: wire.fromId,
+              from_param: wire.fromParam,
+              to_id: wire.toId,
+              to_param: wire.toParam,
+              feedback: wire.feedback,
+            }));
+
+            const { error: wireError } = await serviceSupabase
+              .from("parsed_fbd_wires")
+              .insert(wireRecords);
+            if (wireError) {
+              console.error("Error inserting FBD wires:", wireError);
+            }
+          }
+        }
+      }
+
+      // Insert SFC charts (nodes and links stored as JSON graphs)
+      if (parsed.sfcCharts.length > 0) {
+        const chartRecords = parsed.sfcCharts.map((chart) => ({
+          file_id: fileId,
+          version_id: versionId,
+          routine_name: chart.routineName,
+          program_name: chart.programName,
+          nodes: chart.nodes,
+          links: chart.links,
+        }));
+
+        const { error: insertError } = await serviceSupabase
+          .from("parsed_sfc_charts")
+          .insert(chartRecords);
+        if (insertError) {
+          console.error("Error inserting SFC charts:", insertError);
+        }
+      }
+
+      // Insert produced/consumed tags and MESSAGE configuration
+      if (parsed.communications.length > 0) {
+        const communicationRecords = parsed.communications.map((communication) => ({
+          file_id: fileId,
+          version_id: versionId,
+          kind: communication.kind,
+          tag_name: communication.tagName,
+          scope: communication.scope,
+          data_type: communication.dataType,
+          produce_count: communication.produceCount,
+          unicast_permitted: communication.unicastPermitted,
+          producer: communication.producer,
+          remote_tag: communication.remoteTag,
+          remote_instance: communication.remoteInstance,
+          rpi_ms: communication.rpiMs,
+          unicast: communication.unicast,
+          message_type: communication.messageType,
+          connection_path: communication.connectionPath,
+          remote_element: communication.remoteElement,
+          local_element: communication.localElement,
+          connected: communication.connected,
+          cache_connections: communication.cacheConnections,
+          requested_length: communication.requestedLength,
+        }));
+
+        const { error: insertError } = await serviceSupabase
+          .from("parsed_communications")
+          .insert(communicationRecords);
+        if (insertError) {
+          console.error("Error inserting communications:", insertError);
+        }
+      }
+
+      // Insert alarm configuration
+      if (parsed.alarms.length > 0) {
+        const alarmRecords = parsed.alarms.map((alarm) => ({
+          file_id: fileId,
+          version_id: versionId,
+          kind: alarm.kind,
+          tag_name: alarm.tagName,
+          scope: alarm.scope,
+          data_type: alarm.dataType,
+          condition: alarm.condition,
+          input: alarm.input,
+          condition_type: alarm.conditionType,
+          limit_value: alarm.limit,
+          severity: alarm.severity,
+          deadband: alarm.deadband,
+          on_delay_ms: alarm.onDelayMs,
+          off_delay_ms: alarm.offDelayMs,
+          latched: alarm.latched,
+          ack_required: alarm.ackRequired,
+          message: alarm.message,
+        }));
+
+        for (let i = 0; i < alarmRecords.length; i += INSERT_BATCH_SIZE) {
+          const batch = alarmRecords.slice(i, i + INSERT_BATCH_SIZE);
+          const { error: insertError } = await serviceSupabase
+            .from("parsed_alarms")
+            .insert(batch);
+          if (insertError) {
+            console.error("Error inserting alarms:", insertError);
+          }
+        }
+      }
+
+      // Insert AOI call sites with their parameter bindings
+      if (parsed.aoiCalls.length > 0) {
+        const callRecords = parsed.aoiCalls.map((call) => ({
+          file_id: fileId,
+          version_id: versionId,
+          aoi_name: call.aoiName,
+          instance_tag: call.instanceTag,
+          program_name: call.programName,
+          routine_name: call.routineName,
+          rung_number: call.rungNumber,
+          bindings: call.bindings,
+        }));
+
+        for (let i = 0; i < callRecords.length; i += INSERT_BATCH_SIZE) {
+          const batch = callRecords.slice(i, i + INSERT_BATCH_SIZE);
+          const { error: insertError } = await serviceSupabase
+            .from("parsed_aoi_calls")
+            .insert(batch);
+          if (insertError) {
+            console.error("Error inserting AOI calls:", insertError);
+          }
+        }
+      }
+
+      const diagnosticCounts = await replaceDiagnostics(serviceSupabase, fileId, versionId, parsed.diagnostics);
+
+      // Update status to completed, and store export type metadata, safety state and diagnostic counts
       await supabase
         .from("project_files")
         .update({
@@ -381,6 +801,12 @@ export async function POST(request: Request) {
           parsing_error: null,
           target_type: parsed.metadata.targetType || null,
           target_name: parsed.metadata.targetName || null,
+          safety_signature: parsed.safety?.signature ?? null,
+          safety_locked: parsed.safety?.locked ?? null,
+          safety_level: parsed.safety?.level ?? null,
+          safety_tag_map: parsed.safety?.tagMap ?? null,
+          documentation_languages: parsed.metadata.documentationLanguages ?? null,
+          ...diagnosticCounts,
         })
         .eq("id", fileId);
 
@@ -394,39 +820,62 @@ export async function POST(request: Request) {
         targetId: fileId,
         targetName: file.file_name,
         metadata: {
-          tags: parsed.tags.length,
+          tags: tagCount,
           modules: parsed.modules.length,
           routines: parsed.routines.length,
-          rungs: parsed.rungs.length,
+          rungs: rungCount,
           udts: parsed.udts.length,
           aois: parsed.aois.length,
           tasks: parsed.tasks.length,
+          programs: parsed.programs.length,
+          fbdSheets: parsed.fbdSheets.length,
+          sfcCharts: parsed.sfcCharts.length,
+          communications: parsed.communications.length,
+          alarms: parsed.alarms.length,
+          aoiCalls: parsed.aoiCalls.length,
+          diagnostics: parsed.diagnostics.length,
         },
       });
 
       return NextResponse.json({
         success: true,
         stats: {
-          tags: parsed.tags.length,
+          tags: tagCount,
           modules: parsed.modules.length,
           routines: parsed.routines.length,
-          rungs: parsed.rungs.length,
-          tagReferences: parsed.tagReferences.length,
+          rungs: rungCount,
+          tagReferences: tagReferenceCount,
           udts: parsed.udts.length,
           aois: parsed.aois.length,
           tasks: parsed.tasks.length,
+          programs: parsed.programs.length,
+          fbdSheets: parsed.fbdSheets.length,
+          sfcCharts: parsed.sfcCharts.length,
+          communications: parsed.communications.length,
+          alarms: parsed.alarms.length,
+          aoiCalls: parsed.aoiCalls.length,
+          diagnostics: parsed.diagnostics.length,
         },
       });
     } catch (parseError) {
       const errorMessage =
         parseError instanceof Error ? parseError.message : "Unknown parsing error";
 
+      // A file the parser rejected keeps the diagnostic saying why; other failures leave none
+      const diagnosticCounts = await replaceDiagnostics(
+        serviceSupabase,
+        fileId,
+        versionId,
+        parseError instanceof ParseFailure ? parseError.diagnostics : []
+      );
+
       // Update status to failed
       await supabase
         .from("project_files")
         .update({
           parsing_status: "failed",
           parsing_error: errorMessage,
+          ...diagnosticCounts,
         })
         .eq("id", fileId);
 
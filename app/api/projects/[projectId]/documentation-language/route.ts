@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { createClient, createServiceClient } from "@/lib/supabase/server";
+
+interface RouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const { projectId } = await context.params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Verify user can edit this project (creator, or edit/owner share)
+    const { data: project } = await supabase
+      .from("projects")
+      .select("id, created_by")
+      .eq("id", projectId)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found or access denied" }, { status: 404 });
+    }
+
+    let canEdit = project.created_by === user.id;
+
+    if (!canEdit) {
+      // Check for edit or owner share
+      const { data: share } = await supabase
+        .from("project_shares")
+        .select("permission")
+        .eq("project_id", projectId)
+        .eq("shared_with_user_id", user.id)
+        .in("permission", ["edit", "owner"])
+        .not("accepted_at", "is", null)
+        .single();
+
+      canEdit = !!share;
+    }
+
+    if (!canEdit) {
+      return NextResponse.json({ error: "Permission denied" }, { status: 403 });
+    }
+
+    const { language } = await request.json();
+
+    // Language codes as Studio 5000 writes them, e.g. en-US; null shows each file's first language
+    if (language !== null && (typeof language !== "string" || !/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(language))) {
+      return NextResponse.json({ error: "Invalid language code" }, { status: 400 });
+    }
+
+    // Use service client for the update to bypass RLS
+    const serviceSupabase = createServiceClient();
+    const { error } = await serviceSupabase
+      .from("projects")
+      .update({ documentation_language: language })
+      .eq("id", projectId);
+
+    if (error) throw error;
+
+    return NextResponse.json({ language });
+  } catch (error) {
+    console.error("Update documentation language error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
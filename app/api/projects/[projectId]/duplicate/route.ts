@@ -74,6 +74,7 @@ export async function POST(request: Request, context: RouteContext) {
         description: sourceProject.description,
         created_by: user.id,
         naming_rule_set_id: includeNamingRules ? sourceProject.naming_rule_set_id : null,
+        documentation_language: sourceProject.documentation_language,
       })
       .select("id")
       .single();
@@ -390,7 +391,7 @@ export async function POST(request: Request, context: RouteContext) {
           }
         }
 
-        // parsed_aois → parsed_aoi_parameters, parsed_aoi_local_tags, parsed_aoi_routines
+        // parsed_aois → parsed_aoi_parameters, parsed_aoi_local_tags, parsed_aoi_routines, parsed_aoi_rungs
         const { data: aois } = await serviceClient
           .from("parsed_aois")
           .select("*")
@@ -453,8 +454,164 @@ export async function POST(request: Request, context: RouteContext) {
               }));
               await serviceClient.from("parsed_aoi_routines").insert(aoiRoutineRecords);
             }
+
+            // Copy AOI rungs
+            const { data: aoiRungs } = await serviceClient
+              .from("parsed_aoi_rungs")
+              .select("*")
+              .eq("aoi_id", oldAoiId);
+
+            if (aoiRungs && aoiRungs.length > 0) {
+              const aoiRungRecords = aoiRungs.map(({ id: _id, created_at: _ca, aoi_id: _aid, ...rrest }) => ({
+                ...rrest,
+                aoi_id: newAoi!.id,
+              }));
+              await insertBatched(serviceClient, "parsed_aoi_rungs", aoiRungRecords);
+            }
+          }
+        }
+
+        // parsed_fbd_sheets → parsed_fbd_elements, parsed_fbd_wires
+        const { data: fbdSheets } = await serviceClient
+          .from("parsed_fbd_sheets")
+          .select("*")
+          .eq("file_id", oldFileId)
+          .order("created_at");
+
+        if (fbdSheets && fbdSheets.length > 0) {
+          for (const sheet of fbdSheets) {
+            const { id: oldSheetId, created_at: _ca, file_id: _fid, version_id: vid, ...rest } = sheet;
+            const { data: newSheet, error } = await serviceClient
+              .from("parsed_fbd_sheets")
+              .insert({
+                ...rest,
+                file_id: newFileId,
+                version_id: remapVersion(vid),
+              })
+              .select("id")
+              .single();
+
+            if (error) throw new Error(`Failed to copy FBD sheet: ${error.message}`);
+
+            // Copy FBD elements
+            const { data: elements } = await serviceClient
+              .from("parsed_fbd_elements")
+              .select("*")
+              .eq("sheet_id", oldSheetId);
+
+            if (elements && elements.length > 0) {
+              const elementRecords = elements.map(({ id: _id, created_at: _ca, sheet_id: _sid, ...erest }) => ({
+                ...erest,
+                sheet_id: newSheet!.id,
+              }));
+              await insertBatched(serviceClient, "parsed_fbd_elements", elementRecords);
+            }
+
+            // Copy FBD wires
+            const { data: wires } = await serviceClient
+              .from("parsed_fbd_wires")
+              .select("*")
+              .eq("sheet_id", oldSheetId);
+
+            if (wires && wires.length > 0) {
+              const wireRecords = wires.map(({ id: _id, created_at: _ca, sheet_id: _sid, ...wrest }) => ({
+                ...wrest,
+                sheet_id: newSheet!.id,
+              }));
+              await insertBatched(serviceClient, "parsed_fbd_wires", wireRecords);
+            }
           }
         }
+
+        // parsed_sfc_charts
+        const { data: sfcCharts } = await serviceClient
+          .from("parsed_sfc_charts")
+          .select("*")
+          .eq("file_id", oldFileId);
+
+        if (sfcCharts && sfcCharts.length > 0) {
+          const sfcChartRecords = sfcCharts.map(({ id: _id, created_at: _ca, file_id: _fid, version_id: vid, ...rest }) => ({
+            ...rest,
+            file_id: newFileId,
+            version_id: remapVersion(vid),
+          }));
+          await insertBatched(serviceClient, "parsed_sfc_charts", sfcChartRecords);
+        }
+
+        // parsed_programs
+        const { data: programs } = await serviceClient
+          .from("parsed_programs")
+          .select("*")
+          .eq("file_id", oldFileId);
+
+        if (programs && programs.length > 0) {
+          const programRecords = programs.map(({ id: _id, created_at: _ca, file_id: _fid, version_id: vid, ...rest }) => ({
+            ...rest,
+            file_id: newFileId,
+            version_id: remapVersion(vid),
+          }));
+          await insertBatched(serviceClient, "parsed_programs", programRecords);
+        }
+
+        // parse_diagnostics
+        const { data: diagnostics } = await serviceClient
+          .from("parse_diagnostics")
+          .select("*")
+          .eq("file_id", oldFileId);
+
+        if (diagnostics && diagnostics.length > 0) {
+          const diagnosticRecords = diagnostics.map(({ id: _id, created_at: _ca, file_id: _fid, version_id: vid, ...rest }) => ({
+            ...rest,
+            file_id: newFileId,
+            version_id: remapVersion(vid),
+          }));
+          await insertBatched(serviceClient, "parse_diagnostics", diagnosticRecords);
+        }
+
+        // parsed_communications
+        const { data: communications } = await serviceClient
+          .from("parsed_communications")
+          .select("*")
+          .eq("file_id", oldFileId);
+
+        if (communications && communications.length > 0) {
+          const communicationRecords = communications.map(({ id: _id, created_at: _ca, file_id: _fid, version_id: vid, ...rest }) => ({
+            ...rest,
+            file_id: newFileId,
+            version_id: remapVersion(vid),
+          }));
+          await insertBatched(serviceClient, "parsed_communications", communicationRecords);
+        }
+
+        // parsed_alarms
+        const { data: alarms } = await serviceClient
+          .from("parsed_alarms")
+          .select("*")
+          .eq("file_id", oldFileId);
+
+        if (alarms && alarms.length > 0) {
+          const alarmRecords = alarms.map(({ id: _id, created_at: _ca, file_id: _fid, version_id: vid, ...rest }) => ({
+            ...rest,
+            file_id: newFileId,
+            version_id: remapVersion(vid),
+          }));
+          await insertBatched(serviceClient, "parsed_alarms", alarmRecords);
+        }
+
+        // parsed_aoi_calls
+        const { data: aoiCalls } = await serviceClient
+          .from("parsed_aoi_calls")
+          .select("*")
+          .eq("file_id", oldFileId);
+
+        if (aoiCalls && aoiCalls.length > 0) {
+          const aoiCallRecords = aoiCalls.map(({ id: _id, created_at: _ca, file_id: _fid, version_id: vid, ...rest }) => ({
+            ...rest,
+            file_id: newFileId,
+            version_id: remapVersion(vid),
+          }));
+          await insertBatched(serviceClient, "parsed_aoi_calls", aoiCallRecords);
+        }
       }
     }
 
@@ -1,5 +1,9 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { isStudio5000CSV, parseStudio5000CSV } from "@/lib/studio5000-csv";
+import { isWorkbookSheets, MAX_WORKBOOK_ROWS, parseTagWorkbook } from "@/lib/tag-workbook";
+
+const MAX_SHEETS_LENGTH = 50 * 1024 * 1024; // 50MB of posted cell text
 
 interface ImportedTag {
   name: string;
@@ -100,14 +104,92 @@ export async function POST(request: Request) {
 
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
+    const sheetsField = formData.get("sheets");
+
+    // Excel workbooks are read in the browser, which posts each sheet's cell text
+    if (typeof sheetsField === "string") {
+      if (sheetsField.length > MAX_SHEETS_LENGTH) {
+        return NextResponse.json({ error: "Workbook exceeds maximum size of 50MB" }, { status: 400 });
+      }
+
+      let sheets: unknown;
+      try {
+        sheets = JSON.parse(sheetsField);
+      } catch {
+        sheets = undefined;
+      }
+      if (!isWorkbookSheets(sheets)) {
+        return NextResponse.json({ error: "sheets must be a JSON array of sheet names and rows" }, { status: 400 });
+      }
+      if (sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0) > MAX_WORKBOOK_ROWS) {
+        return NextResponse.json(
+          { error: `Workbook exceeds maximum of ${MAX_WORKBOOK_ROWS.toLocaleString()} rows` },
+          { status: 400 }
+        );
+      }
+
+      // The project's data types, so rows using them pass type validation, and its
+      // scopes, so sheets named after a program import into that program
+      const nameList = (field: string): string[] | undefined => {
+        const value = formData.get(field);
+        try {
+          const parsed = typeof value === "string" ? JSON.parse(value) : [];
+          return Array.isArray(parsed) ? parsed.filter((t): t is string => typeof t === "string") : [];
+        } catch {
+          return undefined;
+        }
+      };
+      const dataTypes = nameList("dataTypes");
+      const scopes = nameList("scopes");
+      if (!dataTypes || !scopes) {
+        return NextResponse.json({ error: "dataTypes and scopes must be JSON arrays of names" }, { status: 400 });
+      }
+
+      const result = parseTagWorkbook(sheets, dataTypes, scopes);
+
+      if (result.sheets.length === 0) {
+        return NextResponse.json(
+          { error: "No sheet has a header row with Name and Data Type columns" },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        tags: result.tags,
+        count: result.tags.length,
+        format: "xlsx",
+        sheets: result.sheets,
+        errors: result.errors,
+      });
+    }
 
     if (!file) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
     }
 
+    if (/\.xlsx?$/i.test(file.name)) {
+      return NextResponse.json({ error: "Excel workbooks must be posted as sheets, not as a file" }, { status: 400 });
+    }
+
     const content = await file.text();
 
     try {
+      // Studio 5000's own export is recognized by its remark lines and TYPE header
+      if (isStudio5000CSV(content)) {
+        const { tags, skippedRows } = parseStudio5000CSV(content);
+
+        if (tags.length === 0) {
+          return NextResponse.json({ error: "No tags found in Studio 5000 CSV" }, { status: 400 });
+        }
+
+        return NextResponse.json({
+          tags,
+          count: tags.length,
+          format: "studio5000",
+          skippedRows,
+        });
+      }
+
       const tags = parseCSV(content);
 
       if (tags.length === 0) {
@@ -117,6 +199,7 @@ export async function POST(request: Request) {
       return NextResponse.json({
         tags,
         count: tags.length,
+        format: "table",
       });
     } catch (parseError) {
       return NextResponse.json(
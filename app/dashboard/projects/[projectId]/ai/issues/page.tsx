@@ -5,6 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, AlertTriangle } from "lucide-react";
 import { IssueFinder } from "@/components/ai/issue-finder";
+import { OutputConflictList } from "@/components/analysis/output-conflict-list";
+import { ExportCSVButton } from "@/components/export-csv-button";
+import { findOutputConflicts, type OutputConflict } from "@/lib/output-conflicts";
 
 interface IssuesPageProps {
   params: Promise<{ projectId: string }>;
@@ -33,6 +36,32 @@ export default async function IssuesPage({ params }: IssuesPageProps) {
   ) || [];
   const hasData = completedFiles.length > 0;
 
+  // Output conflicts come straight from the stored references, no AI involved
+  let outputConflicts: OutputConflict[] = [];
+  let hasWriteInstructions = true;
+  if (hasData) {
+    const fileIds = completedFiles.map((f: { id: string }) => f.id);
+    const [{ data: tags }, { data: references }, { data: programs }, { data: tasks }] = await Promise.all([
+      supabase.from("parsed_tags").select("file_id, name, scope, alias_for").in("file_id", fileIds),
+      supabase
+        .from("tag_references")
+        .select("file_id, tag_name, program_name, routine_name, rung_number, usage_type, indirect_index, write_instructions")
+        .in("file_id", fileIds)
+        .neq("usage_type", "read"),
+      supabase.from("parsed_programs").select("file_id, name, task_name").in("file_id", fileIds),
+      supabase.from("parsed_tasks").select("file_id, name, priority, scheduled_programs").in("file_id", fileIds),
+    ]);
+
+    outputConflicts = findOutputConflicts({
+      tags: tags || [],
+      references: references || [],
+      programs: programs || [],
+      tasks: tasks || [],
+    });
+    // Files parsed before writing instructions were recorded cannot show coil conflicts
+    hasWriteInstructions = (references || []).length === 0 || (references || []).some((r) => r.write_instructions);
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -64,18 +93,61 @@ export default async function IssuesPage({ params }: IssuesPageProps) {
           </CardContent>
         </Card>
       ) : (
-        <Card>
-          <CardHeader>
-            <CardTitle>Scan for Issues</CardTitle>
-            <CardDescription>
-              Let AI analyze your project for potential bugs, anti-patterns,
-              and improvement opportunities. This scans routines, tags, and rungs.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <IssueFinder projectId={projectId} />
-          </CardContent>
-        </Card>
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>Output Conflicts</CardTitle>
+                  <CardDescription>
+                    Double coils, latches that are never unlatched, and tags written from tasks of
+                    different priority, found from the tag cross-reference.
+                  </CardDescription>
+                </div>
+                {outputConflicts.length > 0 && (
+                  <ExportCSVButton
+                    filename="output_conflicts.csv"
+                    data={[
+                      ["Severity", "Conflict", "Tag", "Program", "Routine", "Rung", "Instruction", "Task"],
+                      ...outputConflicts.flatMap((c) =>
+                        c.locations.map((l) => [
+                          c.severity,
+                          c.kind,
+                          c.tagName,
+                          l.programName,
+                          l.routineName,
+                          String(l.rungNumber),
+                          l.instruction || "",
+                          l.taskName || "",
+                        ])
+                      ),
+                    ]}
+                  />
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {!hasWriteInstructions && (
+                <p className="text-sm text-muted-foreground">
+                  Re-parse the project files to check for duplicate outputs and unmatched OTL instructions; only multi-task writes can be checked for files parsed by earlier versions.
+                </p>
+              )}
+              <OutputConflictList conflicts={outputConflicts} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Scan for Issues</CardTitle>
+              <CardDescription>
+                Let AI analyze your project for potential bugs, anti-patterns,
+                and improvement opportunities. This scans routines, tags, and rungs.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <IssueFinder projectId={projectId} />
+            </CardContent>
+          </Card>
+        </>
       )}
     </div>
   );
@@ -0,0 +1,231 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getProjectAccess } from "@/lib/project-access";
+import {
+  ALARM_COLUMNS,
+  ALARM_KIND_LABELS,
+  compareAlarms,
+  getAlarmName,
+  type AlarmRow,
+} from "@/lib/alarms";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Download } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+
+interface AlarmsPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+// ISA-18.2 style priority bands over the 1-1000 Logix severity range
+function severityVariant(severity: number | null) {
+  if (severity == null) return "outline" as const;
+  if (severity > 750) return "destructive" as const;
+  if (severity > 500) return "default" as const;
+  if (severity > 250) return "secondary" as const;
+  return "outline" as const;
+}
+
+export default async function AlarmsPage({ params }: AlarmsPageProps) {
+  const { projectId } = await params;
+
+  const access = await getProjectAccess();
+  if (!access) notFound();
+  const { supabase } = access;
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("id, name, project_files(id, file_name)")
+    .eq("id", projectId)
+    .single();
+
+  if (projectError || !project) {
+    notFound();
+  }
+
+  const fileIds = project.project_files?.map((f: { id: string }) => f.id) || [];
+  const fileMap = new Map<string, string>(
+    project.project_files?.map((f: { id: string; file_name: string }) => [f.id, f.file_name]) || []
+  );
+
+  const header = (
+    <div className="flex items-center gap-4">
+      <Button variant="ghost" size="icon" asChild>
+        <Link href={`/dashboard/projects/${projectId}`}>
+          <ArrowLeft className="h-4 w-4" />
+        </Link>
+      </Button>
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Alarms</h1>
+        <p className="text-muted-foreground">{project.name}</p>
+      </div>
+    </div>
+  );
+
+  if (fileIds.length === 0) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground mb-4">
+              No files have been uploaded to this project yet.
+            </p>
+            <Button asChild>
+              <Link href={`/dashboard/projects/${projectId}/files`}>
+                Upload Files
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { data } = await supabase
+    .from("parsed_alarms")
+    .select(ALARM_COLUMNS)
+    .in("file_id", fileIds);
+
+  const alarms = ((data || []) as AlarmRow[]).sort(compareAlarms);
+
+  if (alarms.length === 0) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">
+              No alarms found in the uploaded files. ALARM_DIGITAL and ALARM_ANALOG tags and tag-based alarms are listed here.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const countByKind = (kind: AlarmRow["kind"]) => alarms.filter((a) => a.kind === kind).length;
+  const exportUrl = `/api/export/alarms?projectId=${projectId}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        {header}
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={exportUrl} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`${exportUrl}&format=xlsx`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export XLSX
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total Alarms</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{alarms.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Digital (ALMD)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{countByKind("digital")}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Analog (ALMA)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{countByKind("analog")}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Tag-based</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{countByKind("condition") + countByKind("definition")}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Alarm Table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Alarm</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Severity</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead className="text-right">Deadband</TableHead>
+                <TableHead className="text-right">Delay (ms)</TableHead>
+                <TableHead>Options</TableHead>
+                <TableHead>File</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alarms.map((alarm, i) => (
+                <TableRow key={`${alarm.file_id}-${alarm.scope}-${getAlarmName(alarm)}-${i}`}>
+                  <TableCell className="font-mono text-sm">
+                    {getAlarmName(alarm)}
+                    {alarm.scope !== "Controller" && (
+                      <span className="text-xs text-muted-foreground ml-1">({alarm.scope})</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{ALARM_KIND_LABELS[alarm.kind]}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={severityVariant(alarm.severity)}>{alarm.severity ?? "-"}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm max-w-xs truncate" title={alarm.message || undefined}>
+                    {alarm.message || "-"}
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {[alarm.input, alarm.condition_type, alarm.limit_value].filter((v) => v != null && v !== "").join(" ") || "-"}
+                  </TableCell>
+                  <TableCell className="text-right">{alarm.deadband ?? "-"}</TableCell>
+                  <TableCell className="text-right">
+                    {alarm.on_delay_ms || alarm.off_delay_ms
+                      ? `${alarm.on_delay_ms ?? 0} / ${alarm.off_delay_ms ?? 0}`
+                      : "-"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      {alarm.latched && <Badge variant="outline" className="text-xs">Latched</Badge>}
+                      {alarm.ack_required && <Badge variant="outline" className="text-xs">Ack</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{fileMap.get(alarm.file_id) || "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getProjectAccess } from "@/lib/project-access";
+import { buildCallGraph } from "@/lib/call-graph";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, AlertTriangle } from "lucide-react";
+import { ExportCSVButton } from "@/components/export-csv-button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { RoutineCallTree } from "@/components/analysis/routine-call-tree";
+
+interface CallGraphPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+export default async function CallGraphPage({ params }: CallGraphPageProps) {
+  const { projectId } = await params;
+
+  const access = await getProjectAccess();
+  if (!access) notFound();
+  const { supabase } = access;
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("id, name, project_files(id)")
+    .eq("id", projectId)
+    .single();
+
+  if (projectError || !project) {
+    notFound();
+  }
+
+  const fileIds = project.project_files?.map((f: { id: string }) => f.id) || [];
+
+  const header = (
+    <div className="flex items-center gap-4">
+      <Button variant="ghost" size="icon" asChild>
+        <Link href={`/dashboard/projects/${projectId}/analysis`}>
+          <ArrowLeft className="h-4 w-4" />
+        </Link>
+      </Button>
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Routine Call Graph</h1>
+        <p className="text-muted-foreground">{project.name}</p>
+      </div>
+    </div>
+  );
+
+  if (fileIds.length === 0) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground mb-4">
+              No files have been uploaded to this project yet.
+            </p>
+            <Button asChild>
+              <Link href={`/dashboard/projects/${projectId}/files`}>
+                Upload Files
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const [{ data: programs }, { data: routines }, { data: rungs }, { data: tasks }] = await Promise.all([
+    supabase
+      .from("parsed_programs")
+      .select("file_id, name, main_routine_name, fault_routine_name, parent_program")
+      .in("file_id", fileIds),
+    supabase
+      .from("parsed_routines")
+      .select("file_id, name, program_name, type, rung_count")
+      .in("file_id", fileIds),
+    // Only rungs that can hold a call, parameter or return matter here
+    supabase
+      .from("parsed_rungs")
+      .select("file_id, program_name, routine_name, number, content")
+      .in("file_id", fileIds)
+      .or("content.ilike.%JSR%,content.ilike.%SBR%,content.ilike.%RET%"),
+    supabase
+      .from("parsed_tasks")
+      .select("file_id, scheduled_programs")
+      .in("file_id", fileIds),
+  ]);
+
+  const graph = buildCallGraph({
+    programs: programs || [],
+    routines: routines || [],
+    rungs: rungs || [],
+    tasks: tasks || [],
+  });
+
+  if (graph.programs.length === 0) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">
+              No program routines found. Re-parse files uploaded before program properties were recorded, or upload an export that includes programs.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const totalRoutines = graph.programs.reduce((sum, p) => sum + p.routines.length, 0);
+  const unverified = graph.programs.flatMap((p) => p.routines.filter((r) => r.unverified));
+  const unreachablePct = graph.totalRungs > 0 ? Math.round((graph.unreachableRungs / graph.totalRungs) * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        {header}
+        <ExportCSVButton
+          filename="routine_calls.csv"
+          data={[
+            ["Program", "Caller", "Rung", "Called Routine", "Input Parameters", "Return Parameters", "Status"],
+            ...graph.calls.map((call) => [
+              call.programName,
+              call.caller,
+              String(call.rungNumber),
+              call.callee,
+              call.inputs.join("; "),
+              call.returns.join("; "),
+              graph.missingTargets.includes(call)
+                ? "Missing target"
+                : graph.parameterMismatches.some((m) => m.call === call)
+                  ? "Parameter mismatch"
+                  : "",
+            ]),
+          ]}
+        />
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Routines</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{totalRoutines}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">JSR Calls</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{graph.calls.length}</p>
+          </CardContent>
+        </Card>
+        <Card className={graph.unreachable.length > 0 ? "border-yellow-500/50" : ""}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Unreachable Routines</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-3xl font-bold ${graph.unreachable.length > 0 ? "text-yellow-500" : ""}`}>
+              {graph.unreachable.length}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">{unreachablePct}% of rungs never run</p>
+          </CardContent>
+        </Card>
+        <Card className={graph.missingTargets.length > 0 ? "border-destructive/50" : ""}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Missing JSR Targets</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-3xl font-bold ${graph.missingTargets.length > 0 ? "text-destructive" : ""}`}>
+              {graph.missingTargets.length}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Recursion alert */}
+      {graph.recursion.length > 0 && (
+        <Card className="border-yellow-500/50">
+          <CardContent className="py-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium text-yellow-600 dark:text-yellow-400">
+                  {graph.recursion.length} recursive call {graph.recursion.length === 1 ? "chain" : "chains"}
+                </p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Each pass through a recursive JSR adds to the scan time and can overflow the controller&apos;s call stack.
+                </p>
+                <ul className="text-sm mt-2 space-y-1">
+                  {graph.recursion.map((r) => (
+                    <li key={`${r.fileId}/${r.programName}/${r.cycle.join(">")}`} className="font-mono">
+                      {r.programName}: {r.cycle.join(" → ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Missing targets and parameter mismatches */}
+      {(graph.missingTargets.length > 0 || graph.parameterMismatches.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Call Problems</CardTitle>
+            <CardDescription>
+              JSRs to routines that do not exist in the program, and JSRs whose parameters do not match the called routine&apos;s SBR and RET
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Program</TableHead>
+                  <TableHead>Caller</TableHead>
+                  <TableHead className="text-right">Rung</TableHead>
+                  <TableHead>Called Routine</TableHead>
+                  <TableHead>Problem</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {graph.missingTargets.map((call, i) => (
+                  <TableRow key={`missing-${i}`}>
+                    <TableCell>{call.programName}</TableCell>
+                    <TableCell className="font-mono">{call.caller}</TableCell>
+                    <TableCell className="text-right font-mono">{call.rungNumber}</TableCell>
+                    <TableCell className="font-mono">{call.callee}</TableCell>
+                    <TableCell>
+                      <Badge variant="destructive" className="text-xs">Routine not found</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {graph.parameterMismatches.map(({ call, expectedInputs, expectedReturns }, i) => (
+                  <TableRow key={`params-${i}`}>
+                    <TableCell>{call.programName}</TableCell>
+                    <TableCell className="font-mono">{call.caller}</TableCell>
+                    <TableCell className="text-right font-mono">{call.rungNumber}</TableCell>
+                    <TableCell className="font-mono">{call.callee}</TableCell>
+                    <TableCell className="text-sm">
+                      Passes {call.inputs.length} in / {call.returns.length} out; routine takes {expectedInputs} in / {expectedReturns} out
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Unreachable routines */}
+      {(graph.unreachable.length > 0 || unverified.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Unreachable Routines</CardTitle>
+            <CardDescription>
+              Routines no call path from a scheduled program&apos;s main or fault routine reaches
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Program</TableHead>
+                  <TableHead>Routine</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Rungs</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...graph.unreachable, ...unverified].map((routine) => (
+                  <TableRow key={`${routine.fileId}/${routine.programName}/${routine.name}`}>
+                    <TableCell>{routine.programName}</TableCell>
+                    <TableCell className="font-mono">{routine.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-xs">{routine.type}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{routine.rungCount}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {routine.unverified
+                        ? "Not called from ladder or ST; may be called from FBD or SFC"
+                        : routine.unreachableReason === "program-not-scheduled"
+                          ? "Program not scheduled in any task"
+                          : routine.callers.length > 0
+                            ? `Called only by unreachable ${routine.callers.join(", ")}`
+                            : "Never called"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Call graph per program */}
+      <div className="grid gap-4 md:grid-cols-2">
+        {graph.programs.map((program) => (
+          <Card key={`${program.fileId}/${program.name}`}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-base font-mono">{program.name}</CardTitle>
+                {!program.scheduled && <Badge variant="secondary" className="text-xs">Not scheduled</Badge>}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <RoutineCallTree program={program} />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,18 @@ import { getProjectAccess } from "@/lib/project-access";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { ArrowLeft, MessageSquare, AlertCircle, CheckCircle } from "lucide-react";
+import { ArrowLeft, MessageSquare, AlertCircle, CheckCircle, Languages } from "lucide-react";
 import { ExportCSVButton } from "@/components/export-csv-button";
 import { CommentCoverageTable } from "@/components/analysis/comment-coverage-table";
+import { getLanguageCoverage, getProjectLanguages } from "@/lib/documentation-language";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 
 interface CommentCoveragePageProps {
   params: Promise<{ projectId: string }>;
@@ -22,7 +31,7 @@ export default async function CommentCoveragePage({ params }: CommentCoveragePag
   // Get project info
   const { data: project, error: projectError } = await supabase
     .from("projects")
-    .select("id, name, project_files(id)")
+    .select("id, name, project_files(id, documentation_languages)")
     .eq("id", projectId)
     .single();
 
@@ -62,11 +71,26 @@ export default async function CommentCoveragePage({ params }: CommentCoveragePag
     );
   }
 
-  // Get all rungs
-  const { data: rungs } = await supabase
-    .from("parsed_rungs")
-    .select("program_name, routine_name, number, comment")
-    .in("file_id", fileIds);
+  // Get all rungs, and the protected routines whose logic cannot be read
+  const [{ data: rungRows }, { data: protectedRoutines }, { data: tagRows }] = await Promise.all([
+    supabase
+      .from("parsed_rungs")
+      .select("file_id, program_name, routine_name, number, comment, comments")
+      .in("file_id", fileIds),
+    supabase
+      .from("parsed_routines")
+      .select("file_id, program_name, name")
+      .in("file_id", fileIds)
+      .eq("is_protected", true),
+    supabase
+      .from("parsed_tags")
+      .select("descriptions")
+      .in("file_id", fileIds),
+  ]);
+
+  // Protected routines are excluded rather than counted as undocumented
+  const protectedKeys = new Set((protectedRoutines || []).map((r) => `${r.file_id}::${r.program_name}::${r.name}`));
+  const rungs = (rungRows || []).filter((r) => !protectedKeys.has(`${r.file_id}::${r.program_name}::${r.routine_name}`));
 
   if (!rungs || rungs.length === 0) {
     return (
@@ -164,6 +188,11 @@ export default async function CommentCoveragePage({ params }: CommentCoveragePag
   // Sort rungs within each routine by rung number
   Object.values(routineRungs).forEach((arr) => arr.sort((a, b) => a.number - b.number));
 
+  // Coverage of each documentation language in multi-language projects
+  const languages = getProjectLanguages(project.project_files || []);
+  const rungLanguageCoverage = getLanguageCoverage(rungs.map((r) => r.comments), languages);
+  const tagLanguageCoverage = getLanguageCoverage((tagRows || []).map((t) => t.descriptions), languages);
+
   const getCoverageColor = (percent: number) => {
     if (percent >= 80) return "text-green-500";
     if (percent >= 50) return "text-yellow-500";
@@ -240,6 +269,11 @@ export default async function CommentCoveragePage({ params }: CommentCoveragePag
                 <p className="text-sm text-muted-foreground">
                   {commentedRungs} of {totalRungs} rungs have comments
                 </p>
+                {protectedKeys.size > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {protectedKeys.size} protected routine{protectedKeys.size === 1 ? "" : "s"} excluded
+                  </p>
+                )}
                 <p className={`text-4xl font-bold ${getCoverageColor(coveragePercent)}`}>
                   {coveragePercent}%
                 </p>
@@ -257,6 +291,49 @@ export default async function CommentCoveragePage({ params }: CommentCoveragePag
         </CardContent>
       </Card>
 
+      {languages.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Languages className="h-5 w-5" />
+              Coverage by Language
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Language</TableHead>
+                  <TableHead className="text-right">Commented Rungs</TableHead>
+                  <TableHead className="text-right">Rung Coverage</TableHead>
+                  <TableHead className="text-right">Described Tags</TableHead>
+                  <TableHead className="text-right">Tag Coverage</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {languages.map((language, i) => (
+                  <TableRow key={language}>
+                    <TableCell className="font-mono text-sm">{language}</TableCell>
+                    <TableCell className="text-right">
+                      {rungLanguageCoverage[i].documented} / {rungLanguageCoverage[i].total}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${getCoverageColor(rungLanguageCoverage[i].percent)}`}>
+                      {rungLanguageCoverage[i].percent}%
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {tagLanguageCoverage[i].documented} / {tagLanguageCoverage[i].total}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${getCoverageColor(tagLanguageCoverage[i].percent)}`}>
+                      {tagLanguageCoverage[i].percent}%
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       <CommentCoverageTable
         byProgram={byProgram}
         byRoutine={byRoutine}
@@ -0,0 +1,358 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getProjectAccess } from "@/lib/project-access";
+import { buildComplexityHistogram, MAX_RUNG_COMPLEXITY } from "@/lib/parsers/complexity";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, AlertTriangle } from "lucide-react";
+import { ExportCSVButton } from "@/components/export-csv-button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { SortableTableHead } from "@/components/tools/sortable-table-head";
+import { ComplexityHistogram } from "@/components/analysis/analysis-charts";
+
+interface ComplexityPageProps {
+  params: Promise<{ projectId: string }>;
+  searchParams: Promise<{
+    view?: string;
+    sort?: string;
+    order?: string;
+    minScore?: string;
+  }>;
+}
+
+// The worst routines or rungs are what refactoring starts from
+const ROW_LIMIT = 100;
+
+const ROUTINE_SORTS = ["name", "program_name", "rung_count", "max_complexity", "avg_complexity", "tag_fan_in", "tag_fan_out"] as const;
+const RUNG_SORTS = ["program_name", "routine_name", "instruction_count", "branch_depth", "parallel_branches", "distinct_tags", "line_length", "complexity"] as const;
+
+export default async function ComplexityPage({ params, searchParams }: ComplexityPageProps) {
+  const { projectId } = await params;
+  const { view: viewParam, sort, order, minScore: minScoreParam } = await searchParams;
+  const view = viewParam === "rungs" ? "rungs" : "routines";
+  const minScore = Math.max(0, parseInt(minScoreParam || "0", 10) || 0);
+  // Biggest first unless the user picked a column
+  const ascending = sort ? order !== "desc" : false;
+
+  const access = await getProjectAccess();
+  if (!access) notFound();
+  const { supabase } = access;
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("id, name, project_files(id)")
+    .eq("id", projectId)
+    .single();
+
+  if (projectError || !project) {
+    notFound();
+  }
+
+  const fileIds = project.project_files?.map((f: { id: string }) => f.id) || [];
+
+  const header = (
+    <div className="flex items-center gap-4">
+      <Button variant="ghost" size="icon" asChild>
+        <Link href={`/dashboard/projects/${projectId}/analysis`}>
+          <ArrowLeft className="h-4 w-4" />
+        </Link>
+      </Button>
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Logic Complexity</h1>
+        <p className="text-muted-foreground">{project.name}</p>
+      </div>
+    </div>
+  );
+
+  if (fileIds.length === 0) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground mb-4">
+              No files have been uploaded to this project yet.
+            </p>
+            <Button asChild>
+              <Link href={`/dashboard/projects/${projectId}/files`}>
+                Upload Files
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const routineSort = ROUTINE_SORTS.includes(sort as typeof ROUTINE_SORTS[number]) ? sort! : "max_complexity";
+  const rungSort = RUNG_SORTS.includes(sort as typeof RUNG_SORTS[number]) ? sort! : "complexity";
+
+  const [{ data: scoreRows }, { data: routines }, { data: rungs }] = await Promise.all([
+    supabase
+      .from("parsed_rungs")
+      .select("complexity")
+      .in("file_id", fileIds)
+      .not("complexity", "is", null),
+    supabase
+      .from("parsed_routines")
+      .select("program_name, name, type, rung_count, max_complexity, avg_complexity, tag_fan_in, tag_fan_out")
+      .in("file_id", fileIds)
+      .not("max_complexity", "is", null)
+      .order(routineSort, { ascending })
+      .limit(ROW_LIMIT),
+    supabase
+      .from("parsed_rungs")
+      .select("program_name, routine_name, number, instruction_count, branch_depth, parallel_branches, distinct_tags, line_length, complexity")
+      .in("file_id", fileIds)
+      .gte("complexity", minScore)
+      .order(rungSort, { ascending })
+      .limit(ROW_LIMIT),
+  ]);
+
+  const scores = (scoreRows || []).map((r) => r.complexity as number);
+
+  if (scores.length === 0) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">
+              No complexity metrics recorded. Re-parse files uploaded before complexity was measured.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const overGuideline = scores.filter((score) => score > MAX_RUNG_COMPLEXITY).length;
+  const averageScore = Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10;
+  const worstScore = scores.reduce((max, score) => Math.max(max, score), 0);
+  const viewHref = (target: string) => `/dashboard/projects/${projectId}/analysis/complexity?view=${target}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        {header}
+        {view === "routines" ? (
+          <ExportCSVButton
+            filename="routine_complexity.csv"
+            data={[
+              ["Program", "Routine", "Type", "Rungs", "Max Complexity", "Avg Complexity", "Tag Fan-In", "Tag Fan-Out"],
+              ...(routines || []).map((r) => [
+                r.program_name,
+                r.name,
+                r.type,
+                String(r.rung_count ?? ""),
+                String(r.max_complexity),
+                String(r.avg_complexity),
+                String(r.tag_fan_in ?? ""),
+                String(r.tag_fan_out ?? ""),
+              ]),
+            ]}
+          />
+        ) : (
+          <ExportCSVButton
+            filename="rung_complexity.csv"
+            data={[
+              ["Program", "Routine", "Rung", "Instructions", "Branch Depth", "Parallel Branches", "Distinct Tags", "Line Length", "Complexity"],
+              ...(rungs || []).map((r) => [
+                r.program_name,
+                r.routine_name,
+                String(r.number),
+                String(r.instruction_count),
+                String(r.branch_depth),
+                String(r.parallel_branches),
+                String(r.distinct_tags),
+                String(r.line_length),
+                String(r.complexity),
+              ]),
+            ]}
+          />
+        )}
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Rungs Measured</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{scores.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Average Score</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{averageScore}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Worst Rung</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{worstScore}</p>
+          </CardContent>
+        </Card>
+        <Card className={overGuideline > 0 ? "border-yellow-500/50" : ""}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Over Guideline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-3xl font-bold ${overGuideline > 0 ? "text-yellow-500" : ""}`}>{overGuideline}</p>
+            <p className="text-xs text-muted-foreground mt-1">Score above {MAX_RUNG_COMPLEXITY}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {overGuideline > 0 && (
+        <Card className="border-yellow-500/50">
+          <CardContent className="py-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium text-yellow-600 dark:text-yellow-400">
+                  {overGuideline} {overGuideline === 1 ? "rung exceeds" : "rungs exceed"} the complexity guideline
+                </p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  New logic should stay at or below a score of {MAX_RUNG_COMPLEXITY}: one point per instruction,
+                  two per parallel branch leg beyond the first and two per branch nested inside another. Split
+                  larger rungs or move the logic into a subroutine.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Score Distribution</CardTitle>
+          <CardDescription>Rungs and structured text lines by complexity score; red bars are over the guideline</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ComplexityHistogram buckets={buildComplexityHistogram(scores)} height={260} />
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center gap-2">
+        <Button variant={view === "routines" ? "default" : "outline"} size="sm" asChild>
+          <Link href={viewHref("routines")}>Routines</Link>
+        </Button>
+        <Button variant={view === "rungs" ? "default" : "outline"} size="sm" asChild>
+          <Link href={viewHref("rungs")}>Rungs</Link>
+        </Button>
+        {view === "rungs" && minScore > 0 && (
+          <Badge variant="secondary" className="text-xs">Score {minScore} and above</Badge>
+        )}
+      </div>
+
+      {view === "routines" ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Routines</CardTitle>
+            <CardDescription>
+              Worst and average rung score per routine, and how many distinct tags each reads (fan-in) and writes (fan-out). Top {ROW_LIMIT} shown.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <SortableTableHead column="program_name">Program</SortableTableHead>
+                  <SortableTableHead column="name">Routine</SortableTableHead>
+                  <TableHead>Type</TableHead>
+                  <SortableTableHead column="rung_count" defaultOrder="desc" className="text-right">Rungs</SortableTableHead>
+                  <SortableTableHead column="max_complexity" defaultOrder="desc" className="text-right">Max</SortableTableHead>
+                  <SortableTableHead column="avg_complexity" defaultOrder="desc" className="text-right">Avg</SortableTableHead>
+                  <SortableTableHead column="tag_fan_in" defaultOrder="desc" className="text-right">Fan-In</SortableTableHead>
+                  <SortableTableHead column="tag_fan_out" defaultOrder="desc" className="text-right">Fan-Out</SortableTableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(routines || []).map((routine) => (
+                  <TableRow key={`${routine.program_name}/${routine.name}`}>
+                    <TableCell>{routine.program_name}</TableCell>
+                    <TableCell className="font-mono">{routine.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-xs">{routine.type}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{routine.rung_count ?? "-"}</TableCell>
+                    <TableCell className={`text-right font-mono ${routine.max_complexity > MAX_RUNG_COMPLEXITY ? "text-yellow-600 dark:text-yellow-400 font-semibold" : ""}`}>
+                      {routine.max_complexity}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{routine.avg_complexity}</TableCell>
+                    <TableCell className="text-right font-mono">{routine.tag_fan_in ?? "-"}</TableCell>
+                    <TableCell className="text-right font-mono">{routine.tag_fan_out ?? "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Rungs</CardTitle>
+            <CardDescription>
+              Size and shape of each rung or structured text line. Top {ROW_LIMIT} shown.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <SortableTableHead column="program_name">Program</SortableTableHead>
+                  <SortableTableHead column="routine_name">Routine</SortableTableHead>
+                  <TableHead className="text-right">Rung</TableHead>
+                  <SortableTableHead column="instruction_count" defaultOrder="desc" className="text-right">Instructions</SortableTableHead>
+                  <SortableTableHead column="branch_depth" defaultOrder="desc" className="text-right">Depth</SortableTableHead>
+                  <SortableTableHead column="parallel_branches" defaultOrder="desc" className="text-right">Parallel</SortableTableHead>
+                  <SortableTableHead column="distinct_tags" defaultOrder="desc" className="text-right">Tags</SortableTableHead>
+                  <SortableTableHead column="line_length" defaultOrder="desc" className="text-right">Length</SortableTableHead>
+                  <SortableTableHead column="complexity" defaultOrder="desc" className="text-right">Score</SortableTableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(rungs || []).map((rung) => (
+                  <TableRow key={`${rung.program_name}/${rung.routine_name}/${rung.number}`}>
+                    <TableCell>{rung.program_name}</TableCell>
+                    <TableCell className="font-mono">{rung.routine_name}</TableCell>
+                    <TableCell className="text-right font-mono">{rung.number}</TableCell>
+                    <TableCell className="text-right font-mono">{rung.instruction_count}</TableCell>
+                    <TableCell className="text-right font-mono">{rung.branch_depth}</TableCell>
+                    <TableCell className="text-right font-mono">{rung.parallel_branches}</TableCell>
+                    <TableCell className="text-right font-mono">{rung.distinct_tags}</TableCell>
+                    <TableCell className="text-right font-mono">{rung.line_length}</TableCell>
+                    <TableCell className="text-right">
+                      {rung.complexity > MAX_RUNG_COMPLEXITY ? (
+                        <Badge variant="outline" className="font-mono text-xs border-yellow-500/50 text-yellow-600 dark:text-yellow-400">
+                          {rung.complexity}
+                        </Badge>
+                      ) : (
+                        <span className="font-mono">{rung.complexity}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,11 @@ import { HealthScore } from "@/components/analysis/health-score";
 import { NamingHealthToggle } from "@/components/analysis/naming-health-toggle";
 import { AnimatedCount } from "@/components/analysis/animated-count";
 import { analyzeExportTypes } from "@/lib/partial-export";
+import { getProtectedPrograms, isInProtectedScope } from "@/lib/protected-content";
+import { findUnusedTags } from "@/lib/tag-usage";
+import { buildCallGraph, getUnreachableLogicPenalty } from "@/lib/call-graph";
+import { findTagReferenceProblems } from "@/lib/tag-validation";
+import { buildComplexityHistogram, MAX_RUNG_COMPLEXITY, type ComplexityBucket } from "@/lib/parsers/complexity";
 import { ActivityLog } from "@/components/projects/activity-log";
 import { TroubleshootHeaderButton } from "@/components/ai/ai-chat-sidebar";
 
@@ -113,6 +118,7 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
     commentedRungs: number;
     commentCoverage: number;
     totalReferences: number;
+    protectedTags?: number;
     namingViolationTags?: number;
     taskConfigScore?: number;
   } = {
@@ -125,6 +131,9 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
   };
 
   let totalTasks = 0;
+  let unreachableRoutineCount = 0;
+  let undefinedReferenceCount = 0;
+  let safetyTagCount = 0;
 
   let namingViolationCount = 0;
   let exportSheets: ExportSheet[] = [];
@@ -135,6 +144,8 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
   ];
   let routineCoverageChart: Array<{ routine: string; coverage: number; commented: number; total: number }> = [];
   let topTags: Array<{ name: string; count: number }> = [];
+  let complexityHistogram: ComplexityBucket[] = [];
+  let complexRungCount = 0;
 
   if (fileIds.length > 0) {
     // Resolve effective rule set — always use the project's rules so all viewers
@@ -166,30 +177,51 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
           .eq("organization_id", rulesOrgId)
           .eq("is_active", true);
 
-    const [tagsResult, referencesResult, rungsResult, rulesResult, tasksResult, routinesResult] = await Promise.all([
+    const [tagsResult, referencesResult, rungsResult, rulesResult, tasksResult, routinesResult, programsResult, callRungsResult, udtsResult, aoisResult, modulesResult] = await Promise.all([
       supabase
         .from("parsed_tags")
-        .select("id, name, data_type, scope, description, usage")
+        .select("id, file_id, name, data_type, dimensions, scope, description, usage, tag_class, alias_for")
         .in("file_id", fileIds),
       supabase
         .from("tag_references")
-        .select("id, tag_name, routine_name, program_name, rung_number, usage_type")
+        .select("id, file_id, tag_name, routine_name, program_name, rung_number, usage_type")
         .in("file_id", fileIds)
         .order("tag_name")
         .order("program_name")
         .order("routine_name"),
       supabase
         .from("parsed_rungs")
-        .select("id, comment, program_name, routine_name")
+        .select("id, file_id, comment, program_name, routine_name, number, content, complexity")
         .in("file_id", fileIds),
       namingRulesQuery,
       supabase
         .from("parsed_tasks")
-        .select("name, type, rate, priority, watchdog, scheduled_programs, inhibit_task, disable_update_outputs")
+        .select("file_id, name, type, rate, priority, watchdog, scheduled_programs, inhibit_task, disable_update_outputs")
         .in("file_id", fileIds),
       supabase
         .from("parsed_routines")
-        .select("program_name")
+        .select("file_id, name, program_name, type, rung_count, is_protected")
+        .in("file_id", fileIds),
+      supabase
+        .from("parsed_programs")
+        .select("file_id, name, main_routine_name, fault_routine_name, parent_program")
+        .in("file_id", fileIds),
+      supabase
+        .from("parsed_rungs")
+        .select("file_id, program_name, routine_name, number, content")
+        .in("file_id", fileIds)
+        .ilike("content", "%JSR%"),
+      supabase
+        .from("parsed_udts")
+        .select("file_id, name, parsed_udt_members(name, data_type, dimension)")
+        .in("file_id", fileIds),
+      supabase
+        .from("parsed_aois")
+        .select("file_id, name, parsed_aoi_parameters(name, data_type, usage)")
+        .in("file_id", fileIds),
+      supabase
+        .from("parsed_io_modules")
+        .select("file_id, name")
         .in("file_id", fileIds),
     ]);
 
@@ -199,18 +231,29 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
     const namingRules = rulesResult.data || [];
     const allTasks = tasksResult.data || [];
     const allRoutines = routinesResult.data || [];
-
-    const referencedTagNames = new Set(references.map((r) => r.tag_name));
-    const unusedTags = allTags.filter((tag) => {
-      const tagParts = tag.name.split(".");
-      for (let i = 1; i <= tagParts.length; i++) {
-        const partialName = tagParts.slice(0, i).join(".");
-        if (referencedTagNames.has(partialName)) return false;
-      }
-      const baseName = tag.name.split("[")[0];
-      if (referencedTagNames.has(baseName)) return false;
-      return !referencedTagNames.has(tag.name);
+    const callGraph = buildCallGraph({
+      programs: programsResult.data || [],
+      routines: allRoutines,
+      rungs: callRungsResult.data || [],
+      tasks: allTasks,
     });
+    unreachableRoutineCount = callGraph.unreachable.length;
+    undefinedReferenceCount = findTagReferenceProblems({
+      tags: allTags,
+      references,
+      udts: udtsResult.data || [],
+      aois: aoisResult.data || [],
+      modules: modulesResult.data || [],
+      routines: allRoutines,
+      rungs,
+    }).length;
+
+    const protectedPrograms = getProtectedPrograms(allRoutines);
+    const protectedTags = allTags.filter((tag) => isInProtectedScope(tag, protectedPrograms)).length;
+
+    const unusedTags = findUnusedTags(allTags, references).filter(
+      (tag) => !isInProtectedScope(tag, protectedPrograms)
+    );
 
     const commentedRungs = rungs.filter((r) => r.comment && r.comment.trim() !== "").length;
 
@@ -274,10 +317,12 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
           tScore -= 10;
         }
       }
+      tScore -= getUnreachableLogicPenalty(callGraph);
       taskConfigScore = Math.max(0, Math.min(100, tScore));
     }
 
     totalTasks = allTasks.length;
+    safetyTagCount = allTags.filter((t) => t.tag_class === "Safety").length;
 
     stats = {
       totalTags: allTags.length,
@@ -286,6 +331,7 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
       commentedRungs,
       commentCoverage: rungs.length > 0 ? Math.round((commentedRungs / rungs.length) * 100) : 0,
       totalReferences: references.length,
+      protectedTags,
       namingViolationTags,
       taskConfigScore,
     };
@@ -452,6 +498,11 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
       .sort((a, b) => b[1] - a[1])
       .slice(0, 10)
       .map(([name, count]) => ({ name, count }));
+
+    // Rungs parsed before complexity was recorded have none
+    const complexityScores = rungs.flatMap((r) => (r.complexity != null ? [r.complexity] : []));
+    complexityHistogram = buildComplexityHistogram(complexityScores);
+    complexRungCount = complexityScores.filter((score) => score > MAX_RUNG_COMPLEXITY).length;
   }
 
   return (
@@ -593,6 +644,19 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
                     </CardHeader>
                   </Card>
                 </Link>
+                {safetyTagCount > 0 && (
+                  <Link href={`/dashboard/projects/${projectId}/analysis/safety`}>
+                    <Card className="h-full hover:bg-accent/50 transition-colors cursor-pointer group">
+                      <CardHeader className="pb-2">
+                        <div className="flex items-center justify-between">
+                          <CardDescription>Safety Tags</CardDescription>
+                          <ArrowRight className="h-4 w-4 text-muted-foreground/50 group-hover:text-muted-foreground transition-colors" />
+                        </div>
+                        <CardTitle className="text-3xl"><AnimatedCount value={safetyTagCount} /></CardTitle>
+                      </CardHeader>
+                    </Card>
+                  </Link>
+                )}
               </div>
             </div>
 
@@ -622,6 +686,39 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
                     </CardHeader>
                   </Card>
                 </Link>
+                <Link href={`/dashboard/projects/${projectId}/analysis/call-graph`}>
+                  <Card className={`h-full hover:bg-accent/50 transition-colors cursor-pointer group ${unreachableRoutineCount > 0 ? "border-yellow-500/50" : ""}`}>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center justify-between">
+                        <CardDescription>Unreachable Routines</CardDescription>
+                        <ArrowRight className="h-4 w-4 text-muted-foreground/50 group-hover:text-muted-foreground transition-colors" />
+                      </div>
+                      <CardTitle className={`text-3xl ${unreachableRoutineCount > 0 ? "text-yellow-500" : ""}`}><AnimatedCount value={unreachableRoutineCount} /></CardTitle>
+                    </CardHeader>
+                  </Card>
+                </Link>
+                <Link href={`/dashboard/projects/${projectId}/analysis/tag-validation`}>
+                  <Card className={`h-full hover:bg-accent/50 transition-colors cursor-pointer group ${undefinedReferenceCount > 0 ? "border-destructive/50" : ""}`}>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center justify-between">
+                        <CardDescription>Undefined References</CardDescription>
+                        <ArrowRight className="h-4 w-4 text-muted-foreground/50 group-hover:text-muted-foreground transition-colors" />
+                      </div>
+                      <CardTitle className={`text-3xl ${undefinedReferenceCount > 0 ? "text-destructive" : ""}`}><AnimatedCount value={undefinedReferenceCount} /></CardTitle>
+                    </CardHeader>
+                  </Card>
+                </Link>
+                <Link href={`/dashboard/projects/${projectId}/analysis/complexity`}>
+                  <Card className={`h-full hover:bg-accent/50 transition-colors cursor-pointer group ${complexRungCount > 0 ? "border-yellow-500/50" : ""}`}>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center justify-between">
+                        <CardDescription>Complex Rungs</CardDescription>
+                        <ArrowRight className="h-4 w-4 text-muted-foreground/50 group-hover:text-muted-foreground transition-colors" />
+                      </div>
+                      <CardTitle className={`text-3xl ${complexRungCount > 0 ? "text-yellow-500" : ""}`}><AnimatedCount value={complexRungCount} /></CardTitle>
+                    </CardHeader>
+                  </Card>
+                </Link>
                 <Link href={`/dashboard/projects/${projectId}/analysis/comment-coverage`}>
                   <Card className={`h-full hover:bg-accent/50 transition-colors cursor-pointer group ${stats.commentCoverage < 50 ? "border-yellow-500/50" : ""}`}>
                     <CardHeader className="pb-2">
@@ -642,6 +739,7 @@ export default async function AnalysisPage({ params }: AnalysisPageProps) {
             usageBreakdown={usageBreakdown}
             routineCoverage={routineCoverageChart}
             topTags={topTags}
+            complexityHistogram={complexityHistogram}
             projectId={projectId}
           />
         </div>
@@ -0,0 +1,272 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getProjectAccess } from "@/lib/project-access";
+import { findStandardWritesToSafety, isSafetyProject, type SafetyTagMapping } from "@/lib/safety";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, AlertTriangle, ShieldCheck } from "lucide-react";
+import { ExportCSVButton } from "@/components/export-csv-button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+
+interface SafetyPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+interface SafetyFile {
+  id: string;
+  file_name: string;
+  target_name: string | null;
+  safety_signature: string | null;
+  safety_locked: boolean | null;
+  safety_level: string | null;
+  safety_tag_map: SafetyTagMapping[] | null;
+}
+
+export default async function SafetyPage({ params }: SafetyPageProps) {
+  const { projectId } = await params;
+
+  const access = await getProjectAccess();
+  if (!access) notFound();
+  const { supabase } = access;
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("id, name, project_files(id, file_name, target_name, safety_signature, safety_locked, safety_level, safety_tag_map)")
+    .eq("id", projectId)
+    .single();
+
+  if (projectError || !project) {
+    notFound();
+  }
+
+  const files: SafetyFile[] = project.project_files || [];
+  const fileIds = files.map((f) => f.id);
+  const fileNames = new Map(files.map((f) => [f.id, f.file_name]));
+
+  const header = (
+    <div className="flex items-center gap-4">
+      <Button variant="ghost" size="icon" asChild>
+        <Link href={`/dashboard/projects/${projectId}/analysis`}>
+          <ArrowLeft className="h-4 w-4" />
+        </Link>
+      </Button>
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Safety Separation</h1>
+        <p className="text-muted-foreground">{project.name}</p>
+      </div>
+    </div>
+  );
+
+  const [{ data: programs }, { data: tasks }, { data: tags }, { data: references }] = fileIds.length > 0
+    ? await Promise.all([
+        supabase
+          .from("parsed_programs")
+          .select("file_id, name, program_class")
+          .in("file_id", fileIds),
+        supabase
+          .from("parsed_tasks")
+          .select("file_id, name, task_class")
+          .in("file_id", fileIds),
+        supabase
+          .from("parsed_tags")
+          .select("file_id, name, scope, tag_class")
+          .in("file_id", fileIds),
+        supabase
+          .from("tag_references")
+          .select("file_id, tag_name, program_name, routine_name, rung_number, usage_type")
+          .in("file_id", fileIds)
+          .in("usage_type", ["write", "both"]),
+      ])
+    : [{ data: [] }, { data: [] }, { data: [] }, { data: [] }];
+
+  const allPrograms = programs || [];
+  const allTags = tags || [];
+
+  if (!isSafetyProject(files, allPrograms)) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">
+              No GuardLogix safety content found. This analysis applies to safety controllers with a safety task, safety programs or safety tags.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const findings = findStandardWritesToSafety(references || [], allPrograms, allTags, files);
+  const safetyFiles = files.filter((f) => f.safety_tag_map !== null);
+  const safetyPrograms = allPrograms.filter((p) => p.program_class === "Safety");
+  const safetyTasks = (tasks || []).filter((t) => t.task_class === "Safety");
+  const safetyTagCount = allTags.filter((t) => t.tag_class === "Safety").length;
+  const mappingCount = safetyFiles.reduce((sum, f) => sum + (f.safety_tag_map?.length || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        {header}
+        <ExportCSVButton
+          filename="safety_separation.csv"
+          data={[
+            ["Tag", "Finding", "Safety Tag", "Program", "Routine", "Rung", "File"],
+            ...findings.map((f) => [
+              f.tagName,
+              f.reason === "safety-tag" ? "Standard logic writes safety tag" : "Standard logic writes safety-mapped tag",
+              f.safetyTag,
+              f.programName,
+              f.routineName,
+              String(f.rungNumber),
+              fileNames.get(f.fileId) || "",
+            ]),
+          ]}
+        />
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Safety Tasks</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{safetyTasks.length}</p>
+            <p className="text-xs text-muted-foreground mt-1">{safetyTasks.map((t) => t.name).join(", ")}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Safety Programs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{safetyPrograms.length}</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {allPrograms.length - safetyPrograms.length} standard
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Safety Tags</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{safetyTagCount}</p>
+            <p className="text-xs text-muted-foreground mt-1">{mappingCount} mapped from standard tags</p>
+          </CardContent>
+        </Card>
+        <Card className={findings.length > 0 ? "border-yellow-500/50" : ""}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Standard Writes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-3xl font-bold ${findings.length > 0 ? "text-yellow-500" : ""}`}>{findings.length}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Safety signature per controller */}
+      {safetyFiles.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Safety Signature</CardTitle>
+            <CardDescription>A signed, locked safety application cannot be changed without invalidating the signature</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Controller</TableHead>
+                  <TableHead>Signature</TableHead>
+                  <TableHead>Locked</TableHead>
+                  <TableHead>Level</TableHead>
+                  <TableHead className="text-right">Mapped Tags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {safetyFiles.map((f) => (
+                  <TableRow key={f.id}>
+                    <TableCell>{f.target_name || f.file_name}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {f.safety_signature || <Badge variant="outline">Unsigned</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      {f.safety_locked == null ? "-" : f.safety_locked ? "Yes" : "No"}
+                    </TableCell>
+                    <TableCell>{f.safety_level || "-"}</TableCell>
+                    <TableCell className="text-right">{f.safety_tag_map?.length || 0}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Findings */}
+      {findings.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="flex items-center justify-center gap-3 text-muted-foreground">
+              <ShieldCheck className="h-5 w-5 text-green-500" />
+              <p>No standard logic writes to safety or safety-mapped tags.</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-500" />
+              Standard Logic Writing Safety Inputs
+            </CardTitle>
+            <CardDescription>
+              Standard programs that write a safety tag or a standard tag mapped into a safety tag
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tag</TableHead>
+                  <TableHead>Finding</TableHead>
+                  <TableHead>Program</TableHead>
+                  <TableHead>Routine</TableHead>
+                  <TableHead className="text-right">Rung</TableHead>
+                  <TableHead>File</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {findings.map((f, i) => (
+                  <TableRow key={`${f.fileId}-${f.programName}-${f.routineName}-${f.rungNumber}-${f.tagName}-${i}`}>
+                    <TableCell className="font-mono text-sm">{f.tagName}</TableCell>
+                    <TableCell>
+                      {f.reason === "safety-tag" ? (
+                        <Badge variant="destructive">Safety tag</Badge>
+                      ) : (
+                        <Badge variant="secondary">Mapped to {f.safetyTag}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{f.programName}</TableCell>
+                    <TableCell>{f.routineName}</TableCell>
+                    <TableCell className="text-right font-mono">{f.rungNumber}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{fileNames.get(f.fileId) || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getProjectAccess } from "@/lib/project-access";
+import { findTagReferenceProblems, type TagReferenceProblemKind } from "@/lib/tag-validation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, CheckCircle } from "lucide-react";
+import { ExportCSVButton } from "@/components/export-csv-button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+
+const KIND_LABELS: Record<TagReferenceProblemKind, string> = {
+  undeclared: "Undeclared tag",
+  "unknown-member": "Unknown member",
+  "out-of-range": "Out of range",
+};
+
+interface TagValidationPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+export default async function TagValidationPage({ params }: TagValidationPageProps) {
+  const { projectId } = await params;
+
+  const access = await getProjectAccess();
+  if (!access) notFound();
+  const { supabase } = access;
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("id, name, project_files(id)")
+    .eq("id", projectId)
+    .single();
+
+  if (projectError || !project) {
+    notFound();
+  }
+
+  const fileIds = project.project_files?.map((f: { id: string }) => f.id) || [];
+
+  const header = (
+    <div className="flex items-center gap-4">
+      <Button variant="ghost" size="icon" asChild>
+        <Link href={`/dashboard/projects/${projectId}/analysis`}>
+          <ArrowLeft className="h-4 w-4" />
+        </Link>
+      </Button>
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Undefined References</h1>
+        <p className="text-muted-foreground">{project.name}</p>
+      </div>
+    </div>
+  );
+
+  if (fileIds.length === 0) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground mb-4">
+              No files have been uploaded to this project yet.
+            </p>
+            <Button asChild>
+              <Link href={`/dashboard/projects/${projectId}/files`}>
+                Upload Files
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const [{ data: tags }, { data: references }, { data: udts }, { data: aois }, { data: modules }, { data: routines }, { data: rungs }] = await Promise.all([
+    supabase
+      .from("parsed_tags")
+      .select("file_id, name, scope, data_type, dimensions, alias_for")
+      .in("file_id", fileIds),
+    supabase
+      .from("tag_references")
+      .select("file_id, tag_name, program_name, routine_name, rung_number")
+      .in("file_id", fileIds),
+    supabase
+      .from("parsed_udts")
+      .select("file_id, name, parsed_udt_members(name, data_type, dimension)")
+      .in("file_id", fileIds),
+    supabase
+      .from("parsed_aois")
+      .select("file_id, name, parsed_aoi_parameters(name, data_type, usage)")
+      .in("file_id", fileIds),
+    supabase
+      .from("parsed_io_modules")
+      .select("file_id, name")
+      .in("file_id", fileIds),
+    supabase
+      .from("parsed_routines")
+      .select("file_id, name, program_name, type")
+      .in("file_id", fileIds),
+    supabase
+      .from("parsed_rungs")
+      .select("file_id, program_name, routine_name, number, content")
+      .in("file_id", fileIds),
+  ]);
+
+  const problems = findTagReferenceProblems({
+    tags: tags || [],
+    references: references || [],
+    udts: udts || [],
+    aois: aois || [],
+    modules: modules || [],
+    routines: routines || [],
+    rungs: rungs || [],
+  });
+
+  const countOf = (kind: TagReferenceProblemKind) => problems.filter((p) => p.kind === kind).length;
+  const summary: Array<{ kind: TagReferenceProblemKind; title: string }> = [
+    { kind: "undeclared", title: "Undeclared Tags" },
+    { kind: "unknown-member", title: "Unknown Members" },
+    { kind: "out-of-range", title: "Indices Out of Range" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        {header}
+        <ExportCSVButton
+          filename="undefined_references.csv"
+          data={[
+            ["Program", "Routine", "Rung", "Reference", "Problem", "Detail"],
+            ...problems.map((p) => [
+              p.programName,
+              p.routineName,
+              String(p.rungNumber),
+              p.tagName,
+              KIND_LABELS[p.kind],
+              p.description,
+            ]),
+          ]}
+        />
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">References Checked</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{references?.length || 0}</p>
+          </CardContent>
+        </Card>
+        {summary.map(({ kind, title }) => {
+          const count = countOf(kind);
+          return (
+            <Card key={kind} className={count > 0 ? "border-destructive/50" : ""}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className={`text-3xl font-bold ${count > 0 ? "text-destructive" : ""}`}>{count}</p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Problems by Routine</CardTitle>
+          <CardDescription>
+            Operands that name an undeclared tag, a member their data type does not have, or an array element or bit past the declared size
+          </CardDescription>
+        </CardHeader>
+        <CardContent className={problems.length > 0 ? "p-0" : ""}>
+          {problems.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="h-4 w-4 text-green-500" />
+              Every reference resolves to a declared tag, member and element.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Program</TableHead>
+                  <TableHead>Routine</TableHead>
+                  <TableHead className="text-right">Rung</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Problem</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {problems.map((problem, i) => (
+                  <TableRow key={i}>
+                    <TableCell>{problem.programName}</TableCell>
+                    <TableCell className="font-mono">{problem.routineName}</TableCell>
+                    <TableCell className="text-right font-mono">{problem.rungNumber}</TableCell>
+                    <TableCell className="font-mono">{problem.tagName}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <Badge variant="destructive" className="text-xs">{KIND_LABELS[problem.kind]}</Badge>
+                        <p className="text-sm text-muted-foreground">{problem.description}</p>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
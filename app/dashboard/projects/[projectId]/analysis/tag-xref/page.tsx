@@ -94,7 +94,8 @@ export default async function TagXrefPage({ params, searchParams }: TagXrefPageP
     .in("file_id", fileIds);
 
   if (search) {
-    query = query.ilike("tag_name", `%${search}%`);
+    // Alias references also match the tag they resolve to
+    query = query.or(`tag_name.ilike.%${search}%,alias_target.ilike.%${search}%`);
   }
 
   if (usageType && usageType !== "all") {
@@ -120,7 +121,7 @@ export default async function TagXrefPage({ params, searchParams }: TagXrefPageP
     .in("file_id", fileIds);
 
   if (search) {
-    allQuery = allQuery.ilike("tag_name", `%${search}%`);
+    allQuery = allQuery.or(`tag_name.ilike.%${search}%,alias_target.ilike.%${search}%`);
   }
   if (usageType && usageType !== "all") {
     allQuery = allQuery.eq("usage_type", usageType);
@@ -151,13 +152,14 @@ export default async function TagXrefPage({ params, searchParams }: TagXrefPageP
           <ExportCSVButton
             filename="tag_cross_reference.csv"
             data={[
-              ["Tag Name", "Program", "Routine", "Rung", "Usage Type"],
+              ["Tag Name", "Program", "Routine", "Rung", "Usage Type", "Alias Target"],
               ...(allReferences || []).map((ref) => [
                 ref.tag_name,
                 ref.program_name,
                 ref.routine_name,
                 String(ref.rung_number),
                 ref.usage_type,
+                ref.alias_target || "",
               ]),
             ]}
           />
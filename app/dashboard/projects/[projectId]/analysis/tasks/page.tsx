@@ -14,6 +14,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { ProgramTree } from "@/components/tools/program-tree";
 
 interface TasksPageProps {
   params: Promise<{ projectId: string }>;
@@ -68,20 +69,26 @@ export default async function TasksPage({ params }: TasksPageProps) {
     );
   }
 
-  const [{ data: tasks }, { data: routines }] = await Promise.all([
+  const [{ data: tasks }, { data: routines }, { data: programs }] = await Promise.all([
     supabase
       .from("parsed_tasks")
-      .select("name, type, rate, priority, watchdog, inhibit_task, disable_update_outputs, description, scheduled_programs")
+      .select("name, type, rate, priority, watchdog, inhibit_task, disable_update_outputs, description, scheduled_programs, task_class")
       .in("file_id", fileIds)
       .order("priority"),
     supabase
       .from("parsed_routines")
       .select("program_name")
       .in("file_id", fileIds),
+    supabase
+      .from("parsed_programs")
+      .select("name, main_routine_name, fault_routine_name, disabled, use_as_folder, program_class, parent_program, child_programs")
+      .in("file_id", fileIds)
+      .order("name"),
   ]);
 
   const allTasks = tasks || [];
   const allRoutines = routines || [];
+  const allPrograms = programs || [];
 
   if (allTasks.length === 0) {
     return (
@@ -113,10 +120,12 @@ export default async function TasksPage({ params }: TasksPageProps) {
   const periodicCount = allTasks.filter((t) => t.type === "PERIODIC").length;
   const eventCount = allTasks.filter((t) => t.type === "EVENT").length;
 
-  // Detect orphaned programs
+  // Detect orphaned programs; child programs run in their parent's task
   const scheduledProgramNames = new Set(allTasks.flatMap((t) => t.scheduled_programs || []));
-  const allProgramNames = new Set(allRoutines.map((r) => r.program_name));
-  const orphanedPrograms = [...allProgramNames].filter((p) => !scheduledProgramNames.has(p));
+  const childProgramNames = new Set(allPrograms.filter((p) => p.parent_program).map((p) => p.name));
+  const allProgramNames = new Set([...allRoutines.map((r) => r.program_name), ...allPrograms.map((p) => p.name)]);
+  const orphanedPrograms = [...allProgramNames].filter((p) => !scheduledProgramNames.has(p) && !childProgramNames.has(p));
+  const disabledPrograms = allPrograms.filter((p) => p.disabled).map((p) => p.name);
 
   const typeBadgeVariant = (type: string) => {
     switch (type) {
@@ -144,10 +153,11 @@ export default async function TasksPage({ params }: TasksPageProps) {
         <ExportCSVButton
           filename="task_configuration.csv"
           data={[
-            ["Name", "Type", "Rate (ms)", "Priority", "Watchdog (ms)", "Inhibited", "Disable Update Outputs", "Scheduled Programs"],
+            ["Name", "Type", "Class", "Rate (ms)", "Priority", "Watchdog (ms)", "Inhibited", "Disable Update Outputs", "Scheduled Programs"],
             ...allTasks.map((t) => [
               t.name,
               t.type,
+              t.task_class || "",
               t.rate != null ? String(t.rate) : "",
               String(t.priority),
               t.watchdog != null ? String(t.watchdog) : "",
@@ -214,6 +224,20 @@ export default async function TasksPage({ params }: TasksPageProps) {
         </Card>
       )}
 
+      {/* Disabled programs */}
+      {disabledPrograms.length > 0 && (
+        <Card>
+          <CardContent className="py-4">
+            <p className="font-medium">
+              {disabledPrograms.length} disabled {disabledPrograms.length === 1 ? "program" : "programs"}
+            </p>
+            <p className="text-sm text-muted-foreground mt-1">
+              {disabledPrograms.join(", ")}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Task Table */}
       <Card>
         <CardContent className="p-0">
@@ -234,7 +258,10 @@ export default async function TasksPage({ params }: TasksPageProps) {
                 <TableRow key={task.name}>
                   <TableCell className="font-medium">{task.name}</TableCell>
                   <TableCell>
-                    <Badge variant={typeBadgeVariant(task.type)}>{task.type}</Badge>
+                    <div className="flex items-center gap-1">
+                      <Badge variant={typeBadgeVariant(task.type)}>{task.type}</Badge>
+                      {task.task_class === "Safety" && <Badge variant="destructive">Safety</Badge>}
+                    </div>
                   </TableCell>
                   <TableCell className="text-right font-mono">
                     {task.type === "PERIODIC" && task.rate != null ? task.rate : "\u2014"}
@@ -266,6 +293,18 @@ export default async function TasksPage({ params }: TasksPageProps) {
           </Table>
         </CardContent>
       </Card>
+
+      {/* Program Tree */}
+      {allPrograms.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Program Tree</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ProgramTree tasks={allTasks} programs={allPrograms} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -1,6 +1,8 @@
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import { getProjectAccess } from "@/lib/project-access";
+import { getProtectedPrograms, isInProtectedScope } from "@/lib/protected-content";
+import { findUnusedTags } from "@/lib/tag-usage";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { AlertTriangle } from "lucide-react";
@@ -70,14 +72,14 @@ export default async function UnusedTagsPage({ params, searchParams }: UnusedTag
   }
 
   // Get all tags and references
-  const [tagsResult, referencesResult, scopesResult, dataTypesResult] = await Promise.all([
+  const [tagsResult, referencesResult, scopesResult, dataTypesResult, routinesResult] = await Promise.all([
     supabase
       .from("parsed_tags")
-      .select("id, name, data_type, scope, description, usage")
+      .select("id, file_id, name, data_type, scope, description, usage, alias_for")
       .in("file_id", fileIds),
     supabase
       .from("tag_references")
-      .select("tag_name")
+      .select("file_id, tag_name, program_name")
       .in("file_id", fileIds),
     supabase
       .from("parsed_tags")
@@ -87,30 +89,26 @@ export default async function UnusedTagsPage({ params, searchParams }: UnusedTag
       .from("parsed_tags")
       .select("data_type")
       .in("file_id", fileIds),
+    supabase
+      .from("parsed_routines")
+      .select("file_id, program_name, is_protected")
+      .in("file_id", fileIds)
+      .eq("is_protected", true),
   ]);
 
   const allTags = tagsResult.data || [];
-  const referencedTagNames = new Set(referencesResult.data?.map((r) => r.tag_name) || []);
   const scopes = [...new Set(scopesResult.data?.map((t) => t.scope) || [])].sort();
   const dataTypes = [...new Set(dataTypesResult.data?.map((t) => t.data_type) || [])].sort();
 
-  // Find unused tags
-  let unusedTags = allTags.filter((tag) => {
-    // Check if tag name or any base part of the tag is referenced
-    const tagParts = tag.name.split(".");
-    for (let i = 1; i <= tagParts.length; i++) {
-      const partialName = tagParts.slice(0, i).join(".");
-      if (referencedTagNames.has(partialName)) {
-        return false;
-      }
-    }
-    // Also check array base names
-    const baseName = tag.name.split("[")[0];
-    if (referencedTagNames.has(baseName)) {
-      return false;
-    }
-    return !referencedTagNames.has(tag.name);
-  });
+  // Tags in programs with protected routines may be used by the hidden logic
+  const protectedPrograms = getProtectedPrograms(routinesResult.data || []);
+  const protectedProgramNames = [...new Set((routinesResult.data || []).map((r) => r.program_name))].sort();
+  const protectedTagCount = allTags.filter((tag) => isInProtectedScope(tag, protectedPrograms)).length;
+
+  // Find unused tags: no reference resolves to them, directly, by member or through an alias
+  let unusedTags = findUnusedTags(allTags, referencesResult.data || []).filter(
+    (tag) => !isInProtectedScope(tag, protectedPrograms)
+  );
 
   // Apply filters
   if (search) {
@@ -177,6 +175,12 @@ export default async function UnusedTagsPage({ params, searchParams }: UnusedTag
                 <p className="text-sm text-muted-foreground">
                   These tags have no references in the ladder logic. They may be unused or referenced indirectly.
                 </p>
+                {protectedTagCount > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    {protectedTagCount} tag{protectedTagCount === 1 ? " is" : "s are"} not checked because{" "}
+                    {protectedTagCount === 1 ? "it belongs" : "they belong"} to programs with protected routines ({protectedProgramNames.join(", ")}).
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
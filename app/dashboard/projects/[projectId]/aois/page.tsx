@@ -1,6 +1,7 @@
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import { getProjectAccess } from "@/lib/project-access";
+import { localizeText } from "@/lib/documentation-language";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, Download } from "lucide-react";
@@ -40,7 +41,7 @@ export default async function AOIsPage({ params, searchParams }: AOIsPageProps)
   // Get project info
   const { data: project, error: projectError } = await supabase
     .from("projects")
-    .select("id, name, project_files(id)")
+    .select("id, name, documentation_language, project_files(id)")
     .eq("id", projectId)
     .single();
 
@@ -93,10 +94,11 @@ export default async function AOIsPage({ params, searchParams }: AOIsPageProps)
   let query = supabase
     .from("parsed_aois")
     .select(`
-      id, name, description, revision, vendor, created_by, edited_by,
-      parsed_aoi_parameters(id, name, data_type, usage, required, visible, description),
+      id, file_id, name, description, descriptions, revision, vendor, created_by, edited_by, is_protected, protection_type,
+      parsed_aoi_parameters(id, name, data_type, usage, required, visible, description, descriptions),
       parsed_aoi_local_tags(id, name, data_type, description),
-      parsed_aoi_routines(id, name, type, rung_count)
+      parsed_aoi_routines(id, name, type, rung_count),
+      parsed_aoi_rungs(id, routine_name, number, content, comment)
     `, { count: "exact" })
     .in("file_id", fileIds);
 
@@ -114,7 +116,28 @@ export default async function AOIsPage({ params, searchParams }: AOIsPageProps)
 
   query = query.order(sortField, { ascending }).range(from, to);
 
-  const { data: aois, count } = await query;
+  const { data: aoiRows, count } = await query;
+
+  // Show descriptions in the project's documentation language
+  const aois = (aoiRows || []).map(({ descriptions, parsed_aoi_parameters, ...aoi }) => ({
+    ...aoi,
+    description: localizeText(aoi.description, descriptions, project.documentation_language),
+    parsed_aoi_parameters: (parsed_aoi_parameters || []).map(({ descriptions: paramDescriptions, ...param }) => ({
+      ...param,
+      description: localizeText(param.description, paramDescriptions, project.documentation_language),
+    })),
+  }));
+
+  // Instances of the AOIs on this page, from their call sites in program logic
+  const aoiNames = [...new Set(aois.map((aoi) => aoi.name))];
+  const { data: calls } = aoiNames.length > 0
+    ? await supabase
+        .from("parsed_aoi_calls")
+        .select("id, file_id, aoi_name, instance_tag, program_name, routine_name, rung_number, bindings")
+        .in("file_id", fileIds)
+        .in("aoi_name", aoiNames)
+        .order("instance_tag")
+    : { data: [] };
 
   const exportUrl = `/api/export/aois?projectId=${projectId}${search ? `&search=${search}` : ""}${vendor ? `&vendor=${vendor}` : ""}`;
 
@@ -153,7 +176,8 @@ export default async function AOIsPage({ params, searchParams }: AOIsPageProps)
       </Card>
 
       <AOITable
-        aois={aois || []}
+        aois={aois}
+        calls={calls || []}
         totalCount={count || 0}
         page={page}
         pageSize={PAGE_SIZE}
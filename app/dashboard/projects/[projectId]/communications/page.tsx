@@ -0,0 +1,354 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getProjectAccess } from "@/lib/project-access";
+import { pairConsumedTags, getMessageTargetAddress } from "@/lib/communications";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, AlertTriangle } from "lucide-react";
+import { ExportCSVButton } from "@/components/export-csv-button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+
+interface CommunicationsPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+interface ProjectFile {
+  id: string;
+  file_name: string;
+  target_name: string | null;
+}
+
+export default async function CommunicationsPage({ params }: CommunicationsPageProps) {
+  const { projectId } = await params;
+
+  const access = await getProjectAccess();
+  if (!access) notFound();
+  const { supabase } = access;
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("id, name, project_files(id, file_name, target_name)")
+    .eq("id", projectId)
+    .single();
+
+  if (projectError || !project) {
+    notFound();
+  }
+
+  const files: ProjectFile[] = project.project_files || [];
+  const fileIds = files.map((f) => f.id);
+
+  const header = (
+    <div className="flex items-center gap-4">
+      <Button variant="ghost" size="icon" asChild>
+        <Link href={`/dashboard/projects/${projectId}`}>
+          <ArrowLeft className="h-4 w-4" />
+        </Link>
+      </Button>
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">Communications</h1>
+        <p className="text-muted-foreground">{project.name}</p>
+      </div>
+    </div>
+  );
+
+  if (fileIds.length === 0) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground mb-4">
+              No files have been uploaded to this project yet.
+            </p>
+            <Button asChild>
+              <Link href={`/dashboard/projects/${projectId}/files`}>
+                Upload Files
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { data: communications } = await supabase
+    .from("parsed_communications")
+    .select("kind, tag_name, scope, data_type, produce_count, unicast_permitted, producer, remote_tag, remote_instance, rpi_ms, unicast, message_type, connection_path, remote_element, local_element, connected, cache_connections, requested_length, file_id")
+    .in("file_id", fileIds)
+    .order("tag_name");
+
+  const all = communications || [];
+  const produced = all.filter((c) => c.kind === "produced");
+  const consumed = all.filter((c) => c.kind === "consumed");
+  const messages = all.filter((c) => c.kind === "message");
+
+  if (all.length === 0) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">
+              No produced/consumed tags or MESSAGE tags found in the uploaded files.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Files stand in for controllers; a full controller export's target is the controller name
+  const controllerNames = new Map(files.map((f) => [f.id, f.target_name || f.file_name]));
+  const controllerOf = (fileId: string) => controllerNames.get(fileId) || "Unknown";
+
+  const pairs = pairConsumedTags(consumed, produced, controllerNames);
+  const unresolvedCount = pairs.filter((p) => !p.produced).length;
+  const consumerCounts = new Map<(typeof produced)[number], number>();
+  for (const pair of pairs) {
+    if (pair.produced) consumerCounts.set(pair.produced, (consumerCounts.get(pair.produced) || 0) + 1);
+  }
+
+  const yesNo = (value: boolean | null) => (value == null ? "" : value ? "Yes" : "No");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        {header}
+        <ExportCSVButton
+          filename="communications.csv"
+          data={[
+            ["Kind", "Controller", "Tag", "Scope", "Data Type", "Producer", "Remote Tag", "RPI (ms)", "Message Type", "Connection Path", "Remote Element", "Local Element", "Connected", "Cached"],
+            ...all.map((c) => [
+              c.kind,
+              controllerOf(c.file_id),
+              c.tag_name,
+              c.scope,
+              c.data_type,
+              c.producer || "",
+              c.remote_tag || "",
+              c.rpi_ms != null ? String(c.rpi_ms) : "",
+              c.message_type || "",
+              c.connection_path || "",
+              c.remote_element || "",
+              c.local_element || "",
+              yesNo(c.connected),
+              yesNo(c.cache_connections),
+            ]),
+          ]}
+        />
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Produced Tags</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{produced.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Consumed Tags</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{consumed.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Messages</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{messages.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Controllers</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{new Set(all.map((c) => c.file_id)).size}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {unresolvedCount > 0 && (
+        <Card className="border-yellow-500/50">
+          <CardContent className="py-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium text-yellow-600 dark:text-yellow-400">
+                  {unresolvedCount} consumed {unresolvedCount === 1 ? "tag has" : "tags have"} no matching produced tag in this project
+                </p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Upload the producing controller to complete the link, or check the remote tag name.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Producer/consumer pairs */}
+      {pairs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Producer / Consumer Links</CardTitle>
+            <CardDescription>Each consumed tag and the produced tag it subscribes to</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Producer</TableHead>
+                  <TableHead>Produced Tag</TableHead>
+                  <TableHead>Consumer</TableHead>
+                  <TableHead>Consumed Tag</TableHead>
+                  <TableHead>Data Type</TableHead>
+                  <TableHead className="text-right">RPI (ms)</TableHead>
+                  <TableHead>Connection</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pairs.map(({ consumed: c, produced: p }, i) => (
+                  <TableRow key={`${c.file_id}-${c.scope}-${c.tag_name}-${i}`}>
+                    <TableCell>
+                      {p ? controllerOf(p.file_id) : c.producer || "Unknown"}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{c.remote_tag || "-"}</TableCell>
+                    <TableCell>{controllerOf(c.file_id)}</TableCell>
+                    <TableCell className="font-mono text-sm">{c.tag_name}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {c.data_type}
+                      {p && p.data_type !== c.data_type && (
+                        <Badge variant="destructive" className="ml-2 text-xs">
+                          Produced as {p.data_type}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{c.rpi_ms ?? "-"}</TableCell>
+                    <TableCell>
+                      {p ? (
+                        <Badge variant="secondary" className="text-xs">
+                          {c.unicast ? "Unicast" : "Multicast"}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">Producer not in project</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Produced tags */}
+      {produced.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Produced Tags</CardTitle>
+            <CardDescription>Consumers are counted among the files in this project</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Controller</TableHead>
+                  <TableHead>Tag</TableHead>
+                  <TableHead>Data Type</TableHead>
+                  <TableHead className="text-right">Max Consumers</TableHead>
+                  <TableHead className="text-right">Consumers Found</TableHead>
+                  <TableHead>Unicast Permitted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {produced.map((p, i) => (
+                  <TableRow key={`${p.file_id}-${p.tag_name}-${i}`}>
+                    <TableCell>{controllerOf(p.file_id)}</TableCell>
+                    <TableCell className="font-mono text-sm">{p.tag_name}</TableCell>
+                    <TableCell className="font-mono text-sm">{p.data_type}</TableCell>
+                    <TableCell className="text-right">{p.produce_count ?? "-"}</TableCell>
+                    <TableCell className="text-right">{consumerCounts.get(p) || 0}</TableCell>
+                    <TableCell>{yesNo(p.unicast_permitted) || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* MSG paths */}
+      {messages.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>MSG Instructions</CardTitle>
+            <CardDescription>Configuration stored in each MESSAGE tag</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Controller</TableHead>
+                  <TableHead>Tag</TableHead>
+                  <TableHead>Message Type</TableHead>
+                  <TableHead>Path</TableHead>
+                  <TableHead>Remote Element</TableHead>
+                  <TableHead>Local Element</TableHead>
+                  <TableHead className="text-right">Length</TableHead>
+                  <TableHead>Options</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {messages.map((m, i) => {
+                  const address = getMessageTargetAddress(m.connection_path);
+                  return (
+                    <TableRow key={`${m.file_id}-${m.scope}-${m.tag_name}-${i}`}>
+                      <TableCell>{controllerOf(m.file_id)}</TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {m.tag_name}
+                        {m.scope !== "Controller" && (
+                          <span className="text-xs text-muted-foreground ml-1">({m.scope})</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{m.message_type || "-"}</TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {m.connection_path || "-"}
+                        {address && (
+                          <span className="block text-xs text-muted-foreground">{address}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{m.remote_element || "-"}</TableCell>
+                      <TableCell className="font-mono text-sm">{m.local_element || "-"}</TableCell>
+                      <TableCell className="text-right">{m.requested_length ?? "-"}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {m.connected && <Badge variant="secondary" className="text-xs">Connected</Badge>}
+                          {m.cache_connections && <Badge variant="outline" className="text-xs">Cached</Badge>}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -26,7 +26,7 @@ export default async function IOPage({ params, searchParams }: IOPageProps) {
   const { search, catalogNumber, parentModule, page: pageParam, sort, order } = await searchParams;
   const page = Math.max(1, parseInt(pageParam || "1", 10));
 
-  const sortWhitelist = ["name", "catalog_number", "parent_module", "slot"] as const;
+  const sortWhitelist = ["name", "catalog_number", "parent_module", "slot", "ip_address", "rpi_ms"] as const;
   type SortField = typeof sortWhitelist[number];
   const sortField: SortField = sortWhitelist.includes(sort as SortField) ? (sort as SortField) : "name";
   const ascending = order === "desc" ? false : true;
@@ -105,11 +105,14 @@ export default async function IOPage({ params, searchParams }: IOPageProps) {
   // Build query for modules
   let query = supabase
     .from("parsed_io_modules")
-    .select("id, name, catalog_number, parent_module, slot, connection_info, file_id", { count: "exact" })
+    .select(
+      "id, name, catalog_number, parent_module, slot, ip_address, rpi_ms, vendor_id, product_type, product_code, major_revision, minor_revision, electronic_keying, inhibited, major_fault, ports, connections, connection_info, file_id",
+      { count: "exact" }
+    )
     .in("file_id", fileIds);
 
   if (search) {
-    query = query.ilike("name", `%${search}%`);
+    query = query.or(`name.ilike.%${search}%,ip_address.ilike.%${search}%`);
   }
 
   if (catalogNumber) {
@@ -6,6 +6,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { ArrowLeft, Download } from "lucide-react";
 import { RoutineFilters } from "@/components/tools/routine-filters";
 import { RoutineTable } from "@/components/tools/routine-table";
+import type { SFCChartNode, SFCChartLink } from "@/components/tools/sfc-chart-viewer";
+import { getProjectLanguages, localizeText } from "@/lib/documentation-language";
+import { DocumentationLanguageSelect } from "@/components/projects/documentation-language-select";
 
 interface RoutinesPageProps {
   params: Promise<{ projectId: string }>;
@@ -38,7 +41,7 @@ export default async function RoutinesPage({ params, searchParams }: RoutinesPag
   // Get project info
   const { data: project, error: projectError } = await supabase
     .from("projects")
-    .select("id, name, project_files(id, file_name)")
+    .select("id, name, documentation_language, project_files(id, file_name, documentation_languages)")
     .eq("id", projectId)
     .single();
 
@@ -103,7 +106,7 @@ export default async function RoutinesPage({ params, searchParams }: RoutinesPag
   // Build query for routines
   let query = supabase
     .from("parsed_routines")
-    .select("id, name, program_name, type, description, rung_count, file_id", { count: "exact" })
+    .select("id, name, program_name, type, description, descriptions, rung_count, is_protected, protection_type, file_id", { count: "exact" })
     .in("file_id", fileIds);
 
   if (search) {
@@ -126,10 +129,60 @@ export default async function RoutinesPage({ params, searchParams }: RoutinesPag
 
   const { data: routines, count } = await query;
 
-  // Add file names to routines
-  const routinesWithFileNames = (routines || []).map((r) => ({
+  // Load step/transition graphs for the SFC routines on this page
+  const sfcRoutineNames = (routines || []).filter((r) => r.type === "SFC").map((r) => r.name);
+  const sfcChartMap = new Map<string, { nodes: SFCChartNode[]; links: SFCChartLink[] }>();
+  if (sfcRoutineNames.length > 0) {
+    const { data: charts } = await supabase
+      .from("parsed_sfc_charts")
+      .select("file_id, program_name, routine_name, nodes, links")
+      .in("file_id", fileIds)
+      .in("routine_name", sfcRoutineNames);
+
+    for (const chart of charts || []) {
+      sfcChartMap.set(`${chart.file_id}:${chart.program_name}:${chart.routine_name}`, {
+        nodes: chart.nodes,
+        links: chart.links,
+      });
+    }
+  }
+
+  // Load program properties to mark entry/fault routines, disabled and safety programs
+  const pageProgramNames = [...new Set((routines || []).map((r) => r.program_name))];
+  const programMap = new Map<string, {
+    main_routine_name: string | null;
+    fault_routine_name: string | null;
+    disabled: boolean | null;
+    program_class: string | null;
+  }>();
+  if (pageProgramNames.length > 0) {
+    const { data: programRows } = await supabase
+      .from("parsed_programs")
+      .select("file_id, name, main_routine_name, fault_routine_name, disabled, program_class")
+      .in("file_id", fileIds)
+      .in("name", pageProgramNames);
+
+    for (const p of programRows || []) {
+      programMap.set(`${p.file_id}:${p.name}`, p);
+    }
+  }
+
+  const getRoutineRole = (r: { file_id: string; program_name: string; name: string }) => {
+    const p = programMap.get(`${r.file_id}:${r.program_name}`);
+    if (p?.main_routine_name === r.name) return "main" as const;
+    if (p?.fault_routine_name === r.name) return "fault" as const;
+    return null;
+  };
+
+  // Add file names, SFC charts and program properties to routines
+  const routinesWithFileNames = (routines || []).map(({ descriptions, ...r }) => ({
     ...r,
+    description: localizeText(r.description, descriptions, project.documentation_language),
     file_name: fileMap.get(r.file_id) || undefined,
+    sfc_chart: sfcChartMap.get(`${r.file_id}:${r.program_name}:${r.name}`) || null,
+    routine_role: getRoutineRole(r),
+    program_disabled: !!programMap.get(`${r.file_id}:${r.program_name}`)?.disabled,
+    program_safety: programMap.get(`${r.file_id}:${r.program_name}`)?.program_class === "Safety",
   }));
 
   const exportUrl = `/api/export/routines?projectId=${projectId}${search ? `&search=${search}` : ""}${program ? `&program=${program}` : ""}${type ? `&type=${type}` : ""}`;
@@ -148,12 +201,19 @@ export default async function RoutinesPage({ params, searchParams }: RoutinesPag
             <p className="text-muted-foreground">{project.name}</p>
           </div>
         </div>
-        <Button variant="outline" asChild>
-          <a href={exportUrl} download>
-            <Download className="mr-2 h-4 w-4" />
-            Export CSV
-          </a>
-        </Button>
+        <div className="flex items-center gap-2">
+          <DocumentationLanguageSelect
+            projectId={projectId}
+            languages={getProjectLanguages(project.project_files || [], project.documentation_language)}
+            currentLanguage={project.documentation_language}
+          />
+          <Button variant="outline" asChild>
+            <a href={exportUrl} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
       </div>
 
       <Card>
@@ -7,6 +7,9 @@ import { ArrowLeft, Download } from "lucide-react";
 import { TagFilters } from "@/components/tools/tag-filters";
 import { TagTable } from "@/components/tools/tag-table";
 import { ReferencedTagsTable } from "@/components/tools/referenced-tags-table";
+import { flattenTagValue } from "@/lib/parsers/tag-data";
+import { getProjectLanguages, localizeText } from "@/lib/documentation-language";
+import { DocumentationLanguageSelect } from "@/components/projects/documentation-language-select";
 
 interface TagsPageProps {
   params: Promise<{ projectId: string }>;
@@ -20,6 +23,7 @@ interface TagsPageProps {
     sort?: string;
     order?: string;
     usage?: string;
+    tagClass?: string;
   }>;
 }
 
@@ -27,7 +31,7 @@ const PAGE_SIZE = 50;
 
 export default async function TagsPage({ params, searchParams }: TagsPageProps) {
   const { projectId } = await params;
-  const { search, scope, dataType, page: pageParam, from: fromParam, tab, sort, order, usage } = await searchParams;
+  const { search, scope, dataType, page: pageParam, from: fromParam, tab, sort, order, usage, tagClass } = await searchParams;
   const activeTab = tab || "definitions";
 
   // Sort whitelist for tag definitions
@@ -47,7 +51,7 @@ export default async function TagsPage({ params, searchParams }: TagsPageProps)
   // Get project info
   const { data: project, error: projectError } = await supabase
     .from("projects")
-    .select("id, name, project_files(id)")
+    .select("id, name, documentation_language, project_files(id, documentation_languages)")
     .eq("id", projectId)
     .single();
 
@@ -88,7 +92,7 @@ export default async function TagsPage({ params, searchParams }: TagsPageProps)
   }
 
   // Get unique scopes and data types for filters
-  const [scopesResult, dataTypesResult] = await Promise.all([
+  const [scopesResult, dataTypesResult, tagClassesResult] = await Promise.all([
     supabase
       .from("parsed_tags")
       .select("scope")
@@ -99,15 +103,21 @@ export default async function TagsPage({ params, searchParams }: TagsPageProps)
       .select("data_type")
       .in("file_id", fileIds)
       .order("data_type"),
+    supabase
+      .from("parsed_tags")
+      .select("tag_class")
+      .in("file_id", fileIds)
+      .not("tag_class", "is", null),
   ]);
 
   const scopes = [...new Set(scopesResult.data?.map((t) => t.scope) || [])];
   const dataTypes = [...new Set(dataTypesResult.data?.map((t) => t.data_type) || [])];
+  const tagClasses = [...new Set(tagClassesResult.data?.map((t) => t.tag_class) || [])].sort();
 
   // Build query for tags
   let query = supabase
     .from("parsed_tags")
-    .select("id, name, data_type, scope, description, usage", { count: "exact" })
+    .select("id, name, data_type, scope, description, descriptions, usage, value, data, tag_class", { count: "exact" })
     .in("file_id", fileIds);
 
   if (search) {
@@ -122,13 +132,25 @@ export default async function TagsPage({ params, searchParams }: TagsPageProps)
     query = query.eq("data_type", dataType);
   }
 
+  if (tagClass) {
+    query = query.eq("tag_class", tagClass);
+  }
+
   // Add pagination
   const from = (page - 1) * PAGE_SIZE;
   const to = from + PAGE_SIZE - 1;
 
   query = query.order(defSortField, { ascending }).range(from, to);
 
-  const { data: tags, count } = await query;
+  const { data: tagRows, count } = await query;
+
+  // Flatten decoded structure/array values into per-member rows for display,
+  // and show descriptions in the project's documentation language
+  const tags = (tagRows || []).map(({ data, descriptions, ...tag }) => ({
+    ...tag,
+    description: localizeText(tag.description, descriptions, project.documentation_language),
+    members: data && (data.kind === "structure" || data.kind === "array") ? flattenTagValue(data) : [],
+  }));
 
   // Query referenced tags (discovered from rung logic)
   let refQuery = supabase
@@ -223,6 +245,7 @@ export default async function TagsPage({ params, searchParams }: TagsPageProps)
   const exportUrl = activeTab === "references"
     ? `/api/export/tags?projectId=${projectId}&type=references${search ? `&search=${search}` : ""}`
     : `/api/export/tags?projectId=${projectId}${search ? `&search=${search}` : ""}${scope ? `&scope=${scope}` : ""}${dataType ? `&dataType=${dataType}` : ""}`;
+  const valuesExportUrl = `/api/export/tags?projectId=${projectId}&type=values${search ? `&search=${search}` : ""}${scope ? `&scope=${scope}` : ""}${dataType ? `&dataType=${dataType}` : ""}`;
 
   return (
     <div className="space-y-6">
@@ -238,12 +261,27 @@ export default async function TagsPage({ params, searchParams }: TagsPageProps)
             <p className="text-muted-foreground">{project.name}</p>
           </div>
         </div>
-        <Button variant="outline" asChild>
-          <a href={exportUrl} download>
-            <Download className="mr-2 h-4 w-4" />
-            Export CSV
-          </a>
-        </Button>
+        <div className="flex items-center gap-2">
+          <DocumentationLanguageSelect
+            projectId={projectId}
+            languages={getProjectLanguages(project.project_files || [], project.documentation_language)}
+            currentLanguage={project.documentation_language}
+          />
+          {activeTab === "definitions" && (
+            <Button variant="outline" asChild>
+              <a href={valuesExportUrl} download>
+                <Download className="mr-2 h-4 w-4" />
+                Export Values
+              </a>
+            </Button>
+          )}
+          <Button variant="outline" asChild>
+            <a href={exportUrl} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
       </div>
 
       {/* Tab switcher */}
@@ -280,12 +318,12 @@ export default async function TagsPage({ params, searchParams }: TagsPageProps)
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <TagFilters scopes={scopes} dataTypes={dataTypes} />
+              <TagFilters scopes={scopes} dataTypes={dataTypes} tagClasses={tagClasses} />
             </CardContent>
           </Card>
 
           <TagTable
-            tags={tags || []}
+            tags={tags}
             totalCount={count || 0}
             page={page}
             pageSize={PAGE_SIZE}
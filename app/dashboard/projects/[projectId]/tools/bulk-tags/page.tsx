@@ -20,7 +20,7 @@ export default async function BulkTagsPage({ params }: BulkTagsPageProps) {
   // Get project info
   const { data: project, error: projectError } = await supabase
     .from("projects")
-    .select("id, name, project_files(id)")
+    .select("id, name, project_files(id, file_name, file_type, parsing_status)")
     .eq("id", projectId)
     .single();
 
@@ -29,18 +29,26 @@ export default async function BulkTagsPage({ params }: BulkTagsPageProps) {
   }
 
   const fileIds = project.project_files?.map((f: { id: string }) => f.id) || [];
+  // Parsed L5X exports can take descriptions back; L5K files cannot
+  const l5xFiles = (project.project_files || [])
+    .filter((f: { file_name: string; file_type: string | null; parsing_status: string }) =>
+      f.parsing_status === "completed" && f.file_type !== "l5k" && !f.file_name.toLowerCase().endsWith(".l5k"))
+    .map((f: { id: string; file_name: string }) => ({ id: f.id, file_name: f.file_name }));
 
   // Get existing data types and scopes for suggestions
   let existingDataTypes: string[] = [];
   let existingScopes: string[] = [];
 
   if (fileIds.length > 0) {
-    const [dataTypesResult, scopesResult] = await Promise.all([
+    const [dataTypesResult, scopesResult, udtsResult, aoisResult] = await Promise.all([
       supabase.from("parsed_tags").select("data_type").in("file_id", fileIds),
       supabase.from("parsed_tags").select("scope").in("file_id", fileIds),
+      supabase.from("parsed_udts").select("name").in("file_id", fileIds),
+      supabase.from("parsed_aois").select("name").in("file_id", fileIds),
     ]);
 
-    existingDataTypes = [...new Set(dataTypesResult.data?.map((t) => t.data_type) || [])];
+    const projectDataTypes = [...(udtsResult.data || []), ...(aoisResult.data || [])].map((t) => t.name);
+    existingDataTypes = [...new Set([...(dataTypesResult.data?.map((t) => t.data_type) || []), ...projectDataTypes])];
     existingScopes = [...new Set(scopesResult.data?.map((t) => t.scope) || [])];
   }
 
@@ -62,8 +70,10 @@ export default async function BulkTagsPage({ params }: BulkTagsPageProps) {
         <CardHeader>
           <CardTitle>Create Tags for Import</CardTitle>
           <CardDescription>
-            Create or import tags from CSV, then export as L5X for Studio 5000 import.
+            Create or import tags from CSV or Excel, then export as L5X for Studio 5000 import.
             The exported L5X file can be imported directly into your PLC project.
+            To update descriptions of existing tags, routines, rungs, UDT members or AOI parameters, write them
+            back into an uploaded L5X instead.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -71,6 +81,7 @@ export default async function BulkTagsPage({ params }: BulkTagsPageProps) {
             projectName={project.name}
             existingDataTypes={existingDataTypes}
             existingScopes={existingScopes}
+            l5xFiles={l5xFiles}
           />
         </CardContent>
       </Card>
@@ -101,6 +112,16 @@ export default async function BulkTagsPage({ params }: BulkTagsPageProps) {
                 <li><code className="bg-muted px-1 rounded">Dimensions</code> - Array dimensions (e.g., "10" or "10,5")</li>
               </ul>
             </div>
+            <div>
+              <h4 className="font-medium mb-2">Excel Workbooks</h4>
+              <p className="text-sm text-muted-foreground">
+                Each sheet holds one scope: name it after one of this project&apos;s programs, or add a Scope
+                column; any other sheet holds controller tags. The header row may sit below title rows. Data
+                types are checked against built-in types and the types this project already uses, and rows
+                that fail are listed with their sheet and row instead of being imported. An Address column
+                makes a row an alias only when its Data Type is empty.
+              </p>
+            </div>
             <div>
               <h4 className="font-medium mb-2">Example CSV</h4>
               <pre className="bg-muted p-3 rounded-md text-sm overflow-x-auto">
@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft } from "lucide-react";
 import { ProjectManualGenerator } from "@/components/tools/project-manual-generator";
+import { DocumentationLanguageSelect } from "@/components/projects/documentation-language-select";
+import { getProjectLanguages } from "@/lib/documentation-language";
 
 interface DocumentationPageProps {
   params: Promise<{ projectId: string }>;
@@ -23,7 +25,7 @@ export default async function DocumentationPage({ params, searchParams }: Docume
   // Get project info with counts
   const { data: project, error: projectError } = await supabase
     .from("projects")
-    .select("id, name, project_files(id, parsing_status)")
+    .select("id, name, documentation_language, project_files(id, parsing_status, documentation_languages)")
     .eq("id", projectId)
     .single();
 
@@ -83,16 +85,23 @@ export default async function DocumentationPage({ params, searchParams }: Docume
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center gap-4">
-        <Button variant="ghost" size="icon" asChild>
-          <Link href={`/dashboard/projects/${projectId}`}>
-            <ArrowLeft className="h-4 w-4" />
-          </Link>
-        </Button>
-        <div>
-          <h1 className="text-2xl sm:text-3xl font-bold">Project Manual</h1>
-          <p className="text-muted-foreground">{project.name}</p>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href={`/dashboard/projects/${projectId}`}>
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold">Project Manual</h1>
+            <p className="text-muted-foreground">{project.name}</p>
+          </div>
         </div>
+        <DocumentationLanguageSelect
+          projectId={projectId}
+          languages={getProjectLanguages(completedFiles, project.documentation_language)}
+          currentLanguage={project.documentation_language}
+        />
       </div>
 
       {fileIds.length === 0 ? (
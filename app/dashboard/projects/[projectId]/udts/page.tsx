@@ -1,11 +1,14 @@
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import { getProjectAccess } from "@/lib/project-access";
+import { analyzeUDTs } from "@/lib/udt-analysis";
+import { localizeText } from "@/lib/documentation-language";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, Download } from "lucide-react";
 import { UDTFilters } from "@/components/tools/udt-filters";
 import { UDTTable } from "@/components/tools/udt-table";
+import { UDTFootprint } from "@/components/tools/udt-footprint";
 
 interface UDTsPageProps {
   params: Promise<{ projectId: string }>;
@@ -40,7 +43,7 @@ export default async function UDTsPage({ params, searchParams }: UDTsPageProps)
   // Get project info
   const { data: project, error: projectError } = await supabase
     .from("projects")
-    .select("id, name, project_files(id)")
+    .select("id, name, documentation_language, project_files(id, file_name)")
     .eq("id", projectId)
     .single();
 
@@ -49,6 +52,9 @@ export default async function UDTsPage({ params, searchParams }: UDTsPageProps)
   }
 
   const fileIds = project.project_files?.map((f: { id: string }) => f.id) || [];
+  const fileNames = new Map<string, string>(
+    project.project_files?.map((f: { id: string; file_name: string }) => [f.id, f.file_name]) || []
+  );
 
   if (fileIds.length === 0) {
     return (
@@ -92,7 +98,7 @@ export default async function UDTsPage({ params, searchParams }: UDTsPageProps)
   // Build query for UDTs
   let query = supabase
     .from("parsed_udts")
-    .select("id, name, description, family_type, parsed_udt_members(id, name, data_type, dimension, description)", { count: "exact" })
+    .select("id, name, description, descriptions, family_type, parsed_udt_members(id, name, data_type, dimension, description, descriptions)", { count: "exact" })
     .in("file_id", fileIds);
 
   if (search) {
@@ -109,7 +115,48 @@ export default async function UDTsPage({ params, searchParams }: UDTsPageProps)
 
   query = query.order(sortField, { ascending }).range(from, to);
 
-  const { data: udts, count } = await query;
+  const { data: udtRows, count } = await query;
+
+  // Show descriptions in the project's documentation language
+  const udts = (udtRows || []).map(({ descriptions, parsed_udt_members, ...udt }) => ({
+    ...udt,
+    description: localizeText(udt.description, descriptions, project.documentation_language),
+    parsed_udt_members: (parsed_udt_members || []).map(({ descriptions: memberDescriptions, ...member }) => ({
+      ...member,
+      description: localizeText(member.description, memberDescriptions, project.documentation_language),
+    })),
+  }));
+
+  // Footprint and usage are figured over every type and tag, not just the filtered page
+  const [{ data: allUdts }, { data: aois }, { data: tags }, { data: references }] = await Promise.all([
+    supabase
+      .from("parsed_udts")
+      .select("file_id, name, parsed_udt_members(name, data_type, dimension)")
+      .in("file_id", fileIds),
+    supabase
+      .from("parsed_aois")
+      .select("file_id, name, parsed_aoi_parameters(name, data_type, usage), parsed_aoi_local_tags(name, data_type)")
+      .in("file_id", fileIds),
+    supabase
+      .from("parsed_tags")
+      .select("file_id, name, scope, data_type, dimensions, alias_for")
+      .in("file_id", fileIds),
+    supabase
+      .from("tag_references")
+      .select("file_id, tag_name, program_name")
+      .in("file_id", fileIds),
+  ]);
+
+  const analysis = analyzeUDTs({
+    udts: allUdts || [],
+    aois: aois || [],
+    tags: tags || [],
+    references: references || [],
+  });
+  const udtFootprints = analysis.types.filter((t) => t.kind === "udt");
+  const neverInstantiated = udtFootprints.filter((t) => !t.instantiated).length;
+  const unusedMembers = udtFootprints.reduce((sum, t) => sum + t.unusedMembers.length, 0);
+  const totalBytes = analysis.scopes.reduce((sum, s) => sum + s.bytes, 0);
 
   const exportUrl = `/api/export/udts?projectId=${projectId}${search ? `&search=${search}` : ""}${familyType ? `&familyType=${familyType}` : ""}`;
 
@@ -135,6 +182,42 @@ export default async function UDTsPage({ params, searchParams }: UDTsPageProps)
         </Button>
       </div>
 
+      {/* Summary Cards */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">User Defined Types</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{udtFootprints.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Never Instantiated</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-3xl font-bold ${neverInstantiated > 0 ? "text-yellow-600" : ""}`}>{neverInstantiated}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Unused Members</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className={`text-3xl font-bold ${unusedMembers > 0 ? "text-yellow-600" : ""}`}>{unusedMembers}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Tag Memory</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{(totalBytes / 1024).toFixed(1)} KB</p>
+          </CardContent>
+        </Card>
+      </div>
+
       <Card>
         <CardHeader>
           <CardTitle>Search & Filter</CardTitle>
@@ -148,11 +231,17 @@ export default async function UDTsPage({ params, searchParams }: UDTsPageProps)
       </Card>
 
       <UDTTable
-        udts={udts || []}
+        udts={udts}
         totalCount={count || 0}
         page={page}
         pageSize={PAGE_SIZE}
       />
+
+      <UDTFootprint
+        types={analysis.types}
+        scopes={analysis.scopes}
+        fileNames={fileIds.length > 1 ? fileNames : undefined}
+      />
     </div>
   );
 }
@@ -26,6 +26,7 @@ import {
   CartesianGrid,
   LabelList,
 } from "recharts";
+import type { ComplexityBucket } from "@/lib/parsers/complexity";
 
 interface UsageBreakdown {
   name: string;
@@ -48,6 +49,7 @@ interface AnalysisChartsProps {
   usageBreakdown: UsageBreakdown[];
   routineCoverage: RoutineCoverage[];
   topTags: TopTag[];
+  complexityHistogram?: ComplexityBucket[];
   projectId: string;
 }
 
@@ -95,6 +97,84 @@ function CustomTooltip({ active, payload, label }: { active?: boolean; payload?:
   );
 }
 
+function getComplexityColor(bucket: ComplexityBucket): string {
+  if (bucket.overGuideline) return "#ef4444";
+  if (bucket.min >= 15) return "#eab308";
+  return "#3b82f6";
+}
+
+function ComplexityTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: ComplexityBucket }> }) {
+  if (!active || !payload?.length) return null;
+  const bucket = payload[0].payload;
+  return (
+    <div className="bg-popover text-popover-foreground border rounded-lg px-3 py-2 shadow-md text-sm">
+      <p className="font-medium">Score {bucket.range}</p>
+      <p className="text-muted-foreground">
+        {bucket.rungs.toLocaleString()} {bucket.rungs === 1 ? "rung" : "rungs"}
+        {bucket.overGuideline && " (over guideline)"}
+      </p>
+    </div>
+  );
+}
+
+/** Rung complexity scores as a histogram; bars over the guideline are red. */
+export function ComplexityHistogram({
+  buckets,
+  height = 220,
+  onSelect,
+}: {
+  buckets: ComplexityBucket[];
+  height?: number;
+  onSelect?: (bucket: ComplexityBucket) => void;
+}) {
+  return (
+    <div style={{ height: `${height}px` }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={buckets} margin={{ left: 0, right: 8, top: 16, bottom: 4 }}>
+          <CartesianGrid vertical={false} strokeDasharray="3 3" className="stroke-muted/30" />
+          <XAxis
+            dataKey="range"
+            fontSize={11}
+            className="fill-muted-foreground"
+            axisLine={false}
+            tickLine={false}
+          />
+          <YAxis
+            allowDecimals={false}
+            width={40}
+            fontSize={11}
+            className="fill-muted-foreground"
+            axisLine={false}
+            tickLine={false}
+          />
+          <Tooltip content={<ComplexityTooltip />} cursor={false} />
+          <Bar
+            dataKey="rungs"
+            radius={[6, 6, 0, 0]}
+            animationBegin={0}
+            animationDuration={600}
+            animationEasing="ease-out"
+            style={onSelect ? { cursor: "pointer" } : undefined}
+            onClick={(_data, index) => {
+              const bucket = buckets[index];
+              if (bucket && onSelect) onSelect(bucket);
+            }}
+          >
+            {buckets.map((bucket) => (
+              <Cell key={bucket.range} fill={getComplexityColor(bucket)} />
+            ))}
+            <LabelList
+              dataKey="rungs"
+              position="top"
+              className="fill-muted-foreground text-[11px]"
+            />
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
 function PieTooltip({ active, payload }: { active?: boolean; payload?: Array<{ name: string; value: number }> }) {
   if (!active || !payload?.length) return null;
   return (
@@ -119,7 +199,7 @@ function PieCenterLabel({ data }: { data: UsageBreakdown[] }) {
   );
 }
 
-export function AnalysisCharts({ usageBreakdown, routineCoverage, topTags, projectId }: AnalysisChartsProps) {
+export function AnalysisCharts({ usageBreakdown, routineCoverage, topTags, complexityHistogram = [], projectId }: AnalysisChartsProps) {
   const router = useRouter();
   const [coverageExpanded, setCoverageExpanded] = useState(false);
   const [topTagsExpanded, setTopTagsExpanded] = useState(false);
@@ -130,8 +210,9 @@ export function AnalysisCharts({ usageBreakdown, routineCoverage, topTags, proje
   const hasUsageData = usageBreakdown.some((d) => d.value > 0);
   const hasCoverageData = routineCoverage.length > 0;
   const hasTopTags = topTags.length > 0;
+  const hasComplexityData = complexityHistogram.some((b) => b.rungs > 0);
 
-  if (!hasUsageData && !hasCoverageData && !hasTopTags) return null;
+  if (!hasUsageData && !hasCoverageData && !hasTopTags && !hasComplexityData) return null;
 
   const filteredUsage = usageBreakdown.filter((d) => d.value > 0);
   const usageTotal = filteredUsage.reduce((sum, d) => sum + d.value, 0);
@@ -445,6 +526,22 @@ export function AnalysisCharts({ usageBreakdown, routineCoverage, topTags, proje
         </Card>
       )}
 
+      {/* Rung Complexity */}
+      {hasComplexityData && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Rung Complexity</CardTitle>
+            <CardDescription>Rungs by complexity score</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ComplexityHistogram
+              buckets={complexityHistogram}
+              onSelect={(bucket) => router.push(`${basePath}/complexity?view=rungs&minScore=${bucket.min}`)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Enlarged Chart Dialog */}
       <Dialog open={enlargedChart !== null} onOpenChange={(open) => !open && setEnlargedChart(null)}>
         <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
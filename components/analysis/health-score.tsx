@@ -20,6 +20,7 @@ interface HealthScoreProps {
     commentCoverage: number;
     totalReferences: number;
     totalRungs: number;
+    protectedTags?: number;
     namingViolationTags?: number;
     taskConfigScore?: number;
   };
@@ -30,9 +31,11 @@ interface HealthScoreProps {
 }
 
 function computeScore(stats: HealthScoreProps["stats"]) {
+  // Tags only protected logic could use are left out of the efficiency ratio
+  const scoredTags = stats.totalTags - (stats.protectedTags ?? 0);
   const tagEfficiency =
-    stats.totalTags > 0
-      ? Math.max(0, 100 - (stats.unusedTags / stats.totalTags) * 200)
+    scoredTags > 0
+      ? Math.max(0, 100 - (stats.unusedTags / scoredTags) * 200)
       : 100;
   const documentation = stats.commentCoverage;
   const tagUsage =
@@ -153,7 +156,7 @@ export function HealthScore({ projectId, stats, partialExportInfo, namingHealthE
       ? [{ label: "Naming Compliance (rule violations)", value: namingCompliance }]
       : []),
     ...(taskConfig !== undefined
-      ? [{ label: "Task Configuration (program scheduling)", value: taskConfig }]
+      ? [{ label: "Task Configuration (scheduling and reachable routines)", value: taskConfig }]
       : []),
   ];
 
@@ -0,0 +1,68 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertCircle, AlertTriangle, CheckCircle } from "lucide-react";
+import type { OutputConflict, OutputConflictKind } from "@/lib/output-conflicts";
+
+const KIND_LABELS: Record<OutputConflictKind, string> = {
+  "duplicate-output": "Duplicate output",
+  "latch-without-unlatch": "OTL without OTU",
+  "multi-task-write": "Multi-task write",
+};
+
+interface OutputConflictListProps {
+  conflicts: OutputConflict[];
+}
+
+/** Output conflicts as issue cards, each with the rungs involved. */
+export function OutputConflictList({ conflicts }: OutputConflictListProps) {
+  if (conflicts.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CheckCircle className="h-4 w-4 text-green-500" />
+        No duplicate outputs, unmatched latches or multi-task writes found.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {conflicts.map((conflict) => (
+        <Card
+          key={`${conflict.kind}/${conflict.fileId}/${conflict.tagName}`}
+          className={conflict.severity === "error" ? "border-red-500/50" : "border-yellow-500/50"}
+        >
+          <CardContent className="py-4">
+            <div className="flex items-start gap-3">
+              {conflict.severity === "error" ? (
+                <AlertCircle className="h-4 w-4 text-red-500" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 text-yellow-500" />
+              )}
+              <div className="flex-1 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  {conflict.severity === "error" ? (
+                    <Badge className="bg-red-500/10 text-red-500">Error</Badge>
+                  ) : (
+                    <Badge className="bg-yellow-500/10 text-yellow-500">Warning</Badge>
+                  )}
+                  <Badge variant="outline">{KIND_LABELS[conflict.kind]}</Badge>
+                  <span className="font-mono text-sm">{conflict.tagName}</span>
+                </div>
+                <p className="text-sm">{conflict.description}</p>
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {conflict.locations.map((location, i) => (
+                    <li key={i} className="font-mono">
+                      {location.programName}/{location.routineName} rung {location.rungNumber}
+                      {location.instruction && ` · ${location.instruction}`}
+                      {location.taskName && ` · ${location.taskName} (priority ${location.taskPriority})`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
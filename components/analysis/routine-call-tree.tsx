@@ -0,0 +1,116 @@
+import { Badge } from "@/components/ui/badge";
+import { FileCode, CornerDownRight, Repeat } from "lucide-react";
+import type { CallGraphProgram, CallGraphRoutine } from "@/lib/call-graph";
+
+interface RoutineCallTreeProps {
+  program: CallGraphProgram;
+}
+
+function RoutineNode({
+  routine,
+  byName,
+  path,
+}: {
+  routine: CallGraphRoutine;
+  byName: Map<string, CallGraphRoutine>;
+  path: Set<string>;
+}) {
+  const nextPath = new Set([...path, routine.name.toUpperCase()]);
+
+  return (
+    <li>
+      <div className="flex flex-wrap items-center gap-2 py-1 text-sm">
+        <CornerDownRight className="h-4 w-4 text-muted-foreground" />
+        <span className="font-mono">{routine.name}</span>
+        <Badge variant="outline" className="text-xs">{routine.type}</Badge>
+        {routine.parameters !== undefined && routine.parameters > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {routine.parameters} in{routine.returnValues ? ` / ${routine.returnValues} out` : ""}
+          </span>
+        )}
+      </div>
+      {routine.callees.length > 0 && (
+        <ul className="ml-6 border-l pl-3">
+          {routine.callees.map((name) => {
+            const callee = byName.get(name.toUpperCase());
+            if (!callee) return null;
+            // A routine already on the path is a recursive call; stop there
+            if (nextPath.has(name.toUpperCase())) {
+              return (
+                <li key={name} className="flex items-center gap-2 py-1 text-sm">
+                  <Repeat className="h-4 w-4 text-destructive" />
+                  <span className="font-mono">{callee.name}</span>
+                  <Badge variant="destructive" className="text-xs">Recursive</Badge>
+                </li>
+              );
+            }
+            return <RoutineNode key={name} routine={callee} byName={byName} path={nextPath} />;
+          })}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * One program's routines as the controller runs them: the main and fault
+ * routines at the top with each JSR target nested under its caller, then
+ * the routines no call path reaches.
+ */
+export function RoutineCallTree({ program }: RoutineCallTreeProps) {
+  const byName = new Map(program.routines.map((r) => [r.name.toUpperCase(), r]));
+  const roots = program.routines.filter((r) => r.role);
+  const unreached = program.routines.filter((r) => !r.reachable && !r.role);
+
+  return (
+    <div className="space-y-2">
+      {roots.map((root) => (
+        <div key={root.name}>
+          <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+            <FileCode className="h-4 w-4" />
+            <span className="font-mono">{root.name}</span>
+            <Badge variant={root.role === "main" ? "default" : "secondary"} className="text-xs">
+              {root.role === "main" ? "Main" : "Fault"}
+            </Badge>
+          </div>
+          {root.callees.length > 0 && (
+            <ul className="ml-6">
+              {root.callees.map((name) => {
+                const callee = byName.get(name.toUpperCase());
+                return callee ? (
+                  <RoutineNode key={name} routine={callee} byName={byName} path={new Set([root.name.toUpperCase()])} />
+                ) : null;
+              })}
+            </ul>
+          )}
+        </div>
+      ))}
+      {!program.mainRoutine && (
+        <p className="text-sm italic text-muted-foreground">No main routine configured</p>
+      )}
+      {unreached.length > 0 && (
+        <div className="pt-1">
+          <p className="text-sm font-medium text-muted-foreground">Not called</p>
+          <ul className="ml-6">
+            {unreached.map((routine) => (
+              <li key={routine.name} className="flex flex-wrap items-center gap-2 py-1 text-sm">
+                <span className="font-mono text-muted-foreground">{routine.name}</span>
+                <Badge variant="outline" className="text-xs">{routine.type}</Badge>
+                {routine.unverified ? (
+                  <Badge variant="secondary" className="text-xs">May be called from FBD/SFC</Badge>
+                ) : (
+                  <Badge variant="outline" className="text-xs border-yellow-500/50 text-yellow-600 dark:text-yellow-400">
+                    Unreachable
+                  </Badge>
+                )}
+                {routine.callers.length > 0 && (
+                  <span className="text-xs text-muted-foreground">called only by {routine.callers.join(", ")}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
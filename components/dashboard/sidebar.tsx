@@ -20,6 +20,8 @@ import {
   Tags,
   Settings,
   HardDrive,
+  Network,
+  Bell,
   FileCode2,
   Layers,
   Package,
@@ -65,6 +67,8 @@ const projectToolGroups: { label: string; items: ProjectTool[] }[] = [
     items: [
       { name: "Tag Explorer", globalHref: "/dashboard/tools/tags", projectHref: "/tags", icon: Tags },
       { name: "I/O Mapping", globalHref: "/dashboard/tools/io", projectHref: "/io-mapping", icon: HardDrive },
+      { name: "Communications", projectHref: "/communications", icon: Network },
+      { name: "Alarms", projectHref: "/alarms", icon: Bell },
       { name: "UDTs", globalHref: "/dashboard/tools/udts", projectHref: "/udts", icon: Layers },
       { name: "AOIs", globalHref: "/dashboard/tools/aois", projectHref: "/aois", icon: Package },
     ],
@@ -57,6 +57,7 @@ const actionIcons: Record<string, React.ReactNode> = {
   share_revoked: <UserMinus className="h-4 w-4" />,
   collaborator_removed: <UserMinus className="h-4 w-4" />,
   tag_exported: <Download className="h-4 w-4" />,
+  alarms_exported: <Download className="h-4 w-4" />,
   documentation_exported: <Download className="h-4 w-4" />,
   ai_analysis_run: <Sparkles className="h-4 w-4" />,
   project_duplicated: <Copy className="h-4 w-4" />,
@@ -74,6 +75,7 @@ const actionColors: Record<string, string> = {
   share_revoked: "bg-orange-500/10 text-orange-600",
   collaborator_removed: "bg-red-500/10 text-red-600",
   tag_exported: "bg-blue-500/10 text-blue-600",
+  alarms_exported: "bg-blue-500/10 text-blue-600",
   documentation_exported: "bg-blue-500/10 text-blue-600",
   ai_analysis_run: "bg-purple-500/10 text-purple-600",
   project_duplicated: "bg-blue-500/10 text-blue-600",
@@ -128,6 +130,7 @@ function getActionDescription(action: string, targetName?: string | null, metada
     share_revoked: targetName ? `revoked access for ${targetName}` : "revoked access",
     collaborator_removed: targetName ? `removed ${targetName}` : "removed a collaborator",
     tag_exported: "exported tags",
+    alarms_exported: "exported alarms",
     documentation_exported: targetName ? `exported as ${targetName}` : "exported documentation",
     ai_analysis_run: targetName ? `ran ${targetName}` : "ran AI analysis",
     project_duplicated: targetName ? `duplicated from "${targetName}"` : "duplicated a project",
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Languages } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface DocumentationLanguageSelectProps {
+  projectId: string;
+  languages: string[];
+  currentLanguage: string | null;
+}
+
+const FILE_DEFAULT = "file-default";
+
+export function DocumentationLanguageSelect({ projectId, languages, currentLanguage }: DocumentationLanguageSelectProps) {
+  const router = useRouter();
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  // Single-language projects have nothing to choose from
+  if (languages.length === 0) return null;
+
+  const handleChange = async (value: string) => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documentation-language`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: value === FILE_DEFAULT ? null : value }),
+      });
+      if (!response.ok) throw new Error("Failed to update");
+      router.refresh();
+    } catch {
+      console.error("Failed to update documentation language");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Select value={currentLanguage || FILE_DEFAULT} onValueChange={handleChange} disabled={isUpdating}>
+      <SelectTrigger className="w-[180px]" aria-label="Documentation language">
+        <Languages className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue placeholder="Documentation language" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={FILE_DEFAULT}>File default</SelectItem>
+        {languages.map((language) => (
+          <SelectItem key={language} value={language}>
+            {language}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
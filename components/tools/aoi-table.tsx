@@ -13,7 +13,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp } from "lucide-react";
+import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Lock } from "lucide-react";
 import { SortableTableHead } from "@/components/tools/sortable-table-head";
 
 interface AOIParameter {
@@ -40,31 +40,58 @@ interface AOIRoutine {
   rung_count: number | null;
 }
 
+interface AOIRung {
+  id: string;
+  routine_name: string;
+  number: number;
+  content: string;
+  comment: string | null;
+}
+
+export interface AOICall {
+  id: string;
+  file_id: string;
+  aoi_name: string;
+  instance_tag: string;
+  program_name: string;
+  routine_name: string;
+  rung_number: number;
+  bindings: { parameter: string; argument: string }[];
+}
+
 interface AOI {
   id: string;
+  file_id: string;
   name: string;
   description: string | null;
   revision: string | null;
   vendor: string | null;
   created_by: string | null;
   edited_by: string | null;
+  is_protected: boolean | null;
+  protection_type: string | null;
   parsed_aoi_parameters: AOIParameter[];
   parsed_aoi_local_tags: AOILocalTag[];
   parsed_aoi_routines: AOIRoutine[];
+  parsed_aoi_rungs: AOIRung[];
 }
 
 interface AOITableProps {
   aois: AOI[];
+  calls: AOICall[];
   totalCount: number;
   page: number;
   pageSize: number;
 }
 
-function AOIRow({ aoi }: { aoi: AOI }) {
+function AOIRow({ aoi, calls }: { aoi: AOI; calls: AOICall[] }) {
   const [isOpen, setIsOpen] = useState(false);
   const paramCount = aoi.parsed_aoi_parameters?.length || 0;
   const localTagCount = aoi.parsed_aoi_local_tags?.length || 0;
   const routineCount = aoi.parsed_aoi_routines?.length || 0;
+  const rungs = [...(aoi.parsed_aoi_rungs || [])].sort(
+    (a, b) => a.routine_name.localeCompare(b.routine_name) || a.number - b.number
+  );
 
   const getUsageBadgeVariant = (usage: string) => {
     switch (usage) {
@@ -91,6 +118,12 @@ function AOIRow({ aoi }: { aoi: AOI }) {
             )}
             <span className="font-mono">{aoi.name}</span>
           </Button>
+          {aoi.is_protected && (
+            <Badge variant="secondary" className="ml-2" title={aoi.protection_type === "License" ? "License protected" : "Source protected"}>
+              <Lock />
+              Protected
+            </Badge>
+          )}
         </TableCell>
         <TableCell className="text-sm">{aoi.revision || "-"}</TableCell>
         <TableCell>
@@ -101,13 +134,14 @@ function AOIRow({ aoi }: { aoi: AOI }) {
           )}
         </TableCell>
         <TableCell className="text-sm">{paramCount}</TableCell>
+        <TableCell className="text-sm">{calls.length}</TableCell>
         <TableCell className="text-sm text-muted-foreground max-w-[300px] truncate">
           {aoi.description || "-"}
         </TableCell>
       </TableRow>
       {isOpen && (
         <TableRow>
-          <TableCell colSpan={5} className="bg-muted/30 p-0">
+          <TableCell colSpan={6} className="bg-muted/30 p-0">
             <div className="p-4">
               <Tabs defaultValue="parameters" className="w-full">
                 <TabsList>
@@ -120,6 +154,12 @@ function AOIRow({ aoi }: { aoi: AOI }) {
                   <TabsTrigger value="routines">
                     Routines ({routineCount})
                   </TabsTrigger>
+                  <TabsTrigger value="logic">
+                    Logic ({rungs.length})
+                  </TabsTrigger>
+                  <TabsTrigger value="instances">
+                    Instances ({calls.length})
+                  </TabsTrigger>
                 </TabsList>
                 <TabsContent value="parameters" className="mt-4">
                   {paramCount > 0 ? (
@@ -184,7 +224,9 @@ function AOIRow({ aoi }: { aoi: AOI }) {
                       </TableBody>
                     </Table>
                   ) : (
-                    <p className="text-sm text-muted-foreground">No local tags defined</p>
+                    <p className="text-sm text-muted-foreground">
+                      {aoi.is_protected ? "Local tags are hidden by source protection" : "No local tags defined"}
+                    </p>
                   )}
                 </TabsContent>
                 <TabsContent value="routines" className="mt-4">
@@ -212,7 +254,78 @@ function AOIRow({ aoi }: { aoi: AOI }) {
                       </TableBody>
                     </Table>
                   ) : (
-                    <p className="text-sm text-muted-foreground">No routines defined</p>
+                    <p className="text-sm text-muted-foreground">
+                      {aoi.is_protected ? "Logic is hidden by source protection" : "No routines defined"}
+                    </p>
+                  )}
+                </TabsContent>
+                <TabsContent value="logic" className="mt-4">
+                  {rungs.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[150px]">Routine</TableHead>
+                          <TableHead className="w-[80px]">Rung</TableHead>
+                          <TableHead>Logic</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rungs.map((rung) => (
+                          <TableRow key={rung.id}>
+                            <TableCell className="font-mono text-sm">{rung.routine_name}</TableCell>
+                            <TableCell className="text-sm text-muted-foreground">{rung.number}</TableCell>
+                            <TableCell>
+                              {rung.comment && (
+                                <p className="text-xs text-muted-foreground mb-1 whitespace-pre-wrap">{rung.comment}</p>
+                              )}
+                              <code className="text-sm font-mono whitespace-pre-wrap break-all">{rung.content}</code>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {aoi.is_protected ? "Logic is hidden by source protection" : "No ladder or structured text logic"}
+                    </p>
+                  )}
+                </TabsContent>
+                <TabsContent value="instances" className="mt-4">
+                  {calls.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[200px]">Instance</TableHead>
+                          <TableHead className="w-[250px]">Called From</TableHead>
+                          <TableHead>Parameter Bindings</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {calls.map((call) => (
+                          <TableRow key={call.id}>
+                            <TableCell className="font-mono text-sm">{call.instance_tag}</TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {call.program_name} / {call.routine_name} / {call.rung_number}
+                            </TableCell>
+                            <TableCell>
+                              {call.bindings.length > 0 ? (
+                                <div className="flex flex-wrap gap-1">
+                                  {call.bindings.map((binding) => (
+                                    <Badge key={binding.parameter} variant="outline" className="font-mono text-xs">
+                                      {binding.parameter} = {binding.argument}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              ) : (
+                                <span className="text-sm text-muted-foreground">-</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No calls to this AOI found in program logic</p>
                   )}
                 </TabsContent>
               </Tabs>
@@ -231,7 +344,7 @@ function AOIRow({ aoi }: { aoi: AOI }) {
   );
 }
 
-export function AOITable({ aois, totalCount, page, pageSize }: AOITableProps) {
+export function AOITable({ aois, calls, totalCount, page, pageSize }: AOITableProps) {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
@@ -260,18 +373,25 @@ export function AOITable({ aois, totalCount, page, pageSize }: AOITableProps) {
               <SortableTableHead column="revision" className="w-[100px]">Revision</SortableTableHead>
               <SortableTableHead column="vendor" className="w-[150px]">Vendor</SortableTableHead>
               <TableHead className="w-[100px]">Params</TableHead>
+              <TableHead className="w-[100px]">Instances</TableHead>
               <TableHead>Description</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {aois.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="h-24 text-center">
+                <TableCell colSpan={6} className="h-24 text-center">
                   No AOIs found
                 </TableCell>
               </TableRow>
             ) : (
-              aois.map((aoi) => <AOIRow key={aoi.id} aoi={aoi} />)
+              aois.map((aoi) => (
+                <AOIRow
+                  key={aoi.id}
+                  aoi={aoi}
+                  calls={calls.filter((call) => call.file_id === aoi.file_id && call.aoi_name === aoi.name)}
+                />
+              ))
             )}
           </TableBody>
         </Table>
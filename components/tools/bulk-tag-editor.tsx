@@ -23,7 +23,12 @@ import {
 } from "@/components/ui/table";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Upload, Plus, Trash2, Download, FileCode2, Copy } from "lucide-react";
+import { Upload, Plus, Trash2, Download, FileCode2, Copy, FileInput } from "lucide-react";
+import * as XLSX from "xlsx";
+import { formatStudio5000CSV, type Studio5000MemberComment } from "@/lib/studio5000-csv";
+import { MAX_WORKBOOK_SIZE, type WorkbookSheet } from "@/lib/tag-workbook";
+import type { DescriptionUpdate } from "@/lib/parsers/description-writeback";
+import { DescriptionEditor } from "./description-editor";
 
 interface Tag {
   id: string;
@@ -36,12 +41,23 @@ interface Tag {
   radix?: string;
   externalAccess?: string;
   dimensions?: string;
+  aliasFor?: string;
+  attributes?: Record<string, string>;
+  memberComments?: Studio5000MemberComment[];
+}
+
+interface ImportRowError {
+  sheet: string;
+  row: number;
+  name?: string;
+  message: string;
 }
 
 interface BulkTagEditorProps {
   projectName: string;
-  existingDataTypes: string[];
+  existingDataTypes: string[];   // Types the project's tags use, and its UDT and AOI names
   existingScopes: string[];
+  l5xFiles?: Array<{ id: string; file_name: string }>;
 }
 
 const DATA_TYPES = [
@@ -56,12 +72,29 @@ const ACCESS_OPTIONS = ["Read/Write", "Read Only", "None"];
 let tagIdCounter = 0;
 const generateId = () => `tag-${++tagIdCounter}`;
 
-export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }: BulkTagEditorProps) {
+/** Every sheet's cells as the text Excel displays, so `0012` formatted as a zero-padded number stays `0012`. */
+function readWorkbookSheets(data: ArrayBuffer): WorkbookSheet[] {
+  const workbook = XLSX.read(data, { type: "array" });
+  return workbook.SheetNames.map((name) => ({
+    name,
+    rows: XLSX.utils
+      .sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: false, defval: "", blankrows: true })
+      .map((row) => row.map((cell) => String(cell ?? ""))),
+  }));
+}
+
+export function BulkTagEditor({ projectName, existingDataTypes, existingScopes, l5xFiles = [] }: BulkTagEditorProps) {
   const [tags, setTags] = useState<Tag[]>([]);
   const [isImporting, setIsImporting] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [l5xPreview, setL5xPreview] = useState<string | null>(null);
+  const [writeBackFileId, setWriteBackFileId] = useState<string>(l5xFiles[0]?.id || "");
+  const [isWritingBack, setIsWritingBack] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<ImportRowError[]>([]);
+  // Routine, rung, UDT member and AOI parameter descriptions edited for the write-back file
+  const [descriptionEdits, setDescriptionEdits] = useState<DescriptionUpdate[]>([]);
 
   const allDataTypes = [...new Set([...DATA_TYPES, ...existingDataTypes])].sort();
   const allScopes = [...new Set(["Controller", ...existingScopes])].sort();
@@ -72,10 +105,22 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
 
     setIsImporting(true);
     setError(null);
+    setNotice(null);
+    setImportErrors([]);
 
     try {
       const formData = new FormData();
-      formData.append("file", file);
+      // Workbooks are read here so the server only ever sees their cell text
+      if (/\.xlsx?$/i.test(file.name)) {
+        if (file.size > MAX_WORKBOOK_SIZE) {
+          throw new Error("Workbook exceeds maximum size of 10MB");
+        }
+        formData.append("sheets", JSON.stringify(readWorkbookSheets(await file.arrayBuffer())));
+      } else {
+        formData.append("file", file);
+      }
+      formData.append("dataTypes", JSON.stringify(existingDataTypes));
+      formData.append("scopes", JSON.stringify(existingScopes));
 
       const response = await fetch("/api/tags/import", {
         method: "POST",
@@ -94,14 +139,28 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
       }));
 
       setTags((prev) => [...prev, ...importedTags]);
+      if (data.format === "studio5000") {
+        const comments = importedTags.reduce((sum, t) => sum + (t.memberComments?.length || 0), 0);
+        setNotice(
+          `Imported ${importedTags.length} tag${importedTags.length === 1 ? "" : "s"} and ${comments} member comment${comments === 1 ? "" : "s"} from Studio 5000 CSV` +
+            (data.skippedRows > 0 ? `; ${data.skippedRows} other row${data.skippedRows === 1 ? " was" : "s were"} skipped` : "")
+        );
+      } else if (data.format === "xlsx") {
+        const sheetCount = data.sheets.filter((s: { tagCount: number }) => s.tagCount > 0).length;
+        setNotice(
+          `Imported ${importedTags.length} tag${importedTags.length === 1 ? "" : "s"} from ${sheetCount} sheet${sheetCount === 1 ? "" : "s"}` +
+            (data.errors.length > 0 ? `; ${data.errors.length} row${data.errors.length === 1 ? "" : "s"} rejected` : "")
+        );
+        setImportErrors(data.errors);
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to import CSV");
+      setError(err instanceof Error ? err.message : "Failed to import file");
     } finally {
       setIsImporting(false);
       // Reset the input
       e.target.value = "";
     }
-  }, []);
+  }, [existingDataTypes, existingScopes]);
 
   const addTag = () => {
     setTags((prev) => [
@@ -129,6 +188,8 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
     setTags([]);
     setL5xPreview(null);
     setError(null);
+    setNotice(null);
+    setImportErrors([]);
   };
 
   const exportCSV = () => {
@@ -157,15 +218,26 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
     URL.revokeObjectURL(url);
   };
 
+  const exportStudio5000CSV = () => {
+    const csv = formatStudio5000CSV(tags.filter((t) => t.name));
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${projectName.replace(/[^a-zA-Z0-9]/g, "_")}_Tags.CSV`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const generateL5X = async () => {
     if (tags.length === 0) {
       setError("Add at least one tag to generate L5X");
       return;
     }
 
-    const invalidTags = tags.filter((t) => !t.name || !t.dataType);
+    const invalidTags = tags.filter((t) => !t.name || (!t.dataType && !t.aliasFor));
     if (invalidTags.length > 0) {
-      setError("All tags must have a name and data type");
+      setError("All tags must have a name and a data type or alias target");
       return;
     }
 
@@ -205,6 +277,64 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
     URL.revokeObjectURL(url);
   };
 
+  // Patch the edited descriptions into the original export instead of a tag fragment
+  const writeBackDescriptions = async () => {
+    const described = tags.filter((t) => t.name && t.description);
+    if (described.length === 0 && descriptionEdits.length === 0) {
+      setError("Describe at least one tag or edit a description to write back");
+      return;
+    }
+
+    setIsWritingBack(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch("/api/export/l5x-descriptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          fileId: writeBackFileId,
+          updates: [
+            ...described.map((t) => ({
+              kind: "tag",
+              scope: t.scope || "Controller",
+              name: t.name,
+              text: t.description,
+            })),
+            ...descriptionEdits,
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to write descriptions");
+      }
+
+      const applied = Number(response.headers.get("X-Descriptions-Applied") || 0);
+      const missing = Number(response.headers.get("X-Descriptions-Missing") || 0);
+      const fileName = l5xFiles.find((f) => f.id === writeBackFileId)?.file_name || "Project.L5X";
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setNotice(
+        `${applied} description${applied === 1 ? "" : "s"} written to ${fileName}` +
+          (missing > 0 ? `; ${missing} target${missing === 1 ? " was" : "s were"} not found in the file` : "")
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to write descriptions");
+    } finally {
+      setIsWritingBack(false);
+    }
+  };
+
   const copyL5X = () => {
     if (!l5xPreview) return;
     navigator.clipboard.writeText(l5xPreview);
@@ -217,6 +347,35 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
           {error}
         </div>
       )}
+      {notice && (
+        <div className="p-3 rounded-md bg-muted text-sm">
+          {notice}
+        </div>
+      )}
+      {importErrors.length > 0 && (
+        <div className="rounded-md border max-h-[240px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[150px]">Sheet</TableHead>
+                <TableHead className="w-[70px]">Row</TableHead>
+                <TableHead className="w-[200px]">Tag</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {importErrors.map((e) => (
+                <TableRow key={`${e.sheet}-${e.row}`}>
+                  <TableCell>{e.sheet}</TableCell>
+                  <TableCell className="font-mono">{e.row}</TableCell>
+                  <TableCell className="font-mono">{e.name || "-"}</TableCell>
+                  <TableCell className="text-destructive">{e.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
 
       <Tabs defaultValue="editor" className="w-full">
         <TabsList>
@@ -224,6 +383,7 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
           <TabsTrigger value="preview" disabled={!l5xPreview}>
             L5X Preview
           </TabsTrigger>
+          {l5xFiles.length > 0 && <TabsTrigger value="descriptions">Other Descriptions</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="editor" className="space-y-4">
@@ -232,14 +392,14 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
             <div className="relative">
               <Input
                 type="file"
-                accept=".csv"
+                accept=".csv,.xlsx,.xls"
                 onChange={handleFileUpload}
                 className="absolute inset-0 opacity-0 cursor-pointer"
                 disabled={isImporting}
               />
               <Button variant="outline" disabled={isImporting}>
                 <Upload className="h-4 w-4 mr-2" />
-                {isImporting ? "Importing..." : "Import CSV"}
+                {isImporting ? "Importing..." : "Import CSV / Excel"}
               </Button>
             </div>
             <Button variant="outline" onClick={addTag}>
@@ -250,11 +410,52 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
               <Download className="h-4 w-4 mr-2" />
               Export CSV
             </Button>
+            <Button
+              variant="outline"
+              onClick={exportStudio5000CSV}
+              disabled={tags.length === 0}
+              title="Tag CSV for Studio 5000 Tools > Import > Tags and Logic Comments"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export Studio 5000 CSV
+            </Button>
             <div className="flex-1" />
             <Button variant="ghost" onClick={clearAll} disabled={tags.length === 0}>
               <Trash2 className="h-4 w-4 mr-2" />
               Clear All
             </Button>
+            {l5xFiles.length > 0 && (
+              <>
+                <Select
+                  value={writeBackFileId}
+                  onValueChange={(fileId) => {
+                    // Edits name targets in the file they were made for
+                    setWriteBackFileId(fileId);
+                    setDescriptionEdits([]);
+                  }}
+                >
+                  <SelectTrigger className="w-[200px]" aria-label="Original L5X file">
+                    <SelectValue placeholder="Original L5X" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {l5xFiles.map((f) => (
+                      <SelectItem key={f.id} value={f.id}>
+                        {f.file_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={writeBackDescriptions}
+                  disabled={(tags.length === 0 && descriptionEdits.length === 0) || !writeBackFileId || isWritingBack}
+                  title="Download the original L5X with these tag descriptions and the edited descriptions patched in"
+                >
+                  <FileInput className="h-4 w-4 mr-2" />
+                  {isWritingBack ? "Writing..." : "Write Descriptions to L5X"}
+                </Button>
+              </>
+            )}
             <Button onClick={generateL5X} disabled={tags.length === 0 || isExporting}>
               <FileCode2 className="h-4 w-4 mr-2" />
               {isExporting ? "Generating..." : "Generate L5X"}
@@ -266,20 +467,20 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
             <Card>
               <CardContent className="py-12 text-center">
                 <p className="text-muted-foreground mb-4">
-                  No tags added yet. Import a CSV or add tags manually.
+                  No tags added yet. Import a CSV or Excel workbook, or add tags manually.
                 </p>
                 <div className="flex justify-center gap-2">
                   <div className="relative">
                     <Input
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.xlsx,.xls"
                       onChange={handleFileUpload}
                       className="absolute inset-0 opacity-0 cursor-pointer"
                       disabled={isImporting}
                     />
                     <Button variant="outline">
                       <Upload className="h-4 w-4 mr-2" />
-                      Import CSV
+                      Import CSV / Excel
                     </Button>
                   </div>
                   <Button variant="outline" onClick={addTag}>
@@ -313,23 +514,38 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
                           placeholder="TagName"
                           className="font-mono"
                         />
+                        {tag.memberComments && tag.memberComments.length > 0 && (
+                          <Badge variant="secondary" className="mt-1 text-xs" title={tag.memberComments.map((c) => `${c.specifier}: ${c.comment}`).join("\n")}>
+                            {tag.memberComments.length} member comment{tag.memberComments.length === 1 ? "" : "s"}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
-                        <Select
-                          value={tag.dataType}
-                          onValueChange={(v) => updateTag(tag.id, "dataType", v)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {allDataTypes.map((dt) => (
-                              <SelectItem key={dt} value={dt}>
-                                {dt}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                        {tag.aliasFor !== undefined ? (
+                          <Input
+                            value={tag.aliasFor}
+                            onChange={(e) => updateTag(tag.id, "aliasFor", e.target.value)}
+                            placeholder="Alias for"
+                            className="font-mono"
+                            title="Alias target"
+                          />
+                        ) : (
+                          <Select
+                            value={tag.dataType}
+                            onValueChange={(v) => updateTag(tag.id, "dataType", v)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {allDataTypes.map((dt) => (
+                                <SelectItem key={dt} value={dt}>
+                                  {dt}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Select
@@ -442,6 +658,16 @@ export function BulkTagEditor({ projectName, existingDataTypes, existingScopes }
             </>
           )}
         </TabsContent>
+
+        {l5xFiles.length > 0 && writeBackFileId && (
+          <TabsContent value="descriptions" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Edit descriptions in {l5xFiles.find((f) => f.id === writeBackFileId)?.file_name}, then use Write
+              Descriptions to L5X on the Tag Editor tab to download the file with them patched in.
+            </p>
+            <DescriptionEditor fileId={writeBackFileId} edits={descriptionEdits} onEditsChange={setDescriptionEdits} />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
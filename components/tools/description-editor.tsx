@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import type { DescriptionTarget, DescriptionUpdate } from "@/lib/parsers/description-writeback";
+
+type DescriptionKind = Exclude<DescriptionTarget["kind"], "tag">;
+
+interface DescriptionEntry {
+  key: string;
+  label: string;
+  target: DescriptionTarget;
+  description: string;
+}
+
+interface DescriptionEditorProps {
+  fileId: string;
+  edits: DescriptionUpdate[];
+  onEditsChange: (edits: DescriptionUpdate[]) => void;
+}
+
+const KIND_LABELS: Record<DescriptionKind, string> = {
+  routine: "Routines",
+  rung: "Rung Comments",
+  udtMember: "UDT Members",
+  aoiParameter: "AOI Parameters",
+};
+
+// Rows shown at once; the filter narrows the rest
+const MAX_ROWS = 200;
+
+function entryKey(target: DescriptionTarget): string {
+  switch (target.kind) {
+    case "tag":
+      return `tag/${target.scope}/${target.name}`;
+    case "routine":
+      return `routine/${target.programName}/${target.name}`;
+    case "rung":
+      return `rung/${target.programName}/${target.routineName}/${target.number}`;
+    case "udtMember":
+      return `udtMember/${target.dataType}/${target.name}`;
+    case "aoiParameter":
+      return `aoiParameter/${target.aoiName}/${target.name}`;
+  }
+}
+
+function toEntry(target: DescriptionTarget, label: string, description: string): DescriptionEntry {
+  return { key: entryKey(target), label, target, description };
+}
+
+/**
+ * Routine descriptions, rung comments, UDT member and AOI parameter
+ * descriptions of one L5X file, edited alongside tag descriptions and written
+ * back with them. Only entries whose text changed become updates.
+ */
+export function DescriptionEditor({ fileId, edits, onEditsChange }: DescriptionEditorProps) {
+  const [entries, setEntries] = useState<Record<DescriptionKind, DescriptionEntry[]>>({
+    routine: [],
+    rung: [],
+    udtMember: [],
+    aoiParameter: [],
+  });
+  const [kind, setKind] = useState<DescriptionKind>("routine");
+  const [filter, setFilter] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchDescriptions = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/files/${fileId}/descriptions`);
+        if (response.ok) {
+          const data = await response.json();
+          setEntries({
+            routine: data.routines.map((r: { programName: string; name: string; description: string }) =>
+              toEntry({ kind: "routine", programName: r.programName, name: r.name }, `${r.programName}/${r.name}`, r.description)
+            ),
+            rung: data.rungs.map((r: { programName: string; routineName: string; number: number; description: string }) =>
+              toEntry(
+                { kind: "rung", programName: r.programName, routineName: r.routineName, number: r.number },
+                `${r.programName}/${r.routineName} rung ${r.number}`,
+                r.description
+              )
+            ),
+            udtMember: data.udtMembers.map((m: { dataType: string; name: string; description: string }) =>
+              toEntry({ kind: "udtMember", dataType: m.dataType, name: m.name }, `${m.dataType}.${m.name}`, m.description)
+            ),
+            aoiParameter: data.aoiParameters.map((p: { aoiName: string; name: string; description: string }) =>
+              toEntry({ kind: "aoiParameter", aoiName: p.aoiName, name: p.name }, `${p.aoiName}.${p.name}`, p.description)
+            ),
+          });
+        }
+      } catch (error) {
+        console.error("Failed to fetch descriptions:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDescriptions();
+  }, [fileId]);
+
+  const editsByKey = new Map(edits.map((edit) => [entryKey(edit), edit]));
+
+  const updateEntry = (entry: DescriptionEntry, text: string) => {
+    const rest = edits.filter((edit) => entryKey(edit) !== entry.key);
+    onEditsChange(text === entry.description ? rest : [...rest, { ...entry.target, text }]);
+  };
+
+  const needle = filter.trim().toLowerCase();
+  const matching = entries[kind].filter(
+    (entry) =>
+      !needle ||
+      entry.label.toLowerCase().includes(needle) ||
+      (editsByKey.get(entry.key)?.text ?? entry.description).toLowerCase().includes(needle)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={kind} onValueChange={(value) => setKind(value as DescriptionKind)}>
+          <SelectTrigger className="w-[200px]" aria-label="Description kind">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(KIND_LABELS) as DescriptionKind[]).map((k) => (
+              <SelectItem key={k} value={k}>
+                {KIND_LABELS[k]} ({entries[k].length})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Filter by name or text..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="w-[260px]"
+        />
+        <div className="flex-1" />
+        {edits.length > 0 && (
+          <Badge variant="secondary">
+            {edits.length} edited description{edits.length === 1 ? "" : "s"}
+          </Badge>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : matching.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No {KIND_LABELS[kind].toLowerCase()} found in this file.
+        </p>
+      ) : (
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[320px]">Target</TableHead>
+                <TableHead>Description</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {matching.slice(0, MAX_ROWS).map((entry) => (
+                <TableRow key={entry.key}>
+                  <TableCell className="font-mono text-sm">{entry.label}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={editsByKey.get(entry.key)?.text ?? entry.description}
+                      onChange={(e) => updateEntry(entry, e.target.value)}
+                      className="h-8"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      {matching.length > MAX_ROWS && (
+        <p className="text-xs text-muted-foreground">
+          Showing {MAX_ROWS} of {matching.length}; filter to find the rest.
+        </p>
+      )}
+    </div>
+  );
+}
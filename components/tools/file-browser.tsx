@@ -36,6 +36,7 @@ import {
 import { FileVersionHistory } from "./file-version-history";
 import { DownloadFileButton } from "./download-file-button";
 import { DeleteFileButton } from "./delete-file-button";
+import { ParseDiagnostics } from "./parse-diagnostics";
 
 interface FileItem {
   id: string;
@@ -44,6 +45,9 @@ interface FileItem {
   file_type: string;
   parsing_status: string;
   parsing_error?: string;
+  parse_error_count?: number;
+  parse_warning_count?: number;
+  parse_info_count?: number;
   created_at: string;
   folder_id: string | null;
   current_version?: number;
@@ -460,6 +464,15 @@ export function FileBrowser({ projectId, files, folders, onFolderChange, isAdmin
                     {file.parsing_error}
                   </span>
                 )}
+                {(file.parsing_status === "completed" || file.parsing_status === "failed") && (
+                  <ParseDiagnostics
+                    fileId={file.id}
+                    fileName={file.file_name}
+                    errorCount={file.parse_error_count || 0}
+                    warningCount={file.parse_warning_count || 0}
+                    infoCount={file.parse_info_count || 0}
+                  />
+                )}
                 {isAdmin && (
                   <Button
                     variant="ghost"
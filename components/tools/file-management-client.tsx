@@ -17,6 +17,9 @@ interface FileItem {
   file_type: string;
   parsing_status: string;
   parsing_error?: string;
+  parse_error_count?: number;
+  parse_warning_count?: number;
+  parse_info_count?: number;
   created_at: string;
   folder_id: string | null;
   current_version?: number;
@@ -21,10 +21,37 @@ interface IOModule {
   catalog_number: string | null;
   parent_module: string | null;
   slot: number | null;
+  ip_address: string | null;
+  rpi_ms: number | null;
+  vendor_id: number | null;
+  product_type: number | null;
+  product_code: number | null;
+  major_revision: number | null;
+  minor_revision: number | null;
+  electronic_keying: string | null;
+  inhibited: boolean | null;
+  major_fault: boolean | null;
+  ports: IOModulePort[] | null;
+  connections: IOModuleConnection[] | null;
   connection_info: Record<string, unknown> | null;
   file_name?: string;
 }
 
+interface IOModulePort {
+  id: number;
+  type?: string;
+  address?: string;
+  upstream: boolean;
+}
+
+interface IOModuleConnection {
+  name?: string;
+  type?: string;
+  rpiMs?: number;
+  inputTag?: string;
+  outputTag?: string;
+}
+
 interface IOTableProps {
   modules: IOModule[];
   totalCount: number;
@@ -66,6 +93,23 @@ export function IOTable({ modules, totalCount, page, pageSize }: IOTableProps) {
     return module.connection_info && Object.keys(module.connection_info).length > 0;
   };
 
+  const canExpand = (module: IOModule) => {
+    return (
+      hasConnectionInfo(module) ||
+      (module.ports?.length ?? 0) > 0 ||
+      (module.connections?.length ?? 0) > 0 ||
+      module.vendor_id !== null ||
+      module.major_revision !== null
+    );
+  };
+
+  const formatRevision = (module: IOModule) => {
+    if (module.major_revision === null) return "-";
+    return module.minor_revision !== null
+      ? `${module.major_revision}.${module.minor_revision}`
+      : `${module.major_revision}`;
+  };
+
   return (
     <div className="space-y-4">
       <div className="rounded-md border">
@@ -77,13 +121,15 @@ export function IOTable({ modules, totalCount, page, pageSize }: IOTableProps) {
               <SortableTableHead column="catalog_number" className="w-[180px]">Catalog Number</SortableTableHead>
               <SortableTableHead column="parent_module" className="w-[150px]">Parent Module</SortableTableHead>
               <SortableTableHead column="slot" className="w-[80px]">Slot</SortableTableHead>
+              <SortableTableHead column="ip_address" className="w-[140px]">IP Address</SortableTableHead>
+              <SortableTableHead column="rpi_ms" className="w-[90px]">RPI (ms)</SortableTableHead>
               <TableHead>File</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {modules.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} className="h-24 text-center">
+                <TableCell colSpan={8} className="h-24 text-center">
                   No I/O modules found
                 </TableCell>
               </TableRow>
@@ -92,7 +138,7 @@ export function IOTable({ modules, totalCount, page, pageSize }: IOTableProps) {
                 <>
                   <TableRow key={module.id}>
                     <TableCell>
-                      {hasConnectionInfo(module) && (
+                      {canExpand(module) && (
                         <Button
                           variant="ghost"
                           size="icon"
@@ -107,7 +153,12 @@ export function IOTable({ modules, totalCount, page, pageSize }: IOTableProps) {
                         </Button>
                       )}
                     </TableCell>
-                    <TableCell className="font-mono text-sm">{module.name}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      <div className="flex items-center gap-2">
+                        {module.name}
+                        {module.inhibited && <Badge variant="outline">Inhibited</Badge>}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       {module.catalog_number ? (
                         <Badge variant="outline">{module.catalog_number}</Badge>
@@ -125,18 +176,79 @@ export function IOTable({ modules, totalCount, page, pageSize }: IOTableProps) {
                     <TableCell className="text-sm">
                       {module.slot !== null ? module.slot : "-"}
                     </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {module.ip_address || "-"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {module.rpi_ms !== null ? module.rpi_ms : "-"}
+                    </TableCell>
                     <TableCell className="text-sm text-muted-foreground truncate max-w-[200px]">
                       {module.file_name || "-"}
                     </TableCell>
                   </TableRow>
-                  {expandedRows.has(module.id) && hasConnectionInfo(module) && (
+                  {expandedRows.has(module.id) && canExpand(module) && (
                     <TableRow key={`${module.id}-expanded`}>
-                      <TableCell colSpan={6} className="bg-muted/50">
-                        <div className="p-4">
-                          <p className="text-sm font-medium mb-2">Connection Info</p>
-                          <pre className="text-xs bg-background rounded p-3 overflow-auto max-h-[200px]">
-                            {JSON.stringify(module.connection_info, null, 2)}
-                          </pre>
+                      <TableCell colSpan={8} className="bg-muted/50">
+                        <div className="p-4 space-y-4">
+                          <div className="grid gap-2 sm:grid-cols-4 text-sm">
+                            <div>
+                              <p className="text-muted-foreground">Vendor / Product</p>
+                              <p className="font-mono">
+                                {module.vendor_id ?? "-"} / {module.product_type ?? "-"} / {module.product_code ?? "-"}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Revision</p>
+                              <p className="font-mono">{formatRevision(module)}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Electronic Keying</p>
+                              <p>{module.electronic_keying || "-"}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Major Fault on Connection Loss</p>
+                              <p>{module.major_fault ? "Yes" : "No"}</p>
+                            </div>
+                          </div>
+                          {module.ports && module.ports.length > 0 && (
+                            <div>
+                              <p className="text-sm font-medium mb-2">Ports</p>
+                              <div className="space-y-1">
+                                {module.ports.map((port) => (
+                                  <p key={port.id} className="text-sm">
+                                    <span className="font-mono">Port {port.id}</span>
+                                    {port.type && <span className="text-muted-foreground"> ({port.type})</span>}
+                                    {port.address && <span className="font-mono"> {port.address}</span>}
+                                    {port.upstream && <Badge variant="secondary" className="ml-2">Upstream</Badge>}
+                                  </p>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          {module.connections && module.connections.length > 0 && (
+                            <div>
+                              <p className="text-sm font-medium mb-2">Connections</p>
+                              <div className="space-y-1">
+                                {module.connections.map((conn, i) => (
+                                  <p key={i} className="text-sm">
+                                    <span className="font-mono">{conn.name || `Connection ${i + 1}`}</span>
+                                    {conn.type && <span className="text-muted-foreground"> ({conn.type})</span>}
+                                    {conn.rpiMs !== undefined && <span> - RPI {conn.rpiMs} ms</span>}
+                                    {conn.inputTag && <span className="font-mono text-muted-foreground"> - in: {conn.inputTag}</span>}
+                                    {conn.outputTag && <span className="font-mono text-muted-foreground"> - out: {conn.outputTag}</span>}
+                                  </p>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          {hasConnectionInfo(module) && (
+                            <div>
+                              <p className="text-sm font-medium mb-2">Connection Info</p>
+                              <pre className="text-xs bg-background rounded p-3 overflow-auto max-h-[200px]">
+                                {JSON.stringify(module.connection_info, null, 2)}
+                              </pre>
+                            </div>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
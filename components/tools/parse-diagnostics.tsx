@@ -0,0 +1,153 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Info, Loader2 } from "lucide-react";
+
+interface Diagnostic {
+  id: string;
+  severity: "error" | "warning" | "info";
+  code: string;
+  message: string;
+  element_path: string | null;
+  line: number | null;
+}
+
+interface ParseDiagnosticsProps {
+  fileId: string;
+  fileName: string;
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+}
+
+const SEVERITY_ORDER = { error: 0, warning: 1, info: 2 };
+
+const SEVERITY_VARIANT = {
+  error: "destructive",
+  warning: "secondary",
+  info: "outline",
+} as const;
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count !== 1 ? "s" : ""}`;
+}
+
+/**
+ * What the parser did not fully understand in the current version of a file,
+ * shown next to its parsing status so reports can be judged accordingly.
+ */
+export function ParseDiagnostics({
+  fileId,
+  fileName,
+  errorCount,
+  warningCount,
+  infoCount,
+}: ParseDiagnosticsProps) {
+  const [open, setOpen] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchDiagnostics = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/files/${fileId}/diagnostics`);
+        if (response.ok) {
+          const data = await response.json();
+          setDiagnostics(
+            (data.diagnostics as Diagnostic[]).sort(
+              (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+            )
+          );
+        }
+      } catch (error) {
+        console.error("Failed to fetch diagnostics:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDiagnostics();
+  }, [open, fileId]);
+
+  if (errorCount + warningCount + infoCount === 0) return null;
+
+  const summary = [
+    errorCount > 0 && plural(errorCount, "error"),
+    warningCount > 0 && plural(warningCount, "warning"),
+    errorCount + warningCount === 0 && plural(infoCount, "note"),
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={errorCount > 0 ? "text-destructive" : "text-muted-foreground"}
+          title="Show what the parser did not understand"
+        >
+          {errorCount + warningCount > 0 ? (
+            <AlertTriangle className="h-4 w-4 mr-1" />
+          ) : (
+            <Info className="h-4 w-4 mr-1" />
+          )}
+          {summary}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5" />
+            Parser Diagnostics
+          </DialogTitle>
+          <DialogDescription>
+            {fileName} - {plural(errorCount, "error")}, {plural(warningCount, "warning")},{" "}
+            {plural(infoCount, "note")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            diagnostics.map((diagnostic) => (
+              <div key={diagnostic.id} className="p-3 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Badge variant={SEVERITY_VARIANT[diagnostic.severity]} className="text-xs">
+                    {diagnostic.severity}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground font-mono">{diagnostic.code}</span>
+                </div>
+                <p className="text-sm mt-1">{diagnostic.message}</p>
+                {(diagnostic.element_path || diagnostic.line) && (
+                  <p className="text-xs text-muted-foreground font-mono mt-1 break-all">
+                    {diagnostic.line ? `Line ${diagnostic.line}` : ""}
+                    {diagnostic.line && diagnostic.element_path ? " • " : ""}
+                    {diagnostic.element_path}
+                  </p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import { Badge } from "@/components/ui/badge";
+import { Folder, FileCode, Clock } from "lucide-react";
+
+export interface ProgramTreeProgram {
+  name: string;
+  main_routine_name: string | null;
+  fault_routine_name: string | null;
+  disabled: boolean | null;
+  use_as_folder: boolean | null;
+  program_class: string | null;
+  parent_program: string | null;
+  child_programs: string[] | null;
+}
+
+export interface ProgramTreeTask {
+  name: string;
+  type: string;
+  scheduled_programs: string[] | null;
+}
+
+interface ProgramTreeProps {
+  tasks: ProgramTreeTask[];
+  programs: ProgramTreeProgram[];
+}
+
+function ProgramNode({
+  program,
+  byName,
+  seen,
+}: {
+  program: ProgramTreeProgram;
+  byName: Map<string, ProgramTreeProgram>;
+  seen: Set<string>;
+}) {
+  const children = (program.child_programs || [])
+    .map((name) => byName.get(name))
+    .filter((p): p is ProgramTreeProgram => !!p && !seen.has(p.name));
+  const nextSeen = new Set([...seen, program.name]);
+
+  return (
+    <li>
+      <div className="flex flex-wrap items-center gap-2 py-1 text-sm">
+        {program.use_as_folder ? (
+          <Folder className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <FileCode className="h-4 w-4 text-muted-foreground" />
+        )}
+        <span className={`font-mono ${program.disabled ? "text-muted-foreground line-through" : ""}`}>
+          {program.name}
+        </span>
+        {program.main_routine_name && (
+          <span className="text-xs text-muted-foreground">
+            main: <span className="font-mono">{program.main_routine_name}</span>
+          </span>
+        )}
+        {program.fault_routine_name && (
+          <span className="text-xs text-muted-foreground">
+            fault: <span className="font-mono">{program.fault_routine_name}</span>
+          </span>
+        )}
+        {program.disabled && <Badge variant="secondary" className="text-xs">Disabled</Badge>}
+        {program.program_class === "Safety" && <Badge variant="destructive" className="text-xs">Safety</Badge>}
+        {!program.use_as_folder && !program.main_routine_name && (
+          <Badge variant="outline" className="text-xs">No main routine</Badge>
+        )}
+      </div>
+      {children.length > 0 && (
+        <ul className="ml-6 border-l pl-3">
+          {children.map((child) => (
+            <ProgramNode key={child.name} program={child} byName={byName} seen={nextSeen} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Controller organizer view: each task with its scheduled programs, child
+ * programs nested under their parents, and programs no task runs listed
+ * under "Unscheduled Programs".
+ */
+export function ProgramTree({ tasks, programs }: ProgramTreeProps) {
+  const byName = new Map(programs.map((p) => [p.name, p]));
+  const scheduled = new Set(tasks.flatMap((t) => t.scheduled_programs || []));
+  const unscheduled = programs.filter((p) => !p.parent_program && !scheduled.has(p.name));
+
+  const renderRoots = (names: string[]) => (
+    <ul className="ml-6">
+      {names.map((name) => {
+        const program = byName.get(name);
+        if (!program) {
+          return (
+            <li key={name} className="py-1 text-sm font-mono text-muted-foreground">
+              {name}
+            </li>
+          );
+        }
+        return <ProgramNode key={name} program={program} byName={byName} seen={new Set()} />;
+      })}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-3">
+      {tasks.map((task) => (
+        <div key={task.name}>
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Clock className="h-4 w-4" />
+            {task.name}
+            <Badge variant="outline" className="text-xs">{task.type}</Badge>
+          </div>
+          {(task.scheduled_programs || []).length > 0 ? (
+            renderRoots(task.scheduled_programs || [])
+          ) : (
+            <p className="ml-6 py-1 text-sm italic text-muted-foreground">No scheduled programs</p>
+          )}
+        </div>
+      ))}
+      {unscheduled.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Folder className="h-4 w-4" />
+            Unscheduled Programs
+          </div>
+          {renderRoots(unscheduled.map((p) => p.name))}
+        </div>
+      )}
+    </div>
+  );
+}
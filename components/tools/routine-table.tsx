@@ -12,8 +12,9 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp } from "lucide-react";
+import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Lock } from "lucide-react";
 import { SortableTableHead } from "@/components/tools/sortable-table-head";
+import { SFCChartViewer, type SFCChartNode, type SFCChartLink } from "@/components/tools/sfc-chart-viewer";
 
 interface Routine {
   id: string;
@@ -23,6 +24,12 @@ interface Routine {
   description: string | null;
   rung_count: number | null;
   file_name?: string;
+  sfc_chart?: { nodes: SFCChartNode[]; links: SFCChartLink[] } | null;
+  is_protected?: boolean | null;
+  protection_type?: string | null;
+  routine_role?: "main" | "fault" | null;
+  program_disabled?: boolean;
+  program_safety?: boolean;
 }
 
 interface RoutineTableProps {
@@ -66,6 +73,10 @@ export function RoutineTable({ routines, totalCount, page, pageSize }: RoutineTa
     return routine.description && routine.description.trim().length > 0;
   };
 
+  const canExpand = (routine: Routine) => {
+    return hasDescription(routine) || !!routine.sfc_chart;
+  };
+
   const getTypeBadgeVariant = (type: string) => {
     switch (type.toLowerCase()) {
       case "ladder":
@@ -73,6 +84,7 @@ export function RoutineTable({ routines, totalCount, page, pageSize }: RoutineTa
       case "fbd":
         return "secondary";
       case "st":
+      case "sfc":
         return "outline";
       default:
         return "secondary";
@@ -105,7 +117,7 @@ export function RoutineTable({ routines, totalCount, page, pageSize }: RoutineTa
                 <>
                   <TableRow key={routine.id}>
                     <TableCell>
-                      {hasDescription(routine) && (
+                      {canExpand(routine) && (
                         <Button
                           variant="ghost"
                           size="icon"
@@ -120,9 +132,25 @@ export function RoutineTable({ routines, totalCount, page, pageSize }: RoutineTa
                         </Button>
                       )}
                     </TableCell>
-                    <TableCell className="font-mono text-sm">{routine.name}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      <div className="flex items-center gap-2">
+                        {routine.name}
+                        {routine.routine_role === "main" && <Badge variant="default">Main</Badge>}
+                        {routine.routine_role === "fault" && <Badge variant="destructive">Fault</Badge>}
+                        {routine.is_protected && (
+                          <Badge variant="secondary" title={routine.protection_type === "License" ? "License protected" : "Source protected"}>
+                            <Lock />
+                            Protected
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
-                      <Badge variant="secondary">{routine.program_name}</Badge>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="secondary">{routine.program_name}</Badge>
+                        {routine.program_safety && <Badge variant="destructive">Safety</Badge>}
+                        {routine.program_disabled && <Badge variant="outline">Disabled</Badge>}
+                      </div>
                     </TableCell>
                     <TableCell>
                       <Badge variant={getTypeBadgeVariant(routine.type)}>
@@ -136,14 +164,24 @@ export function RoutineTable({ routines, totalCount, page, pageSize }: RoutineTa
                       {routine.file_name || "-"}
                     </TableCell>
                   </TableRow>
-                  {expandedRows.has(routine.id) && hasDescription(routine) && (
+                  {expandedRows.has(routine.id) && canExpand(routine) && (
                     <TableRow key={`${routine.id}-expanded`}>
                       <TableCell colSpan={6} className="bg-muted/50">
-                        <div className="p-4">
-                          <p className="text-sm font-medium mb-2">Description</p>
-                          <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                            {routine.description}
-                          </p>
+                        <div className="p-4 space-y-4">
+                          {hasDescription(routine) && (
+                            <div>
+                              <p className="text-sm font-medium mb-2">Description</p>
+                              <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                                {routine.description}
+                              </p>
+                            </div>
+                          )}
+                          {routine.sfc_chart && (
+                            <div>
+                              <p className="text-sm font-medium mb-2">Sequential Function Chart</p>
+                              <SFCChartViewer nodes={routine.sfc_chart.nodes} links={routine.sfc_chart.links} />
+                            </div>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -0,0 +1,257 @@
+import { Badge } from "@/components/ui/badge";
+
+export interface SFCChartAction {
+  id: number;
+  name: string;
+  qualifier?: string;
+  isBoolean: boolean;
+  body: string;
+}
+
+export interface SFCChartNode {
+  id: number;
+  nodeType: "Step" | "Transition" | "Branch" | "Leg" | "Stop" | "SbrRet";
+  name?: string;
+  initialStep?: boolean;
+  branchType?: string;
+  branchFlow?: string;
+  branchId?: number;
+  condition?: string;
+  actions: SFCChartAction[];
+}
+
+export interface SFCChartLink {
+  fromId: number;
+  toId: number;
+}
+
+interface SFCChartViewerProps {
+  nodes: SFCChartNode[];
+  links: SFCChartLink[];
+}
+
+const COL_WIDTH = 150;
+const ROW_HEIGHT = 64;
+const STEP_WIDTH = 110;
+const STEP_HEIGHT = 30;
+const PADDING = 20;
+
+/**
+ * Lay the chart out top-down: each node sits one row below the first node
+ * that reaches it, starting from the initial step. Links that point back up
+ * (loops to an earlier step) are drawn as dashed return paths.
+ */
+function layoutChart(nodes: SFCChartNode[], links: SFCChartLink[]) {
+  const edges = new Map<number, number[]>();
+  const addEdge = (from: number, to: number) => {
+    if (!edges.has(from)) edges.set(from, []);
+    edges.get(from)!.push(to);
+  };
+
+  for (const link of links) addEdge(link.fromId, link.toId);
+  // Legs hang off their branch: diverging branches feed their legs, legs feed converging branches
+  for (const node of nodes) {
+    if (node.nodeType !== "Leg" || node.branchId === undefined) continue;
+    const branch = nodes.find((n) => n.id === node.branchId);
+    if (branch?.branchFlow === "Converge") addEdge(node.id, branch.id);
+    else addEdge(node.branchId, node.id);
+  }
+
+  const incoming = new Set([...edges.values()].flat());
+  const initial = nodes.find((n) => n.initialStep);
+  const roots = [
+    ...(initial ? [initial.id] : []),
+    ...nodes.filter((n) => !incoming.has(n.id) && n.id !== initial?.id).map((n) => n.id),
+  ];
+
+  const row = new Map<number, number>();
+  const queue = [...roots];
+  for (const id of roots) row.set(id, 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const next of edges.get(id) || []) {
+      if (row.has(next)) continue;
+      row.set(next, row.get(id)! + 1);
+      queue.push(next);
+    }
+  }
+
+  // Anything left unreached (e.g. a disconnected loop) goes underneath
+  let maxRow = Math.max(0, ...row.values());
+  for (const node of nodes) {
+    if (!row.has(node.id)) row.set(node.id, ++maxRow);
+  }
+
+  const positions = new Map<number, { x: number; y: number }>();
+  const columnsUsed = new Map<number, number>();
+  for (const node of nodes) {
+    const r = row.get(node.id)!;
+    const col = columnsUsed.get(r) || 0;
+    columnsUsed.set(r, col + 1);
+    positions.set(node.id, {
+      x: PADDING + col * COL_WIDTH + STEP_WIDTH / 2,
+      y: PADDING + r * ROW_HEIGHT + STEP_HEIGHT / 2,
+    });
+  }
+
+  const allEdges = [...edges.entries()].flatMap(([from, tos]) => tos.map((to) => ({ from, to })));
+  const width = PADDING * 2 + Math.max(1, ...columnsUsed.values()) * COL_WIDTH;
+  const height = PADDING * 2 + (maxRow + 1) * ROW_HEIGHT;
+
+  return { positions, edges: allEdges, width, height };
+}
+
+function NodeShape({ node, x, y }: { node: SFCChartNode; x: number; y: number }) {
+  switch (node.nodeType) {
+    case "Step":
+      return (
+        <g>
+          <rect
+            x={x - STEP_WIDTH / 2}
+            y={y - STEP_HEIGHT / 2}
+            width={STEP_WIDTH}
+            height={STEP_HEIGHT}
+            className="fill-background stroke-foreground"
+            strokeWidth={1.5}
+          />
+          {node.initialStep && (
+            <rect
+              x={x - STEP_WIDTH / 2 + 3}
+              y={y - STEP_HEIGHT / 2 + 3}
+              width={STEP_WIDTH - 6}
+              height={STEP_HEIGHT - 6}
+              className="fill-none stroke-foreground"
+            />
+          )}
+          <text x={x} y={y + 4} textAnchor="middle" className="fill-foreground font-mono text-[11px]">
+            {node.name || `Step ${node.id}`}
+          </text>
+        </g>
+      );
+    case "Transition":
+      return (
+        <g>
+          <line x1={x - 16} y1={y} x2={x + 16} y2={y} className="stroke-foreground" strokeWidth={3} />
+          <text x={x + 22} y={y + 4} className="fill-muted-foreground font-mono text-[10px]">
+            {node.name || `Tran ${node.id}`}
+          </text>
+        </g>
+      );
+    case "Branch":
+      return (
+        <g>
+          <line x1={x - STEP_WIDTH / 2} y1={y - 2} x2={x + STEP_WIDTH / 2} y2={y - 2} className="stroke-foreground" />
+          {node.branchType === "Simultaneous" && (
+            <line x1={x - STEP_WIDTH / 2} y1={y + 2} x2={x + STEP_WIDTH / 2} y2={y + 2} className="stroke-foreground" />
+          )}
+        </g>
+      );
+    case "Leg":
+      return <circle cx={x} cy={y} r={3} className="fill-muted-foreground" />;
+    default:
+      return (
+        <g>
+          <rect
+            x={x - STEP_WIDTH / 4}
+            y={y - STEP_HEIGHT / 2}
+            width={STEP_WIDTH / 2}
+            height={STEP_HEIGHT}
+            rx={STEP_HEIGHT / 2}
+            className="fill-muted stroke-foreground"
+          />
+          <text x={x} y={y + 4} textAnchor="middle" className="fill-foreground text-[10px]">
+            {node.nodeType === "Stop" ? "Stop" : "Return"}
+          </text>
+        </g>
+      );
+  }
+}
+
+export function SFCChartViewer({ nodes, links }: SFCChartViewerProps) {
+  if (nodes.length === 0) {
+    return <p className="text-sm text-muted-foreground">This chart has no steps.</p>;
+  }
+
+  const { positions, edges, width, height } = layoutChart(nodes, links);
+  const steps = nodes.filter((n) => n.nodeType === "Step");
+  const transitions = nodes.filter((n) => n.nodeType === "Transition");
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-auto rounded-md border bg-background max-h-[480px]">
+        <svg width={width} height={height}>
+          {edges.map(({ from, to }) => {
+            const a = positions.get(from);
+            const b = positions.get(to);
+            if (!a || !b) return null;
+            if (b.y > a.y) {
+              return (
+                <polyline
+                  key={`${from}-${to}`}
+                  points={`${a.x},${a.y} ${a.x},${(a.y + b.y) / 2} ${b.x},${(a.y + b.y) / 2} ${b.x},${b.y}`}
+                  className="fill-none stroke-muted-foreground"
+                />
+              );
+            }
+            // Return path up the right-hand side
+            const side = width - PADDING / 2;
+            return (
+              <polyline
+                key={`${from}-${to}`}
+                points={`${a.x},${a.y} ${side},${a.y} ${side},${b.y} ${b.x},${b.y}`}
+                className="fill-none stroke-muted-foreground"
+                strokeDasharray="4 3"
+              />
+            );
+          })}
+          {nodes.map((node) => {
+            const pos = positions.get(node.id)!;
+            return <NodeShape key={node.id} node={node} x={pos.x} y={pos.y} />;
+          })}
+        </svg>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <p className="text-sm font-medium mb-2">Steps ({steps.length})</p>
+          <div className="space-y-2">
+            {steps.map((step) => (
+              <div key={step.id} className="rounded-md border p-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono">{step.name || `Step ${step.id}`}</span>
+                  {step.initialStep && <Badge variant="outline">Initial</Badge>}
+                </div>
+                {step.actions.map((action) => (
+                  <div key={action.id} className="mt-2">
+                    <p className="text-xs text-muted-foreground">
+                      <Badge variant="secondary" className="mr-1">{action.qualifier || "N"}</Badge>
+                      <span className="font-mono">{action.name}</span>
+                    </p>
+                    {action.body && (
+                      <pre className="mt-1 text-xs font-mono whitespace-pre-wrap bg-muted/50 rounded p-2">
+                        {action.body}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="text-sm font-medium mb-2">Transitions ({transitions.length})</p>
+          <div className="space-y-2">
+            {transitions.map((transition) => (
+              <div key={transition.id} className="rounded-md border p-2 text-sm">
+                <span className="font-mono">{transition.name || `Tran ${transition.id}`}</span>
+                <pre className="mt-1 text-xs font-mono whitespace-pre-wrap bg-muted/50 rounded p-2">
+                  {transition.condition || "(no condition)"}
+                </pre>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -16,9 +16,11 @@ import { Search, X } from "lucide-react";
 interface TagFiltersProps {
   scopes: string[];
   dataTypes: string[];
+  /** Standard/Safety; the filter is shown only for safety controllers */
+  tagClasses?: string[];
 }
 
-export function TagFilters({ scopes, dataTypes }: TagFiltersProps) {
+export function TagFilters({ scopes, dataTypes, tagClasses = [] }: TagFiltersProps) {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
@@ -26,6 +28,7 @@ export function TagFilters({ scopes, dataTypes }: TagFiltersProps) {
   const search = searchParams.get("search") || "";
   const scope = searchParams.get("scope") || "";
   const dataType = searchParams.get("dataType") || "";
+  const tagClass = searchParams.get("tagClass") || "";
   const [searchValue, setSearchValue] = useState(search);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -78,7 +81,7 @@ export function TagFilters({ scopes, dataTypes }: TagFiltersProps) {
     router.push(fromParam ? `${pathname}?from=${fromParam}` : pathname);
   };
 
-  const hasFilters = search || scope || dataType;
+  const hasFilters = search || scope || dataType || tagClass;
 
   return (
     <div className="flex flex-col sm:flex-row gap-4">
@@ -129,6 +132,22 @@ export function TagFilters({ scopes, dataTypes }: TagFiltersProps) {
         </SelectContent>
       </Select>
 
+      {tagClasses.length > 1 && (
+        <Select value={tagClass} onValueChange={(value) => updateParam("tagClass", value === "all" ? null : value)}>
+          <SelectTrigger className="w-full sm:w-[150px]">
+            <SelectValue placeholder="All Classes" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Classes</SelectItem>
+            {tagClasses.map((c) => (
+              <SelectItem key={c} value={c}>
+                {c}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
       {hasFilters && (
         <Button variant="ghost" onClick={clearFilters} size="icon">
           <X className="h-4 w-4" />
@@ -1,5 +1,6 @@
 "use client";
 
+import { Fragment, useState } from "react";
 import { useRouter, useSearchParams, usePathname } from "next/navigation";
 import {
   Table,
@@ -11,7 +12,7 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp } from "lucide-react";
 import { SortableTableHead } from "@/components/tools/sortable-table-head";
 
 interface Tag {
@@ -21,6 +22,9 @@ interface Tag {
   scope: string;
   description: string | null;
   usage: string | null;
+  value?: string | null;
+  tag_class?: string | null;
+  members?: Array<{ path: string; dataType: string; value: string }>;
 }
 
 interface TagTableProps {
@@ -34,6 +38,7 @@ export function TagTable({ tags, totalCount, page, pageSize }: TagTableProps) {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
 
   const totalPages = Math.ceil(totalCount / pageSize);
   const startIndex = (page - 1) * pageSize + 1;
@@ -49,43 +54,99 @@ export function TagTable({ tags, totalCount, page, pageSize }: TagTableProps) {
     router.push(`${pathname}?${params.toString()}`);
   };
 
+  const toggleRow = (id: string) => {
+    const newExpanded = new Set(expandedRows);
+    if (newExpanded.has(id)) {
+      newExpanded.delete(id);
+    } else {
+      newExpanded.add(id);
+    }
+    setExpandedRows(newExpanded);
+  };
+
   return (
     <div className="space-y-4">
       <div className="rounded-md border overflow-x-auto">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-[40px]"></TableHead>
               <SortableTableHead column="name" className="w-[250px]">Name</SortableTableHead>
               <SortableTableHead column="data_type" className="w-[150px]">Data Type</SortableTableHead>
               <SortableTableHead column="scope" className="hidden sm:table-cell w-[150px]">Scope</SortableTableHead>
               <SortableTableHead column="usage" className="w-[100px]">Usage</SortableTableHead>
+              <TableHead className="w-[150px]">Value</TableHead>
               <TableHead className="hidden sm:table-cell">Description</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {tags.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="h-24 text-center">
+                <TableCell colSpan={7} className="h-24 text-center">
                   No tags found
                 </TableCell>
               </TableRow>
             ) : (
-              tags.map((tag) => (
-                <TableRow key={tag.id}>
-                  <TableCell className="font-mono text-sm">{tag.name}</TableCell>
-                  <TableCell>
-                    <Badge variant="outline">{tag.data_type}</Badge>
-                  </TableCell>
-                  <TableCell className="hidden sm:table-cell">
-                    <Badge variant="secondary">{tag.scope}</Badge>
-                  </TableCell>
-                  <TableCell className="text-muted-foreground text-sm">
-                    {tag.usage || "-"}
-                  </TableCell>
-                  <TableCell className="hidden sm:table-cell text-sm text-muted-foreground max-w-[300px] truncate">
-                    {tag.description || "-"}
-                  </TableCell>
-                </TableRow>
+              tags.map(({ members = [], ...tag }) => (
+                <Fragment key={tag.id}>
+                  <TableRow>
+                    <TableCell>
+                      {members.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => toggleRow(tag.id)}
+                        >
+                          {expandedRows.has(tag.id) ? (
+                            <ChevronUp className="h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4" />
+                          )}
+                        </Button>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {tag.name}
+                      {tag.tag_class === "Safety" && (
+                        <Badge variant="destructive" className="ml-2 text-xs font-sans">Safety</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{tag.data_type}</Badge>
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell">
+                      <Badge variant="secondary">{tag.scope}</Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {tag.usage || "-"}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm max-w-[150px] truncate">
+                      {tag.value || (members.length > 0 ? `${members.length} values` : "-")}
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell text-sm text-muted-foreground max-w-[300px] truncate">
+                      {tag.description || "-"}
+                    </TableCell>
+                  </TableRow>
+                  {expandedRows.has(tag.id) && members.length > 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="bg-muted/50">
+                        <div className="p-4 max-h-[320px] overflow-auto">
+                          <p className="text-sm font-medium mb-2">Values</p>
+                          <div className="grid grid-cols-[auto_auto_1fr] gap-x-6 gap-y-1 text-sm">
+                            {members.map((member) => (
+                              <Fragment key={member.path}>
+                                <span className="font-mono">{tag.name}{member.path}</span>
+                                <span className="text-muted-foreground">{member.dataType}</span>
+                                <span className="font-mono">{member.value}</span>
+                              </Fragment>
+                            ))}
+                          </div>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
               ))
             )}
           </TableBody>
@@ -21,6 +21,8 @@ interface TagReference {
   program_name: string;
   rung_number: number;
   usage_type: "read" | "write" | "both";
+  indirect_index?: boolean | null;
+  alias_target?: string | null;
 }
 
 interface TagXrefTableProps {
@@ -79,7 +81,15 @@ export function TagXrefTable({ references, totalCount, page, pageSize }: TagXref
             ) : (
               references.map((ref) => (
                 <TableRow key={ref.id}>
-                  <TableCell className="font-mono text-sm">{ref.tag_name}</TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {ref.tag_name}
+                    {ref.indirect_index && (
+                      <Badge variant="outline" className="ml-2 text-xs font-sans">Indirect</Badge>
+                    )}
+                    {ref.alias_target && (
+                      <p className="text-xs text-muted-foreground">Alias for {ref.alias_target}</p>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <Badge variant="secondary">{ref.program_name}</Badge>
                   </TableCell>
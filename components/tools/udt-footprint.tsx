@@ -0,0 +1,157 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { DataTypeFootprint, ScopeMemory } from "@/lib/udt-analysis";
+
+interface UDTFootprintProps {
+  types: DataTypeFootprint[];
+  scopes: ScopeMemory[];
+  fileNames?: Map<string, string>;   // Shown beside each scope when the project has more than one file
+}
+
+function formatBytes(bytes: number | undefined): string {
+  if (bytes === undefined) return "—";
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export function UDTFootprint({ types, scopes, fileNames }: UDTFootprintProps) {
+  const totalBytes = scopes.reduce((sum, s) => sum + s.bytes, 0);
+  const totalTags = scopes.reduce((sum, s) => sum + s.tags, 0);
+  const totalUnsized = scopes.reduce((sum, s) => sum + s.unsizedTags, 0);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Tag Memory by Scope</CardTitle>
+          <CardDescription>
+            Estimated from the declared data types, with each tag padded to four bytes. Alias tags take no memory of their own.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className={scopes.length > 0 ? "p-0" : ""}>
+          {scopes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No tags found in this project.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scope</TableHead>
+                  <TableHead className="text-right">Tags</TableHead>
+                  <TableHead className="text-right">Memory</TableHead>
+                  <TableHead className="text-right">Unknown Layout</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scopes.map((scope) => (
+                  <TableRow key={`${scope.fileId}/${scope.scope}`}>
+                    <TableCell className="font-mono">
+                      {scope.scope}
+                      {fileNames && <span className="ml-2 text-xs text-muted-foreground">{fileNames.get(scope.fileId)}</span>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{scope.tags}</TableCell>
+                    <TableCell className="text-right font-mono">{formatBytes(scope.bytes)}</TableCell>
+                    <TableCell className="text-right font-mono text-muted-foreground">
+                      {scope.unsizedTags || ""}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right font-mono">{totalTags}</TableCell>
+                  <TableCell className="text-right font-mono">{formatBytes(totalBytes)}</TableCell>
+                  <TableCell className="text-right font-mono text-muted-foreground">{totalUnsized || ""}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Type Dependencies & Footprint</CardTitle>
+          <CardDescription>
+            Size of one instance with member alignment and BOOL packing, the types each one is built from, and members no logic references
+          </CardDescription>
+        </CardHeader>
+        <CardContent className={types.length > 0 ? "p-0" : ""}>
+          {types.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No UDTs or Add-On Instructions found in this project.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead className="text-right">Tags</TableHead>
+                  <TableHead className="text-right">Tag Memory</TableHead>
+                  <TableHead>Depends On</TableHead>
+                  <TableHead>Used By</TableHead>
+                  <TableHead>Findings</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {types.map((type) => (
+                  <TableRow key={`${type.fileId}/${type.name}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono">{type.name}</span>
+                        <Badge variant="outline" className="text-xs">{type.kind === "aoi" ? "AOI" : "UDT"}</Badge>
+                      </div>
+                      {type.nestingDepth > 1 && (
+                        <p className="text-xs text-muted-foreground">Nested {type.nestingDepth} levels deep</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatBytes(type.size)}</TableCell>
+                    <TableCell className="text-right font-mono">{type.instances}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {type.instances > 0 ? formatBytes(type.tagBytes) : ""}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {type.dependsOn.map((dep) => (
+                          <Badge
+                            key={dep.name}
+                            variant={dep.kind === "predefined" ? "outline" : "secondary"}
+                            className="text-xs font-mono"
+                          >
+                            {dep.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{type.usedBy.join(", ")}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {!type.instantiated && (
+                          <Badge variant="secondary" className="text-xs">Never instantiated</Badge>
+                        )}
+                        {type.unusedMembers.length > 0 && (
+                          <div>
+                            <Badge variant="outline" className="text-xs">
+                              {type.unusedMembers.length} unused member{type.unusedMembers.length === 1 ? "" : "s"}
+                            </Badge>
+                            <p className="text-xs text-muted-foreground font-mono mt-1">
+                              {type.unusedMembers.join(", ")}
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -16,6 +16,7 @@ export type ActivityAction =
   | "permission_changed"
   | "member_left"
   | "tag_exported"
+  | "alarms_exported"
   | "documentation_exported"
   | "ai_analysis_run"
   | "project_duplicated"
@@ -116,6 +117,7 @@ export function getActionDescription(action: ActivityAction, targetName?: string
     permission_changed: targetName ? `changed permissions for ${targetName}` : "changed a collaborator's permissions",
     member_left: "left the project",
     tag_exported: "exported tags",
+    alarms_exported: "exported alarms",
     documentation_exported: targetName ? `exported documentation as ${targetName}` : "exported documentation",
     ai_analysis_run: targetName ? `ran AI analysis: ${targetName}` : "ran AI analysis",
     project_duplicated: targetName ? `duplicated from "${targetName}"` : "duplicated a project",
@@ -0,0 +1,87 @@
+/**
+ * Alarm inventory rows as stored in parsed_alarms, shared by the alarm list
+ * page and its CSV/XLSX export so both show the same columns.
+ */
+
+export const ALARM_COLUMNS =
+  "kind, tag_name, scope, data_type, condition, input, condition_type, limit_value, severity, deadband, on_delay_ms, off_delay_ms, latched, ack_required, message, file_id";
+
+export interface AlarmRow {
+  kind: "digital" | "analog" | "condition" | "definition";
+  tag_name: string;
+  scope: string;
+  data_type: string;
+  condition: string | null;
+  input: string | null;
+  condition_type: string | null;
+  limit_value: number | null;
+  severity: number | null;
+  deadband: number | null;
+  on_delay_ms: number | null;
+  off_delay_ms: number | null;
+  latched: boolean | null;
+  ack_required: boolean | null;
+  message: string | null;
+  file_id: string;
+}
+
+export const ALARM_KIND_LABELS: Record<AlarmRow["kind"], string> = {
+  digital: "Digital (ALMD)",
+  analog: "Analog (ALMA)",
+  condition: "Tag-based",
+  definition: "Data type definition",
+};
+
+/** Alarm name as alarm servers show it: the tag, then the condition for multi-condition alarms. */
+export function getAlarmName(alarm: Pick<AlarmRow, "tag_name" | "condition">): string {
+  return alarm.condition ? `${alarm.tag_name}.${alarm.condition}` : alarm.tag_name;
+}
+
+/** Highest severity first, then by name. */
+export function compareAlarms(a: AlarmRow, b: AlarmRow): number {
+  return (b.severity ?? 0) - (a.severity ?? 0) || getAlarmName(a).localeCompare(getAlarmName(b));
+}
+
+export const ALARM_EXPORT_HEADERS = [
+  "Alarm",
+  "Type",
+  "Tag",
+  "Scope",
+  "Data Type",
+  "Condition",
+  "Input",
+  "Condition Type",
+  "Limit",
+  "Severity",
+  "Deadband",
+  "On Delay (ms)",
+  "Off Delay (ms)",
+  "Latched",
+  "Ack Required",
+  "Message",
+  "File",
+];
+
+export function getAlarmExportRow(alarm: AlarmRow, fileName: string): string[] {
+  const text = (value: string | number | null) => (value === null ? "" : String(value));
+  const flag = (value: boolean | null) => (value === null ? "" : value ? "Yes" : "No");
+  return [
+    getAlarmName(alarm),
+    ALARM_KIND_LABELS[alarm.kind],
+    alarm.tag_name,
+    alarm.scope,
+    alarm.data_type,
+    text(alarm.condition),
+    text(alarm.input),
+    text(alarm.condition_type),
+    text(alarm.limit_value),
+    text(alarm.severity),
+    text(alarm.deadband),
+    text(alarm.on_delay_ms),
+    text(alarm.off_delay_ms),
+    flag(alarm.latched),
+    flag(alarm.ack_required),
+    text(alarm.message),
+    fileName,
+  ];
+}
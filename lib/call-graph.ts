@@ -0,0 +1,313 @@
+import { findArgsEnd, splitOperands } from "@/lib/parsers/st-parser";
+
+/**
+ * Routine call graph from stored rungs.
+ *
+ * Within a program, routines run only when something calls them: the task
+ * calls the program's main routine, a major fault calls its fault routine,
+ * and every other routine needs a JSR from a routine that runs. Ladder and
+ * structured text write the call the same way, `JSR(Sub, 2, In1, In2, Ret1)`
+ * - the routine, the input count, the inputs, then the return parameters -
+ * and the called routine receives them with `SBR(...)` and hands results
+ * back with `RET(...)`. So calls are found by scanning rung and ST line text.
+ *
+ * Programs no task schedules (directly or through a parent program) run
+ * nothing at all. FBD and SFC routines can also call JSR, but those calls
+ * are not stored as text, so in programs that have such routines an uncalled
+ * routine is only reported as possibly unreachable.
+ */
+
+interface ProgramRow {
+  file_id: string;
+  name: string;
+  main_routine_name?: string | null;
+  fault_routine_name?: string | null;
+  parent_program?: string | null;
+}
+
+interface RoutineRow {
+  file_id: string;
+  name: string;
+  program_name: string;
+  type: string;
+  rung_count?: number | null;
+}
+
+interface RungRow {
+  file_id: string;
+  program_name: string;
+  routine_name: string;
+  number: number;
+  content: string;
+}
+
+interface TaskRow {
+  file_id: string;
+  scheduled_programs?: string[] | null;
+}
+
+export interface RoutineCall {
+  fileId: string;
+  programName: string;
+  caller: string;
+  callee: string;
+  rungNumber: number;
+  inputs: string[];
+  returns: string[];
+}
+
+export type UnreachableReason = "not-called" | "program-not-scheduled";
+
+export interface CallGraphRoutine {
+  fileId: string;
+  programName: string;
+  name: string;
+  type: string;
+  rungCount: number;
+  role?: "main" | "fault";
+  callers: string[];
+  callees: string[];
+  parameters?: number;      // Operands of the routine's SBR
+  returnValues?: number;    // Most operands any of its RETs passes back
+  reachable: boolean;
+  unreachableReason?: UnreachableReason;
+  unverified?: boolean;     // Uncalled, but FBD or SFC logic in the program may call it
+}
+
+export interface CallGraphProgram {
+  fileId: string;
+  name: string;
+  scheduled: boolean;
+  mainRoutine?: string;
+  faultRoutine?: string;
+  routines: CallGraphRoutine[];
+}
+
+export interface ParameterMismatch {
+  call: RoutineCall;
+  expectedInputs: number;
+  expectedReturns: number;
+}
+
+export interface CallGraph {
+  programs: CallGraphProgram[];
+  calls: RoutineCall[];
+  unreachable: CallGraphRoutine[];
+  missingTargets: RoutineCall[];
+  recursion: Array<{ fileId: string; programName: string; cycle: string[] }>;
+  parameterMismatches: ParameterMismatch[];
+  totalRungs: number;
+  unreachableRungs: number;
+}
+
+// Not preceded by a member or index, so `Cfg.JSR(` is not a call
+const CALL_PATTERN = /(?<![\w.\]])(JSR|SBR|RET)\s*\(/gi;
+
+// Routine types whose calls are not in the rung text
+const OPAQUE_ROUTINE_TYPES = new Set(["FBD", "SFC"]);
+
+function key(...parts: string[]): string {
+  return parts.join("/").toUpperCase();
+}
+
+/** JSR, SBR and RET instructions in one rung or ST line. */
+function findCallInstructions(content: string): Array<{ name: string; operands: string[] }> {
+  const instructions: Array<{ name: string; operands: string[] }> = [];
+  for (const match of content.matchAll(CALL_PATTERN)) {
+    const openPos = match.index + match[0].length - 1;
+    const end = findArgsEnd(content, openPos);
+    const close = content[end - 1] === ")" ? end - 1 : end;
+    instructions.push({
+      name: match[1].toUpperCase(),
+      operands: splitOperands(content.substring(openPos + 1, close)),
+    });
+  }
+  return instructions;
+}
+
+/** Build the call graph of every program, with reachability from each program's roots. */
+export function buildCallGraph(input: {
+  programs: ProgramRow[];
+  routines: RoutineRow[];
+  rungs: RungRow[];
+  tasks: TaskRow[];
+}): CallGraph {
+  const graph: CallGraph = {
+    programs: [],
+    calls: [],
+    unreachable: [],
+    missingTargets: [],
+    recursion: [],
+    parameterMismatches: [],
+    totalRungs: 0,
+    unreachableRungs: 0,
+  };
+
+  const programRows = new Map(input.programs.map((p) => [key(p.file_id, p.name), p]));
+  const scheduled = new Set(
+    input.tasks.flatMap((t) => (t.scheduled_programs || []).map((name) => key(t.file_id, name)))
+  );
+  // Child programs run in their parent's task
+  const isScheduled = (fileId: string, name: string, depth = 0): boolean => {
+    if (scheduled.has(key(fileId, name))) return true;
+    const parent = programRows.get(key(fileId, name))?.parent_program;
+    return !!parent && depth < 16 && isScheduled(fileId, parent, depth + 1);
+  };
+  const hasTasks = input.tasks.length > 0;
+
+  // Routines by program; AOI routines have no program row and are left out
+  const routinesByKey = new Map<string, CallGraphRoutine>();
+  const programs = new Map<string, CallGraphProgram>();
+  for (const row of input.routines) {
+    const program = programRows.get(key(row.file_id, row.program_name));
+    if (!program) continue;
+
+    const programKey = key(row.file_id, program.name);
+    let entry = programs.get(programKey);
+    if (!entry) {
+      entry = {
+        fileId: row.file_id,
+        name: program.name,
+        // A partial export without tasks cannot show what is scheduled
+        scheduled: !hasTasks || isScheduled(row.file_id, program.name),
+        mainRoutine: program.main_routine_name || undefined,
+        faultRoutine: program.fault_routine_name || undefined,
+        routines: [],
+      };
+      programs.set(programKey, entry);
+    }
+
+    const routine: CallGraphRoutine = {
+      fileId: row.file_id,
+      programName: program.name,
+      name: row.name,
+      type: row.type,
+      rungCount: row.rung_count || 0,
+      callers: [],
+      callees: [],
+      reachable: false,
+    };
+    if (entry.mainRoutine && key(entry.mainRoutine) === key(row.name)) routine.role = "main";
+    else if (entry.faultRoutine && key(entry.faultRoutine) === key(row.name)) routine.role = "fault";
+    entry.routines.push(routine);
+    routinesByKey.set(key(row.file_id, program.name, row.name), routine);
+  }
+
+  // Calls, parameter lists and return values from the rung text
+  for (const rung of input.rungs) {
+    const caller = routinesByKey.get(key(rung.file_id, rung.program_name, rung.routine_name));
+    if (!caller) continue;
+
+    for (const instruction of findCallInstructions(rung.content)) {
+      if (instruction.name === "SBR") {
+        caller.parameters = Math.max(caller.parameters ?? 0, instruction.operands.length);
+      } else if (instruction.name === "RET") {
+        caller.returnValues = Math.max(caller.returnValues ?? 0, instruction.operands.length);
+      } else if (instruction.operands[0]) {
+        const [callee, count, ...rest] = instruction.operands;
+        const inputCount = parseInt(count || "0", 10) || 0;
+        graph.calls.push({
+          fileId: rung.file_id,
+          programName: caller.programName,
+          caller: caller.name,
+          callee: callee.trim(),
+          rungNumber: rung.number,
+          inputs: rest.slice(0, inputCount),
+          returns: rest.slice(inputCount),
+        });
+      }
+    }
+  }
+
+  for (const call of graph.calls) {
+    const caller = routinesByKey.get(key(call.fileId, call.programName, call.caller))!;
+    const callee = routinesByKey.get(key(call.fileId, call.programName, call.callee));
+    if (!callee) {
+      graph.missingTargets.push(call);
+      continue;
+    }
+    if (!caller.callees.includes(callee.name)) caller.callees.push(callee.name);
+    if (!callee.callers.includes(caller.name)) callee.callers.push(caller.name);
+
+    // Every input needs an SBR parameter to land in, every return value a RET operand
+    const expectedInputs = callee.parameters ?? 0;
+    const expectedReturns = callee.returnValues ?? 0;
+    if (call.inputs.length !== expectedInputs || call.returns.length > expectedReturns) {
+      graph.parameterMismatches.push({ call, expectedInputs, expectedReturns });
+    }
+  }
+
+  for (const program of programs.values()) {
+    const byName = new Map(program.routines.map((r) => [key(r.name), r]));
+    const roots = program.routines.filter((r) => r.role);
+
+    // Walk from the roots to mark what runs
+    const visit = (routine: CallGraphRoutine) => {
+      routine.reachable = true;
+      for (const calleeName of routine.callees) {
+        const callee = byName.get(key(calleeName))!;
+        if (!callee.reachable) visit(callee);
+      }
+    };
+    if (program.scheduled) {
+      for (const root of roots) visit(root);
+    }
+
+    // Search every routine for cycles, so recursion among routines nothing calls is
+    // found too, recording each cycle once by where it closes. Roots go first so a
+    // cycle reached from them reads from the entry point.
+    const searched = new Set<CallGraphRoutine>();
+    const search = (routine: CallGraphRoutine, path: string[]) => {
+      searched.add(routine);
+      for (const calleeName of routine.callees) {
+        const callee = byName.get(key(calleeName))!;
+        const loopStart = path.findIndex((name) => key(name) === key(callee.name));
+        if (loopStart >= 0) {
+          graph.recursion.push({
+            fileId: program.fileId,
+            programName: program.name,
+            cycle: [...path.slice(loopStart), callee.name],
+          });
+        } else if (!searched.has(callee)) {
+          search(callee, [...path, callee.name]);
+        }
+      }
+    };
+    for (const routine of [...roots, ...program.routines]) {
+      if (!searched.has(routine)) search(routine, [routine.name]);
+    }
+
+    const hasOpaqueLogic = program.routines.some((r) => OPAQUE_ROUTINE_TYPES.has(r.type.toUpperCase()));
+    for (const routine of program.routines) {
+      graph.totalRungs += routine.rungCount;
+      if (routine.reachable) continue;
+      // Without a main routine on record there is nothing to walk from
+      if (program.scheduled && !program.mainRoutine) {
+        routine.reachable = true;
+        continue;
+      }
+      routine.unreachableReason = program.scheduled ? "not-called" : "program-not-scheduled";
+      routine.unverified = program.scheduled && hasOpaqueLogic && routine.callers.length === 0;
+      if (!routine.unverified) {
+        graph.unreachable.push(routine);
+        graph.unreachableRungs += routine.rungCount;
+      }
+    }
+
+    program.routines.sort((a, b) => (a.role ? 0 : 1) - (b.role ? 0 : 1) || a.name.localeCompare(b.name));
+    graph.programs.push(program);
+  }
+
+  graph.programs.sort((a, b) => a.name.localeCompare(b.name));
+  return graph;
+}
+
+/**
+ * Task configuration penalty for logic that never runs: routines in a
+ * scheduled program that nothing calls. Unscheduled programs are already
+ * penalized as orphaned programs.
+ */
+export function getUnreachableLogicPenalty(graph: CallGraph): number {
+  const notCalled = graph.unreachable.filter((r) => r.unreachableReason === "not-called").length;
+  return Math.min(30, notCalled * 10);
+}
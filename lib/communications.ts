@@ -0,0 +1,51 @@
+/**
+ * Produced/consumed links between the controllers of a project. A consumed
+ * tag names its producer (the producing controller's module in the I/O
+ * tree) and the remote produced tag; it is matched to a produced tag of that
+ * name in another file, preferring the file whose controller carries the
+ * producer's name, since module names usually follow the controller name.
+ */
+
+export interface CommunicationRow {
+  file_id: string;
+  tag_name: string;
+  scope: string;
+  data_type: string;
+  producer?: string | null;
+  remote_tag?: string | null;
+  rpi_ms?: number | null;
+}
+
+export interface ProducerConsumerPair<T extends CommunicationRow> {
+  consumed: T;
+  /** Matching produced tag, or null when the producing controller is not in the project */
+  produced: T | null;
+}
+
+export function pairConsumedTags<T extends CommunicationRow>(
+  consumed: T[],
+  produced: T[],
+  controllerNames: Map<string, string>
+): ProducerConsumerPair<T>[] {
+  const producedByName = new Map<string, T[]>();
+  for (const tag of produced) {
+    const key = tag.tag_name.toLowerCase();
+    producedByName.set(key, [...(producedByName.get(key) || []), tag]);
+  }
+
+  return consumed.map((tag) => {
+    const candidates = (producedByName.get((tag.remote_tag || "").toLowerCase()) || [])
+      .filter((p) => p.file_id !== tag.file_id);
+    const producer = (tag.producer || "").toLowerCase();
+    const match =
+      candidates.find((p) => (controllerNames.get(p.file_id) || "").toLowerCase() === producer) ||
+      candidates[0] ||
+      null;
+    return { consumed: tag, produced: match };
+  });
+}
+
+/** The IP address a MESSAGE connection path routes to, if it names one. */
+export function getMessageTargetAddress(connectionPath: string | null | undefined): string | undefined {
+  return connectionPath?.match(/\b\d{1,3}(?:\.\d{1,3}){3}\b/)?.[0];
+}
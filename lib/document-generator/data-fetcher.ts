@@ -1,9 +1,11 @@
 import { createClient } from "@/lib/supabase/server";
+import { localizeText } from "@/lib/documentation-language";
 import type { ProjectData } from "./types";
 
 /**
  * Fetch and aggregate all parsed data for a project.
  * Resolves latest file versions to avoid duplicate data from old versions.
+ * Descriptions and rung comments are given in the project's documentation language.
  */
 export async function fetchProjectData(projectId: string): Promise<ProjectData> {
   const supabase = await createClient();
@@ -11,7 +13,7 @@ export async function fetchProjectData(projectId: string): Promise<ProjectData>
   // Get project with files
   const { data: project, error: projectError } = await supabase
     .from("projects")
-    .select("id, name, project_files(id, parsing_status, current_version)")
+    .select("id, name, documentation_language, project_files(id, parsing_status, current_version)")
     .eq("id", projectId)
     .single();
 
@@ -53,36 +55,36 @@ export async function fetchProjectData(projectId: string): Promise<ProjectData>
   ] = await Promise.all([
     supabase
       .from("parsed_tags")
-      .select("name, data_type, scope, description, usage, radix, alias_for")
+      .select("file_id, name, data_type, scope, description, descriptions, usage, radix, alias_for")
       .in("version_id", versionIds)
       .order("scope")
       .order("name"),
     supabase
       .from("parsed_routines")
-      .select("name, program_name, type, description, rung_count")
+      .select("file_id, name, program_name, type, description, descriptions, rung_count, is_protected")
       .in("version_id", versionIds)
       .order("program_name")
       .order("name"),
     supabase
       .from("parsed_rungs")
-      .select("routine_name, program_name, number, content, comment")
+      .select("routine_name, program_name, number, content, comment, comments")
       .in("version_id", versionIds)
       .order("program_name")
       .order("routine_name")
       .order("number"),
     supabase
       .from("parsed_io_modules")
-      .select("name, catalog_number, parent_module, slot")
+      .select("name, catalog_number, parent_module, slot, ip_address, rpi_ms")
       .in("version_id", versionIds)
       .order("slot"),
     supabase
       .from("parsed_udts")
-      .select("name, description, family_type, parsed_udt_members(name, data_type, description)")
+      .select("name, description, descriptions, family_type, parsed_udt_members(name, data_type, description, descriptions)")
       .in("version_id", versionIds)
       .order("name"),
     supabase
       .from("parsed_aois")
-      .select("name, description, revision, vendor, parsed_aoi_parameters(name, data_type, usage, description), parsed_aoi_local_tags(name, data_type, description)")
+      .select("name, description, descriptions, revision, vendor, parsed_aoi_parameters(name, data_type, usage, description, descriptions), parsed_aoi_local_tags(name, data_type, description)")
       .in("version_id", versionIds)
       .order("name"),
     supabase
@@ -116,15 +118,40 @@ export async function fetchProjectData(projectId: string): Promise<ProjectData>
     }
   }
 
+  const language = project.documentation_language;
+
   return {
     projectName: project.name,
     metadata,
-    tags: tagsResult.data || [],
-    routines: routinesResult.data || [],
-    rungs: rungsResult.data || [],
+    tags: (tagsResult.data || []).map(({ descriptions, ...tag }) => ({
+      ...tag,
+      description: localizeText(tag.description, descriptions, language),
+    })),
+    routines: (routinesResult.data || []).map(({ descriptions, ...routine }) => ({
+      ...routine,
+      description: localizeText(routine.description, descriptions, language),
+    })),
+    rungs: (rungsResult.data || []).map(({ comments, ...rung }) => ({
+      ...rung,
+      comment: localizeText(rung.comment, comments, language),
+    })),
     modules: modulesResult.data || [],
-    udts: udtsResult.data || [],
-    aois: aoisResult.data || [],
+    udts: (udtsResult.data || []).map(({ descriptions, parsed_udt_members, ...udt }) => ({
+      ...udt,
+      description: localizeText(udt.description, descriptions, language),
+      parsed_udt_members: (parsed_udt_members || []).map(({ descriptions: memberDescriptions, ...member }) => ({
+        ...member,
+        description: localizeText(member.description, memberDescriptions, language),
+      })),
+    })),
+    aois: (aoisResult.data || []).map(({ descriptions, parsed_aoi_parameters, ...aoi }) => ({
+      ...aoi,
+      description: localizeText(aoi.description, descriptions, language),
+      parsed_aoi_parameters: (parsed_aoi_parameters || []).map(({ descriptions: paramDescriptions, ...param }) => ({
+        ...param,
+        description: localizeText(param.description, paramDescriptions, language),
+      })),
+    })),
     tasks: tasksResult.data || [],
     tagReferences: tagRefsResult.data || [],
   };
@@ -263,8 +263,8 @@ export async function renderDocx(document: ManualDocument): Promise<Blob> {
         if (content.modules.length > 0) {
           children.push(
             makeTable(
-              ["Module Name", "Catalog Number", "Parent Module", "Slot"],
-              content.modules.map((m) => [m.name, m.catalogNumber || "-", m.parentModule || "-", m.slot?.toString() ?? "-"])
+              ["Module Name", "Catalog Number", "Parent Module", "Slot", "IP Address", "RPI (ms)"],
+              content.modules.map((m) => [m.name, m.catalogNumber || "-", m.parentModule || "-", m.slot?.toString() ?? "-", m.ipAddress || "-", m.rpiMs?.toString() ?? "-"])
             )
           );
         } else {
@@ -180,10 +180,10 @@ function renderIo(content: IoContent, lines: string[]) {
     return;
   }
 
-  lines.push("| Module Name | Catalog Number | Parent Module | Slot |");
-  lines.push("|-------------|----------------|---------------|------|");
+  lines.push("| Module Name | Catalog Number | Parent Module | Slot | IP Address | RPI (ms) |");
+  lines.push("|-------------|----------------|---------------|------|------------|----------|");
   for (const mod of content.modules) {
-    lines.push(`| ${mod.name} | ${mod.catalogNumber || "-"} | ${mod.parentModule || "-"} | ${mod.slot ?? "-"} |`);
+    lines.push(`| ${mod.name} | ${mod.catalogNumber || "-"} | ${mod.parentModule || "-"} | ${mod.slot ?? "-"} | ${mod.ipAddress || "-"} | ${mod.rpiMs ?? "-"} |`);
   }
   lines.push("");
 }
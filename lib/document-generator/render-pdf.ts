@@ -179,8 +179,8 @@ export async function renderPdf(document: ManualDocument): Promise<void> {
         sectionStartPages.set(section.id, doc.getNumberOfPages());
         if (content.modules.length > 0) {
           addTable(
-            ["Module Name", "Catalog Number", "Parent Module", "Slot"],
-            content.modules.map((m) => [m.name, m.catalogNumber || "-", m.parentModule || "-", m.slot?.toString() ?? "-"])
+            ["Module Name", "Catalog Number", "Parent Module", "Slot", "IP Address", "RPI (ms)"],
+            content.modules.map((m) => [m.name, m.catalogNumber || "-", m.parentModule || "-", m.slot?.toString() ?? "-", m.ipAddress || "-", m.rpiMs?.toString() ?? "-"])
           );
         } else {
           addParagraph("No I/O modules found in this project.");
@@ -15,6 +15,7 @@ import type {
   ManualConfig,
   SectionType,
 } from "./types";
+import { getProtectedPrograms, isInProtectedScope } from "@/lib/protected-content";
 
 export function buildCoverSection(data: ProjectData): ManualSection {
   const content: CoverContent = {
@@ -77,6 +78,8 @@ export function buildIoSection(data: ProjectData): ManualSection {
     catalogNumber: m.catalog_number ?? undefined,
     parentModule: m.parent_module ?? undefined,
     slot: m.slot ?? undefined,
+    ipAddress: m.ip_address ?? undefined,
+    rpiMs: m.rpi_ms ?? undefined,
   }));
 
   const content: IoContent = { type: "io", modules };
@@ -248,9 +251,11 @@ export function buildCrossReferenceSection(data: ProjectData): ManualSection {
 }
 
 export function buildProjectHealthSection(data: ProjectData): ManualSection {
-  // --- Unused tags ---
+  // --- Unused tags (tags only protected logic could use are not checked) ---
+  const protectedPrograms = getProtectedPrograms(data.routines);
+  const scoredTags = data.tags.filter((t) => !isInProtectedScope(t, protectedPrograms));
   const referencedTags = new Set(data.tagReferences.map((r) => r.tag_name));
-  const unusedTags = data.tags
+  const unusedTags = scoredTags
     .filter((t) => !referencedTags.has(t.name) && !t.alias_for)
     .map((t) => ({ name: t.name, dataType: t.data_type, scope: t.scope }));
 
@@ -281,8 +286,8 @@ export function buildProjectHealthSection(data: ProjectData): ManualSection {
 
   // --- Health score computation (mirrors lib/health-scores.ts) ---
   const totalTags = data.tags.length;
-  const tagEfficiency = totalTags > 0
-    ? Math.max(0, Math.round(100 - (unusedTags.length / totalTags) * 200))
+  const tagEfficiency = scoredTags.length > 0
+    ? Math.max(0, Math.round(100 - (unusedTags.length / scoredTags.length) * 200))
     : 100;
   const documentation = overallCommentCoverage;
   const tagUsage = totalTags > 0
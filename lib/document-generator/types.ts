@@ -92,6 +92,8 @@ export interface IoContent {
     catalogNumber?: string;
     parentModule?: string;
     slot?: number;
+    ipAddress?: string;
+    rpiMs?: number;
   }>;
 }
 
@@ -238,6 +240,7 @@ export interface ProjectData {
     exportDate?: string;
   };
   tags: Array<{
+    file_id: string;
     name: string;
     data_type: string;
     scope: string;
@@ -247,11 +250,13 @@ export interface ProjectData {
     alias_for: string | null;
   }>;
   routines: Array<{
+    file_id: string;
     name: string;
     program_name: string;
     type: string;
     description: string | null;
     rung_count: number | null;
+    is_protected: boolean | null;
   }>;
   rungs: Array<{
     routine_name: string;
@@ -265,6 +270,8 @@ export interface ProjectData {
     catalog_number: string | null;
     parent_module: string | null;
     slot: number | null;
+    ip_address: string | null;
+    rpi_ms: number | null;
   }>;
   udts: Array<{
     name: string;
@@ -0,0 +1,52 @@
+import type { LocalizedText } from "@/lib/parsers/types";
+
+/**
+ * Multi-language documentation. Files keep the first language of each
+ * description and comment in `description`/`comment` and every language in
+ * `descriptions`/`comments`; the project's documentation language chooses
+ * which one the views and the project manual show.
+ */
+
+/** Text in `language`, falling back to the file's first language when it has no translation. */
+export function localizeText(
+  text: string | null | undefined,
+  translations: LocalizedText | null | undefined,
+  language: string | null | undefined
+): string | null {
+  if (language && translations?.[language]) return translations[language];
+  return text ?? null;
+}
+
+/** Languages found in a project's files, plus the selected one if no file carries it any more. */
+export function getProjectLanguages(
+  files: Array<{ documentation_languages?: string[] | null }>,
+  selected?: string | null
+): string[] {
+  const languages = new Set(files.flatMap((f) => f.documentation_languages || []));
+  if (selected) languages.add(selected);
+  return [...languages].sort();
+}
+
+export interface LanguageCoverage {
+  language: string;
+  documented: number;
+  total: number;
+  percent: number;
+}
+
+/** How many items have text in each language. */
+export function getLanguageCoverage(
+  translations: Array<LocalizedText | null | undefined>,
+  languages: string[]
+): LanguageCoverage[] {
+  const total = translations.length;
+  return languages.map((language) => {
+    const documented = translations.filter((t) => t?.[language]?.trim()).length;
+    return {
+      language,
+      documented,
+      total,
+      percent: total > 0 ? Math.round((documented / total) * 100) : 0,
+    };
+  });
+}
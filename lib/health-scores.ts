@@ -1,5 +1,8 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { analyzeExportTypes } from "@/lib/partial-export";
+import { getProtectedPrograms, isInProtectedScope } from "@/lib/protected-content";
+import { findUnusedTags } from "@/lib/tag-usage";
+import { buildCallGraph, getUnreachableLogicPenalty } from "@/lib/call-graph";
 
 interface HealthScores {
   overall: number;
@@ -16,12 +19,15 @@ function computeScore(stats: {
   unusedTags: number;
   commentCoverage: number;
   totalReferences: number;
+  protectedTags?: number;
   namingViolationTags?: number;
   taskConfigScore?: number;
 }): HealthScores {
+  // Tags only protected logic could use are left out of the efficiency ratio
+  const scoredTags = stats.totalTags - (stats.protectedTags ?? 0);
   const tagEfficiency =
-    stats.totalTags > 0
-      ? Math.max(0, 100 - (stats.unusedTags / stats.totalTags) * 200)
+    scoredTags > 0
+      ? Math.max(0, 100 - (stats.unusedTags / scoredTags) * 200)
       : 100;
   const documentation = stats.commentCoverage;
   const tagUsage =
@@ -194,14 +200,14 @@ export async function getProjectHealthScores(
 
     const allFileIds = (files || []).map((f) => f.id);
     if (allFileIds.length > 0) {
-      const [tagsResult, referencesResult, rungsResult, tasksResult, routinesResult] = await Promise.all([
+      const [tagsResult, referencesResult, rungsResult, tasksResult, routinesResult, programsResult, callRungsResult] = await Promise.all([
         supabase
           .from("parsed_tags")
-          .select("name, scope, file_id")
+          .select("name, scope, file_id, alias_for")
           .in("file_id", allFileIds),
         supabase
           .from("tag_references")
-          .select("tag_name, file_id")
+          .select("tag_name, program_name, file_id")
           .in("file_id", allFileIds),
         supabase
           .from("parsed_rungs")
@@ -213,8 +219,18 @@ export async function getProjectHealthScores(
           .in("file_id", allFileIds),
         supabase
           .from("parsed_routines")
-          .select("program_name, file_id")
+          .select("name, program_name, type, rung_count, is_protected, file_id")
+          .in("file_id", allFileIds),
+        supabase
+          .from("parsed_programs")
+          .select("name, main_routine_name, fault_routine_name, parent_program, file_id")
           .in("file_id", allFileIds),
+        // Only JSR rungs are needed to find routines nothing calls
+        supabase
+          .from("parsed_rungs")
+          .select("program_name, routine_name, number, content, file_id")
+          .in("file_id", allFileIds)
+          .ilike("content", "%JSR%"),
       ]);
 
       // Group data by project
@@ -226,17 +242,14 @@ export async function getProjectHealthScores(
         const references = (referencesResult.data || []).filter((r) => projFileIds.has(r.file_id));
         const rungs = (rungsResult.data || []).filter((r) => projFileIds.has(r.file_id));
 
-        const referencedTagNames = new Set(references.map((r) => r.tag_name));
-        const unusedTags = tags.filter((tag) => {
-          const tagParts = tag.name.split(".");
-          for (let i = 1; i <= tagParts.length; i++) {
-            const partialName = tagParts.slice(0, i).join(".");
-            if (referencedTagNames.has(partialName)) return false;
-          }
-          const baseName = tag.name.split("[")[0];
-          if (referencedTagNames.has(baseName)) return false;
-          return !referencedTagNames.has(tag.name);
-        });
+        const protectedPrograms = getProtectedPrograms(
+          (routinesResult.data || []).filter((r) => projFileIds.has(r.file_id))
+        );
+        const protectedTags = tags.filter((tag) => isInProtectedScope(tag, protectedPrograms)).length;
+
+        const unusedTags = findUnusedTags(tags, references).filter(
+          (tag) => !isInProtectedScope(tag, protectedPrograms)
+        );
 
         const commentedRungs = rungs.filter((r) => r.comment && r.comment.trim() !== "").length;
         const commentCoverage = rungs.length > 0
@@ -320,6 +333,14 @@ export async function getProjectHealthScores(
             }
           }
 
+          // Routines in scheduled programs that nothing calls
+          score -= getUnreachableLogicPenalty(buildCallGraph({
+            programs: (programsResult.data || []).filter((p) => projFileIds.has(p.file_id)),
+            routines: projectRoutines,
+            rungs: (callRungsResult.data || []).filter((r) => projFileIds.has(r.file_id)),
+            tasks,
+          }));
+
           taskConfigScore = Math.max(0, Math.min(100, score));
         }
 
@@ -328,6 +349,7 @@ export async function getProjectHealthScores(
           unusedTags: unusedTags.length,
           commentCoverage,
           totalReferences: references.length,
+          protectedTags,
           namingViolationTags,
           taskConfigScore,
         }));
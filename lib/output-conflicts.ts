@@ -0,0 +1,181 @@
+import { followTagReference, indexTagsByFile } from "@/lib/parsers/tag-resolution";
+
+/**
+ * Output conflicts from stored tag references.
+ *
+ * A non-retentive output (OTE, a TON or TOF timer, a one-shot storage bit)
+ * is written from its own rung condition on every scan, so two of them on
+ * the same operand fight: the last one scanned wins and the first is dead
+ * logic - the classic double coil. A latch (OTL) with
+ * no unlatch (OTU) anywhere can only be cleared by a power cycle or a
+ * program write. And a tag written from tasks of different priority can
+ * change halfway through the lower-priority task's scan.
+ *
+ * Writes are compared on the operand they finally land on, so an OTE on an
+ * alias and one on the aliased I/O point are the same coil. Operands with
+ * a computed subscript are left out: which element they write is only known
+ * at run time.
+ */
+
+interface TagRow {
+  file_id: string;
+  name: string;
+  scope: string;
+  alias_for?: string | null;
+}
+
+interface ReferenceRow {
+  file_id: string;
+  tag_name: string;
+  program_name: string;
+  routine_name: string;
+  rung_number: number;
+  usage_type: string;
+  indirect_index?: boolean | null;
+  write_instructions?: string[] | null;
+}
+
+interface ProgramRow {
+  file_id: string;
+  name: string;
+  task_name?: string | null;
+}
+
+interface TaskRow {
+  file_id: string;
+  name: string;
+  priority: number;
+  scheduled_programs?: string[] | null;
+}
+
+export type OutputConflictKind = "duplicate-output" | "latch-without-unlatch" | "multi-task-write";
+
+export interface OutputLocation {
+  programName: string;
+  routineName: string;
+  rungNumber: number;
+  instruction?: string;
+  taskName?: string;
+  taskPriority?: number;
+}
+
+export interface OutputConflict {
+  kind: OutputConflictKind;
+  severity: "error" | "warning";
+  fileId: string;
+  tagName: string;          // The operand as the controller resolves it, e.g. Local:2:O.Data.4
+  locations: OutputLocation[];
+  description: string;
+}
+
+// Instructions that drive their output from the rung condition every scan:
+// coils, non-retentive timers and one-shot storage bits
+const NON_RETENTIVE_OUTPUTS = new Set(["OTE", "TON", "TOF", "ONS", "OSR", "OSF"]);
+
+interface Write {
+  fileId: string;
+  operand: string;
+  location: OutputLocation;
+}
+
+function describeLocation(location: OutputLocation): string {
+  return `${location.programName}/${location.routineName} rung ${location.rungNumber}`;
+}
+
+/** Every output conflict, errors first. */
+export function findOutputConflicts(input: {
+  tags: TagRow[];
+  references: ReferenceRow[];
+  programs: ProgramRow[];
+  tasks: TaskRow[];
+}): OutputConflict[] {
+  const indexes = indexTagsByFile(input.tags);
+
+  // The task each program runs in; child programs carry their parent's task_name
+  const tasksByName = new Map(input.tasks.map((t) => [`${t.file_id}/${t.name}`, t]));
+  const taskOfProgram = new Map<string, TaskRow>();
+  for (const task of input.tasks) {
+    for (const name of task.scheduled_programs || []) taskOfProgram.set(`${task.file_id}/${name}`, task);
+  }
+  for (const program of input.programs) {
+    const task = program.task_name ? tasksByName.get(`${program.file_id}/${program.task_name}`) : undefined;
+    if (task) taskOfProgram.set(`${program.file_id}/${program.name}`, task);
+  }
+
+  // Group writes by the tag, member or bit they land on
+  const writesByTarget = new Map<string, Write[]>();
+  for (const ref of input.references) {
+    if (ref.usage_type === "read" || ref.indirect_index) continue;
+
+    const index = indexes.get(ref.file_id);
+    const { tags, target } = index
+      ? followTagReference(index, ref.program_name, ref.tag_name)
+      : { tags: [], target: ref.tag_name.replace(/\s+/g, "") };
+    // I/O and undefined tags resolve to nothing and live at controller scope
+    const scope = tags[tags.length - 1]?.scope ?? "Controller";
+    const key = `${ref.file_id}/${scope}/${target}`.toUpperCase();
+
+    const task = taskOfProgram.get(`${ref.file_id}/${ref.program_name}`);
+    const location: OutputLocation = {
+      programName: ref.program_name,
+      routineName: ref.routine_name,
+      rungNumber: ref.rung_number,
+      taskName: task?.name,
+      taskPriority: task?.priority,
+    };
+    const writes = writesByTarget.get(key) || [];
+    const instructions = ref.write_instructions?.length ? ref.write_instructions : [undefined];
+    for (const instruction of instructions) {
+      writes.push({ fileId: ref.file_id, operand: target, location: { ...location, instruction } });
+    }
+    writesByTarget.set(key, writes);
+  }
+
+  const conflicts: OutputConflict[] = [];
+  for (const writes of writesByTarget.values()) {
+    const { fileId, operand } = writes[0];
+    const byInstruction = (names: string[]) => writes.filter((w) => w.location.instruction && names.includes(w.location.instruction));
+
+    const coils = writes.filter((w) => w.location.instruction && NON_RETENTIVE_OUTPUTS.has(w.location.instruction));
+    if (coils.length > 1) {
+      conflicts.push({
+        kind: "duplicate-output",
+        severity: "error",
+        fileId,
+        tagName: operand,
+        locations: coils.map((w) => w.location),
+        description: `${operand} is driven by ${coils.length} non-retentive outputs (${[...new Set(coils.map((w) => w.location.instruction))].join(", ")}); only the last one scanned takes effect (${coils.map((w) => describeLocation(w.location)).join(", ")})`,
+      });
+    }
+
+    const latches = byInstruction(["OTL"]);
+    if (latches.length > 0 && byInstruction(["OTU"]).length === 0) {
+      conflicts.push({
+        kind: "latch-without-unlatch",
+        severity: "warning",
+        fileId,
+        tagName: operand,
+        locations: latches.map((w) => w.location),
+        description: `${operand} is latched (OTL) but never unlatched with an OTU, so it stays set until another instruction or a download clears it`,
+      });
+    }
+
+    // Only writes with a known task can be compared
+    const taskWrites = writes.filter((w) => w.location.taskName);
+    const priorities = new Set(taskWrites.map((w) => w.location.taskPriority));
+    const taskNames = new Set(taskWrites.map((w) => w.location.taskName));
+    if (taskNames.size > 1 && priorities.size > 1) {
+      conflicts.push({
+        kind: "multi-task-write",
+        severity: "warning",
+        fileId,
+        tagName: operand,
+        locations: taskWrites.map((w) => w.location),
+        description: `${operand} is written from ${taskNames.size} tasks of different priority (${[...taskNames].join(", ")}); a higher-priority task can change it in the middle of a lower-priority scan`,
+      });
+    }
+  }
+
+  const order = { error: 0, warning: 1 };
+  return conflicts.sort((a, b) => order[a.severity] - order[b.severity] || a.tagName.localeCompare(b.tagName));
+}
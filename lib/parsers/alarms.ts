@@ -0,0 +1,103 @@
+import type { ParsedAlarm } from "./types";
+import { parseNumber, parseFlag } from "./attributes";
+
+/**
+ * Alarm configuration shared by the L5X and L5K parsers.
+ *
+ * ALARM_DIGITAL and ALARM_ANALOG tags carry their settings under the same
+ * names in both formats (the AlarmDigitalParameters/AlarmAnalogParameters
+ * attributes in L5X, the AlarmConfig list of an L5K declaration), so each
+ * parser collects them into one flat record plus the alarm messages keyed by
+ * message type, and builds the alarms from that.
+ */
+
+export const ALARM_DATA_TYPES = new Set(["ALARM_DIGITAL", "ALARM_ANALOG"]);
+
+// ALARM_ANALOG levels: limit/severity attribute prefix and the message type of each
+const ANALOG_LEVELS = [
+  { condition: "HH", prefix: "HH", enabled: "HHEnabled" },
+  { condition: "H", prefix: "H", enabled: "HEnabled" },
+  { condition: "L", prefix: "L", enabled: "LEnabled" },
+  { condition: "LL", prefix: "LL", enabled: "LLEnabled" },
+  { condition: "ROC_POS", prefix: "ROCPos" },
+  { condition: "ROC_NEG", prefix: "ROCNeg" },
+];
+
+/** Alarms an ALARM_DIGITAL or ALARM_ANALOG tag defines; empty for other tags. */
+export function parseAlarmTag(
+  tagName: string,
+  scope: string,
+  dataType: string,
+  attrs: Record<string, string | undefined>,
+  messages: Record<string, string>
+): ParsedAlarm[] {
+  const common = {
+    tagName,
+    scope,
+    dataType,
+    deadband: parseNumber(attrs["Deadband"]),
+    onDelayMs: parseNumber(attrs["MinDurationPRE"]),
+    latched: parseFlag(attrs["Latched"]),
+    ackRequired: parseFlag(attrs["AckRequired"]),
+  };
+
+  if (dataType === "ALARM_DIGITAL") {
+    return [{
+      ...common,
+      kind: "digital",
+      severity: parseNumber(attrs["Severity"]),
+      message: messages["AM"] ?? Object.values(messages)[0],
+    }];
+  }
+
+  if (dataType === "ALARM_ANALOG") {
+    return ANALOG_LEVELS.flatMap((level) => {
+      const limit = parseNumber(attrs[`${level.prefix}Limit`]);
+      // Rate-of-change levels have no enable flag; a zero limit turns them off
+      const enabled = level.enabled ? parseFlag(attrs[level.enabled]) : !!limit;
+      if (!enabled) return [];
+      return [{
+        ...common,
+        kind: "analog" as const,
+        condition: level.condition,
+        limit,
+        severity: parseNumber(attrs[`${level.prefix}Severity`]),
+        message: messages[level.condition],
+      }];
+    });
+  }
+
+  return [];
+}
+
+/**
+ * A tag-based alarm (v31+): a condition configured on a tag, or a member
+ * alarm definition on a data type. Conditions marked unused return undefined.
+ */
+export function parseAlarmCondition(
+  kind: "condition" | "definition",
+  tagName: string,
+  scope: string,
+  dataType: string,
+  attrs: Record<string, string | undefined>,
+  messages: Record<string, string>
+): ParsedAlarm | undefined {
+  if (parseFlag(attrs["Used"]) === false) return undefined;
+  return {
+    kind,
+    tagName,
+    scope,
+    dataType,
+    condition: attrs["Name"] || attrs["AlarmConditionDefinition"],
+    input: attrs["Input"] || attrs["Expression"],
+    conditionType: attrs["ConditionType"],
+    limit: parseNumber(attrs["Limit"]),
+    severity: parseNumber(attrs["Severity"]),
+    deadband: parseNumber(attrs["Deadband"]),
+    onDelayMs: parseNumber(attrs["OnDelay"]),
+    offDelayMs: parseNumber(attrs["OffDelay"]),
+    latched: parseFlag(attrs["Latched"]),
+    ackRequired: parseFlag(attrs["AckRequired"]),
+    message: Object.values(messages)[0],
+  };
+}
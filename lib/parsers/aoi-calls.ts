@@ -0,0 +1,80 @@
+import type { ParsedAOI, ParsedAOICall, ParsedFBDSheet, ParsedRung } from "./types";
+import { findArgsEnd, splitOperands } from "./st-parser";
+
+/**
+ * AOI call sites shared by the L5X and L5K parsers.
+ *
+ * Ladder and structured text invoke an AOI the same way, as
+ * `Motor_Ctrl(Pump1_AOI, Start, Stop)`: the backing instance tag first, then
+ * one argument per required parameter in declaration order. So both are
+ * found by scanning the stored rung and ST line text for the names of the
+ * project's AOIs. FBD calls are AddOnInstruction elements whose pins the FBD
+ * parser has already resolved.
+ */
+
+// EnableIn and EnableOut follow the rung condition and are never passed
+function getArgumentParameters(aoi: ParsedAOI): string[] {
+  return aoi.parameters
+    .filter((p) => p.required && p.name !== "EnableIn" && p.name !== "EnableOut")
+    .map((p) => p.name);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** AOI calls in ladder rungs and ST lines. Tag and instruction names are case-insensitive. */
+export function findAOICalls(rungs: ParsedRung[], aois: ParsedAOI[]): ParsedAOICall[] {
+  const named = aois.filter((aoi) => aoi.name);
+  if (named.length === 0) return [];
+
+  const byName = new Map(named.map((aoi) => [aoi.name.toUpperCase(), aoi]));
+  // Not preceded by a member or index, so `Tank.Motor_Ctrl(` is not a call
+  const pattern = new RegExp(
+    `(?<![\\w.\\]])(${named.map((aoi) => escapeRegExp(aoi.name)).join("|")})\\s*\\(`,
+    "gi"
+  );
+  const calls: ParsedAOICall[] = [];
+
+  for (const rung of rungs) {
+    for (const match of rung.content.matchAll(pattern)) {
+      const aoi = byName.get(match[1].toUpperCase());
+      if (!aoi) continue;
+
+      const openPos = match.index + match[0].length - 1;
+      const end = findArgsEnd(rung.content, openPos);
+      const close = rung.content[end - 1] === ")" ? end - 1 : end;
+      const [instanceTag, ...args] = splitOperands(rung.content.substring(openPos + 1, close));
+      if (!instanceTag) continue;
+
+      calls.push({
+        aoiName: aoi.name,
+        instanceTag,
+        programName: rung.programName,
+        routineName: rung.routineName,
+        rungNumber: rung.number,
+        bindings: getArgumentParameters(aoi)
+          .map((parameter, i) => ({ parameter, argument: args[i] }))
+          .filter((binding) => binding.argument),
+      });
+    }
+  }
+
+  return calls;
+}
+
+/** AOI calls placed on FBD sheets, bound by pin name. */
+export function findFBDAOICalls(sheets: ParsedFBDSheet[]): ParsedAOICall[] {
+  return sheets.flatMap((sheet) =>
+    sheet.elements
+      .filter((element) => element.elementType === "AddOnInstruction" && element.instruction && element.operand)
+      .map((element) => ({
+        aoiName: element.instruction!,
+        instanceTag: element.operand!,
+        programName: sheet.programName,
+        routineName: sheet.routineName,
+        rungNumber: sheet.number,
+        bindings: element.bindings.map((b) => ({ parameter: b.parameter, argument: b.operand })),
+      }))
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Attribute value helpers for settings that L5X stores as element attributes
+ * and L5K as `Name := value` pairs in a declaration.
+ */
+
+export function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+}
+
+/** true/false, Yes/No and 1/0 flags; undefined when absent. */
+export function parseFlag(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === "") return undefined;
+  return /^(true|yes|1)$/i.test(value.trim());
+}
+
+/** Strip the `@_` prefix fast-xml-parser puts on attribute names. */
+export function xmlAttributes(element: object | undefined): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [key, value] of Object.entries(element || {})) {
+    if (key.startsWith("@_")) attrs[key.substring(2)] = String(value);
+  }
+  return attrs;
+}
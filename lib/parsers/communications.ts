@@ -0,0 +1,64 @@
+import type { ParsedCommunication } from "./types";
+import { parseNumber, parseFlag } from "./attributes";
+
+/**
+ * Produced/consumed tags and MESSAGE configuration shared by the L5X and L5K
+ * parsers. Both formats carry the same attribute names (L5X on the
+ * ProduceInfo, ConsumeInfo and MessageParameters elements, L5K inside the tag
+ * declaration), so each parser collects them into one flat record and builds
+ * the communication from that.
+ */
+
+/**
+ * The communication a tag declares, or undefined for an ordinary tag.
+ * `tagType` is the tag's Base/Alias/Produced/Consumed type when the format
+ * states it; L5K consumed and produced tags are recognized by their
+ * Producer and ProduceCount attributes instead.
+ */
+export function parseCommunication(
+  tagName: string,
+  scope: string,
+  dataType: string,
+  tagType: string | undefined,
+  attrs: Record<string, string | undefined>
+): ParsedCommunication | undefined {
+  const base = { tagName, scope, dataType };
+
+  if (tagType === "Consumed" || (!tagType && attrs["Producer"] !== undefined)) {
+    return {
+      ...base,
+      kind: "consumed",
+      producer: attrs["Producer"],
+      remoteTag: attrs["RemoteTag"] ?? attrs["RemoteData"],
+      remoteInstance: parseNumber(attrs["RemoteInstance"]),
+      rpiMs: parseNumber(attrs["RPI"]),
+      unicast: parseFlag(attrs["Unicast"]),
+    };
+  }
+
+  if (tagType === "Produced" || (!tagType && attrs["ProduceCount"] !== undefined)) {
+    return {
+      ...base,
+      kind: "produced",
+      produceCount: parseNumber(attrs["ProduceCount"]),
+      unicastPermitted: parseFlag(attrs["UnicastPermitted"]),
+    };
+  }
+
+  if (dataType.toUpperCase() === "MESSAGE") {
+    return {
+      ...base,
+      kind: "message",
+      messageType: attrs["MessageType"],
+      connectionPath: attrs["ConnectionPath"],
+      remoteElement: attrs["RemoteElement"],
+      // Read messages name the local tag DestinationTag, writes LocalElement
+      localElement: attrs["LocalElement"] ?? attrs["DestinationTag"],
+      connected: parseFlag(attrs["ConnectedFlag"]),
+      cacheConnections: parseFlag(attrs["CacheConnections"]),
+      requestedLength: parseNumber(attrs["RequestedLength"]),
+    };
+  }
+
+  return undefined;
+}
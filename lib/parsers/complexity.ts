@@ -0,0 +1,196 @@
+import { flattenRungInstructions } from "./rung-parser";
+import { splitTagReference } from "./tag-resolution";
+import type { ParsedRoutine, ParsedRung, ParsedTagReference, RungElement, RungMetrics } from "./types";
+
+/**
+ * Rung and routine complexity, measured as rungs are parsed.
+ *
+ * A rung's score is its instruction count plus a weight for every extra
+ * path through it and for branches nested inside branches, which is what
+ * makes a rung hard to follow on screen. Structured text lines are measured
+ * the same way: statements and calls are instructions, ELSIF and ELSE arms
+ * are parallel paths, and IF/CASE/loop nesting is the branch depth.
+ *
+ * Routine figures are tallied from the rungs and tag references as they
+ * pass, so the streaming parser can fill them in without holding a routine.
+ */
+
+// Weight of each branch leg beyond the first, and of each nesting level beyond the first
+const PARALLEL_BRANCH_WEIGHT = 2;
+const NESTING_WEIGHT = 2;
+
+/** Highest rung score the guideline for new logic allows. */
+export const MAX_RUNG_COMPLEXITY = 24;
+
+export function scoreComplexity(instructionCount: number, branchDepth: number, parallelBranches: number): number {
+  return instructionCount + PARALLEL_BRANCH_WEIGHT * parallelBranches + NESTING_WEIGHT * Math.max(0, branchDepth - 1);
+}
+
+function countDistinctTags(tagNames: string[]): number {
+  return new Set(tagNames.map((name) => splitTagReference(name).baseTag.toUpperCase())).size;
+}
+
+function measureBranches(elements: RungElement[], depth = 0): { depth: number; parallel: number } {
+  let maxDepth = depth;
+  let parallel = 0;
+  for (const element of elements) {
+    if (element.kind !== "branch") continue;
+    parallel += element.legs.length - 1;
+    for (const leg of element.legs) {
+      const inner = measureBranches(leg, depth + 1);
+      maxDepth = Math.max(maxDepth, inner.depth);
+      parallel += inner.parallel;
+    }
+  }
+  return { depth: maxDepth, parallel };
+}
+
+/** Metrics for a parsed ladder rung. */
+export function measureRung(elements: RungElement[], content: string, tagNames: string[]): RungMetrics {
+  const instructionCount = flattenRungInstructions(elements).length;
+  const { depth, parallel } = measureBranches(elements);
+  return {
+    instructionCount,
+    branchDepth: depth,
+    parallelBranches: parallel,
+    distinctTags: countDistinctTags(tagNames),
+    lineLength: content.length,
+    complexity: scoreComplexity(instructionCount, depth, parallel),
+  };
+}
+
+const ST_OPENERS = new Set(["IF", "CASE", "FOR", "WHILE", "REPEAT"]);
+const ST_CLOSERS = new Set(["END_IF", "END_CASE", "END_FOR", "END_WHILE", "END_REPEAT"]);
+const ST_ARMS = new Set(["ELSIF", "ELSE"]);
+const ST_STATEMENTS = new Set([...ST_OPENERS, "EXIT", "RETURN"]);
+// Keywords that can stand before a parenthesized expression without being a call
+const ST_OPERATOR_KEYWORDS = new Set(["THEN", "OF", "DO", "TO", "BY", "UNTIL", "AND", "OR", "XOR", "NOT", "MOD"]);
+
+/**
+ * Metrics for one structured text line. `depth` is the control nesting the
+ * line starts at; the nesting it leaves open is returned for the next line.
+ */
+export function measureSTLine(
+  code: string,
+  tagNames: string[],
+  depth: number
+): { metrics: RungMetrics; depth: number } {
+  const text = code.replace(/'[^']*'|"[^"]*"/g, "''");
+  let instructionCount = (text.match(/:=/g) || []).length;
+  let parallel = 0;
+  let current = depth;
+  let deepest = depth;
+
+  for (const match of text.matchAll(/[A-Za-z_]\w*/g)) {
+    const word = match[0].toUpperCase();
+    if (ST_STATEMENTS.has(word)) instructionCount++;
+    if (ST_ARMS.has(word)) parallel++;
+    if (ST_OPENERS.has(word)) {
+      deepest = Math.max(deepest, ++current);
+    } else if (ST_CLOSERS.has(word)) {
+      current = Math.max(0, current - 1);
+    } else if (!ST_ARMS.has(word) && !ST_OPERATOR_KEYWORDS.has(word) && /^\s*\(/.test(text.substring(match.index + word.length))) {
+      // A function or instruction call, e.g. TON(Delay) or ABS(x)
+      instructionCount++;
+    }
+  }
+
+  return {
+    metrics: {
+      instructionCount,
+      branchDepth: deepest,
+      parallelBranches: parallel,
+      distinctTags: countDistinctTags(tagNames),
+      lineLength: code.length,
+      complexity: scoreComplexity(instructionCount, deepest, parallel),
+    },
+    depth: current,
+  };
+}
+
+interface RoutineTally {
+  rungs: number;
+  totalComplexity: number;
+  maxComplexity: number;
+  reads: Set<string>;
+  writes: Set<string>;
+}
+
+/** Running routine figures by program and routine name. */
+export type RoutineMetricsTally = Map<string, RoutineTally>;
+
+function tallyFor(tally: RoutineMetricsTally, programName: string, routineName: string): RoutineTally {
+  const key = `${programName}/${routineName}`.toUpperCase();
+  let entry = tally.get(key);
+  if (!entry) {
+    entry = { rungs: 0, totalComplexity: 0, maxComplexity: 0, reads: new Set(), writes: new Set() };
+    tally.set(key, entry);
+  }
+  return entry;
+}
+
+/** Add measured rungs and their tag references to the running routine figures. */
+export function tallyRoutineMetrics(
+  tally: RoutineMetricsTally,
+  rungs: ParsedRung[],
+  tagReferences: ParsedTagReference[]
+): void {
+  for (const rung of rungs) {
+    if (!rung.metrics) continue;
+    const entry = tallyFor(tally, rung.programName, rung.routineName);
+    entry.rungs++;
+    entry.totalComplexity += rung.metrics.complexity;
+    entry.maxComplexity = Math.max(entry.maxComplexity, rung.metrics.complexity);
+  }
+  for (const ref of tagReferences) {
+    const entry = tallyFor(tally, ref.programName, ref.routineName);
+    const baseTag = (ref.baseTag ?? splitTagReference(ref.tagName).baseTag).toUpperCase();
+    if (ref.usageType !== "write") entry.reads.add(baseTag);
+    if (ref.usageType !== "read") entry.writes.add(baseTag);
+  }
+}
+
+/** Set each routine's metrics from the tally; routines with no measured rungs are left without. */
+export function applyRoutineMetrics(routines: ParsedRoutine[], tally: RoutineMetricsTally): void {
+  for (const routine of routines) {
+    const entry = tally.get(`${routine.programName}/${routine.name}`.toUpperCase());
+    if (!entry || entry.rungs === 0) continue;
+    routine.metrics = {
+      maxComplexity: entry.maxComplexity,
+      avgComplexity: Math.round((entry.totalComplexity / entry.rungs) * 10) / 10,
+      tagFanIn: entry.reads.size,
+      tagFanOut: entry.writes.size,
+    };
+  }
+}
+
+export interface ComplexityBucket {
+  range: string;              // e.g. "10-14", or "50+" for the last bucket
+  min: number;
+  rungs: number;
+  overGuideline: boolean;
+}
+
+const BUCKET_SIZE = 5;
+const OPEN_BUCKET_MIN = 50;
+
+/** Rung scores in buckets of five, the last one open-ended. */
+export function buildComplexityHistogram(scores: number[]): ComplexityBucket[] {
+  const buckets: ComplexityBucket[] = [];
+  for (let min = 0; min <= OPEN_BUCKET_MIN; min += BUCKET_SIZE) {
+    buckets.push({
+      range: min === OPEN_BUCKET_MIN ? `${min}+` : `${min}-${min + BUCKET_SIZE - 1}`,
+      min,
+      rungs: 0,
+      overGuideline: min > MAX_RUNG_COMPLEXITY,
+    });
+  }
+  for (const score of scores) {
+    buckets[Math.min(Math.floor(score / BUCKET_SIZE), buckets.length - 1)].rungs++;
+  }
+  // Empty buckets past the first one over the guideline are just blank axis
+  while (buckets.length > 1 && buckets[buckets.length - 1].rungs === 0 && buckets[buckets.length - 2].overGuideline) {
+    buckets.pop();
+  }
+  return buckets;
+}
@@ -0,0 +1,286 @@
+import { Parser } from "htmlparser2";
+
+/**
+ * Description write-back into an original L5X export.
+ *
+ * The file is patched in place rather than regenerated: only the text of the
+ * Description (or rung Comment) elements being changed is replaced, and a
+ * missing element is inserted as the first child of its owner, where the
+ * Studio 5000 schema expects it. Every other byte - element order, CDATA
+ * sections, attributes, line endings - is kept, so the result re-imports as
+ * the same project with new documentation.
+ */
+
+export type DescriptionTarget =
+  | { kind: "tag"; scope: string; name: string }
+  | { kind: "udtMember"; dataType: string; name: string }
+  | { kind: "routine"; programName: string; name: string }
+  | { kind: "rung"; programName: string; routineName: string; number: number }
+  | { kind: "aoiParameter"; aoiName: string; name: string };
+
+/** New text for one description. Empty text removes it; `language` targets one entry of a multi-language description. */
+export type DescriptionUpdate = DescriptionTarget & { text: string; language?: string };
+
+export interface DescriptionWriteResult {
+  content: string;
+  applied: number;
+  missing: DescriptionUpdate[];   // Targets not found in the file
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+interface LocalizedEntry {
+  lang: string;
+  element: Range;
+  content: Range;
+}
+
+interface OpenTarget {
+  name: string;
+  kind: DescriptionTarget["kind"];
+  updates: DescriptionUpdate[];
+  openEnd: number;          // Index of the owner's closing ">"
+  selfClosing: boolean;
+  element?: Range;          // Existing Description or Comment element, "<" to ">"
+  content?: Range;          // Text between its tags
+  localized: LocalizedEntry[];
+}
+
+interface StackEntry {
+  name: string;
+  attrName?: string;
+  target?: OpenTarget;
+}
+
+interface Edit extends Range {
+  text: string;
+}
+
+function targetKey(target: DescriptionTarget): string {
+  switch (target.kind) {
+    case "tag":
+      return `tag/${target.scope}/${target.name}`.toUpperCase();
+    case "udtMember":
+      return `udtMember/${target.dataType}/${target.name}`.toUpperCase();
+    case "routine":
+      return `routine/${target.programName}/${target.name}`.toUpperCase();
+    case "rung":
+      return `rung/${target.programName}/${target.routineName}/${target.number}`.toUpperCase();
+    case "aoiParameter":
+      return `aoiParameter/${target.aoiName}/${target.name}`.toUpperCase();
+  }
+}
+
+// A CDATA section cannot contain "]]>", so it is split across two sections
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/** The description or comment a Studio 5000 element owns, from its position in the document. */
+function findTarget(name: string, attrName: string | undefined, stack: StackEntry[], number?: string): DescriptionTarget | undefined {
+  const parent = stack[stack.length - 1];
+  const grandparent = stack[stack.length - 2];
+  if (!parent || !grandparent) return undefined;
+
+  if (name === "Tag" && parent.name === "Tags" && attrName) {
+    if (grandparent.name === "Controller") return { kind: "tag", scope: "Controller", name: attrName };
+    if (grandparent.name === "Program" && grandparent.attrName) {
+      return { kind: "tag", scope: grandparent.attrName, name: attrName };
+    }
+  }
+  if (name === "Member" && parent.name === "Members" && grandparent.name === "DataType" && grandparent.attrName && attrName) {
+    return { kind: "udtMember", dataType: grandparent.attrName, name: attrName };
+  }
+  if (
+    name === "Parameter" &&
+    parent.name === "Parameters" &&
+    grandparent.name === "AddOnInstructionDefinition" &&
+    grandparent.attrName &&
+    attrName
+  ) {
+    return { kind: "aoiParameter", aoiName: grandparent.attrName, name: attrName };
+  }
+  // AOI routines and rungs are addressed by the AOI name, as the parser records them
+  if (
+    name === "Routine" &&
+    parent.name === "Routines" &&
+    (grandparent.name === "Program" || grandparent.name === "AddOnInstructionDefinition") &&
+    grandparent.attrName &&
+    attrName
+  ) {
+    return { kind: "routine", programName: grandparent.attrName, name: attrName };
+  }
+  if (name === "Rung" && parent.name === "RLLContent" && grandparent.name === "Routine" && number !== undefined) {
+    const container = stack[stack.length - 4];
+    if (container?.attrName && grandparent.attrName) {
+      return {
+        kind: "rung",
+        programName: container.attrName,
+        routineName: grandparent.attrName,
+        number: parseInt(number, 10),
+      };
+    }
+  }
+  return undefined;
+}
+
+function cdataBlock(text: string, eol: string): string {
+  return `${eol}${cdata(text)}${eol}`;
+}
+
+function buildEdits(target: OpenTarget, source: string, eol: string): Edit[] {
+  const elementName = target.kind === "rung" ? "Comment" : "Description";
+  const entryName = target.kind === "rung" ? "LocalizedComment" : "LocalizedDescription";
+  const entryXml = (language: string, text: string) =>
+    `<${entryName} Lang="${escapeAttribute(language)}">${cdataBlock(text, eol)}</${entryName}>`;
+
+  if (target.element && target.localized.length > 0) {
+    const edits: Edit[] = [];
+    const added: string[] = [];
+    const removed = new Set<LocalizedEntry>();
+    for (const update of target.updates) {
+      const entry = update.language
+        ? target.localized.find((e) => e.lang.toLowerCase() === update.language!.toLowerCase())
+        : target.localized[0];
+      if (entry && update.text) edits.push({ ...entry.content, text: cdataBlock(update.text, eol) });
+      else if (entry) removed.add(entry);
+      else if (update.text && update.language) added.push(`${entryXml(update.language, update.text)}${eol}`);
+    }
+    // Dropping every language removes the description itself
+    if (removed.size === target.localized.length && added.length === 0) return [removal(target.element, source)];
+    for (const entry of removed) edits.push(removal(entry.element, source));
+    if (added.length > 0) {
+      // New languages go after the others, before </Description>
+      const closeStart = target.content!.end;
+      edits.push({ start: closeStart, end: closeStart, text: added.join("") });
+    }
+    return edits;
+  }
+
+  // A single-language description takes the last update for it
+  const update = target.updates[target.updates.length - 1];
+  if (target.element) {
+    if (!update.text) return [removal(target.element, source)];
+    return [{ ...target.content!, text: cdataBlock(update.text, eol) }];
+  }
+
+  const localized = target.updates.filter((u) => u.language && u.text);
+  let body: string;
+  if (localized.length > 0) {
+    body = `<${elementName}>${eol}${localized.map((u) => entryXml(u.language!, u.text)).join(eol)}${eol}</${elementName}>`;
+  } else if (update.text) {
+    body = `<${elementName}>${cdataBlock(update.text, eol)}</${elementName}>`;
+  } else {
+    return [];
+  }
+
+  if (target.selfClosing) {
+    // <Member .../> becomes <Member ...>...</Member>
+    const slash = source.lastIndexOf("/", target.openEnd);
+    return [{ start: slash, end: target.openEnd + 1, text: `>${eol}${body}${eol}</${target.name}>` }];
+  }
+  return [{ start: target.openEnd + 1, end: target.openEnd + 1, text: `${eol}${body}` }];
+}
+
+// Removes an element with the line break before it, leaving the surrounding layout as it was
+function removal(element: Range, source: string): Edit {
+  let start = element.start;
+  if (source[start - 1] === "\n") start--;
+  if (source[start - 1] === "\r") start--;
+  return { start, end: element.end + 1, text: "" };
+}
+
+export function writeDescriptions(source: string, updates: DescriptionUpdate[]): DescriptionWriteResult {
+  const pending = new Map<string, DescriptionUpdate[]>();
+  for (const update of updates) {
+    const key = targetKey(update);
+    pending.set(key, [...(pending.get(key) || []), update]);
+  }
+  // Inserted elements follow the file's own line endings
+  const eol = source.includes("\r\n") ? "\r\n" : "\n";
+
+  const edits: Edit[] = [];
+  const found = new Set<string>();
+  const stack: StackEntry[] = [];
+  let description: { owner: OpenTarget; start: number; contentStart: number } | undefined;
+  let entry: { lang: string; start: number; contentStart: number } | undefined;
+
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        const owner = stack[stack.length - 1]?.target;
+        const ownerElement = owner?.kind === "rung" ? "Comment" : "Description";
+        if (owner && name === ownerElement && !description) {
+          description = { owner, start: parser.startIndex, contentStart: parser.endIndex + 1 };
+          stack.push({ name });
+          return;
+        }
+        if (description && stack[stack.length - 1].name === ownerElement && name.startsWith("Localized")) {
+          entry = { lang: attribs.Lang || "", start: parser.startIndex, contentStart: parser.endIndex + 1 };
+          stack.push({ name });
+          return;
+        }
+
+        const target = pending.size > 0 ? findTarget(name, attribs.Name, stack, attribs.Number) : undefined;
+        const key = target && targetKey(target);
+        const targetUpdates = key ? pending.get(key) : undefined;
+        if (key && targetUpdates) found.add(key);
+        stack.push({
+          name,
+          attrName: attribs.Name,
+          target: target && targetUpdates && {
+            name,
+            kind: target.kind,
+            updates: targetUpdates,
+            openEnd: parser.endIndex,
+            selfClosing: source[parser.endIndex - 1] === "/",
+            localized: [],
+          },
+        });
+      },
+      onclosetag() {
+        const closed = stack.pop();
+        if (!closed) return;
+        if (entry && closed.name.startsWith("Localized")) {
+          description?.owner.localized.push({
+            lang: entry.lang,
+            element: { start: entry.start, end: parser.endIndex },
+            content: { start: entry.contentStart, end: parser.startIndex },
+          });
+          entry = undefined;
+        } else if (description && stack[stack.length - 1]?.target === description.owner) {
+          description.owner.element = { start: description.start, end: parser.endIndex };
+          description.owner.content = { start: description.contentStart, end: parser.startIndex };
+          description = undefined;
+        } else if (closed.target) {
+          edits.push(...buildEdits(closed.target, source, eol));
+        }
+      },
+    },
+    { xmlMode: true, recognizeCDATA: true }
+  );
+  parser.write(source);
+  parser.end();
+
+  // Edits never overlap: each stays inside its own owner element
+  const parts: string[] = [];
+  let position = 0;
+  for (const edit of edits.sort((a, b) => a.start - b.start)) {
+    parts.push(source.substring(position, edit.start), edit.text);
+    position = edit.end;
+  }
+  parts.push(source.substring(position));
+
+  return {
+    content: parts.join(""),
+    applied: [...found].reduce((sum, key) => sum + pending.get(key)!.length, 0),
+    missing: [...pending.entries()].filter(([key]) => !found.has(key)).flatMap(([, missed]) => missed),
+  };
+}
@@ -0,0 +1,128 @@
+import type { ParsedDiagnostic } from "./types";
+
+/**
+ * Parser diagnostics shared by the L5X and L5K parsers.
+ *
+ * Rather than failing or silently dropping what they cannot read, the parsers
+ * record a diagnostic and carry on. Severity says how much was lost: `error`
+ * when content was dropped, `warning` when it was kept but may be wrong or
+ * incomplete, and `info` for sections the parser skips by design.
+ */
+
+/** Diagnostics kept per file; a broken export would otherwise produce one per rung */
+export const MAX_DIAGNOSTICS = 500;
+
+export function addDiagnostic(diagnostics: ParsedDiagnostic[], diagnostic: ParsedDiagnostic): void {
+  if (diagnostics.length < MAX_DIAGNOSTICS) {
+    diagnostics.push(diagnostic);
+  } else if (diagnostics.length === MAX_DIAGNOSTICS) {
+    diagnostics.push({
+      severity: "info",
+      code: "diagnostics-truncated",
+      message: `More than ${MAX_DIAGNOSTICS} diagnostics; the rest were not recorded`,
+    });
+  }
+}
+
+/**
+ * Thrown when a file cannot be parsed at all, such as an export with no
+ * Controller. It carries the diagnostics recorded so far, ending with the
+ * `error` that stopped the parse, so the failure can be stored and shown
+ * the same way as the diagnostics of a file that did parse.
+ */
+export class ParseFailure extends Error {
+  readonly diagnostics: ParsedDiagnostic[];
+
+  constructor(diagnostics: ParsedDiagnostic[], diagnostic: ParsedDiagnostic) {
+    super(diagnostic.message);
+    this.name = "ParseFailure";
+    this.diagnostics = [...diagnostics, diagnostic];
+  }
+}
+
+/** Routine types whose logic the parsers read. */
+export const SUPPORTED_ROUTINE_TYPES = new Set(["RLL", "ST", "FBD", "SFC"]);
+
+/** Controller children the L5X parser reads or deliberately skips (trends, watch lists, security). */
+export const KNOWN_L5X_CONTROLLER_ELEMENTS = new Set([
+  "Description",
+  "RedundancyInfo",
+  "Security",
+  "SafetyInfo",
+  "DataTypes",
+  "Modules",
+  "AddOnInstructionDefinitions",
+  "AlarmDefinitions",
+  "Tags",
+  "Programs",
+  "Tasks",
+  "ParameterConnections",
+  "CommPorts",
+  "CST",
+  "WallClockTime",
+  "Trends",
+  "DataLogs",
+  "TimeSynchronize",
+  "EthernetPorts",
+  "EthernetNetwork",
+  "QuickWatchLists",
+  "CustomProperties",
+]);
+
+export const KNOWN_L5X_PROGRAM_ELEMENTS = new Set([
+  "Description",
+  "Tags",
+  "Routines",
+  "ChildPrograms",
+  "CustomProperties",
+]);
+
+export const KNOWN_L5X_ROUTINE_ELEMENTS = new Set([
+  "Description",
+  "RLLContent",
+  "STContent",
+  "FBDContent",
+  "SFCContent",
+  "CustomProperties",
+]);
+
+/**
+ * L5K block keywords the parser reads, including those nested inside
+ * routines, AOIs, modules and SFC charts. Any other `END_<KEYWORD>` in the
+ * controller marks a block that was skipped.
+ */
+export const KNOWN_L5K_BLOCKS = new Set([
+  "CONTROLLER",
+  "DATATYPE",
+  "MODULE",
+  "CONNECTION",
+  "ADD_ON_INSTRUCTION_DEFINITION",
+  "PARAMETERS",
+  "LOCAL_TAGS",
+  "TAG",
+  "PROGRAM",
+  "ROUTINE",
+  "ST_ROUTINE",
+  "FBD_ROUTINE",
+  "SFC_ROUTINE",
+  "SHEET",
+  "TASK",
+  "ENCODED_DATA",
+  "STEP",
+  "TRANSITION",
+  "BRANCH",
+  "STOP",
+  "SBR_RET",
+  "ACTION",
+  "BODY",
+  "CONDITION",
+]);
+
+/** 1-based line number of a character offset. */
+export function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = text.indexOf("\n"); i !== -1 && i < offset; i = text.indexOf("\n", i + 1)) {
+    line++;
+  }
+  return line;
+}
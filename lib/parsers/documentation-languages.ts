@@ -0,0 +1,28 @@
+import type { LocalizedText, ParsedAOI, ParsedL5XData, ParsedUDT } from "./types";
+
+/**
+ * Languages a project is documented in. Only multi-language exports carry
+ * language codes; a single-language export has none and leaves the list
+ * unset.
+ */
+
+interface DocumentedItem {
+  descriptions?: LocalizedText;
+  comments?: LocalizedText;
+}
+
+export function addDocumentationLanguages(languages: Set<string>, items: DocumentedItem[]): void {
+  for (const item of items) {
+    for (const lang of Object.keys(item.descriptions || {})) languages.add(lang);
+    for (const lang of Object.keys(item.comments || {})) languages.add(lang);
+  }
+}
+
+/** UDTs and AOIs with their members and parameters, which carry descriptions of their own. */
+export function documentedTypeItems(udts: ParsedUDT[], aois: ParsedAOI[]): DocumentedItem[] {
+  return [...udts, ...udts.flatMap((u) => u.members), ...aois, ...aois.flatMap((a) => a.parameters)];
+}
+
+export function setDocumentationLanguages(metadata: ParsedL5XData["metadata"], languages: Set<string>): void {
+  if (languages.size > 0) metadata.documentationLanguages = [...languages].sort();
+}
@@ -0,0 +1,150 @@
+import type {
+  FBDElementType,
+  ParsedFBDBinding,
+  ParsedFBDElement,
+  ParsedFBDSheet,
+  ParsedFBDWire,
+  ParsedTagReference,
+} from "./types";
+import { extractSTTagReferences } from "./st-parser";
+
+/**
+ * Function Block Diagram support shared by the L5X and L5K parsers.
+ *
+ * Both formats describe a sheet as a flat list of elements (IRef, ORef,
+ * blocks, connectors) plus wires between element IDs. The format-specific
+ * parsers collect raw attributes; the helpers here normalize them, resolve
+ * which tag ends up on each block pin, and produce tag references.
+ */
+
+export interface FBDElementAttributes {
+  ID?: string;
+  X?: string;
+  Y?: string;
+  Operand?: string;
+  Name?: string;
+  Type?: string;
+  VisiblePins?: string;
+}
+
+export interface FBDWireAttributes {
+  FromID?: string;
+  FromParam?: string;
+  ToID?: string;
+  ToParam?: string;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+}
+
+export function buildFBDElement(
+  elementType: FBDElementType,
+  attrs: FBDElementAttributes,
+  inOutParameters: Array<{ name: string; argument: string }> = []
+): ParsedFBDElement {
+  const isConnector = elementType === "ICon" || elementType === "OCon";
+  const instruction =
+    elementType === "AddOnInstruction" ? attrs.Name :
+    elementType === "Block" || elementType === "Function" ? attrs.Type :
+    undefined;
+
+  return {
+    id: parseInt(attrs.ID || "0", 10),
+    elementType,
+    instruction,
+    operand: attrs.Operand || undefined,
+    connectorName: isConnector ? attrs.Name : undefined,
+    x: toNumber(attrs.X),
+    y: toNumber(attrs.Y),
+    visiblePins: (attrs.VisiblePins || "").split(/\s+/).filter(Boolean),
+    bindings: inOutParameters
+      .filter((p) => p.name && p.argument)
+      .map((p) => ({ parameter: p.name, operand: p.argument, direction: "inout" as const })),
+  };
+}
+
+export function buildFBDWire(attrs: FBDWireAttributes, feedback: boolean): ParsedFBDWire {
+  return {
+    fromId: parseInt(attrs.FromID || "0", 10),
+    fromParam: attrs.FromParam || undefined,
+    toId: parseInt(attrs.ToID || "0", 10),
+    toParam: attrs.ToParam || undefined,
+    feedback,
+  };
+}
+
+/**
+ * Follow each wire from an IRef into a block pin (input) and from a block pin
+ * into an ORef (output), recording the resulting operand bindings on the block.
+ */
+export function resolveFBDBindings(sheet: ParsedFBDSheet): void {
+  const byId = new Map(sheet.elements.map((e) => [e.id, e]));
+
+  for (const wire of sheet.wires) {
+    const from = byId.get(wire.fromId);
+    const to = byId.get(wire.toId);
+    if (!from || !to) continue;
+
+    let block: ParsedFBDElement;
+    let binding: ParsedFBDBinding;
+    if (from.elementType === "IRef" && from.operand && wire.toParam) {
+      block = to;
+      binding = { parameter: wire.toParam, operand: from.operand, direction: "input" };
+    } else if (to.elementType === "ORef" && to.operand && wire.fromParam) {
+      block = from;
+      binding = { parameter: wire.fromParam, operand: to.operand, direction: "output" };
+    } else {
+      continue;
+    }
+
+    const exists = block.bindings.some((b) => b.parameter === binding.parameter && b.operand === binding.operand);
+    if (!exists) block.bindings.push(binding);
+  }
+}
+
+/**
+ * Tag references for one sheet. IRef operands are reads, ORef operands are
+ * writes, and block/AOI backing tags and InOut arguments are both, since the
+ * instruction reads and writes members of its own instance. Literal operands
+ * (e.g. an IRef of `0.0`) produce no reference.
+ */
+export function extractFBDTagReferences(sheet: ParsedFBDSheet): ParsedTagReference[] {
+  const usages = new Map<string, ParsedTagReference["usageType"]>();
+
+  const add = (operand: string | undefined, usageType: ParsedTagReference["usageType"]) => {
+    if (!operand) return;
+    for (const ref of extractSTTagReferences(operand)) {
+      const existing = usages.get(ref.tagName);
+      usages.set(ref.tagName, !existing || existing === usageType ? usageType : "both");
+    }
+  };
+
+  for (const element of sheet.elements) {
+    switch (element.elementType) {
+      case "IRef":
+        add(element.operand, "read");
+        break;
+      case "ORef":
+        add(element.operand, "write");
+        break;
+      case "Block":
+      case "AddOnInstruction":
+        add(element.operand, "both");
+        for (const binding of element.bindings) {
+          if (binding.direction === "inout") add(binding.operand, "both");
+        }
+        break;
+    }
+  }
+
+  return [...usages.entries()].map(([tagName, usageType]) => ({
+    tagName,
+    routineName: sheet.routineName,
+    programName: sheet.programName,
+    rungNumber: sheet.number,
+    usageType,
+  }));
+}
@@ -0,0 +1,226 @@
+import type { RungOperandRole } from "./types";
+
+/**
+ * Operand signatures for Logix ladder instructions, in neutral-text order.
+ *
+ * Each entry lists the role of every positional operand; `rest` covers
+ * variadic tails, and `name` marks routine names, labels and enumerated
+ * keywords. Instructions not listed here (Add-On Instructions and other
+ * specialty instructions) are treated as reading every operand written as a
+ * tag, since nothing says which operands they update. Operands that are not
+ * tags at all, such as the `Units per sec` keyword of a motion instruction,
+ * are names whatever the signature says.
+ */
+
+const I: RungOperandRole = "input";
+const O: RungOperandRole = "output";
+const IO: RungOperandRole = "inout";
+const N: RungOperandRole = "name";
+
+interface InstructionSignature {
+  operands: RungOperandRole[];
+  rest?: RungOperandRole;
+}
+
+const SIGNATURES: Record<string, InstructionSignature> = {
+  // Bit
+  XIC: { operands: [I] },
+  XIO: { operands: [I] },
+  OTE: { operands: [O] },
+  OTL: { operands: [O] },
+  OTU: { operands: [O] },
+  ONS: { operands: [IO] },
+  OSR: { operands: [IO, O] },
+  OSF: { operands: [IO, O] },
+
+  // Timer and counter
+  TON: { operands: [IO, I, I] },
+  TOF: { operands: [IO, I, I] },
+  RTO: { operands: [IO, I, I] },
+  CTU: { operands: [IO, I, I] },
+  CTD: { operands: [IO, I, I] },
+  RES: { operands: [O] },
+  TONR: { operands: [IO], rest: I },
+  TOFR: { operands: [IO], rest: I },
+  RTOR: { operands: [IO], rest: I },
+  CTUD: { operands: [IO], rest: I },
+
+  // Compare
+  EQU: { operands: [I, I] },
+  NEQ: { operands: [I, I] },
+  GRT: { operands: [I, I] },
+  GEQ: { operands: [I, I] },
+  LES: { operands: [I, I] },
+  LEQ: { operands: [I, I] },
+  LIM: { operands: [I, I, I] },
+  MEQ: { operands: [I, I, I] },
+  CMP: { operands: [I] },
+
+  // Compute/math
+  CPT: { operands: [O, I] },
+  ADD: { operands: [I, I, O] },
+  SUB: { operands: [I, I, O] },
+  MUL: { operands: [I, I, O] },
+  DIV: { operands: [I, I, O] },
+  MOD: { operands: [I, I, O] },
+  XPY: { operands: [I, I, O] },
+  SQR: { operands: [I, O] },
+  SQRT: { operands: [I, O] },
+  NEG: { operands: [I, O] },
+  ABS: { operands: [I, O] },
+  SIN: { operands: [I, O] },
+  COS: { operands: [I, O] },
+  TAN: { operands: [I, O] },
+  ASN: { operands: [I, O] },
+  ACS: { operands: [I, O] },
+  ATN: { operands: [I, O] },
+  LN: { operands: [I, O] },
+  LOG: { operands: [I, O] },
+  DEG: { operands: [I, O] },
+  RAD: { operands: [I, O] },
+  TRN: { operands: [I, O] },
+  TOD: { operands: [I, O] },
+  FRD: { operands: [I, O] },
+  SCP: { operands: [I, I, I, I, I, O] },
+
+  // Move/logical
+  MOV: { operands: [I, O] },
+  MVM: { operands: [I, I, IO] },
+  BTD: { operands: [I, I, IO, I, I] },
+  CLR: { operands: [O] },
+  SWPB: { operands: [I, N, O] },
+  AND: { operands: [I, I, O] },
+  OR: { operands: [I, I, O] },
+  XOR: { operands: [I, I, O] },
+  NOT: { operands: [I, O] },
+  BAND: { operands: [IO], rest: I },
+  BOR: { operands: [IO], rest: I },
+  BXOR: { operands: [IO], rest: I },
+  BNOT: { operands: [IO], rest: I },
+
+  // File/array
+  COP: { operands: [I, O, I] },
+  CPS: { operands: [I, O, I] },
+  FLL: { operands: [I, O, I] },
+  FAL: { operands: [IO, I, I, N, O, I] },
+  FSC: { operands: [IO, I, I, N, I] },
+  AVE: { operands: [I, N, O, IO, I, I] },
+  STD: { operands: [I, N, O, IO, I, I] },
+  SRT: { operands: [IO, N, IO, I, I] },
+  SIZE: { operands: [I, I, O] },
+  DDT: { operands: [I, IO, O, IO, I, I] },
+  DTR: { operands: [I, I, IO] },
+  FBC: { operands: [I, I, O, IO, I, I, IO, I, I] },
+
+  // Shift/sequencer
+  BSL: { operands: [IO, IO, I, I] },
+  BSR: { operands: [IO, IO, I, I] },
+  FFL: { operands: [I, IO, IO, I, I] },
+  FFU: { operands: [IO, O, IO, I, I] },
+  LFL: { operands: [I, IO, IO, I, I] },
+  LFU: { operands: [IO, O, IO, I, I] },
+  SQI: { operands: [I, I, I, IO, I, I] },
+  SQO: { operands: [I, I, O, IO, I, I] },
+  SQL: { operands: [IO, I, IO, I, I] },
+
+  // Program control
+  JSR: { operands: [N, I] },
+  SBR: { operands: [], rest: O },
+  RET: { operands: [], rest: I },
+  JMP: { operands: [N] },
+  LBL: { operands: [N] },
+  JXR: { operands: [N, I, I], rest: I },
+  MCR: { operands: [] },
+  AFI: { operands: [] },
+  NOP: { operands: [] },
+  TND: { operands: [] },
+  UID: { operands: [] },
+  UIE: { operands: [] },
+  EOT: { operands: [I] },
+  SFR: { operands: [N, I] },
+  SFP: { operands: [N, N] },
+  EVENT: { operands: [N] },
+  IOT: { operands: [I] },
+
+  // Input/output and system
+  MSG: { operands: [IO] },
+  GSV: { operands: [N, N, N, O] },
+  SSV: { operands: [N, N, N, I] },
+
+  // Motion state, move and configuration; unit, profile and mode operands are keywords
+  MSO: { operands: [I, IO] },
+  MSF: { operands: [I, IO] },
+  MASD: { operands: [I, IO] },
+  MASR: { operands: [I, IO] },
+  MAFR: { operands: [I, IO] },
+  MDF: { operands: [I, IO] },
+  MDO: { operands: [I, IO, I, N] },
+  MAH: { operands: [I, IO] },
+  MAS: { operands: [I, IO, N, N, I, N, N, I, N] },
+  MAJ: { operands: [I, IO, I, I, N, I, N, I, N, N, I, I, N, N, N, I, N] },
+  MAM: { operands: [I, IO, I, I, I, N, I, N, I, N, N, I, I, N, N, N, I, N, I, O] },
+  MAG: { operands: [I, I, IO, N, I, I, I, N, N, N, I, N] },
+  MCD: { operands: [I, IO, N, N, I, N, I, N, I, N, I, N, I, N, N, N, N] },
+  MRP: { operands: [I, IO, N, N, I] },
+  MAW: { operands: [I, IO, N, I] },
+  MDW: { operands: [I, IO] },
+  MAR: { operands: [I, IO, N, N, I, I, I] },
+  MDR: { operands: [I, IO, I] },
+  MGS: { operands: [I, IO, N] },
+  MGSD: { operands: [I, IO] },
+  MGSR: { operands: [I, IO] },
+  MGSP: { operands: [I, IO, N] },
+
+  // Process
+  PID: { operands: [IO, I, I, O, I, I, I], rest: I },
+  ALMD: { operands: [IO], rest: I },
+  ALMA: { operands: [IO], rest: I },
+
+  // String/conversion
+  CONCAT: { operands: [I, I, O] },
+  DELETE: { operands: [I, I, I, O] },
+  FIND: { operands: [I, I, I, O] },
+  INSERT: { operands: [I, I, I, O] },
+  MID: { operands: [I, I, I, O] },
+  STOD: { operands: [I, O] },
+  STOR: { operands: [I, O] },
+  DTOS: { operands: [I, O] },
+  RTOS: { operands: [I, O] },
+  UPPER: { operands: [I, O] },
+  LOWER: { operands: [I, O] },
+};
+
+// A tag, member, bit, array element, module I/O point or program parameter
+const TAG_OPERAND = /^\\?[A-Za-z_]\w*(:\w+)*(\.\w+|\[[^\]]+\])*$/;
+
+// Expression syntax that separates words, as in a CPT or CMP expression
+const EXPRESSION_SYNTAX = /[-+*/=<>()[\]]|\b(AND|OR|XOR|MOD|NOT)\b/i;
+
+/** Whether `operand` is a keyword phrase such as `Units per sec`: words with no operator between them. */
+function isKeywordPhrase(operand: string): boolean {
+  return /\S\s+\S/.test(operand.trim()) && !EXPRESSION_SYNTAX.test(operand);
+}
+
+/** Whether instruction `name` has a known operand signature. */
+export function hasOperandSignature(name: string): boolean {
+  return name.toUpperCase() in SIGNATURES;
+}
+
+/**
+ * Roles for each operand passed to instruction `name`.
+ * JSR is special-cased: after the routine name and input count, the next
+ * `count` operands are input parameters and the rest are return parameters.
+ */
+export function getOperandRoles(name: string, operands: string[]): RungOperandRole[] {
+  const upper = name.toUpperCase();
+
+  if (upper === "JSR") {
+    const inputCount = parseInt(operands[1] || "0", 10) || 0;
+    return operands.map((_, i) => (i === 0 ? N : i === 1 ? I : i < 2 + inputCount ? I : O));
+  }
+
+  const signature = SIGNATURES[upper];
+  if (!signature) return operands.map((operand) => (TAG_OPERAND.test(operand.trim()) ? I : N));
+
+  return operands.map((operand, i) => (isKeywordPhrase(operand) ? N : signature.operands[i] ?? signature.rest ?? I));
+}
@@ -0,0 +1,57 @@
+import type { ParsedIOPort, ParsedIOConnection } from "./types";
+
+/**
+ * I/O module addressing shared by the L5X and L5K parsers.
+ *
+ * A module's slot and network address live on its ports: the upstream port
+ * carries the slot on a backplane (ICP, PointIO, Compact) or the IP address
+ * on Ethernet, while bridge modules (e.g. 1756-EN2T) carry their IP address
+ * on a downstream Ethernet port. Connection I/O tags follow Logix naming:
+ * `Local:3:I` for the local chassis, `Adapter:3:I` for a slot in a remote
+ * chassis and `Module:I` for a directly connected device.
+ */
+
+const IP_ADDRESS = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+export function isIPAddress(address: string | undefined): boolean {
+  return !!address && IP_ADDRESS.test(address.trim());
+}
+
+/** Slot number from the upstream port, when the module sits on a backplane. */
+export function getPortSlot(ports: ParsedIOPort[]): number | undefined {
+  const upstream = ports.find((p) => p.upstream && p.address && !isIPAddress(p.address));
+  if (!upstream?.address) return undefined;
+  const slot = parseInt(upstream.address, 10);
+  return isNaN(slot) ? undefined : slot;
+}
+
+/** First IP address found on any of the module's Ethernet ports. */
+export function getPortIPAddress(ports: ParsedIOPort[]): string | undefined {
+  const ethernet = ports.find((p) => isIPAddress(p.address) && (!p.type || /ethernet/i.test(p.type)));
+  return ethernet?.address?.trim();
+}
+
+/** Controller tag name for a module connection's input or output data. */
+export function getConnectionTagName(
+  moduleName: string,
+  parentModule: string | undefined,
+  slot: number | undefined,
+  suffix: string
+): string {
+  if (slot !== undefined && parentModule && parentModule !== moduleName) {
+    return `${parentModule}:${slot}:${suffix}`;
+  }
+  return `${moduleName}:${suffix}`;
+}
+
+/** RPI of the module's first connection that has one, in milliseconds. */
+export function getModuleRPI(connections: ParsedIOConnection[]): number | undefined {
+  return connections.find((c) => c.rpiMs !== undefined)?.rpiMs;
+}
+
+/** Convert a Logix RPI in microseconds to milliseconds. */
+export function rpiToMs(rpi: string | undefined): number | undefined {
+  if (!rpi) return undefined;
+  const us = parseInt(rpi, 10);
+  return isNaN(us) ? undefined : us / 1000;
+}
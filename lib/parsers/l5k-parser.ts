@@ -2,17 +2,66 @@ import type {
   ParsedL5XData,
   ParsedTag,
   ParsedIOModule,
+  ParsedIOConnection,
   ParsedRoutine,
   ParsedRung,
   ParsedTagReference,
   ParsedTask,
+  ParsedProgram,
+  ParsedProtection,
   ParsedUDT,
   ParsedUDTMember,
   ParsedAOI,
   ParsedAOIParameter,
   ParsedAOILocalTag,
+  ParsedFBDSheet,
+  ParsedFBDElement,
+  ParsedFBDWire,
+  ParsedSFCChart,
+  ParsedSFCNode,
+  SFCNodeType,
+  ParsedDiagnostic,
+  ParsedCommunication,
+  ParsedAlarm,
+  ParsedSafetyInfo,
 } from "./types";
-import { extractTagReferences, determineUsageType } from "./l5x-parser";
+import { parseRungText, extractRungTagUsages, findRungSyntaxError } from "./rung-parser";
+import { decodeL5KValue, formatTagValue } from "./tag-data";
+import { isIPAddress, getConnectionTagName, getModuleRPI, rpiToMs } from "./io-module";
+import {
+  buildFBDElement,
+  buildFBDWire,
+  resolveFBDBindings,
+  extractFBDTagReferences,
+} from "./fbd-parser";
+import { joinSTBody, extractSFCTagReferences, countSFCSteps } from "./sfc-parser";
+import { parseSTRoutineLines, type STSourceLine } from "./st-parser";
+import { linkProgramTree } from "./program-tree";
+import { addDiagnostic, lineAt, KNOWN_L5K_BLOCKS, ParseFailure } from "./diagnostics";
+import { parseCommunication } from "./communications";
+import { ALARM_DATA_TYPES, parseAlarmTag } from "./alarms";
+import { parseSafetyTagMap, resolveSafetyClasses } from "./safety";
+import { parseFlag } from "./attributes";
+import { findAOICalls, findFBDAOICalls } from "./aoi-calls";
+import { indexTags, resolveTagReferences } from "./tag-resolution";
+import { applyRoutineMetrics, measureRung, tallyRoutineMetrics, type RoutineMetricsTally } from "./complexity";
+
+/**
+ * Source text, and the diagnostics, communications and alarms collected
+ * along the way, threaded through the block parsers.
+ */
+interface L5KContext {
+  source: string;
+  diagnostics: ParsedDiagnostic[];
+  communications: ParsedCommunication[];
+  alarms: ParsedAlarm[];
+}
+
+/** Line of the first occurrence of `snippet` at or after `from`, for diagnostics. */
+function locateL5K(ctx: L5KContext, snippet: string, from = 0): number | undefined {
+  const index = ctx.source.indexOf(snippet, from);
+  return index === -1 ? undefined : lineAt(ctx.source, index);
+}
 
 /**
  * Extract all top-level blocks matching `KEYWORD ... END_KEYWORD` from text.
@@ -215,7 +264,21 @@ function parseL5KController(controllerBlock: string): ParsedL5XData["metadata"]
   };
 }
 
-function parseL5KTags(tagBlock: string, scope: string): ParsedTag[] {
+/** Safety signature, lock and tag map from the CONTROLLER attributes of a GuardLogix export. */
+function parseL5KSafetyInfo(controllerBlock: string): ParsedSafetyInfo | undefined {
+  const attrs = parseAttributes(parseBlockHeader(controllerBlock, "CONTROLLER").attrString);
+  if (!["SafetySignature", "SafetyLocked", "SafetyLevel", "SafetyTagMap"].some((key) => attrs[key] !== undefined)) {
+    return undefined;
+  }
+  return {
+    signature: attrs["SafetySignature"] || undefined,
+    locked: parseFlag(attrs["SafetyLocked"]),
+    level: attrs["SafetyLevel"],
+    tagMap: parseSafetyTagMap(attrs["SafetyTagMap"]),
+  };
+}
+
+function parseL5KTags(tagBlock: string, scope: string, ctx: L5KContext): ParsedTag[] {
   const tags: ParsedTag[] = [];
 
   // Remove the TAG / END_TAG wrapper
@@ -242,9 +305,17 @@ function parseL5KTags(tagBlock: string, scope: string): ParsedTag[] {
 
     // Check if the declaration is complete (ends with semicolon)
     if (trimmed.endsWith(";")) {
-      const tag = parseTagDeclaration(currentDecl, scope);
+      const tag = parseTagDeclaration(currentDecl, scope, ctx);
       if (tag) {
         tags.push(tag);
+      } else if (currentDecl !== ";") {
+        addDiagnostic(ctx.diagnostics, {
+          severity: "error",
+          code: "unparseable-declaration",
+          message: `Tag declaration could not be read and was dropped: ${currentDecl.substring(0, 80)}`,
+          path: scope === "Controller" ? "TAG" : `PROGRAM[${scope}]/TAG`,
+          line: locateL5K(ctx, currentDecl.split(" ")[0], ctx.source.indexOf(tagBlock)),
+        });
       }
       currentDecl = "";
     }
@@ -258,7 +329,7 @@ function parseL5KTags(tagBlock: string, scope: string): ParsedTag[] {
  * `MyTag : DINT (Radix := Decimal, ExternalAccess := Read/Write) := 0;`
  * `MyAlias : BOOL (AliasFor := SomeTag, Description := "A tag");`
  */
-function parseTagDeclaration(decl: string, scope: string): ParsedTag | null {
+function parseTagDeclaration(decl: string, scope: string, ctx: L5KContext): ParsedTag | null {
   // Remove trailing semicolon
   let s = decl.trim();
   if (s.endsWith(";")) s = s.substring(0, s.length - 1).trim();
@@ -332,18 +403,32 @@ function parseTagDeclaration(decl: string, scope: string): ParsedTag | null {
   if (afterType.startsWith(":=")) {
     value = afterType.substring(2).trim();
   }
+  const data = decodeL5KValue(value, dataType || "Unknown", dimensions || attrs["Dimension"]);
+
+  // Produced/consumed and MESSAGE configuration sit among the declaration attributes
+  const communication = parseCommunication(name, scope, dataType || "Unknown", attrs["TagType"], attrs);
+  if (communication) ctx.communications.push(communication);
+
+  // Alarm tags list their settings in a nested AlarmConfig attribute
+  if (ALARM_DATA_TYPES.has(dataType)) {
+    const alarmAttrs = { ...attrs, ...parseAttributes(attrs["AlarmConfig"] || "") };
+    const message = alarmAttrs["AlarmMessage"] ?? alarmAttrs["Message"];
+    ctx.alarms.push(...parseAlarmTag(name, scope, dataType, alarmAttrs, message ? { AM: message } : {}));
+  }
 
   return {
     name,
     dataType: dataType || "Unknown",
     scope,
     description: attrs["Description"],
-    value,
+    value: data ? formatTagValue(data) ?? value : value,
+    data,
     aliasFor: attrs["AliasFor"],
     usage: attrs["Usage"],
     radix: attrs["Radix"],
     externalAccess: attrs["ExternalAccess"],
     dimensions: dimensions || attrs["Dimension"],
+    tagClass: attrs["Class"],
   };
 }
 
@@ -373,6 +458,35 @@ function findUnquotedChar(s: string, ch: string): number {
   return -1;
 }
 
+/** Parse an L5K integer literal, including radix forms such as `2#0000_0100` and `16#1F`. */
+function parseL5KInteger(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const match = value.trim().replace(/_/g, "").match(/^(?:(\d+)#)?([0-9A-Fa-f]+)$/);
+  if (!match) return undefined;
+  const n = parseInt(match[2], match[1] ? parseInt(match[1], 10) : 10);
+  return isNaN(n) ? undefined : n;
+}
+
+/**
+ * Electronic keying from the module's CompatibleModule flag and KeyMask:
+ * a zero mask disables keying, otherwise it is an exact or compatible match.
+ */
+function getL5KKeying(attrs: Record<string, string>): string | undefined {
+  if (attrs["CompatibleModule"] === undefined && attrs["KeyMask"] === undefined) return undefined;
+  if (parseL5KInteger(attrs["CompatibleModule"])) return "CompatibleModule";
+  if (parseL5KInteger(attrs["KeyMask"]) === 0) return "Disabled";
+  return "ExactMatch";
+}
+
+// Bits of the module Mode word
+const MODE_MAJOR_FAULT = 0x1;
+const MODE_INHIBITED = 0x4;
+
+/**
+ * Parse MODULE blocks. L5K has no port list, so the slot and IP address come
+ * from the Slot and NodeAddress attributes, and connections from the nested
+ * `CONNECTION name (Rate := us)` blocks.
+ */
 function parseL5KModules(controllerBlock: string): ParsedIOModule[] {
   const modules: ParsedIOModule[] = [];
   const moduleBlocks = extractBlocks(controllerBlock, "MODULE");
@@ -380,12 +494,44 @@ function parseL5KModules(controllerBlock: string): ParsedIOModule[] {
   for (const block of moduleBlocks) {
     const { name, attrString } = parseBlockHeader(block, "MODULE");
     const attrs = parseAttributes(attrString);
+    const parentModule = attrs["Parent"] || attrs["ParentModule"];
+    const slot = parseL5KInteger(attrs["Slot"]);
+    const address = attrs["NodeAddress"] || attrs["Address"];
+    const mode = parseL5KInteger(attrs["Mode"]) || 0;
+
+    const connections: ParsedIOConnection[] = extractBlocks(block, "CONNECTION").map((connBlock) => {
+      const conn = parseBlockHeader(connBlock, "CONNECTION");
+      const connAttrs = parseAttributes(conn.attrString);
+      return {
+        name: conn.name,
+        rpiMs: rpiToMs(connAttrs["Rate"]),
+        inputTag: /\bInputData\b/.test(connBlock)
+          ? getConnectionTagName(name, parentModule, slot, connAttrs["InputTagSuffix"] || "I")
+          : undefined,
+        outputTag: /\bOutputData\b/.test(connBlock)
+          ? getConnectionTagName(name, parentModule, slot, connAttrs["OutputTagSuffix"] || "O")
+          : undefined,
+      };
+    });
 
     modules.push({
       name,
       catalogNumber: attrs["CatalogNumber"],
-      parentModule: attrs["ParentModule"],
-      slot: attrs["Slot"] ? parseInt(attrs["Slot"], 10) : undefined,
+      parentModule,
+      parentPortId: parseL5KInteger(attrs["ParentModPortId"]),
+      slot,
+      vendorId: parseL5KInteger(attrs["Vendor"]),
+      productType: parseL5KInteger(attrs["ProductType"]),
+      productCode: parseL5KInteger(attrs["ProductCode"]),
+      majorRevision: parseL5KInteger(attrs["Major"]),
+      minorRevision: parseL5KInteger(attrs["Minor"]),
+      electronicKeying: getL5KKeying(attrs),
+      inhibited: (mode & MODE_INHIBITED) !== 0,
+      majorFault: (mode & MODE_MAJOR_FAULT) !== 0,
+      ipAddress: isIPAddress(address) ? address.trim() : undefined,
+      rpiMs: getModuleRPI(connections),
+      ports: [],
+      connections,
     });
   }
 
@@ -510,7 +656,9 @@ function splitRungs(routineContent: string): string[] {
 function parseL5KRungs(
   routineContent: string,
   routineName: string,
-  programName: string
+  programName: string,
+  ctx: L5KContext,
+  containerPath: string
 ): { parsedRungs: ParsedRung[]; tagRefs: ParsedTagReference[] } {
   const parsedRungs: ParsedRung[] = [];
   const tagRefs: ParsedTagReference[] = [];
@@ -533,20 +681,31 @@ function parseL5KRungs(
       bodyAfterComment = trimmedBody.substring(commentMatch[0].length);
     }
 
-    // The ladder text is everything remaining (remove trailing semicolon)
-    let content = bodyAfterComment.trim();
-    if (content.endsWith(";")) {
-      content = content.substring(0, content.length - 1).trim();
+    // The ladder text is everything remaining, stored with its trailing semicolon as in L5X
+    const content = bodyAfterComment.trim();
+
+    const syntaxError = findRungSyntaxError(content);
+    if (syntaxError) {
+      addDiagnostic(ctx.diagnostics, {
+        severity: "warning",
+        code: "unparseable-rung",
+        message: `Rung ${rungNumber} of ${routineName}: ${syntaxError}; tag references may be incomplete`,
+        path: `${containerPath}/ROUTINE[${routineName}]/Rung[${rungNumber}]`,
+        line: locateL5K(ctx, trimmedBody.split("\n")[0], ctx.source.indexOf(routineContent)),
+      });
     }
 
-    const tagReferences = extractTagReferences(content);
+    const elements = parseRungText(content);
+    const usages = extractRungTagUsages(elements);
+    const tagReferences = usages.map((u) => u.tagName);
 
-    const refs: ParsedTagReference[] = tagReferences.map((tagName) => ({
-      tagName,
+    const refs: ParsedTagReference[] = usages.map((u) => ({
+      tagName: u.tagName,
       routineName,
       programName,
       rungNumber,
-      usageType: determineUsageType(content, tagName),
+      usageType: u.usageType,
+      writeInstructions: u.writeInstructions,
     }));
 
     parsedRungs.push({
@@ -556,6 +715,7 @@ function parseL5KRungs(
       content,
       comment,
       tagReferences,
+      metrics: measureRung(elements, content, tagReferences),
     });
 
     tagRefs.push(...refs);
@@ -567,7 +727,9 @@ function parseL5KRungs(
 
 function parseL5KRoutines(
   programBlock: string,
-  programName: string
+  programName: string,
+  ctx: L5KContext,
+  containerPath = `PROGRAM[${programName}]`
 ): { routines: ParsedRoutine[]; rungs: ParsedRung[]; tagRefs: ParsedTagReference[] } {
   const routines: ParsedRoutine[] = [];
   const allRungs: ParsedRung[] = [];
@@ -578,9 +740,10 @@ function parseL5KRoutines(
   for (const block of routineBlocks) {
     const { name, attrString } = parseBlockHeader(block, "ROUTINE");
     const attrs = parseAttributes(attrString);
-    const routineType = attrs["Type"] || "Unknown";
+    // L5K names the content (Type := RLLContent); L5X names the language
+    const routineType = (attrs["Type"] || "RLL").replace(/Content$/, "");
 
-    const { parsedRungs, tagRefs } = parseL5KRungs(block, name, programName);
+    const { parsedRungs, tagRefs } = parseL5KRungs(block, name, programName, ctx, containerPath);
 
     routines.push({
       name,
@@ -597,39 +760,488 @@ function parseL5KRoutines(
   return { routines, rungs: allRungs, tagRefs: allTagRefs };
 }
 
-function parseL5KPrograms(controllerBlock: string): {
+/**
+ * The text of a routine block after its header, which may carry a wrapped
+ * attribute list. A `(` further down belongs to the body, not the header.
+ */
+function getL5KRoutineBody(routineBlock: string): string {
+  const headerOpen = routineBlock.indexOf("(");
+  const headerClose = headerOpen === -1 ? -1 : findMatchingParen(routineBlock, headerOpen);
+  const firstBreak = routineBlock.indexOf("\n");
+  const bodyStart = headerClose !== -1 && (firstBreak === -1 || headerOpen < firstBreak) ? headerClose + 1 : firstBreak + 1;
+  return routineBlock.substring(bodyStart);
+}
+
+/**
+ * L5K writes each line of structured text with a leading apostrophe so that
+ * indentation and blank lines survive the export; older files omit it.
+ */
+function stripL5KSTLine(line: string): string {
+  const text = line.replace(/\r$/, "").trimStart();
+  return text.startsWith("'") ? text.substring(1) : text.trim();
+}
+
+/**
+ * Source lines of an `ST_ROUTINE`, numbered from zero like the `Line`
+ * elements of an L5X STContent. Layout-only blank lines are skipped.
+ */
+function getL5KSTLines(routineBlock: string): STSourceLine[] {
+  const lines: STSourceLine[] = [];
+  for (const line of getL5KRoutineBody(routineBlock).split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || /^END_ST_ROUTINE\b/.test(trimmed)) continue;
+    lines.push({ number: lines.length, text: stripL5KSTLine(line) });
+  }
+  return lines;
+}
+
+function parseL5KSTRoutines(
+  programBlock: string,
+  programName: string
+): { routines: ParsedRoutine[]; rungs: ParsedRung[]; tagRefs: ParsedTagReference[] } {
+  const routines: ParsedRoutine[] = [];
+  const rungs: ParsedRung[] = [];
+  const tagRefs: ParsedTagReference[] = [];
+
+  const routineBlocks = extractBlocks(programBlock, "ST_ROUTINE");
+
+  for (const block of routineBlocks) {
+    const { name, attrString } = parseBlockHeader(block, "ST_ROUTINE");
+    const attrs = parseAttributes(attrString);
+    const { parsedRungs, tagRefs: stRefs } = parseSTRoutineLines(getL5KSTLines(block), name, programName);
+
+    routines.push({
+      name,
+      programName,
+      type: "ST",
+      description: attrs["Description"],
+      // ST routines count their code lines as rung equivalents
+      rungCount: parsedRungs.length,
+    });
+    rungs.push(...parsedRungs);
+    tagRefs.push(...stRefs);
+  }
+
+  return { routines, rungs, tagRefs };
+}
+
+/**
+ * Return the index of the `)` matching the `(` at `openPos`, skipping quoted strings.
+ */
+function findMatchingParen(s: string, openPos: number): number {
+  let depth = 0;
+  let inQuote = false;
+  for (let i = openPos; i < s.length; i++) {
+    const ch = s[i];
+    if (inQuote) {
+      if (ch === '"') inQuote = false;
+      else if (ch === "\\" && i + 1 < s.length) i++;
+    } else {
+      if (ch === '"') inQuote = true;
+      else if (ch === "(") depth++;
+      else if (ch === ")") {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split the body of an FBD `SHEET` into element statements such as
+ * `IREF (ID := 0, Operand := Level_PV)` or `BLOCK PIDE(ID := 1, ...)`.
+ * A statement may wrap across lines; it ends when its parentheses close.
+ */
+function splitFBDStatements(sheetBody: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+
+  for (const line of sheetBody.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || (!current && /^END_/.test(trimmed))) continue;
+
+    current += (current ? " " : "") + trimmed;
+    const openPos = current.indexOf("(");
+    if (openPos === -1 || findMatchingParen(current, openPos) !== -1) {
+      statements.push(current);
+      current = "";
+    }
+  }
+
+  if (current) statements.push(current);
+  return statements;
+}
+
+function parseL5KFBDSheet(
+  sheetBlock: string,
+  index: number,
+  routineName: string,
+  programName: string
+): ParsedFBDSheet {
+  // Header: SHEET (Description := "...")
+  let body = sheetBlock.substring(sheetBlock.indexOf("SHEET") + "SHEET".length);
+  let attrs: Record<string, string> = {};
+  const headerOpen = body.search(/\S/);
+  if (headerOpen !== -1 && body[headerOpen] === "(") {
+    const headerClose = findMatchingParen(body, headerOpen);
+    if (headerClose !== -1) {
+      attrs = parseAttributes(body.substring(headerOpen, headerClose + 1));
+      body = body.substring(headerClose + 1);
+    }
+  }
+
+  const elements: ParsedFBDElement[] = [];
+  const wires: ParsedFBDWire[] = [];
+
+  for (const statement of splitFBDStatements(body)) {
+    const openPos = statement.indexOf("(");
+    if (openPos === -1) continue;
+    const closePos = findMatchingParen(statement, openPos);
+    const head = statement.substring(0, openPos).trim().split(/\s+/);
+    const stmtAttrs = parseAttributes(statement.substring(openPos, closePos === -1 ? undefined : closePos + 1));
+    const keyword = head[0].toUpperCase();
+
+    if (keyword === "WIRE" || keyword === "FEEDBACK_WIRE") {
+      wires.push(buildFBDWire(stmtAttrs, keyword === "FEEDBACK_WIRE"));
+    } else if (keyword === "IREF" || keyword === "OREF" || keyword === "ICON" || keyword === "OCON") {
+      const elementType = ({ IREF: "IRef", OREF: "ORef", ICON: "ICon", OCON: "OCon" } as const)[keyword];
+      elements.push(buildFBDElement(elementType, stmtAttrs));
+    } else if (keyword === "BLOCK" || keyword === "FUNCTION") {
+      elements.push(buildFBDElement(keyword === "BLOCK" ? "Block" : "Function", { ...stmtAttrs, Type: head[1] || stmtAttrs["Type"] }));
+    } else if (keyword === "ADD_ON_INSTRUCTION") {
+      elements.push(buildFBDElement("AddOnInstruction", { ...stmtAttrs, Name: head[1] || stmtAttrs["Name"] }));
+    } else if (keyword.endsWith("_BLOCK")) {
+      // Older exports name the block after its instruction: PIDE_BLOCK (...)
+      elements.push(buildFBDElement("Block", { ...stmtAttrs, Type: head[0].slice(0, -"_BLOCK".length) }));
+    }
+  }
+
+  const sheet: ParsedFBDSheet = {
+    routineName,
+    programName,
+    number: index + 1,
+    description: attrs["Description"],
+    elements: elements.sort((a, b) => a.id - b.id),
+    wires,
+  };
+  resolveFBDBindings(sheet);
+
+  return sheet;
+}
+
+function parseL5KFBDRoutines(
+  programBlock: string,
+  programName: string
+): { routines: ParsedRoutine[]; sheets: ParsedFBDSheet[]; tagRefs: ParsedTagReference[] } {
+  const routines: ParsedRoutine[] = [];
+  const sheets: ParsedFBDSheet[] = [];
+  const tagRefs: ParsedTagReference[] = [];
+
+  const routineBlocks = extractBlocks(programBlock, "FBD_ROUTINE");
+
+  for (const block of routineBlocks) {
+    const { name, attrString } = parseBlockHeader(block, "FBD_ROUTINE");
+    const attrs = parseAttributes(attrString);
+
+    routines.push({
+      name,
+      programName,
+      type: "FBD",
+      description: attrs["Description"],
+    });
+
+    const sheetBlocks = extractBlocks(block, "SHEET");
+    sheetBlocks.forEach((sheetBlock, index) => {
+      const sheet = parseL5KFBDSheet(sheetBlock, index, name, programName);
+      sheets.push(sheet);
+      tagRefs.push(...extractFBDTagReferences(sheet));
+    });
+  }
+
+  return { routines, sheets, tagRefs };
+}
+
+const SFC_NODE_KEYWORDS: Record<string, SFCNodeType> = {
+  STEP: "Step",
+  TRANSITION: "Transition",
+  BRANCH: "Branch",
+  STOP: "Stop",
+  SBR_RET: "SbrRet",
+};
+
+function toOptionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+}
+
+function isTrue(value: string | undefined): boolean {
+  return value !== undefined && /^(yes|true|1)$/i.test(value);
+}
+
+/**
+ * Parse the body of an `SFC_ROUTINE`. Elements are statements such as
+ * `STEP (ID := 0, Operand := Step_000, InitialStep := Yes)`; steps nest
+ * `ACTION ... BODY ... END_BODY ... END_ACTION`, transitions nest
+ * `CONDITION ... END_CONDITION`, and branches list their `LEG (ID := n)`.
+ */
+function parseL5KSFCChart(routineBlock: string, routineName: string, programName: string): ParsedSFCChart {
+  const nodes: ParsedSFCNode[] = [];
+  const links: ParsedSFCChart["links"] = [];
+
+  const body = getL5KRoutineBody(routineBlock);
+
+  let currentNode: ParsedSFCNode | null = null;
+  let currentBranch: ParsedSFCNode | null = null;
+  let stLines: string[] | null = null;
+  let stTarget: "BODY" | "CONDITION" | null = null;
+  let pending = "";
+
+  for (const line of body.split("\n")) {
+    const trimmed = line.trim();
+
+    // Inside an action body or transition condition, collect raw ST lines
+    if (stLines && stTarget) {
+      if (trimmed.toUpperCase() === `END_${stTarget}`) {
+        const text = joinSTBody(stLines);
+        if (stTarget === "CONDITION" && currentNode) {
+          currentNode.condition = text;
+        } else if (stTarget === "BODY" && currentNode && currentNode.actions.length > 0) {
+          currentNode.actions[currentNode.actions.length - 1].body = text;
+        }
+        stLines = null;
+        stTarget = null;
+      } else {
+        stLines.push(stripL5KSTLine(line));
+      }
+      continue;
+    }
+
+    if (!trimmed) continue;
+
+    // Element statements may wrap across lines until their parentheses close
+    const statement = pending + (pending ? " " : "") + trimmed;
+    const parenPos = statement.indexOf("(");
+    if (parenPos !== -1 && findMatchingParen(statement, parenPos) === -1) {
+      pending = statement;
+      continue;
+    }
+    pending = "";
+
+    const keyword = statement.split(/[\s(]/)[0].toUpperCase();
+    const attrs = parenPos === -1 ? {} : parseAttributes(statement.substring(parenPos));
+
+    if (keyword in SFC_NODE_KEYWORDS) {
+      const nodeType = SFC_NODE_KEYWORDS[keyword];
+      const node: ParsedSFCNode = {
+        id: parseInt(attrs["ID"] || "0", 10),
+        nodeType,
+        name: attrs["Operand"] || undefined,
+        x: toOptionalNumber(attrs["X"]),
+        y: toOptionalNumber(attrs["Y"]),
+        initialStep: nodeType === "Step" ? isTrue(attrs["InitialStep"]) : undefined,
+        branchType: attrs["BranchType"],
+        branchFlow: attrs["BranchFlow"],
+        actions: [],
+      };
+      nodes.push(node);
+      currentNode = node;
+      if (nodeType === "Branch") currentBranch = node;
+    } else if (keyword === "LEG" && currentBranch) {
+      nodes.push({
+        id: parseInt(attrs["ID"] || "0", 10),
+        nodeType: "Leg",
+        branchId: currentBranch.id,
+        actions: [],
+      });
+    } else if (keyword === "ACTION" && currentNode) {
+      currentNode.actions.push({
+        id: parseInt(attrs["ID"] || "0", 10),
+        name: attrs["Operand"] || "",
+        qualifier: attrs["Qualifier"],
+        isBoolean: isTrue(attrs["IsBoolean"]),
+        body: "",
+      });
+    } else if (keyword === "BODY" || keyword === "CONDITION") {
+      stLines = [];
+      stTarget = keyword;
+    } else if (keyword === "DIRECTED_LINK") {
+      links.push({
+        fromId: parseInt(attrs["FromID"] || "0", 10),
+        toId: parseInt(attrs["ToID"] || "0", 10),
+      });
+    } else if (keyword === "END_BRANCH") {
+      currentBranch = null;
+    }
+  }
+
+  return {
+    routineName,
+    programName,
+    nodes: nodes.sort((a, b) => a.id - b.id),
+    links,
+  };
+}
+
+function parseL5KSFCRoutines(
+  programBlock: string,
+  programName: string
+): { routines: ParsedRoutine[]; charts: ParsedSFCChart[]; tagRefs: ParsedTagReference[] } {
+  const routines: ParsedRoutine[] = [];
+  const charts: ParsedSFCChart[] = [];
+  const tagRefs: ParsedTagReference[] = [];
+
+  const routineBlocks = extractBlocks(programBlock, "SFC_ROUTINE");
+
+  for (const block of routineBlocks) {
+    const { name, attrString } = parseBlockHeader(block, "SFC_ROUTINE");
+    const attrs = parseAttributes(attrString);
+    const chart = parseL5KSFCChart(block, name, programName);
+
+    routines.push({
+      name,
+      programName,
+      type: "SFC",
+      description: attrs["Description"],
+      rungCount: countSFCSteps(chart.nodes),
+    });
+    charts.push(chart);
+    tagRefs.push(...extractSFCTagReferences(chart));
+  }
+
+  return { routines, charts, tagRefs };
+}
+
+/**
+ * Parse the routines of a program or AOI in every language: ladder, structured
+ * text, function block diagram and sequential function chart.
+ */
+function parseL5KAllRoutines(
+  block: string,
+  programName: string,
+  ctx: L5KContext,
+  containerPath = `PROGRAM[${programName}]`
+): Pick<ParsedL5XData, "routines" | "rungs" | "tagReferences" | "fbdSheets" | "sfcCharts"> {
+  const rll = parseL5KRoutines(block, programName, ctx, containerPath);
+  const st = parseL5KSTRoutines(block, programName);
+  const fbd = parseL5KFBDRoutines(block, programName);
+  const sfc = parseL5KSFCRoutines(block, programName);
+
+  return {
+    routines: [...rll.routines, ...st.routines, ...fbd.routines, ...sfc.routines],
+    rungs: [...rll.rungs, ...st.rungs],
+    tagReferences: [...rll.tagRefs, ...st.tagRefs, ...fbd.tagRefs, ...sfc.tagRefs],
+    fbdSheets: fbd.sheets,
+    sfcCharts: sfc.charts,
+  };
+}
+
+/**
+ * Attributes of an `ENCODED_DATA (EncodedType := ROUTINE, Name := "X", ...)`
+ * block. Unlike other blocks the header has no name token, so parseBlockHeader
+ * does not apply.
+ */
+function parseL5KEncodedHeader(block: string): Record<string, string> {
+  const open = block.indexOf("(");
+  if (open === -1) return {};
+  const close = findMatchingParen(block, open);
+  return parseAttributes(block.substring(open + 1, close === -1 ? block.length : close));
+}
+
+function parseL5KProtection(attrs: Record<string, string>): ParsedProtection {
+  return {
+    kind: attrs["LicenseID"] ? "License" : "SourceKey",
+    encodedType: attrs["EncodedType"] || "Unknown",
+    encryptionConfig: attrs["EncryptionConfig"],
+  };
+}
+
+function isEncodedAOI(attrs: Record<string, string>): boolean {
+  return /^add_?on_?instruction/i.test(attrs["EncodedType"] || "");
+}
+
+/** Remove protected blocks so their headers are not mistaken for ROUTINE or AOI blocks. */
+function withoutBlocks(text: string, blocks: string[]): string {
+  return blocks.reduce((rest, block) => rest.replace(block, ""), text);
+}
+
+/**
+ * Program properties from the PROGRAM header, e.g.
+ * `PROGRAM Main (MAIN := "MainRoutine", FAULT := "Fault", DisableFlag := 0, UseAsFolder := 0)`.
+ * Child programs name their parent with `Parent := "..."`.
+ */
+function parseL5KProgramHeader(name: string, attrs: Record<string, string>): ParsedProgram {
+  return {
+    name,
+    description: attrs["Description"],
+    mainRoutineName: attrs["MAIN"] || attrs["MainRoutineName"] || undefined,
+    faultRoutineName: attrs["FAULT"] || attrs["FaultRoutineName"] || undefined,
+    disabled: isTrue(attrs["DisableFlag"] ?? attrs["Disabled"]),
+    useAsFolder: isTrue(attrs["UseAsFolder"]),
+    testEdits: isTrue(attrs["TestEdits"]),
+    programClass: attrs["Class"],
+    parentProgram: attrs["Parent"] || undefined,
+    childPrograms: [],
+  };
+}
+
+function parseL5KPrograms(controllerBlock: string, ctx: L5KContext): {
+  programs: ParsedProgram[];
   tags: ParsedTag[];
   routines: ParsedRoutine[];
   rungs: ParsedRung[];
   tagRefs: ParsedTagReference[];
+  fbdSheets: ParsedFBDSheet[];
+  sfcCharts: ParsedSFCChart[];
 } {
+  const programs: ParsedProgram[] = [];
   const tags: ParsedTag[] = [];
   const routines: ParsedRoutine[] = [];
   const rungs: ParsedRung[] = [];
   const tagRefs: ParsedTagReference[] = [];
+  const fbdSheets: ParsedFBDSheet[] = [];
+  const sfcCharts: ParsedSFCChart[] = [];
 
   const programBlocks = extractBlocks(controllerBlock, "PROGRAM");
 
-  for (const block of programBlocks) {
-    const { name: programName } = parseBlockHeader(block, "PROGRAM");
+  for (const programBlock of programBlocks) {
+    const { name: programName, attrString } = parseBlockHeader(programBlock, "PROGRAM");
+    programs.push(parseL5KProgramHeader(programName, parseAttributes(attrString)));
+
+    // Protected routines are listed without logic
+    const encodedBlocks = extractBlocks(programBlock, "ENCODED_DATA");
+    for (const encoded of encodedBlocks) {
+      const attrs = parseL5KEncodedHeader(encoded);
+      routines.push({
+        name: attrs["Name"] || "Unknown",
+        programName,
+        type: attrs["Type"] || "Unknown",
+        description: attrs["Description"],
+        protection: parseL5KProtection(attrs),
+      });
+    }
+    const block = withoutBlocks(programBlock, encodedBlocks);
 
     // Parse program-scoped tags
     const tagBlocks = extractBlocks(block, "TAG");
     for (const tagBlock of tagBlocks) {
-      tags.push(...parseL5KTags(tagBlock, programName));
+      tags.push(...parseL5KTags(tagBlock, programName, ctx));
     }
 
-    // Parse routines
-    const result = parseL5KRoutines(block, programName);
+    // Parse routines in all languages
+    const result = parseL5KAllRoutines(block, programName, ctx);
     routines.push(...result.routines);
     rungs.push(...result.rungs);
-    tagRefs.push(...result.tagRefs);
+    tagRefs.push(...result.tagReferences);
+    fbdSheets.push(...result.fbdSheets);
+    sfcCharts.push(...result.sfcCharts);
   }
 
-  return { tags, routines, rungs, tagRefs };
+  return { programs, tags, routines, rungs, tagRefs, fbdSheets, sfcCharts };
 }
 
-function parseL5KTasks(controllerBlock: string): ParsedTask[] {
+function parseL5KTasks(controllerBlock: string, ctx: L5KContext): ParsedTask[] {
   const tasks: ParsedTask[] = [];
   const taskBlocks = extractBlocks(controllerBlock, "TASK");
 
@@ -651,6 +1263,15 @@ function parseL5KTasks(controllerBlock: string): ParsedTask[] {
 
     const { name, attrString } = parseBlockHeader(block, "TASK");
     const attrs = parseAttributes(attrString);
+    if (!attrs["Type"]) {
+      addDiagnostic(ctx.diagnostics, {
+        severity: "warning",
+        code: "fallback-default",
+        message: `Task ${name} has no Type; assumed CONTINUOUS`,
+        path: `TASK[${name}]`,
+        line: locateL5K(ctx, block),
+      });
+    }
 
     // Extract scheduled programs from SCHEDULED_PROGRAM lines
     const scheduledPrograms: string[] = [];
@@ -673,13 +1294,14 @@ function parseL5KTasks(controllerBlock: string): ParsedTask[] {
       disableUpdateOutputs: attrs["DisableUpdateOutputs"] === "true",
       description: attrs["Description"],
       scheduledPrograms,
+      taskClass: attrs["Class"],
     });
   }
 
   return tasks;
 }
 
-function parseL5KAOIs(controllerBlock: string): ParsedAOI[] {
+function parseL5KAOIs(controllerBlock: string, ctx: L5KContext): ParsedAOI[] {
   const aois: ParsedAOI[] = [];
   const aoiBlocks = extractBlocks(controllerBlock, "ADD_ON_INSTRUCTION_DEFINITION");
 
@@ -690,8 +1312,8 @@ function parseL5KAOIs(controllerBlock: string): ParsedAOI[] {
     const parameters = parseL5KAOIParameters(block);
     const localTags = parseL5KAOILocalTags(block);
 
-    // Parse routines within the AOI
-    const { routines } = parseL5KRoutines(block, name);
+    // Parse routines within the AOI, keeping their logic but not their tag references
+    const { routines, rungs } = parseL5KAllRoutines(block, name, ctx, `ADD_ON_INSTRUCTION_DEFINITION[${name}]`);
 
     aois.push({
       name,
@@ -708,6 +1330,7 @@ function parseL5KAOIs(controllerBlock: string): ParsedAOI[] {
       parameters,
       localTags,
       routines,
+      rungs,
     });
   }
 
@@ -786,8 +1409,8 @@ function parseAOIParamDeclaration(decl: string): ParsedAOIParameter | null {
     name,
     dataType: dataType || "Unknown",
     usage: (attrs["Usage"] as "Input" | "Output" | "InOut") || "Input",
-    required: attrs["Required"] === "true",
-    visible: attrs["Visible"] !== "false",
+    required: parseFlag(attrs["Required"]) ?? false,
+    visible: parseFlag(attrs["Visible"]) ?? true,
     externalAccess: attrs["ExternalAccess"],
     description: attrs["Description"],
     defaultValue: attrs["DefaultValue"],
@@ -831,27 +1454,31 @@ function parseLocalTagDeclaration(decl: string): ParsedAOILocalTag | null {
   const rest = s.substring(colonIdx + 1).trim();
 
   const parenPos = findUnquotedChar(rest, "(");
-  const dataType = parenPos !== -1
-    ? rest.substring(0, parenPos).trim()
-    : rest.trim();
+  const assignPos = rest.indexOf(":=");
+  const typeEnd = parenPos !== -1 && (assignPos === -1 || parenPos < assignPos)
+    ? parenPos
+    : assignPos !== -1 ? assignPos : rest.length;
+  const dataType = rest.substring(0, typeEnd).trim();
+  let afterType = rest.substring(typeEnd);
 
   let attrs: Record<string, string> = {};
-  if (parenPos !== -1) {
+  if (afterType.startsWith("(")) {
     let depth = 0;
     let inQuote = false;
-    let pos = parenPos;
-    while (pos < rest.length) {
-      const ch = rest[pos];
+    let pos = 0;
+    while (pos < afterType.length) {
+      const ch = afterType[pos];
       if (inQuote) {
         if (ch === '"') inQuote = false;
-        else if (ch === "\\" && pos + 1 < rest.length) pos++;
+        else if (ch === "\\" && pos + 1 < afterType.length) pos++;
       } else {
         if (ch === '"') inQuote = true;
         else if (ch === "(") depth++;
         else if (ch === ")") {
           depth--;
           if (depth === 0) {
-            attrs = parseAttributes(rest.substring(parenPos, pos + 1));
+            attrs = parseAttributes(afterType.substring(0, pos + 1));
+            afterType = afterType.substring(pos + 1).trim();
             break;
           }
         }
@@ -860,18 +1487,58 @@ function parseLocalTagDeclaration(decl: string): ParsedAOILocalTag | null {
     }
   }
 
+  // Initial value after `:=`
+  const value = afterType.startsWith(":=") ? afterType.substring(2).trim() : undefined;
+  const data = decodeL5KValue(value, dataType || "Unknown");
+
   return {
     name,
     dataType: dataType || "Unknown",
     radix: attrs["Radix"],
     externalAccess: attrs["ExternalAccess"],
     description: attrs["Description"],
+    defaultValue: data ? formatTagValue(data) ?? value : value,
   };
 }
 
 /**
  * Main entry point: parse L5K text content into ParsedL5XData.
  */
+/**
+ * Report each kind of block the parser skips, once, at its first occurrence.
+ * Structured text is skipped: its END_IF, END_CASE and so on are not blocks.
+ */
+function reportUnknownL5KBlocks(controllerBlock: string, ctx: L5KContext) {
+  const controllerStart = ctx.source.indexOf(controllerBlock);
+  const seen = new Set<string>();
+  const endPattern = /\bEND_([A-Z_]+)\b/g;
+
+  const stRanges = ["ST_ROUTINE", "BODY", "CONDITION"].flatMap((keyword) =>
+    extractBlocks(controllerBlock, keyword).map((block) => {
+      const start = controllerBlock.indexOf(block);
+      return { start, end: start + block.length };
+    })
+  );
+
+  let match: RegExpExecArray | null;
+  while ((match = endPattern.exec(controllerBlock)) !== null) {
+    const keyword = match[1];
+    if (KNOWN_L5K_BLOCKS.has(keyword) || seen.has(keyword)) continue;
+    const offset = match.index;
+    if (stRanges.some((range) => offset > range.start && offset < range.end)) continue;
+    seen.add(keyword);
+
+    const open = controllerBlock.lastIndexOf(keyword, match.index - 1);
+    addDiagnostic(ctx.diagnostics, {
+      severity: "info",
+      code: "unknown-element",
+      message: `${keyword} blocks are not parsed and were skipped`,
+      path: keyword,
+      line: lineAt(ctx.source, controllerStart + (open === -1 ? match.index : open)),
+    });
+  }
+}
+
 export function parseL5K(textContent: string): ParsedL5XData {
   const result: ParsedL5XData = {
     tags: [],
@@ -882,19 +1549,38 @@ export function parseL5K(textContent: string): ParsedL5XData {
     udts: [],
     aois: [],
     tasks: [],
+    programs: [],
+    fbdSheets: [],
+    sfcCharts: [],
+    aoiCalls: [],
+    communications: [],
+    alarms: [],
+    diagnostics: [],
     metadata: {},
   };
+  const ctx: L5KContext = {
+    source: textContent,
+    diagnostics: result.diagnostics,
+    communications: result.communications,
+    alarms: result.alarms,
+  };
 
   try {
     // Extract the CONTROLLER block (the main container)
     const controllerBlocks = extractBlocks(textContent, "CONTROLLER");
     if (controllerBlocks.length === 0) {
-      throw new Error("Invalid L5K file: missing CONTROLLER block");
+      throw new ParseFailure(result.diagnostics, {
+        severity: "error",
+        code: "missing-element",
+        message: "Invalid L5K file: no CONTROLLER block",
+        path: "CONTROLLER",
+      });
     }
     const controllerBlock = controllerBlocks[0];
 
     // Parse controller metadata
     result.metadata = parseL5KController(controllerBlock);
+    reportUnknownL5KBlocks(controllerBlock, ctx);
 
     // Parse controller-scoped tags (TAG blocks directly inside CONTROLLER, not inside PROGRAM)
     // We need to find TAG blocks that are direct children of CONTROLLER, not nested in PROGRAM
@@ -914,28 +1600,55 @@ export function parseL5K(textContent: string): ParsedL5XData {
         }
       }
       if (!isInsideProgram) {
-        result.tags.push(...parseL5KTags(tagBlock, "Controller"));
+        result.tags.push(...parseL5KTags(tagBlock, "Controller", ctx));
       }
     }
 
     // Parse data types (UDTs)
     result.udts = parseL5KDataTypes(controllerBlock);
 
-    // Parse AOIs
-    result.aois = parseL5KAOIs(controllerBlock);
+    // Parse AOIs, listing protected ones by name only
+    const encodedAOIBlocks = extractBlocks(controllerBlock, "ENCODED_DATA")
+      .filter((block) => isEncodedAOI(parseL5KEncodedHeader(block)));
+    result.aois = parseL5KAOIs(withoutBlocks(controllerBlock, encodedAOIBlocks), ctx);
+    for (const block of encodedAOIBlocks) {
+      const attrs = parseL5KEncodedHeader(block);
+      result.aois.push({
+        name: attrs["Name"] || "",
+        description: attrs["Description"],
+        revision: attrs["Revision"],
+        vendor: attrs["Vendor"],
+        parameters: [],
+        localTags: [],
+        routines: [],
+        rungs: [],
+        protection: parseL5KProtection(attrs),
+      });
+    }
 
     // Parse programs (including their tags, routines, rungs)
-    const programData = parseL5KPrograms(controllerBlock);
+    const programData = parseL5KPrograms(controllerBlock, ctx);
+    result.programs = programData.programs;
     result.tags.push(...programData.tags);
     result.routines.push(...programData.routines);
     result.rungs.push(...programData.rungs);
     result.tagReferences.push(...programData.tagRefs);
+    result.fbdSheets.push(...programData.fbdSheets);
+    result.sfcCharts.push(...programData.sfcCharts);
 
     // Parse I/O modules
     result.modules = parseL5KModules(controllerBlock);
 
     // Parse tasks
-    result.tasks = parseL5KTasks(controllerBlock);
+    result.tasks = parseL5KTasks(controllerBlock, ctx);
+    linkProgramTree(result.programs, result.tasks);
+    result.safety = parseL5KSafetyInfo(controllerBlock);
+    resolveSafetyClasses(result);
+    result.aoiCalls = [...findAOICalls(result.rungs, result.aois), ...findFBDAOICalls(result.fbdSheets)];
+    resolveTagReferences(result.tagReferences, indexTags(result.tags));
+    const routineMetrics: RoutineMetricsTally = new Map();
+    tallyRoutineMetrics(routineMetrics, result.rungs, result.tagReferences);
+    applyRoutineMetrics(result.routines, routineMetrics);
 
     return result;
   } catch (error) {
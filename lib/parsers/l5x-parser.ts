@@ -3,17 +3,29 @@ import type {
   ParsedL5XData,
   ParsedTag,
   ParsedIOModule,
+  ParsedIOPort,
+  ParsedIOConnection,
   ParsedRoutine,
   ParsedRung,
   ParsedTagReference,
   ParsedTask,
+  ParsedProgram,
+  ParsedProtection,
   ParsedUDT,
   ParsedUDTMember,
   ParsedAOI,
   ParsedAOIParameter,
   ParsedAOILocalTag,
+  ParsedFBDSheet,
+  ParsedCommunication,
+  ParsedAlarm,
+  ParsedSafetyInfo,
+  FBDElementType,
   L5XRoot,
   L5XTag,
+  L5XAlarmConfig,
+  L5XDatatypeAlarmDefinition,
+  L5XSafetyInfo,
   L5XProgram,
   L5XRoutine,
   L5XRung,
@@ -24,13 +36,57 @@ import type {
   L5XAOI,
   L5XAOIParameter,
   L5XAOILocalTag,
+  L5XFBDSheet,
+  L5XFBDElement,
+  L5XFBDWire,
+  ParsedSFCChart,
+  ParsedSFCNode,
+  SFCNodeType,
+  L5XSFCContent,
+  L5XSFCElement,
+  L5XSTBody,
+  L5XEncodedData,
+  ParsedDiagnostic,
+  LocalizedText,
+  L5XText,
+  L5XLocalizedText,
 } from "./types";
+import { splitSTComments, parseSTRoutineLines, type STSourceLine } from "./st-parser";
+import {
+  buildFBDElement,
+  buildFBDWire,
+  resolveFBDBindings,
+  extractFBDTagReferences,
+} from "./fbd-parser";
+import { parseRungText, extractRungTagUsages, findRungSyntaxError } from "./rung-parser";
+import { decodeL5XTagData, formatTagValue } from "./tag-data";
+import { getPortSlot, getPortIPAddress, getConnectionTagName, getModuleRPI, rpiToMs } from "./io-module";
+import { joinSTBody, extractSFCTagReferences } from "./sfc-parser";
+import { linkProgramTree } from "./program-tree";
+import { parseCommunication } from "./communications";
+import { xmlAttributes, parseFlag } from "./attributes";
+import { ALARM_DATA_TYPES, parseAlarmTag, parseAlarmCondition } from "./alarms";
+import { parseSafetyTagMap, resolveSafetyClasses } from "./safety";
+import { findAOICalls, findFBDAOICalls } from "./aoi-calls";
+import { indexTags, resolveTagReferences } from "./tag-resolution";
+import { applyRoutineMetrics, measureRung, tallyRoutineMetrics, type RoutineMetricsTally } from "./complexity";
+import { addDocumentationLanguages, documentedTypeItems, setDocumentationLanguages } from "./documentation-languages";
+import {
+  addDiagnostic,
+  SUPPORTED_ROUTINE_TYPES,
+  KNOWN_L5X_CONTROLLER_ELEMENTS,
+  KNOWN_L5X_PROGRAM_ELEMENTS,
+  KNOWN_L5X_ROUTINE_ELEMENTS,
+  ParseFailure,
+} from "./diagnostics";
 
 const parser = new XMLParser({
   ignoreAttributes: false,
   attributeNamePrefix: "@_",
   textNodeName: "#text",
   parseAttributeValue: false,
+  // Element positions, for decoding structure members in order (see tag-data)
+  captureMetaData: true,
 });
 
 function ensureArray<T>(value: T | T[] | undefined): T[] {
@@ -38,33 +94,194 @@ function ensureArray<T>(value: T | T[] | undefined): T[] {
   return Array.isArray(value) ? value : [value];
 }
 
-function getDescription(desc: string | { "#text"?: string } | undefined): string | undefined {
+function getLocalizedEntries(desc: L5XText | undefined): L5XLocalizedText[] {
+  if (!desc || typeof desc === "string") return [];
+  return [...ensureArray(desc.LocalizedDescription), ...ensureArray(desc.LocalizedComment)];
+}
+
+/** Description or comment text. Multi-language text yields its first language. */
+function getDescription(desc: L5XText | undefined): string | undefined {
   if (!desc) return undefined;
   if (typeof desc === "string") return desc;
-  return desc["#text"];
+  return desc["#text"] ?? getLocalizedEntries(desc).find((entry) => entry["#text"])?.["#text"];
 }
 
-function parseTag(tag: L5XTag, scope: string): ParsedTag {
+/** Every language of a multi-language description or comment, keyed by its Lang code. */
+function getLocalizedText(desc: L5XText | undefined): LocalizedText | undefined {
+  const entries = getLocalizedEntries(desc).filter((entry) => entry["@_Lang"] && entry["#text"]);
+  if (entries.length === 0) return undefined;
+  return Object.fromEntries(entries.map((entry) => [entry["@_Lang"]!, entry["#text"]!]));
+}
+
+function programPath(programName: string): string {
+  return `Controller/Programs/Program[${programName}]`;
+}
+
+function routinePath(programName: string, routineName: string, containerPath = programPath(programName)): string {
+  return `${containerPath}/Routines/Routine[${routineName}]`;
+}
+
+function aoiPath(aoiName: string): string {
+  return `Controller/AddOnInstructionDefinitions/AddOnInstructionDefinition[${aoiName}]`;
+}
+
+/** Report a child element the parser does not read. Returns false for known names. */
+export function checkL5XElement(
+  name: string,
+  known: Set<string>,
+  path: string,
+  diagnostics: ParsedDiagnostic[]
+): boolean {
+  if (name.startsWith("@_") || name === "#text" || known.has(name)) return false;
+  addDiagnostic(diagnostics, {
+    severity: "info",
+    code: "unknown-element",
+    message: `<${name}> is not parsed and was skipped`,
+    path: `${path}/${name}`,
+  });
+  return true;
+}
+
+function checkL5XElements(element: object, known: Set<string>, path: string, diagnostics: ParsedDiagnostic[]) {
+  for (const name of Object.keys(element)) checkL5XElement(name, known, path, diagnostics);
+}
+
+export function parseTag(tag: L5XTag, scope: string, diagnostics: ParsedDiagnostic[]): ParsedTag {
+  if (!tag["@_DataType"]) {
+    addDiagnostic(diagnostics, {
+      severity: "warning",
+      code: "fallback-default",
+      message: `Tag ${tag["@_Name"] || "(unnamed)"} has no DataType; recorded as Unknown`,
+      path: `${scope === "Controller" ? "Controller" : programPath(scope)}/Tags/Tag[${tag["@_Name"] || ""}]`,
+    });
+  }
+  const data = decodeL5XTagData(tag.Data, tag["@_DataType"] || "Unknown", tag["@_Dimensions"]);
   return {
     name: tag["@_Name"] || "",
     dataType: tag["@_DataType"] || "Unknown",
     scope,
     description: getDescription(tag.Description),
+    descriptions: getLocalizedText(tag.Description),
     aliasFor: tag["@_AliasFor"],
     usage: tag["@_Usage"],
     radix: tag["@_Radix"],
     externalAccess: tag["@_ExternalAccess"],
     dimensions: tag["@_Dimensions"],
-    value: tag.Data ? JSON.stringify(tag.Data) : undefined,
+    value: formatTagValue(data),
+    data,
+    tagClass: tag["@_Class"],
+  };
+}
+
+/** Produced/consumed tag or MESSAGE configuration declared by a tag, if any. */
+export function parseTagCommunication(tag: L5XTag, scope: string): ParsedCommunication | undefined {
+  const message = ensureArray(tag.Data).find((d) => d["@_Format"] === "Message");
+  return parseCommunication(tag["@_Name"] || "", scope, tag["@_DataType"] || "Unknown", tag["@_TagType"], {
+    ...xmlAttributes(tag.ProduceInfo),
+    ...xmlAttributes(tag.ConsumeInfo),
+    ...xmlAttributes(message?.MessageParameters),
+  });
+}
+
+export function parseSafetyInfo(info: L5XSafetyInfo): ParsedSafetyInfo {
+  return {
+    signature: info["@_SafetySignature"] || undefined,
+    locked: parseFlag(info["@_SafetyLocked"]),
+    level: info["@_SafetyLevel"],
+    tagMap: parseSafetyTagMap(getDescription(info.SafetyTagMap)),
   };
 }
 
+/** Alarm message text by message type, in US English where a message has several languages. */
+function getAlarmMessages(config: L5XAlarmConfig | undefined): Record<string, string> {
+  const messages: Record<string, string> = {};
+  for (const message of ensureArray(config?.Messages?.Message)) {
+    const texts = ensureArray(message.Text);
+    const text = texts.find((t) => t["@_Lang"] === "en-US") || texts[0];
+    if (text?.["#text"] !== undefined) messages[message["@_Type"] || ""] = String(text["#text"]);
+  }
+  return messages;
+}
+
+/** ALARM_DIGITAL/ALARM_ANALOG configuration and tag-based alarm conditions on a tag. */
+export function parseTagAlarms(tag: L5XTag, scope: string): ParsedAlarm[] {
+  const name = tag["@_Name"] || "";
+  const dataType = tag["@_DataType"] || "Unknown";
+  const alarms: ParsedAlarm[] = [];
+
+  if (ALARM_DATA_TYPES.has(dataType)) {
+    const data = ensureArray(tag.Data).find((d) => d["@_Format"] === "Alarm");
+    alarms.push(...parseAlarmTag(
+      name,
+      scope,
+      dataType,
+      xmlAttributes(data?.AlarmDigitalParameters || data?.AlarmAnalogParameters),
+      getAlarmMessages(data?.AlarmConfig)
+    ));
+  }
+
+  for (const condition of ensureArray(tag.AlarmConditions?.AlarmCondition)) {
+    const alarm = parseAlarmCondition(
+      "condition",
+      name,
+      scope,
+      dataType,
+      xmlAttributes(condition),
+      getAlarmMessages(condition.AlarmConfig)
+    );
+    if (alarm) alarms.push(alarm);
+  }
+
+  return alarms;
+}
+
+/** Member alarm definitions of one data type; they apply to every tag of that type. */
+export function parseAlarmDefinitions(definition: L5XDatatypeAlarmDefinition): ParsedAlarm[] {
+  const dataType = definition["@_Name"] || "Unknown";
+  return ensureArray(definition.MemberAlarmDefinition).flatMap((member) => {
+    const alarm = parseAlarmCondition(
+      "definition",
+      dataType,
+      "Controller",
+      dataType,
+      xmlAttributes(member),
+      getAlarmMessages(member.AlarmConfig)
+    );
+    return alarm ? [alarm] : [];
+  });
+}
+
+/** Parse a tag together with the communication and alarms it declares. */
+export function collectTag(
+  tag: L5XTag,
+  scope: string,
+  result: Pick<ParsedL5XData, "tags" | "communications" | "alarms" | "diagnostics">
+): void {
+  result.tags.push(parseTag(tag, scope, result.diagnostics));
+  const communication = parseTagCommunication(tag, scope);
+  if (communication) result.communications.push(communication);
+  result.alarms.push(...parseTagAlarms(tag, scope));
+}
+
+function getSTLines(routine: L5XRoutine | L5XSTBody | undefined): STSourceLine[] {
+  return ensureArray(routine?.STContent?.Line).map((line, index) => ({
+    number: line["@_Number"] ? parseInt(line["@_Number"], 10) : index,
+    text: line["#text"] !== undefined ? String(line["#text"]) : "",
+  }));
+}
+
 function parseRoutine(routine: L5XRoutine, programName: string): ParsedRoutine {
   let rungCount: number | undefined;
 
   if (routine.RLLContent?.Rung) {
     const rungs = ensureArray(routine.RLLContent.Rung);
     rungCount = rungs.length;
+  } else if (routine.STContent?.Line) {
+    // ST routines count their code lines as rung equivalents
+    rungCount = splitSTComments(getSTLines(routine)).length;
+  } else if (routine.SFCContent) {
+    // SFC routines count their steps
+    rungCount = ensureArray(routine.SFCContent.Step).length;
   }
 
   return {
@@ -72,24 +289,86 @@ function parseRoutine(routine: L5XRoutine, programName: string): ParsedRoutine {
     programName,
     type: routine["@_Type"] || "Unknown",
     description: getDescription(routine.Description),
+    descriptions: getLocalizedText(routine.Description),
     rungCount,
   };
 }
 
-function parseModule(module: L5XModule): ParsedIOModule {
-  const slot = module["@_Slot"];
+export function parseModule(module: L5XModule): ParsedIOModule {
+  const name = module["@_Name"] || "";
+  const parentModule = module["@_ParentModule"];
+  const ports: ParsedIOPort[] = ensureArray(module.Ports?.Port).map((port) => ({
+    id: parseInt(port["@_Id"] || "0", 10),
+    type: port["@_Type"],
+    address: port["@_Address"],
+    upstream: port["@_Upstream"] === "true",
+  }));
+  const slot = module["@_Slot"] ? parseInt(module["@_Slot"], 10) : getPortSlot(ports);
+
+  // Empty <InputTag/> elements parse to "", so test for presence rather than truthiness
+  const connections: ParsedIOConnection[] = ensureArray(module.Communications?.Connections?.Connection).map((conn) => {
+    const inputSuffix = conn["@_InputTagSuffix"] || (conn.InputTag !== undefined ? "I" : undefined);
+    const outputSuffix = conn["@_OutputTagSuffix"] || (conn.OutputTag !== undefined ? "O" : undefined);
+    return {
+      name: conn["@_Name"],
+      type: conn["@_Type"],
+      rpiMs: rpiToMs(conn["@_RPI"]),
+      inputTag: inputSuffix ? getConnectionTagName(name, parentModule, slot, inputSuffix) : undefined,
+      outputTag: outputSuffix ? getConnectionTagName(name, parentModule, slot, outputSuffix) : undefined,
+    };
+  });
+
   return {
-    name: module["@_Name"] || "",
+    name,
     catalogNumber: module["@_CatalogNumber"],
-    parentModule: module["@_ParentModule"],
-    slot: slot ? parseInt(slot, 10) : undefined,
+    parentModule,
+    parentPortId: toOptionalNumber(module["@_ParentModPortId"]),
+    slot,
+    vendorId: toOptionalNumber(module["@_Vendor"]),
+    productType: toOptionalNumber(module["@_ProductType"]),
+    productCode: toOptionalNumber(module["@_ProductCode"]),
+    majorRevision: toOptionalNumber(module["@_Major"]),
+    minorRevision: toOptionalNumber(module["@_Minor"]),
+    electronicKeying: module.EKey?.["@_State"],
+    inhibited: module["@_Inhibited"] === "true",
+    majorFault: module["@_MajorFault"] === "true",
+    ipAddress: getPortIPAddress(ports),
+    rpiMs: getModuleRPI(connections),
+    ports,
+    connections,
     connectionInfo: module.Communications
       ? { communications: module.Communications }
       : undefined,
   };
 }
 
-function parseTask(task: L5XTask): ParsedTask {
+export function parseProgram(program: L5XProgram): ParsedProgram {
+  return {
+    name: program["@_Name"] || "Unknown",
+    description: getDescription(program.Description),
+    descriptions: getLocalizedText(program.Description),
+    mainRoutineName: program["@_MainRoutineName"] || undefined,
+    faultRoutineName: program["@_FaultRoutineName"] || undefined,
+    disabled: program["@_Disabled"] === "true",
+    useAsFolder: program["@_UseAsFolder"] === "true",
+    testEdits: program["@_TestEdits"] === "true",
+    programClass: program["@_Class"],
+    childPrograms: ensureArray(program.ChildPrograms?.ChildProgram)
+      .map((child) => child["@_Name"] || "")
+      .filter(Boolean),
+  };
+}
+
+export function parseTask(task: L5XTask, diagnostics: ParsedDiagnostic[]): ParsedTask {
+  if (!task["@_Type"]) {
+    addDiagnostic(diagnostics, {
+      severity: "warning",
+      code: "fallback-default",
+      message: `Task ${task["@_Name"] || "(unnamed)"} has no Type; assumed CONTINUOUS`,
+      path: `Controller/Tasks/Task[${task["@_Name"] || ""}]`,
+    });
+  }
+
   const scheduledPrograms = ensureArray(task.ScheduledPrograms?.ScheduledProgram)
     .map((sp) => sp["@_Name"] || "")
     .filter(Boolean);
@@ -104,105 +383,50 @@ function parseTask(task: L5XTask): ParsedTask {
     disableUpdateOutputs: task["@_DisableUpdateOutputs"] === "true",
     description: getDescription(task.Description),
     scheduledPrograms,
+    taskClass: task["@_Class"],
   };
 }
 
-export function extractTagReferences(rungText: string): string[] {
-  if (!rungText) return [];
-
-  // Pattern to match tag references in ladder logic
-  // Tags can contain letters, numbers, underscores, and array brackets
-  // Common patterns: TagName, TagName.Member, TagName[0], Local:1:I.Data[0]
-  const tagPattern = /(?<![a-zA-Z0-9_])([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*(?:\[[^\]]+\])?(?:\.[A-Za-z0-9_]+)*)/g;
-
-  const matches = rungText.match(tagPattern) || [];
-
-  // Filter out instruction names (common ladder logic instructions)
-  const instructions = new Set([
-    'XIC', 'XIO', 'OTE', 'OTL', 'OTU', 'ONS', 'OSR', 'OSF',
-    'TON', 'TOF', 'RTO', 'CTU', 'CTD', 'RES', 'ADD', 'SUB',
-    'MUL', 'DIV', 'MOD', 'NEG', 'ABS', 'SQR', 'CPT', 'MOV',
-    'MVM', 'CLR', 'SWPB', 'AND', 'OR', 'XOR', 'NOT', 'CMP',
-    'EQU', 'NEQ', 'GRT', 'GEQ', 'LES', 'LEQ', 'LIM', 'MEQ',
-    'JSR', 'RET', 'SBR', 'JMP', 'LBL', 'MCR', 'AFI', 'NOP',
-    'TND', 'UID', 'UIE', 'SFR', 'SFP', 'EOT', 'EVENT', 'MSG',
-    'GSV', 'SSV', 'PSC', 'PFL', 'IOT', 'PCMD', 'PDET', 'ABL',
-    'ACB', 'ACL', 'AHL', 'ARD', 'ARL', 'AWA', 'AWT', 'COP',
-    'CPS', 'FLL', 'AVE', 'SRT', 'STD', 'SIZE', 'FAL', 'FSC',
-    'FBC', 'DDT', 'DTR', 'PID', 'PIDE', 'PMUL', 'SCRV', 'PI',
-    'POSP', 'RMPS', 'SRTP', 'LDLG', 'FGEN', 'TOT', 'DEDT',
-    'D2SD', 'D3SD', 'DERV', 'HPF', 'LPF', 'NTCH', 'LDL2',
-    'SOC', 'UPDN', 'INTG', 'RESD', 'HLL', 'RLIM', 'SNEG',
-    'MAVE', 'MSTD', 'MINC', 'MAXC', 'SCL', 'SETD', 'BAND',
-    'BNOT', 'BOR', 'BXOR', 'MVMT', 'BTDT', 'DFF', 'JKFF',
-    'OSRI', 'OSFI', 'TONR', 'TOFR', 'RTOR', 'CTUD',
-  ]);
-
-  const uniqueTags = [...new Set(matches)].filter(tag => {
-    const baseTag = tag.split('.')[0].split('[')[0].toUpperCase();
-    return !instructions.has(baseTag);
-  });
-
-  return uniqueTags;
-}
-
-export function determineUsageType(rungText: string, tagName: string): "read" | "write" | "both" {
-  if (!rungText || !tagName) return "read";
-
-  // Escape special regex characters in tag name
-  const escapedTag = tagName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-  // Check for write operations (output instructions typically)
-  const writePatterns = [
-    new RegExp(`OTE\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`OTL\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`OTU\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`MOV\\s*\\([^,]+,\\s*${escapedTag}`, 'i'),
-    new RegExp(`ADD\\s*\\([^,]+,[^,]+,\\s*${escapedTag}`, 'i'),
-    new RegExp(`SUB\\s*\\([^,]+,[^,]+,\\s*${escapedTag}`, 'i'),
-    new RegExp(`MUL\\s*\\([^,]+,[^,]+,\\s*${escapedTag}`, 'i'),
-    new RegExp(`DIV\\s*\\([^,]+,[^,]+,\\s*${escapedTag}`, 'i'),
-    new RegExp(`COP\\s*\\([^,]+,\\s*${escapedTag}`, 'i'),
-    new RegExp(`FLL\\s*\\([^,]+,\\s*${escapedTag}`, 'i'),
-    new RegExp(`CLR\\s*\\(\\s*${escapedTag}`, 'i'),
-  ];
-
-  // Check for read operations (input instructions typically)
-  const readPatterns = [
-    new RegExp(`XIC\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`XIO\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`EQU\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`NEQ\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`GRT\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`GEQ\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`LES\\s*\\(\\s*${escapedTag}`, 'i'),
-    new RegExp(`LEQ\\s*\\(\\s*${escapedTag}`, 'i'),
-  ];
-
-  const isWrite = writePatterns.some(p => p.test(rungText));
-  const isRead = readPatterns.some(p => p.test(rungText));
-
-  if (isWrite && isRead) return "both";
-  if (isWrite) return "write";
-  return "read";
-}
-
-function parseRung(
+export function parseRung(
   rung: L5XRung,
   routineName: string,
-  programName: string
+  programName: string,
+  diagnostics: ParsedDiagnostic[],
+  containerPath = programPath(programName)
 ): { parsedRung: ParsedRung; tagRefs: ParsedTagReference[] } {
   const number = parseInt(rung["@_Number"] || "0", 10);
   const comment = getDescription(rung.Comment);
   const content = getDescription(rung.Text) || "";
-  const tagReferences = extractTagReferences(content);
+  const path = `${routinePath(programName, routineName, containerPath)}/RLLContent/Rung${rung["@_Number"] !== undefined ? `[${number}]` : ""}`;
+
+  if (rung["@_Number"] === undefined) {
+    addDiagnostic(diagnostics, {
+      severity: "warning",
+      code: "fallback-default",
+      message: `Rung in ${routineName} has no Number; numbered 0`,
+      path,
+    });
+  }
+  const syntaxError = findRungSyntaxError(content);
+  if (syntaxError) {
+    addDiagnostic(diagnostics, {
+      severity: "warning",
+      code: "unparseable-rung",
+      message: `Rung ${number} of ${routineName}: ${syntaxError}; tag references may be incomplete`,
+      path,
+    });
+  }
+  const elements = parseRungText(content);
+  const usages = extractRungTagUsages(elements);
+  const tagReferences = usages.map((u) => u.tagName);
 
-  const tagRefs: ParsedTagReference[] = tagReferences.map(tagName => ({
-    tagName,
+  const tagRefs: ParsedTagReference[] = usages.map((u) => ({
+    tagName: u.tagName,
     routineName,
     programName,
     rungNumber: number,
-    usageType: determineUsageType(content, tagName),
+    usageType: u.usageType,
+    writeInstructions: u.writeInstructions,
   }));
 
   return {
@@ -212,12 +436,145 @@ function parseRung(
       programName,
       content,
       comment,
+      comments: getLocalizedText(rung.Comment),
       tagReferences,
+      metrics: measureRung(elements, content, tagReferences),
     },
     tagRefs,
   };
 }
 
+function toFBDElementAttributes(element: L5XFBDElement) {
+  return {
+    ID: element["@_ID"],
+    X: element["@_X"],
+    Y: element["@_Y"],
+    Operand: element["@_Operand"],
+    Name: element["@_Name"],
+    Type: element["@_Type"],
+    VisiblePins: element["@_VisiblePins"],
+  };
+}
+
+function toFBDWireAttributes(wire: L5XFBDWire) {
+  return {
+    FromID: wire["@_FromID"],
+    FromParam: wire["@_FromParam"],
+    ToID: wire["@_ToID"],
+    ToParam: wire["@_ToParam"],
+  };
+}
+
+const FBD_ELEMENT_KEYS: Array<[keyof L5XFBDSheet, FBDElementType]> = [
+  ["IRef", "IRef"],
+  ["ORef", "ORef"],
+  ["ICon", "ICon"],
+  ["OCon", "OCon"],
+  ["Block", "Block"],
+  ["Function", "Function"],
+  ["AddOnInstruction", "AddOnInstruction"],
+];
+
+function parseFBDSheet(sheet: L5XFBDSheet, index: number, routineName: string, programName: string): ParsedFBDSheet {
+  const elements = FBD_ELEMENT_KEYS.flatMap(([key, elementType]) =>
+    ensureArray(sheet[key] as L5XFBDElement | L5XFBDElement[] | undefined).map((element) =>
+      buildFBDElement(
+        elementType,
+        toFBDElementAttributes(element),
+        ensureArray(element.InOutParameter).map((p) => ({
+          name: p["@_Name"] || "",
+          argument: p["@_Argument"] || "",
+        }))
+      )
+    )
+  );
+
+  const wires = [
+    ...ensureArray(sheet.Wire).map((w) => buildFBDWire(toFBDWireAttributes(w), false)),
+    ...ensureArray(sheet.FeedbackWire).map((w) => buildFBDWire(toFBDWireAttributes(w), true)),
+  ];
+
+  const parsedSheet: ParsedFBDSheet = {
+    routineName,
+    programName,
+    number: sheet["@_Number"] ? parseInt(sheet["@_Number"], 10) : index + 1,
+    description: getDescription(sheet.Description),
+    elements: elements.sort((a, b) => a.id - b.id),
+    wires,
+  };
+  resolveFBDBindings(parsedSheet);
+
+  return parsedSheet;
+}
+
+const SFC_NODE_KEYS: Array<[keyof L5XSFCContent, SFCNodeType]> = [
+  ["Step", "Step"],
+  ["Transition", "Transition"],
+  ["Branch", "Branch"],
+  ["Stop", "Stop"],
+  ["SbrRet", "SbrRet"],
+];
+
+function toOptionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+}
+
+function parseSFCChart(content: L5XSFCContent, routineName: string, programName: string): ParsedSFCChart {
+  const nodes: ParsedSFCNode[] = [];
+
+  for (const [key, nodeType] of SFC_NODE_KEYS) {
+    for (const element of ensureArray(content[key] as L5XSFCElement | L5XSFCElement[] | undefined)) {
+      const id = parseInt(element["@_ID"] || "0", 10);
+      const conditionLines = getSTLines(element.Condition).map((l) => l.text);
+
+      nodes.push({
+        id,
+        nodeType,
+        name: element["@_Operand"] || undefined,
+        x: toOptionalNumber(element["@_X"]),
+        y: toOptionalNumber(element["@_Y"]),
+        initialStep: nodeType === "Step" ? element["@_InitialStep"] === "true" : undefined,
+        branchType: element["@_BranchType"],
+        branchFlow: element["@_BranchFlow"],
+        condition: conditionLines.length > 0 ? joinSTBody(conditionLines) : undefined,
+        actions: ensureArray(element.Action).map((action) => ({
+          id: parseInt(action["@_ID"] || "0", 10),
+          name: action["@_Operand"] || "",
+          qualifier: action["@_Qualifier"],
+          isBoolean: action["@_IsBoolean"] === "true",
+          body: joinSTBody(getSTLines(action.Body).map((l) => l.text)),
+        })),
+      });
+
+      // Legs are addressable link endpoints inside a branch
+      if (nodeType === "Branch") {
+        for (const leg of ensureArray(element.Leg)) {
+          nodes.push({
+            id: parseInt(leg["@_ID"] || "0", 10),
+            nodeType: "Leg",
+            branchId: id,
+            actions: [],
+          });
+        }
+      }
+    }
+  }
+
+  const links = ensureArray(content.DirectedLink).map((link) => ({
+    fromId: parseInt(link["@_FromID"] || "0", 10),
+    toId: parseInt(link["@_ToID"] || "0", 10),
+  }));
+
+  return {
+    routineName,
+    programName,
+    nodes: nodes.sort((a, b) => a.id - b.id),
+    links,
+  };
+}
+
 function parseUDTMember(member: L5XUDTMember): ParsedUDTMember {
   return {
     name: member["@_Name"] || "",
@@ -226,15 +583,17 @@ function parseUDTMember(member: L5XUDTMember): ParsedUDTMember {
     radix: member["@_Radix"],
     externalAccess: member["@_ExternalAccess"],
     description: getDescription(member.Description),
+    descriptions: getLocalizedText(member.Description),
   };
 }
 
-function parseUDT(udt: L5XUDT): ParsedUDT {
+export function parseUDT(udt: L5XUDT): ParsedUDT {
   const members = ensureArray(udt.Members?.Member).map(parseUDTMember);
 
   return {
     name: udt["@_Name"] || "",
     description: getDescription(udt.Description),
+    descriptions: getLocalizedText(udt.Description),
     familyType: udt["@_Family"],
     members,
   };
@@ -249,7 +608,9 @@ function parseAOIParameter(param: L5XAOIParameter): ParsedAOIParameter {
     visible: param["@_Visible"] !== "false",
     externalAccess: param["@_ExternalAccess"],
     description: getDescription(param.Description),
-    defaultValue: getDescription(param.DefaultValue),
+    descriptions: getLocalizedText(param.Description),
+    defaultValue: getDescription(param.DefaultValue) ??
+      formatTagValue(decodeL5XTagData(param.DefaultData, param["@_DataType"] || "Unknown")),
   };
 }
 
@@ -260,17 +621,32 @@ function parseAOILocalTag(localTag: L5XAOILocalTag): ParsedAOILocalTag {
     radix: localTag["@_Radix"],
     externalAccess: localTag["@_ExternalAccess"],
     description: getDescription(localTag.Description),
+    defaultValue: formatTagValue(decodeL5XTagData(localTag.DefaultData, localTag["@_DataType"] || "Unknown")),
   };
 }
 
-function parseAOI(aoi: L5XAOI): ParsedAOI {
+export function parseAOI(aoi: L5XAOI, diagnostics: ParsedDiagnostic[]): ParsedAOI {
+  const aoiName = aoi["@_Name"] || "AOI";
   const parameters = ensureArray(aoi.Parameters?.Parameter).map(parseAOIParameter);
   const localTags = ensureArray(aoi.LocalTags?.LocalTag).map(parseAOILocalTag);
-  const routines = ensureArray(aoi.Routines?.Routine).map(r => parseRoutine(r, aoi["@_Name"] || "AOI"));
+  const routines = ensureArray(aoi.Routines?.Routine).map(r => parseRoutine(r, aoiName));
+
+  // Keep the AOI's own logic; its tag references are to parameters and local tags, so none are recorded
+  const rungs: ParsedRung[] = [];
+  for (const routine of ensureArray(aoi.Routines?.Routine)) {
+    const routineName = routine["@_Name"] || "Unknown";
+    for (const rung of ensureArray(routine.RLLContent?.Rung) as L5XRung[]) {
+      rungs.push(parseRung(rung, routineName, aoiName, diagnostics, aoiPath(aoiName)).parsedRung);
+    }
+    if (routine.STContent?.Line) {
+      rungs.push(...parseSTRoutineLines(getSTLines(routine), routineName, aoiName).parsedRungs);
+    }
+  }
 
   return {
     name: aoi["@_Name"] || "",
     description: getDescription(aoi.Description),
+    descriptions: getLocalizedText(aoi.Description),
     revision: aoi["@_Revision"],
     vendor: aoi["@_Vendor"],
     executePrescan: aoi["@_ExecutePrescan"] === "true",
@@ -283,9 +659,110 @@ function parseAOI(aoi: L5XAOI): ParsedAOI {
     parameters,
     localTags,
     routines,
+    rungs,
   };
 }
 
+function parseProtection(encoded: L5XEncodedData): ParsedProtection {
+  return {
+    kind: encoded["@_LicenseID"] ? "License" : "SourceKey",
+    encodedType: encoded["@_EncodedType"] || "Unknown",
+    encryptionConfig: encoded["@_EncryptionConfig"],
+  };
+}
+
+/** A protected routine keeps its name and type; its logic is unreadable. */
+export function parseEncodedRoutine(encoded: L5XEncodedData, programName: string): ParsedRoutine {
+  return {
+    name: encoded["@_Name"] || "Unknown",
+    programName,
+    type: encoded["@_Type"] || "Unknown",
+    description: getDescription(encoded.Description),
+    descriptions: getLocalizedText(encoded.Description),
+    protection: parseProtection(encoded),
+  };
+}
+
+/** A protected AOI still exposes its description and parameter interface. */
+export function parseEncodedAOI(encoded: L5XEncodedData): ParsedAOI {
+  return {
+    name: encoded["@_Name"] || "",
+    description: getDescription(encoded.Description),
+    descriptions: getLocalizedText(encoded.Description),
+    revision: encoded["@_Revision"],
+    vendor: encoded["@_Vendor"],
+    parameters: ensureArray(encoded.Parameters?.Parameter).map(parseAOIParameter),
+    localTags: [],
+    routines: [],
+    rungs: [],
+    protection: parseProtection(encoded),
+  };
+}
+
+/**
+ * Parse a program routine along with its rungs, ST lines, FBD sheets or SFC
+ * chart, appending everything it yields to `result`.
+ */
+export function collectRoutine(
+  routine: L5XRoutine,
+  programName: string,
+  result: Pick<ParsedL5XData, "routines" | "rungs" | "tagReferences" | "fbdSheets" | "sfcCharts" | "diagnostics">
+): void {
+  const routineName = routine["@_Name"] || "Unknown";
+  const routineType = routine["@_Type"];
+  const path = routinePath(programName, routineName);
+  result.routines.push(parseRoutine(routine, programName));
+
+  checkL5XElements(routine, KNOWN_L5X_ROUTINE_ELEMENTS, path, result.diagnostics);
+  if (!routineType) {
+    addDiagnostic(result.diagnostics, {
+      severity: "warning",
+      code: "fallback-default",
+      message: `Routine ${routineName} has no Type; recorded as Unknown`,
+      path,
+    });
+  } else if (!SUPPORTED_ROUTINE_TYPES.has(routineType)) {
+    addDiagnostic(result.diagnostics, {
+      severity: "error",
+      code: "unsupported-routine-type",
+      message: `Routine ${routineName} has unsupported type ${routineType}; its logic was not parsed`,
+      path,
+    });
+  }
+
+  // Parse rungs for ladder logic routines
+  if (routine.RLLContent?.Rung) {
+    const rungs = ensureArray(routine.RLLContent.Rung) as L5XRung[];
+    for (const rung of rungs) {
+      const { parsedRung, tagRefs } = parseRung(rung, routineName, programName, result.diagnostics);
+      result.rungs.push(parsedRung);
+      result.tagReferences.push(...tagRefs);
+    }
+  }
+
+  // Parse lines for structured text routines
+  if (routine.STContent?.Line) {
+    const { parsedRungs, tagRefs } = parseSTRoutineLines(getSTLines(routine), routineName, programName);
+    result.rungs.push(...parsedRungs);
+    result.tagReferences.push(...tagRefs);
+  }
+
+  // Parse sheets for function block diagram routines
+  const sheets = ensureArray(routine.FBDContent?.Sheet);
+  sheets.forEach((sheet, index) => {
+    const parsedSheet = parseFBDSheet(sheet, index, routineName, programName);
+    result.fbdSheets.push(parsedSheet);
+    result.tagReferences.push(...extractFBDTagReferences(parsedSheet));
+  });
+
+  // Parse the step/transition graph for sequential function charts
+  if (routine.SFCContent) {
+    const chart = parseSFCChart(routine.SFCContent, routineName, programName);
+    result.sfcCharts.push(chart);
+    result.tagReferences.push(...extractSFCTagReferences(chart));
+  }
+}
+
 export function parseL5X(xmlContent: string): ParsedL5XData {
   const result: ParsedL5XData = {
     tags: [],
@@ -296,6 +773,13 @@ export function parseL5X(xmlContent: string): ParsedL5XData {
     udts: [],
     aois: [],
     tasks: [],
+    programs: [],
+    fbdSheets: [],
+    sfcCharts: [],
+    aoiCalls: [],
+    communications: [],
+    alarms: [],
+    diagnostics: [],
     metadata: {},
   };
 
@@ -303,8 +787,13 @@ export function parseL5X(xmlContent: string): ParsedL5XData {
     const parsed: L5XRoot = parser.parse(xmlContent);
 
     const content = parsed.RSLogix5000Content;
-    if (!content) {
-      throw new Error("Invalid L5X file: missing RSLogix5000Content");
+    if (content === undefined) {
+      throw new ParseFailure(result.diagnostics, {
+        severity: "error",
+        code: "missing-element",
+        message: "Invalid L5X file: no RSLogix5000Content root element",
+        path: "RSLogix5000Content",
+      });
     }
 
     // Extract metadata
@@ -314,17 +803,32 @@ export function parseL5X(xmlContent: string): ParsedL5XData {
 
     const controller = content.Controller;
     if (!controller) {
-      throw new Error("Invalid L5X file: missing Controller");
+      throw new ParseFailure(result.diagnostics, {
+        severity: "error",
+        code: "missing-element",
+        message: "Invalid L5X file: no Controller element under RSLogix5000Content",
+        path: "RSLogix5000Content/Controller",
+      });
     }
 
     result.metadata.projectName = controller["@_Name"];
     result.metadata.processorType = controller["@_ProcessorType"];
     result.metadata.softwareRevision = controller["@_SoftwareRevision"];
+    checkL5XElements(controller, KNOWN_L5X_CONTROLLER_ELEMENTS, "Controller", result.diagnostics);
+
+    if (controller.SafetyInfo) {
+      result.safety = parseSafetyInfo(controller.SafetyInfo);
+    }
+
+    // Parse member alarm definitions of data types (tag-based alarms)
+    for (const definition of ensureArray(controller.AlarmDefinitions?.DatatypeAlarmDefinition)) {
+      result.alarms.push(...parseAlarmDefinitions(definition));
+    }
 
     // Parse controller-scoped tags
     const controllerTags = ensureArray(controller.Tags?.Tag);
     for (const tag of controllerTags) {
-      result.tags.push(parseTag(tag, "Controller"));
+      collectTag(tag, "Controller", result);
     }
 
     // Parse User Defined Types (UDTs)
@@ -339,35 +843,33 @@ export function parseL5X(xmlContent: string): ParsedL5XData {
     // Parse Add-On Instructions (AOIs)
     const aois = ensureArray(controller.AddOnInstructionDefinitions?.AddOnInstructionDefinition);
     for (const aoi of aois) {
-      result.aois.push(parseAOI(aoi));
+      result.aois.push(parseAOI(aoi, result.diagnostics));
+    }
+    for (const encoded of ensureArray(controller.AddOnInstructionDefinitions?.EncodedData)) {
+      result.aois.push(parseEncodedAOI(encoded));
     }
 
     // Parse programs and their tags/routines/rungs
     const programs = ensureArray(controller.Programs?.Program);
     for (const program of programs) {
       const programName = program["@_Name"] || "Unknown";
+      result.programs.push(parseProgram(program));
+      checkL5XElements(program, KNOWN_L5X_PROGRAM_ELEMENTS, programPath(programName), result.diagnostics);
 
       // Program-scoped tags
       const programTags = ensureArray(program.Tags?.Tag);
       for (const tag of programTags) {
-        result.tags.push(parseTag(tag, programName));
+        collectTag(tag, programName, result);
       }
 
       // Program routines and rungs
-      const routines = ensureArray(program.Routines?.Routine);
-      for (const routine of routines) {
-        const routineName = routine["@_Name"] || "Unknown";
-        result.routines.push(parseRoutine(routine, programName));
-
-        // Parse rungs for ladder logic routines
-        if (routine.RLLContent?.Rung) {
-          const rungs = ensureArray(routine.RLLContent.Rung) as L5XRung[];
-          for (const rung of rungs) {
-            const { parsedRung, tagRefs } = parseRung(rung, routineName, programName);
-            result.rungs.push(parsedRung);
-            result.tagReferences.push(...tagRefs);
-          }
-        }
+      for (const routine of ensureArray(program.Routines?.Routine)) {
+        collectRoutine(routine, programName, result);
+      }
+
+      // Protected routines are listed without logic
+      for (const encoded of ensureArray(program.Routines?.EncodedData)) {
+        result.routines.push(parseEncodedRoutine(encoded, programName));
       }
     }
 
@@ -380,8 +882,19 @@ export function parseL5X(xmlContent: string): ParsedL5XData {
     // Parse tasks
     const tasks = ensureArray(controller.Tasks?.Task);
     for (const task of tasks) {
-      result.tasks.push(parseTask(task));
+      result.tasks.push(parseTask(task, result.diagnostics));
     }
+    linkProgramTree(result.programs, result.tasks);
+    resolveSafetyClasses(result);
+    result.aoiCalls = [...findAOICalls(result.rungs, result.aois), ...findFBDAOICalls(result.fbdSheets)];
+    resolveTagReferences(result.tagReferences, indexTags(result.tags));
+    const routineMetrics: RoutineMetricsTally = new Map();
+    tallyRoutineMetrics(routineMetrics, result.rungs, result.tagReferences);
+    applyRoutineMetrics(result.routines, routineMetrics);
+    const languages = new Set<string>();
+    addDocumentationLanguages(languages, [...result.tags, ...result.rungs, ...result.routines, ...result.programs]);
+    addDocumentationLanguages(languages, documentedTypeItems(result.udts, result.aois));
+    setDocumentationLanguages(result.metadata, languages);
 
     return result;
   } catch (error) {
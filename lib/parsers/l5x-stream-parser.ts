@@ -0,0 +1,419 @@
+import { Parser } from "htmlparser2";
+import type {
+  ParsedL5XData,
+  ParsedTag,
+  ParsedRung,
+  ParsedTagReference,
+  L5XTag,
+  L5XProgram,
+  L5XRoutine,
+  L5XRung,
+  L5XModule,
+  L5XTask,
+  L5XUDT,
+  L5XAOI,
+  L5XEncodedData,
+  L5XDatatypeAlarmDefinition,
+  L5XSafetyInfo,
+} from "./types";
+import {
+  collectTag,
+  parseModule,
+  parseProgram,
+  parseTask,
+  parseUDT,
+  parseAOI,
+  parseEncodedAOI,
+  parseEncodedRoutine,
+  parseRung,
+  collectRoutine,
+  checkL5XElement,
+  parseAlarmDefinitions,
+  parseSafetyInfo,
+} from "./l5x-parser";
+import { resolveSafetyClasses } from "./safety";
+import { findAOICalls, findFBDAOICalls } from "./aoi-calls";
+import { addToTagIndex, resolveTagReferences, type TagIndex } from "./tag-resolution";
+import { applyRoutineMetrics, tallyRoutineMetrics, type RoutineMetricsTally } from "./complexity";
+import { addDocumentationLanguages, documentedTypeItems, setDocumentationLanguages } from "./documentation-languages";
+import { linkProgramTree } from "./program-tree";
+import { XML_METADATA } from "./tag-data";
+import { KNOWN_L5X_CONTROLLER_ELEMENTS, KNOWN_L5X_PROGRAM_ELEMENTS, ParseFailure } from "./diagnostics";
+
+/**
+ * Streaming L5X parser for controller exports too large to hold in memory as
+ * one string and one object tree.
+ *
+ * The XML is read with a SAX parser. Only one unit element at a time (a tag,
+ * routine, module, data type, AOI or task) is built into a small subtree with
+ * the same shape fast-xml-parser produces, and that subtree goes through the
+ * regular L5X element parsers. Tags, rungs and tag references, which make up
+ * the bulk of a large export, are handed to the sink in batches instead of
+ * being kept; everything else is small enough to return as usual.
+ */
+
+export interface L5XStreamSink {
+  onTags(tags: ParsedTag[]): Promise<void>;
+  onRungs(rungs: ParsedRung[]): Promise<void>;
+  onTagReferences(tagReferences: ParsedTagReference[]): Promise<void>;
+}
+
+export interface L5XStreamResult {
+  /** Parsed content; `tags`, `rungs` and `tagReferences` are left empty since they went to the sink */
+  data: ParsedL5XData;
+  counts: { tags: number; rungs: number; tagReferences: number };
+}
+
+type ElementValue = string | ElementNode | ElementValue[];
+
+interface ElementNode {
+  [key: string]: ElementValue;
+}
+
+interface OpenElement {
+  name: string;
+  node: ElementNode;
+  hasContent: boolean;
+  text: string;
+  pendingText: string;
+}
+
+type UnitKind =
+  | "controllerTag"
+  | "dataType"
+  | "aoi"
+  | "encodedAOI"
+  | "programTag"
+  | "programPart"
+  | "routine"
+  | "encodedRoutine"
+  | "module"
+  | "task"
+  | "alarmDefinition"
+  | "safetyInfo";
+
+/** Elements built as a subtree, by path below RSLogix5000Content/Controller */
+const UNIT_PATHS: Record<string, UnitKind> = {
+  "Tags/Tag": "controllerTag",
+  "DataTypes/DataType": "dataType",
+  "AddOnInstructionDefinitions/AddOnInstructionDefinition": "aoi",
+  "AddOnInstructionDefinitions/EncodedData": "encodedAOI",
+  "Programs/Program/Tags/Tag": "programTag",
+  "Programs/Program/Description": "programPart",
+  "Programs/Program/ChildPrograms": "programPart",
+  "Programs/Program/Routines/Routine": "routine",
+  "Programs/Program/Routines/EncodedData": "encodedRoutine",
+  "Modules/Module": "module",
+  "Tasks/Task": "task",
+  "AlarmDefinitions/DatatypeAlarmDefinition": "alarmDefinition",
+  SafetyInfo: "safetyInfo",
+};
+
+const PROGRAM_PATH = "Programs/Program";
+
+function addChild(parent: ElementNode, name: string, value: ElementValue) {
+  const existing = parent[name];
+  if (existing === undefined) {
+    parent[name] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    parent[name] = [existing, value];
+  }
+}
+
+// Like fast-xml-parser, plain text is trimmed and whitespace-only text is
+// dropped, while CDATA content is kept exactly as written
+function flushText(element: OpenElement) {
+  const text = element.pendingText.trim();
+  if (text) element.text += text;
+  element.pendingText = "";
+}
+
+function toValue(element: OpenElement): ElementValue {
+  flushText(element);
+  if (!element.hasContent) return element.text;
+  if (element.text) element.node["#text"] = element.text;
+  return element.node;
+}
+
+export async function parseL5XStream(
+  stream: ReadableStream<Uint8Array>,
+  sink: L5XStreamSink,
+  options: { batchSize?: number } = {}
+): Promise<L5XStreamResult> {
+  const batchSize = options.batchSize ?? 500;
+  const data: ParsedL5XData = {
+    tags: [],
+    modules: [],
+    routines: [],
+    rungs: [],
+    tagReferences: [],
+    udts: [],
+    aois: [],
+    tasks: [],
+    programs: [],
+    fbdSheets: [],
+    sfcCharts: [],
+    aoiCalls: [],
+    communications: [],
+    alarms: [],
+    diagnostics: [],
+    metadata: {},
+  };
+  const pending: Pick<ParsedL5XData, "tags" | "rungs" | "tagReferences"> = {
+    tags: [],
+    rungs: [],
+    tagReferences: [],
+  };
+  const routineTarget = {
+    routines: data.routines,
+    rungs: pending.rungs,
+    tagReferences: pending.tagReferences,
+    fbdSheets: data.fbdSheets,
+    sfcCharts: data.sfcCharts,
+    diagnostics: data.diagnostics,
+  };
+  const tagTarget = {
+    tags: pending.tags,
+    communications: data.communications,
+    alarms: data.alarms,
+    diagnostics: data.diagnostics,
+  };
+  const counts = { tags: 0, rungs: 0, tagReferences: 0 };
+  // Names, scopes and aliases only, so references resolve after the tags went to the sink
+  const tagIndex: TagIndex = new Map();
+  // Rungs and references leave in batches, so routine figures are tallied as they go
+  const routineMetrics: RoutineMetricsTally = new Map();
+  const languages = new Set<string>();
+
+  const path: string[] = [];
+  const building: OpenElement[] = [];
+  let unit: UnitKind | undefined;
+  let program: ElementNode | undefined;
+  let programName = "Unknown";
+  let routineRungCount = 0;
+  let inCdata = false;
+  let hasContent = false;
+  let hasController = false;
+  let hasSafetyTags = false;
+
+  function completeUnit(kind: UnitKind, name: string, value: ElementValue) {
+    if (kind === "programPart") {
+      if (program) addChild(program, name, value);
+      return;
+    }
+    if (typeof value === "string" || Array.isArray(value)) return;
+    switch (kind) {
+      case "controllerTag":
+      case "programTag":
+        collectTag(value as L5XTag, kind === "controllerTag" ? "Controller" : programName, tagTarget);
+        if ((value as L5XTag)["@_Class"] === "Safety") hasSafetyTags = true;
+        break;
+      case "dataType":
+        // Only parse UDTs that have members (not predefined types)
+        if ((value as L5XUDT).Members) data.udts.push(parseUDT(value as L5XUDT));
+        break;
+      case "aoi":
+        data.aois.push(parseAOI(value as L5XAOI, data.diagnostics));
+        break;
+      case "encodedAOI":
+        data.aois.push(parseEncodedAOI(value as L5XEncodedData));
+        break;
+      case "routine":
+        collectRoutine(value as L5XRoutine, programName, routineTarget);
+        if (routineRungCount > 0) data.routines[data.routines.length - 1].rungCount = routineRungCount;
+        routineRungCount = 0;
+        break;
+      case "encodedRoutine":
+        data.routines.push(parseEncodedRoutine(value as L5XEncodedData, programName));
+        break;
+      case "module":
+        data.modules.push(parseModule(value as L5XModule));
+        break;
+      case "task":
+        data.tasks.push(parseTask(value as L5XTask, data.diagnostics));
+        break;
+      case "safetyInfo":
+        data.safety = parseSafetyInfo(value as L5XSafetyInfo);
+        break;
+      case "alarmDefinition":
+        data.alarms.push(...parseAlarmDefinitions(value as L5XDatatypeAlarmDefinition));
+        break;
+    }
+  }
+
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        path.push(name);
+        const current = building[building.length - 1];
+        if (current) flushText(current);
+
+        if (!current) {
+          if (path.length === 1 && name === "RSLogix5000Content") {
+            hasContent = true;
+            data.metadata.targetType = attribs.TargetType;
+            data.metadata.targetName = attribs.TargetName;
+            data.metadata.exportDate = attribs.ExportDate;
+            return;
+          }
+          if (path.length === 2 && name === "Controller" && hasContent) {
+            hasController = true;
+            data.metadata.projectName = attribs.Name;
+            data.metadata.processorType = attribs.ProcessorType;
+            data.metadata.softwareRevision = attribs.SoftwareRevision;
+            return;
+          }
+          if (!hasController || path[1] !== "Controller") return;
+
+          const key = path.slice(2).join("/");
+          if (path.length === 3) {
+            checkL5XElement(name, KNOWN_L5X_CONTROLLER_ELEMENTS, "Controller", data.diagnostics);
+          } else if (path.length === 5 && key.startsWith(`${PROGRAM_PATH}/`)) {
+            checkL5XElement(
+              name,
+              KNOWN_L5X_PROGRAM_ELEMENTS,
+              `Controller/Programs/Program[${programName}]`,
+              data.diagnostics
+            );
+          }
+          if (key === PROGRAM_PATH) {
+            program = {};
+            for (const [attr, value] of Object.entries(attribs)) program[`@_${attr}`] = value;
+            programName = attribs.Name || "Unknown";
+            return;
+          }
+          unit = UNIT_PATHS[key];
+          if (!unit) return;
+        }
+
+        const node: ElementNode = {};
+        for (const [attr, value] of Object.entries(attribs)) node[`@_${attr}`] = value;
+        (node as Record<symbol, unknown>)[XML_METADATA] = { startIndex: parser.startIndex };
+        building.push({
+          name,
+          node,
+          hasContent: Object.keys(attribs).length > 0,
+          text: "",
+          pendingText: "",
+        });
+      },
+      ontext(text) {
+        const current = building[building.length - 1];
+        if (!current) return;
+        if (inCdata) current.text += text;
+        else current.pendingText += text;
+      },
+      oncdatastart() {
+        const current = building[building.length - 1];
+        if (current) flushText(current);
+        inCdata = true;
+      },
+      oncdataend() {
+        inCdata = false;
+      },
+      onclosetag() {
+        const element = building.pop();
+        if (element) {
+          const value = toValue(element);
+          const parent = building[building.length - 1];
+          if (unit === "routine" && element.name === "Rung" && building.length === 2 && parent.name === "RLLContent") {
+            // Ladder rungs are parsed as they close so a long routine is never held whole
+            const routineName = (building[0].node["@_Name"] as string) || "Unknown";
+            const { parsedRung, tagRefs } = parseRung(value as L5XRung, routineName, programName, data.diagnostics);
+            pending.rungs.push(parsedRung);
+            pending.tagReferences.push(...tagRefs);
+            routineRungCount++;
+          } else if (parent) {
+            parent.hasContent = true;
+            addChild(parent.node, element.name, value);
+          } else if (unit) {
+            completeUnit(unit, element.name, value);
+            unit = undefined;
+          }
+        } else if (program && path.slice(2).join("/") === PROGRAM_PATH) {
+          data.programs.push(parseProgram(program as L5XProgram));
+          program = undefined;
+        }
+        path.pop();
+      },
+    },
+    { xmlMode: true, decodeEntities: true, recognizeCDATA: true }
+  );
+
+  async function flush(force: boolean) {
+    if (pending.tags.length >= batchSize || (force && pending.tags.length > 0)) {
+      const batch = pending.tags.splice(0);
+      counts.tags += batch.length;
+      for (const tag of batch) addToTagIndex(tagIndex, tag);
+      addDocumentationLanguages(languages, batch);
+      await sink.onTags(batch);
+    }
+    if (pending.rungs.length >= batchSize || (force && pending.rungs.length > 0)) {
+      const batch = pending.rungs.splice(0);
+      counts.rungs += batch.length;
+      // AOI definitions precede the programs in an export, so calls are found as rungs pass
+      data.aoiCalls.push(...findAOICalls(batch, data.aois));
+      addDocumentationLanguages(languages, batch);
+      tallyRoutineMetrics(routineMetrics, batch, []);
+      await sink.onRungs(batch);
+    }
+    if (pending.tagReferences.length >= batchSize || (force && pending.tagReferences.length > 0)) {
+      const batch = pending.tagReferences.splice(0);
+      counts.tagReferences += batch.length;
+      // Tags precede the logic that uses them, though some may still be waiting for a full batch
+      for (const tag of pending.tags) addToTagIndex(tagIndex, tag);
+      resolveTagReferences(batch, tagIndex);
+      tallyRoutineMetrics(routineMetrics, [], batch);
+      await sink.onTagReferences(batch);
+    }
+  }
+
+  try {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.write(decoder.decode(value, { stream: true }));
+      // Hand off what this chunk produced before reading the next one
+      await flush(false);
+    }
+    parser.write(decoder.decode());
+    parser.end();
+
+    if (!hasContent) {
+      throw new ParseFailure(data.diagnostics, {
+        severity: "error",
+        code: "missing-element",
+        message: "Invalid L5X file: no RSLogix5000Content root element",
+        path: "RSLogix5000Content",
+      });
+    }
+    if (!hasController) {
+      throw new ParseFailure(data.diagnostics, {
+        severity: "error",
+        code: "missing-element",
+        message: "Invalid L5X file: no Controller element under RSLogix5000Content",
+        path: "RSLogix5000Content/Controller",
+      });
+    }
+
+    await flush(true);
+    applyRoutineMetrics(data.routines, routineMetrics);
+    linkProgramTree(data.programs, data.tasks);
+    resolveSafetyClasses(data);
+    data.aoiCalls.push(...findFBDAOICalls(data.fbdSheets));
+    addDocumentationLanguages(languages, [...data.routines, ...data.programs]);
+    addDocumentationLanguages(languages, documentedTypeItems(data.udts, data.aois));
+    setDocumentationLanguages(data.metadata, languages);
+    // Tags went to the sink, so safety tags were noted as they passed
+    if (hasSafetyTags && !data.safety) data.safety = { tagMap: [] };
+
+    return { data, counts };
+  } catch (error) {
+    console.error("L5X parsing error:", error);
+    throw error;
+  }
+}
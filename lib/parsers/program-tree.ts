@@ -0,0 +1,44 @@
+import type { ParsedProgram, ParsedTask } from "./types";
+
+/**
+ * Link programs into the tree Studio 5000 shows under each task.
+ *
+ * L5X lists a parent's children by name (`ChildPrograms`) while L5K names
+ * each child's parent, so both directions are filled in from whichever is
+ * present. Only top-level programs are scheduled in a task; child programs
+ * run in their parent's task.
+ */
+export function linkProgramTree(programs: ParsedProgram[], tasks: ParsedTask[]): void {
+  const byName = new Map(programs.map((p) => [p.name, p]));
+
+  for (const program of programs) {
+    for (const childName of program.childPrograms) {
+      const child = byName.get(childName);
+      if (child && !child.parentProgram) child.parentProgram = program.name;
+    }
+  }
+  for (const program of programs) {
+    const parent = program.parentProgram ? byName.get(program.parentProgram) : undefined;
+    if (parent && !parent.childPrograms.includes(program.name)) {
+      parent.childPrograms.push(program.name);
+    }
+  }
+
+  const taskOf = new Map<string, string>();
+  for (const task of tasks) {
+    for (const name of task.scheduledPrograms) taskOf.set(name, task.name);
+  }
+
+  const resolveTask = (program: ParsedProgram, seen: Set<string>): string | undefined => {
+    if (program.taskName) return program.taskName;
+    if (taskOf.has(program.name)) return taskOf.get(program.name);
+    const parent = program.parentProgram ? byName.get(program.parentProgram) : undefined;
+    if (!parent || seen.has(parent.name)) return undefined;
+    seen.add(parent.name);
+    return resolveTask(parent, seen);
+  };
+
+  for (const program of programs) {
+    program.taskName = resolveTask(program, new Set([program.name]));
+  }
+}
@@ -0,0 +1,163 @@
+import type { RungElement, RungInstruction } from "./types";
+import { getOperandRoles } from "./instruction-set";
+import {
+  extractSTTagReferences,
+  findArgsEnd,
+  OPERAND_ROLE_USAGE,
+  splitOperands,
+  type STTagUsage,
+} from "./st-parser";
+
+/**
+ * Ladder rung support shared by the L5X and L5K parsers.
+ *
+ * Rungs are stored as neutral text, e.g. `XIC(a)[XIO(b),XIC(c)]OTE(d);`.
+ * parseRungText turns that into a tree of series elements and parallel
+ * branches, with each operand tagged by the role the instruction's
+ * signature gives it, and extractRungTagUsages walks the tree to classify
+ * every tag reference as read, write or both.
+ */
+
+/**
+ * Parse rung neutral text into a series of elements. Malformed input is
+ * handled leniently: stray characters are skipped and unclosed branches or
+ * argument lists run to the end of the rung.
+ */
+export function parseRungText(text: string): RungElement[] {
+  let pos = 0;
+
+  const parseSeries = (): RungElement[] => {
+    const elements: RungElement[] = [];
+
+    while (pos < text.length) {
+      const ch = text[pos];
+
+      if (ch === "," || ch === "]" || ch === ";") break;
+
+      if (ch === "[") {
+        pos++;
+        const legs: RungElement[][] = [parseSeries()];
+        while (text[pos] === ",") {
+          pos++;
+          legs.push(parseSeries());
+        }
+        if (text[pos] === "]") pos++;
+        elements.push({ kind: "branch", legs });
+        continue;
+      }
+
+      if (!/[A-Za-z_]/.test(ch)) {
+        pos++;
+        continue;
+      }
+
+      const start = pos;
+      while (pos < text.length && /[A-Za-z0-9_]/.test(text[pos])) pos++;
+      const name = text.substring(start, pos);
+
+      while (pos < text.length && /\s/.test(text[pos])) pos++;
+
+      let operands: string[] = [];
+      if (text[pos] === "(") {
+        const end = findArgsEnd(text, pos);
+        const closed = text[end - 1] === ")";
+        operands = splitOperands(text.substring(pos + 1, closed ? end - 1 : end));
+        pos = end;
+      }
+
+      const roles = getOperandRoles(name, operands);
+      elements.push({
+        kind: "instruction",
+        name,
+        operands: operands.map((operand, i) => ({ text: operand, role: roles[i] })),
+      });
+    }
+
+    return elements;
+  };
+
+  const rung: RungElement[] = [];
+  while (pos < text.length) {
+    rung.push(...parseSeries());
+    // Skip a stray separator at the top level and keep going
+    if (pos < text.length) pos++;
+  }
+  return rung;
+}
+
+/**
+ * Describe the first structural problem in rung neutral text: an unclosed or
+ * mismatched bracket or parenthesis, an unterminated string, or a character
+ * that cannot start an instruction. Returns undefined for well-formed text.
+ * parseRungText still parses such rungs leniently, so this is how callers
+ * find out the result may be incomplete.
+ */
+export function findRungSyntaxError(text: string): string | undefined {
+  const open: Array<{ ch: string; pos: number }> = [];
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "(" || ch === "[") {
+      open.push({ ch, pos: i });
+    } else if (ch === ")" || ch === "]") {
+      const expected = ch === ")" ? "(" : "[";
+      const last = open.pop();
+      if (!last) return `unexpected '${ch}' at column ${i + 1}`;
+      if (last.ch !== expected) {
+        return `'${last.ch}' at column ${last.pos + 1} closed by '${ch}' at column ${i + 1}`;
+      }
+    } else if (open.length === 0 && !/[A-Za-z0-9_,;\s]/.test(ch)) {
+      return `unexpected '${ch}' at column ${i + 1}`;
+    }
+  }
+
+  if (quote) return "unterminated string";
+  const unclosed = open.pop();
+  if (unclosed) return `unclosed '${unclosed.ch}' at column ${unclosed.pos + 1}`;
+  return undefined;
+}
+
+/** Every instruction in the rung, in left-to-right order, including those inside branches. */
+export function flattenRungInstructions(elements: RungElement[]): RungInstruction[] {
+  return elements.flatMap((element) =>
+    element.kind === "instruction"
+      ? [element]
+      : element.legs.flatMap((leg) => flattenRungInstructions(leg))
+  );
+}
+
+/**
+ * Tag usages for a parsed rung. The tag an operand names takes the usage of
+ * the operand's role; tags inside array subscripts or expression operands
+ * (CPT, CMP, FAL) are read. Literals and `?` placeholders are ignored.
+ */
+export function extractRungTagUsages(elements: RungElement[]): STTagUsage[] {
+  const usages = new Map<string, STTagUsage>();
+
+  const add = (tagName: string, usageType: STTagUsage["usageType"], writer?: string) => {
+    const existing = usages.get(tagName);
+    const usage = existing || { tagName, usageType };
+    if (existing && existing.usageType !== usageType) usage.usageType = "both";
+    if (writer) usage.writeInstructions = [...(usage.writeInstructions || []), writer];
+    usages.set(tagName, usage);
+  };
+
+  for (const instruction of flattenRungInstructions(elements)) {
+    for (const operand of instruction.operands) {
+      if (operand.role === "name") continue;
+      const primary = operand.text.replace(/\s+/g, "");
+      for (const ref of extractSTTagReferences(operand.text)) {
+        const isPrimary = ref.tagName === primary;
+        const writes = isPrimary && operand.role !== "input";
+        add(ref.tagName, isPrimary ? OPERAND_ROLE_USAGE[operand.role] : "read", writes ? instruction.name.toUpperCase() : undefined);
+      }
+    }
+  }
+
+  return [...usages.values()];
+}
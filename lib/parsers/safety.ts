@@ -0,0 +1,47 @@
+import type { ParsedL5XData, ParsedSafetyTagMapping } from "./types";
+
+/**
+ * GuardLogix safety content shared by the L5X and L5K parsers.
+ *
+ * Safety controllers separate a safety task, safety programs and
+ * safety-class tags from standard logic. Standard logic cannot write safety
+ * tags directly; instead the safety tag map names standard tags whose values
+ * the safety task copies into safety tags at the start of each scan.
+ */
+
+/** Parse a safety tag map list such as `StdCmd=SafeCmd, StdReset=SafeReset`. */
+export function parseSafetyTagMap(text: string | undefined): ParsedSafetyTagMapping[] {
+  if (!text) return [];
+  return text
+    .split(",")
+    .map((pair) => pair.split("="))
+    .filter((parts) => parts.length === 2 && parts[0].trim() && parts[1].trim())
+    .map(([standardTag, safetyTag]) => ({ standardTag: standardTag.trim(), safetyTag: safetyTag.trim() }));
+}
+
+/**
+ * Fill in what the export leaves implicit: older exports do not mark the
+ * safety task, which is the one task that schedules only safety programs,
+ * and a controller with safety programs, tasks or tags is a safety
+ * controller even when it has no SafetyInfo.
+ */
+export function resolveSafetyClasses(data: ParsedL5XData): void {
+  const safetyPrograms = new Set(
+    data.programs.filter((p) => p.programClass === "Safety").map((p) => p.name)
+  );
+
+  for (const task of data.tasks) {
+    if (!task.taskClass && task.scheduledPrograms.length > 0 &&
+        task.scheduledPrograms.every((name) => safetyPrograms.has(name))) {
+      task.taskClass = "Safety";
+    }
+  }
+
+  if (!data.safety && (
+    safetyPrograms.size > 0 ||
+    data.tasks.some((t) => t.taskClass === "Safety") ||
+    data.tags.some((t) => t.tagClass === "Safety")
+  )) {
+    data.safety = { tagMap: [] };
+  }
+}
@@ -0,0 +1,65 @@
+import type { ParsedSFCChart, ParsedSFCNode, ParsedTagReference } from "./types";
+import { extractSTTagReferences, splitSTComments } from "./st-parser";
+
+/**
+ * Sequential Function Chart support shared by the L5X and L5K parsers.
+ *
+ * A chart is stored as a graph: steps, transitions, branches and stops are
+ * nodes keyed by their element ID, and directed links connect them. Action
+ * bodies and transition conditions are embedded Structured Text and are
+ * scanned with the ST helpers for tag references.
+ */
+
+/** Join ST source lines into a single body, dropping comments. */
+export function joinSTBody(lines: string[]): string {
+  return splitSTComments(lines.map((text, index) => ({ number: index, text })))
+    .map((line) => line.code)
+    .join("\n");
+}
+
+/**
+ * Tag references for one chart. Action bodies and conditions are scanned as
+ * ST (conditions only read); a step or transition operand is the backing
+ * structure the controller updates, so it counts as both. The rung number of
+ * each reference is the ID of the node it came from.
+ */
+export function extractSFCTagReferences(chart: ParsedSFCChart): ParsedTagReference[] {
+  const refs: ParsedTagReference[] = [];
+
+  for (const node of chart.nodes) {
+    const usages = new Map<string, ParsedTagReference["usageType"]>();
+    const add = (tagName: string, usageType: ParsedTagReference["usageType"]) => {
+      const existing = usages.get(tagName);
+      usages.set(tagName, !existing || existing === usageType ? usageType : "both");
+    };
+
+    if (node.name && (node.nodeType === "Step" || node.nodeType === "Transition")) {
+      add(node.name, "both");
+    }
+    if (node.condition) {
+      for (const ref of extractSTTagReferences(node.condition)) add(ref.tagName, "read");
+    }
+    for (const action of node.actions) {
+      for (const line of action.body.split("\n")) {
+        for (const ref of extractSTTagReferences(line)) add(ref.tagName, ref.usageType);
+      }
+    }
+
+    for (const [tagName, usageType] of usages) {
+      refs.push({
+        tagName,
+        routineName: chart.routineName,
+        programName: chart.programName,
+        rungNumber: node.id,
+        usageType,
+      });
+    }
+  }
+
+  return refs;
+}
+
+/** Number of steps in a chart, used as the routine's rung-equivalent count. */
+export function countSFCSteps(nodes: ParsedSFCNode[]): number {
+  return nodes.filter((n) => n.nodeType === "Step").length;
+}
@@ -0,0 +1,358 @@
+import type { ParsedRung, ParsedTagReference, RungOperandRole } from "./types";
+import { measureSTLine } from "./complexity";
+import { getOperandRoles, hasOperandSignature } from "./instruction-set";
+
+/**
+ * Structured Text support shared by the L5X and L5K parsers.
+ *
+ * ST routines are stored as rung-equivalent records: each source line that
+ * contains code becomes one ParsedRung, with its inline comments (and any
+ * comment-only lines directly above it) captured as the rung comment.
+ */
+
+export interface STSourceLine {
+  number: number;
+  text: string;
+}
+
+export interface STLine {
+  number: number;
+  code: string;
+  comment?: string;
+}
+
+export interface STTagUsage {
+  tagName: string;
+  usageType: "read" | "write" | "both";
+  writeInstructions?: string[];   // Instructions writing the tag, once per use
+}
+
+/** Usage of the tag an instruction operand names, by the operand's role. */
+export const OPERAND_ROLE_USAGE: Record<Exclude<RungOperandRole, "name">, STTagUsage["usageType"]> = {
+  input: "read",
+  output: "write",
+  inout: "both",
+};
+
+const ST_KEYWORDS = new Set([
+  "IF", "THEN", "ELSIF", "ELSE", "END_IF",
+  "CASE", "OF", "END_CASE",
+  "FOR", "TO", "BY", "DO", "END_FOR",
+  "WHILE", "END_WHILE", "REPEAT", "UNTIL", "END_REPEAT",
+  "EXIT", "RETURN",
+  "AND", "OR", "XOR", "NOT", "MOD",
+  "TRUE", "FALSE",
+]);
+
+/**
+ * Separate code from comments across a routine's lines. Handles `//` line
+ * comments and `(* *)` / `/* *\/` block comments, including blocks that span
+ * several lines, while ignoring comment markers inside string literals.
+ */
+export function splitSTComments(lines: STSourceLine[]): STLine[] {
+  const result: STLine[] = [];
+  let blockEnd: string | null = null;
+  let pendingComments: string[] = [];
+
+  for (const line of lines) {
+    const text = line.text;
+    let code = "";
+    const comments: string[] = [];
+    let current = "";
+    let pos = 0;
+
+    while (pos < text.length) {
+      if (blockEnd) {
+        const endIdx = text.indexOf(blockEnd, pos);
+        if (endIdx === -1) {
+          current += text.substring(pos);
+          pos = text.length;
+        } else {
+          current += text.substring(pos, endIdx);
+          pos = endIdx + blockEnd.length;
+          blockEnd = null;
+          if (current.trim()) comments.push(current.trim());
+          current = "";
+        }
+        continue;
+      }
+
+      const ch = text[pos];
+      if (ch === "'" || ch === '"') {
+        const close = text.indexOf(ch, pos + 1);
+        const end = close === -1 ? text.length : close + 1;
+        code += text.substring(pos, end);
+        pos = end;
+      } else if (text.startsWith("//", pos)) {
+        const rest = text.substring(pos + 2).trim();
+        if (rest) comments.push(rest);
+        pos = text.length;
+      } else if (text.startsWith("(*", pos)) {
+        blockEnd = "*)";
+        pos += 2;
+      } else if (text.startsWith("/*", pos)) {
+        blockEnd = "*/";
+        pos += 2;
+      } else {
+        code += ch;
+        pos++;
+      }
+    }
+
+    // Flush the part of a block comment that continues onto the next line
+    if (blockEnd && current.trim()) {
+      comments.push(current.trim());
+    }
+
+    const trimmedCode = code.trim();
+    if (!trimmedCode) {
+      // Comment-only lines document the statement that follows them
+      pendingComments.push(...comments);
+      continue;
+    }
+
+    const allComments = [...pendingComments, ...comments];
+    pendingComments = [];
+    result.push({
+      number: line.number,
+      code: trimmedCode,
+      comment: allComments.length > 0 ? allComments.join("\n") : undefined,
+    });
+  }
+
+  // Trailing comments with no statement after them belong to the last line
+  if (pendingComments.length > 0 && result.length > 0) {
+    const last = result[result.length - 1];
+    last.comment = [last.comment, ...pendingComments].filter(Boolean).join("\n");
+  }
+
+  return result;
+}
+
+/** Split an argument list on top-level commas, leaving nested brackets and quoted text whole. */
+export function splitOperands(args: string): string[] {
+  const operands: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < args.length; i++) {
+    const ch = args[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "(" || ch === "[") {
+      depth++;
+    } else if (ch === ")" || ch === "]") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      operands.push(args.substring(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  const last = args.substring(start).trim();
+  if (last || operands.length > 0) operands.push(last);
+  return operands;
+}
+
+/** Index just past the `)` that closes the `(` at openPos, or the end of text. */
+export function findArgsEnd(text: string, openPos: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = openPos; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return text.length;
+}
+
+function isIdentStart(ch: string | undefined): boolean {
+  return !!ch && /[A-Za-z_]/.test(ch);
+}
+
+function isIdentChar(ch: string | undefined): boolean {
+  return !!ch && /[A-Za-z0-9_]/.test(ch);
+}
+
+function skipSpaces(s: string, pos: number): number {
+  while (pos < s.length && /\s/.test(s[pos])) pos++;
+  return pos;
+}
+
+function findClosingBracket(s: string, openPos: number): number {
+  let depth = 0;
+  for (let i = openPos; i < s.length; i++) {
+    if (s[i] === "[") depth++;
+    else if (s[i] === "]") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return s.length - 1;
+}
+
+function isAssignmentAt(s: string, pos: number): boolean {
+  return s.startsWith(":=", pos) || s.startsWith("[:=]", pos);
+}
+
+/**
+ * Extract tag references from a line of ST code (comments already removed).
+ * The target of an assignment (`:=` or non-retentive `[:=]`) is a write.
+ * A tag passed straight to an instruction takes the usage of its operand
+ * role, so `MOV(Src, Dest)` writes Dest and `TONR(Delay)` both reads and
+ * writes Delay; routine and label names such as JSR's first operand are not
+ * tags. Arguments to functions with no known signature are read. Everything
+ * else, including array subscripts, is a read.
+ */
+export function extractSTTagReferences(code: string): STTagUsage[] {
+  const usages = new Map<string, STTagUsage>();
+
+  const add = (tagName: string, usageType: STTagUsage["usageType"], writers: string[] = []) => {
+    const existing = usages.get(tagName);
+    const usage = existing || { tagName, usageType };
+    if (existing && existing.usageType !== usageType) usage.usageType = "both";
+    if (writers.length > 0) usage.writeInstructions = [...(usage.writeInstructions || []), ...writers];
+    usages.set(tagName, usage);
+  };
+
+  const scan = (s: string) => {
+    let pos = 0;
+    while (pos < s.length) {
+      const ch = s[pos];
+
+      if (ch === "'" || ch === '"') {
+        const close = s.indexOf(ch, pos + 1);
+        pos = close === -1 ? s.length : close + 1;
+        continue;
+      }
+
+      // Numeric literals, including based literals like 16#FF and 2#1010_0001
+      if (/[0-9]/.test(ch)) {
+        while (pos < s.length && (isIdentChar(s[pos]) || s[pos] === "#" || s[pos] === ".")) pos++;
+        continue;
+      }
+
+      if (!isIdentStart(ch)) {
+        pos++;
+        continue;
+      }
+
+      const start = pos;
+      while (isIdentChar(s[pos])) pos++;
+
+      // Module-defined I/O tags: Local:1:I.Data, Adapter:O.Data
+      while (s[pos] === ":" && s[pos + 1] !== "=" && (isIdentChar(s[pos + 1]))) {
+        pos++;
+        while (isIdentChar(s[pos])) pos++;
+      }
+
+      // Member, bit and array access
+      for (;;) {
+        if (s[pos] === "." && isIdentChar(s[pos + 1])) {
+          pos++;
+          while (isIdentChar(s[pos])) pos++;
+        } else if (s[pos] === "[" && !s.startsWith("[:=]", pos)) {
+          const close = findClosingBracket(s, pos);
+          scan(s.substring(pos + 1, close));
+          pos = close + 1;
+        } else {
+          break;
+        }
+      }
+
+      const operand = s.substring(start, pos).replace(/\s+/g, "");
+      const baseName = operand.split(/[.[:]/)[0].toUpperCase();
+      const next = skipSpaces(s, pos);
+
+      // The arguments of a function with no known signature are scanned as
+      // they come, like any other expression
+      if (ST_KEYWORDS.has(baseName) || (s[next] === "(" && !hasOperandSignature(operand))) {
+        continue;
+      }
+
+      if (s[next] === "(") {
+        const end = findArgsEnd(s, next);
+        const closed = s[end - 1] === ")";
+        const operands = splitOperands(s.substring(next + 1, closed ? end - 1 : end));
+        const roles = getOperandRoles(operand, operands);
+        operands.forEach((text, i) => {
+          const role = roles[i];
+          if (role === "name") return;
+          const primary = text.replace(/\s+/g, "");
+          for (const ref of extractSTTagReferences(text)) {
+            if (ref.tagName === primary) {
+              add(ref.tagName, OPERAND_ROLE_USAGE[role], role === "input" ? [] : [operand.toUpperCase()]);
+            } else {
+              add(ref.tagName, ref.usageType, ref.writeInstructions);
+            }
+          }
+        });
+        pos = end;
+        continue;
+      }
+
+      const usageType = isAssignmentAt(s, next) ? "write" : "read";
+      add(operand, usageType);
+    }
+  };
+
+  scan(code);
+
+  return [...usages.values()];
+}
+
+/**
+ * Turn an ST routine's source lines into rung-equivalent records and
+ * tag references, mirroring the shape the ladder parsers produce.
+ */
+export function parseSTRoutineLines(
+  lines: STSourceLine[],
+  routineName: string,
+  programName: string
+): { parsedRungs: ParsedRung[]; tagRefs: ParsedTagReference[] } {
+  const parsedRungs: ParsedRung[] = [];
+  const tagRefs: ParsedTagReference[] = [];
+  let depth = 0;
+
+  for (const line of splitSTComments(lines)) {
+    const usages = extractSTTagReferences(line.code);
+    const tagReferences = usages.map((u) => u.tagName);
+    const measured = measureSTLine(line.code, tagReferences, depth);
+    depth = measured.depth;
+
+    parsedRungs.push({
+      number: line.number,
+      routineName,
+      programName,
+      content: line.code,
+      comment: line.comment,
+      tagReferences,
+      metrics: measured.metrics,
+    });
+
+    tagRefs.push(
+      ...usages.map((u) => ({
+        tagName: u.tagName,
+        routineName,
+        programName,
+        rungNumber: line.number,
+        usageType: u.usageType,
+        writeInstructions: u.writeInstructions,
+      }))
+    );
+  }
+
+  return { parsedRungs, tagRefs };
+}
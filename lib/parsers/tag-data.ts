@@ -0,0 +1,257 @@
+import { XMLParser } from "fast-xml-parser";
+import type {
+  ParsedTagValue,
+  L5XTagData,
+  L5XDataValue,
+  L5XDataArray,
+  L5XDataStructure,
+} from "./types";
+
+/**
+ * Tag value decoding shared by the L5X and L5K parsers.
+ *
+ * L5X exports carry tag values as `Decorated` data: named DataValue,
+ * Array/Element and Structure/…Member elements, which decode directly into
+ * a ParsedTagValue tree. L5K values are positional (`[0,5000,0]`), so only
+ * atomic values, atomic arrays and STRINGs can be decoded without the
+ * structure layout.
+ */
+
+/**
+ * Where an element starts in the XML. fast-xml-parser records it with
+ * `captureMetaData` and the streaming parser sets the same symbol, so
+ * structure members of different element kinds can be put back in order.
+ */
+export const XML_METADATA = XMLParser.getMetaDataSymbol() as unknown as symbol;
+
+function positionOf(element: object): number {
+  return (element as Record<symbol, { startIndex?: number } | undefined>)[XML_METADATA]?.startIndex ?? 0;
+}
+
+function ensureArray<T>(value: T | T[] | undefined): T[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+function decodeDataValue(value: L5XDataValue): ParsedTagValue {
+  return {
+    kind: "atomic",
+    dataType: value["@_DataType"] || "Unknown",
+    radix: value["@_Radix"],
+    value: value["@_Value"] ?? (value["#text"] !== undefined ? String(value["#text"]) : ""),
+  };
+}
+
+function decodeArray(array: L5XDataArray): ParsedTagValue {
+  const dataType = array["@_DataType"] || "Unknown";
+  const radix = array["@_Radix"];
+
+  return {
+    kind: "array",
+    dataType,
+    dimensions: array["@_Dimensions"] || "",
+    radix,
+    elements: ensureArray(array.Element).map((element) => ({
+      index: element["@_Index"] || "",
+      value: element.Structure
+        ? decodeStructure(element.Structure)
+        : { kind: "atomic" as const, dataType, radix, value: element["@_Value"] ?? "" },
+    })),
+  };
+}
+
+function decodeStructure(structure: L5XDataStructure): ParsedTagValue {
+  const dataType = structure["@_DataType"] || "Unknown";
+  const values = ensureArray(structure.DataValueMember);
+
+  // STRING and user string types decode to a LEN/DATA pair
+  const len = values.find((m) => m["@_Name"] === "LEN");
+  const data = values.find((m) => m["@_Name"] === "DATA");
+  if (len && data && values.length === 2 && !structure.ArrayMember && !structure.StructureMember) {
+    return {
+      kind: "string",
+      dataType,
+      length: parseInt(len["@_Value"] || "0", 10),
+      value: unquote(data["#text"] !== undefined ? String(data["#text"]) : data["@_Value"] || ""),
+    };
+  }
+
+  // The parsed XML groups members by element kind; put them back in declaration order
+  const members = [
+    ...values.map((m) => ({ element: m, decode: () => decodeDataValue(m) })),
+    ...ensureArray(structure.ArrayMember).map((m) => ({ element: m, decode: () => decodeArray(m) })),
+    ...ensureArray(structure.StructureMember).map((m) => ({ element: m, decode: () => decodeStructure(m) })),
+  ].sort((a, b) => positionOf(a.element) - positionOf(b.element));
+
+  return {
+    kind: "structure",
+    dataType,
+    members: members.map(({ element, decode }) => ({ name: element["@_Name"] || "", value: decode() })),
+  };
+}
+
+/**
+ * Decode a tag's <Data> (or an AOI parameter's <DefaultData>) elements.
+ * Prefers the Decorated format, then the String format, then falls back to
+ * the positional L5K text.
+ */
+export function decodeL5XTagData(
+  data: L5XTagData | L5XTagData[] | undefined,
+  dataType: string,
+  dimensions?: string
+): ParsedTagValue | undefined {
+  const formats = ensureArray(data);
+
+  const decorated = formats.find((d) => d["@_Format"] === "Decorated");
+  if (decorated) {
+    if (decorated.DataValue) return decodeDataValue(decorated.DataValue);
+    if (decorated.Array) return decodeArray(decorated.Array);
+    if (decorated.Structure) return decodeStructure(decorated.Structure);
+  }
+
+  const str = formats.find((d) => d["@_Format"] === "String");
+  if (str) {
+    const text = str["#text"] !== undefined ? String(str["#text"]) : "";
+    return {
+      kind: "string",
+      dataType,
+      length: parseInt(str["@_Length"] || "0", 10),
+      value: unquote(text),
+    };
+  }
+
+  const l5k = formats.find((d) => d["@_Format"] === "L5K");
+  if (l5k && l5k["#text"] !== undefined) {
+    return decodeL5KValue(String(l5k["#text"]), dataType, dimensions);
+  }
+
+  return undefined;
+}
+
+/** Split a bracketed L5K value list on top-level commas. */
+function splitL5KList(text: string): string[] | undefined {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("[") || !trimmed.endsWith("]")) return undefined;
+
+  const items: string[] = [];
+  let depth = 0;
+  let inQuote = false;
+  let start = 1;
+  for (let i = 1; i < trimmed.length - 1; i++) {
+    const ch = trimmed[i];
+    if (inQuote) {
+      if (ch === "'") inQuote = false;
+    } else if (ch === "'") {
+      inQuote = true;
+    } else if (ch === "[") {
+      depth++;
+    } else if (ch === "]") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      items.push(trimmed.substring(start, i).trim());
+      start = i + 1;
+    }
+  }
+  items.push(trimmed.substring(start, trimmed.length - 1).trim());
+  return items;
+}
+
+/** Row-major index label (e.g. `[1,2]`) for the i-th element of an array. */
+function elementIndex(i: number, dimensions: number[]): string {
+  const parts: number[] = [];
+  let rest = i;
+  for (let d = dimensions.length - 1; d >= 0; d--) {
+    parts.unshift(rest % dimensions[d]);
+    rest = Math.floor(rest / dimensions[d]);
+  }
+  return `[${parts.join(",")}]`;
+}
+
+/**
+ * Decode a positional L5K value. Structures other than STRING are left
+ * undecoded since member names are not part of the value text.
+ */
+export function decodeL5KValue(
+  text: string | undefined,
+  dataType: string,
+  dimensions?: string
+): ParsedTagValue | undefined {
+  if (text === undefined || text.trim() === "") return undefined;
+  const items = splitL5KList(text);
+
+  if (!items) {
+    return { kind: "atomic", dataType, value: text.trim() };
+  }
+
+  if (dataType.toUpperCase() === "STRING" && !dimensions && items.length === 2) {
+    return { kind: "string", dataType, length: parseInt(items[0], 10) || 0, value: unquote(items[1]) };
+  }
+
+  const dims = (dimensions || "").split(/[\s,]+/).map((d) => parseInt(d, 10)).filter((d) => d > 0);
+  if (dims.length > 0 && items.every((item) => !item.startsWith("[") && !item.startsWith("'"))) {
+    return {
+      kind: "array",
+      dataType,
+      dimensions: dims.join(" "),
+      elements: items.map((item, i) => ({
+        index: elementIndex(i, dims),
+        value: { kind: "atomic" as const, dataType, value: item },
+      })),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Short display form of a value: the value itself for atomics, the quoted
+ * text for strings and a bracketed list for arrays of atomics. Structures
+ * have no single-line form.
+ */
+export function formatTagValue(value: ParsedTagValue | undefined): string | undefined {
+  if (!value) return undefined;
+  switch (value.kind) {
+    case "atomic":
+      return value.value;
+    case "string":
+      return `'${value.value}'`;
+    case "array":
+      if (value.elements.every((e) => e.value.kind === "atomic")) {
+        return `[${value.elements.map((e) => formatTagValue(e.value)).join(",")}]`;
+      }
+      return undefined;
+    case "structure":
+      return undefined;
+  }
+}
+
+export interface TagValueEntry {
+  path: string;
+  dataType: string;
+  value: string;
+}
+
+/**
+ * Flatten a value tree into one entry per leaf, with member paths relative
+ * to the tag (e.g. `.SpeedSP`, `[3]`, `.Cfg.Limits[0]`).
+ */
+export function flattenTagValue(value: ParsedTagValue | undefined, path = ""): TagValueEntry[] {
+  if (!value) return [];
+  switch (value.kind) {
+    case "atomic":
+    case "string":
+      return [{ path, dataType: value.dataType, value: formatTagValue(value) || "" }];
+    case "array":
+      return value.elements.flatMap((e) => flattenTagValue(e.value, `${path}${e.index}`));
+    case "structure":
+      return value.members.flatMap((m) => flattenTagValue(m.value, `${path}.${m.name}`));
+  }
+}
@@ -0,0 +1,177 @@
+import type { ParsedTag, ParsedTagReference } from "./types";
+
+/**
+ * Tag reference resolution shared by the L5X and L5K parsers and the
+ * analyses that read stored references.
+ *
+ * Reference text such as `Pump1.Cmd.Start`, `Recipe[idx].Temp` or
+ * `Local:2:I.Data.3` is split into the tag it starts from, the array index
+ * right after it and the remaining member path. The tag is looked up the way
+ * the controller does: a program tag shadows a controller tag of the same
+ * name, and names are not case-sensitive. Alias tags are then followed
+ * through their `aliasFor` chain to the tag that holds the data.
+ */
+
+export type TagDefinition = Pick<ParsedTag, "name" | "scope" | "aliasFor">;
+
+/** Tag definitions by scope and name, for resolving references. */
+export type TagIndex = Map<string, TagDefinition>;
+
+export interface TagReferenceParts {
+  baseTag: string;
+  memberPath?: string;
+  arrayIndex?: string;
+  indirectIndex?: boolean;
+}
+
+// Guards against alias cycles, which Logix rejects but a hand-edited file may contain
+const MAX_ALIAS_DEPTH = 8;
+
+function tagKey(scope: string, name: string): string {
+  return `${scope.toUpperCase()}/${name.toUpperCase()}`;
+}
+
+export function addToTagIndex(index: TagIndex, tag: TagDefinition): void {
+  index.set(tagKey(tag.scope, tag.name), { name: tag.name, scope: tag.scope, aliasFor: tag.aliasFor });
+}
+
+export function indexTags(tags: TagDefinition[]): TagIndex {
+  const index: TagIndex = new Map();
+  for (const tag of tags) addToTagIndex(index, tag);
+  return index;
+}
+
+/** Stored tag rows of several files, indexed per file. */
+export function indexTagsByFile(
+  rows: Array<{ file_id: string; name: string; scope: string; alias_for?: string | null }>
+): Map<string, TagIndex> {
+  const indexes = new Map<string, TagIndex>();
+  for (const row of rows) {
+    let index = indexes.get(row.file_id);
+    if (!index) {
+      index = new Map();
+      indexes.set(row.file_id, index);
+    }
+    addToTagIndex(index, { name: row.name, scope: row.scope, aliasFor: row.alias_for || undefined });
+  }
+  return indexes;
+}
+
+/** Dimension text such as `10`, `2 3` or `2,3` as sizes; `0` means not an array. */
+export function parseDimensions(text: string | null | undefined): number[] {
+  return (text?.match(/\d+/g) || []).map(Number).filter((n) => n > 0);
+}
+
+/** Split reference text into base tag, leading array index and member path. */
+export function splitTagReference(text: string): TagReferenceParts {
+  const name = text.replace(/\s+/g, "");
+  // Module I/O names keep their colons: Local:2:I is one tag
+  const baseTag = name.match(/^[^.[]*/)![0];
+  let rest = name.substring(baseTag.length);
+  let arrayIndex: string | undefined;
+
+  if (rest.startsWith("[")) {
+    let depth = 0;
+    let close = rest.length;
+    for (let i = 0; i < rest.length; i++) {
+      if (rest[i] === "[") depth++;
+      else if (rest[i] === "]" && --depth === 0) {
+        close = i;
+        break;
+      }
+    }
+    arrayIndex = rest.substring(1, close);
+    rest = rest.substring(close + 1);
+  }
+
+  return {
+    baseTag,
+    memberPath: rest.replace(/^\./, "") || undefined,
+    arrayIndex,
+    indirectIndex: arrayIndex === undefined ? undefined : !/^\d+(,\d+)*$/.test(arrayIndex),
+  };
+}
+
+export type TagPathStep = { kind: "member"; name: string } | { kind: "index"; values: string[] } | { kind: "computed-bit" };
+
+/** The `.Member`, `[i,j]` and `.bit` steps after a base tag, e.g. `[3].Cmd.4`. */
+export function splitTagPath(path: string): TagPathStep[] {
+  const steps: TagPathStep[] = [];
+  let i = 0;
+  while (i < path.length) {
+    if (path[i] === "[") {
+      let depth = 0;
+      let close = path.length;
+      for (let j = i; j < path.length; j++) {
+        if (path[j] === "[") depth++;
+        else if (path[j] === "]" && --depth === 0) {
+          close = j;
+          break;
+        }
+      }
+      steps.push({ kind: "index", values: path.substring(i + 1, close).split(",") });
+      i = close + 1;
+    } else if (path[i] === ".") {
+      // `Word.[idx]` picks a bit at run time
+      if (path[i + 1] === "[") {
+        steps.push({ kind: "computed-bit" });
+        break;
+      }
+      const name = path.substring(i + 1).match(/^[^.[]*/)![0];
+      steps.push({ kind: "member", name });
+      i += name.length + 1;
+    } else {
+      break;
+    }
+  }
+  return steps;
+}
+
+/** The tag a base name refers to from inside `programName`, honoring program-scope shadowing. */
+export function lookupTag(index: TagIndex, programName: string | undefined, baseTag: string): TagDefinition | undefined {
+  return (programName ? index.get(tagKey(programName, baseTag)) : undefined) ?? index.get(tagKey("Controller", baseTag));
+}
+
+/**
+ * Follow a reference through alias tags. Returns every tag on the way, the
+ * referenced tag first, and the reference rewritten onto the last tag, e.g.
+ * `Start_PB.1` through `Start_PB` aliasing `Local:1:I.Data` becomes
+ * `Local:1:I.Data.1`.
+ */
+export function followTagReference(
+  index: TagIndex,
+  programName: string | undefined,
+  text: string
+): { tags: TagDefinition[]; target: string } {
+  const tags: TagDefinition[] = [];
+  let target = text.replace(/\s+/g, "");
+  let scope = programName;
+
+  for (let depth = 0; depth <= MAX_ALIAS_DEPTH; depth++) {
+    const { baseTag } = splitTagReference(target);
+    const tag = lookupTag(index, scope, baseTag);
+    if (!tag) break;
+    tags.push(tag);
+    if (!tag.aliasFor) break;
+    target = tag.aliasFor.replace(/\s+/g, "") + target.substring(baseTag.length);
+    // A controller alias can only point at controller tags or I/O
+    scope = tag.scope === "Controller" ? undefined : tag.scope;
+  }
+
+  return { tags, target };
+}
+
+/** Fill in the resolution fields of each reference from the tags in `index`. */
+export function resolveTagReferences(references: ParsedTagReference[], index: TagIndex): void {
+  for (const ref of references) {
+    const parts = splitTagReference(ref.tagName);
+    const { tags, target } = followTagReference(index, ref.programName, ref.tagName);
+
+    ref.baseTag = parts.baseTag;
+    ref.memberPath = parts.memberPath;
+    ref.arrayIndex = parts.arrayIndex;
+    ref.indirectIndex = parts.indirectIndex;
+    ref.tagScope = tags[0]?.scope;
+    ref.aliasTarget = tags.length > 1 || tags[0]?.aliasFor ? target : undefined;
+  }
+}
@@ -1,16 +1,29 @@
 // L5X/L5K Parser Types
 
+/** Decoded tag data: atomic values, strings, arrays and structures, recursively. */
+export type ParsedTagValue =
+  | { kind: "atomic"; dataType: string; radix?: string; value: string }
+  | { kind: "string"; dataType: string; length: number; value: string }
+  | { kind: "array"; dataType: string; dimensions: string; radix?: string; elements: Array<{ index: string; value: ParsedTagValue }> }
+  | { kind: "structure"; dataType: string; members: Array<{ name: string; value: ParsedTagValue }> };
+
+/** Documentation text by language code, e.g. { "en-US": "Pump start", "es-MX": "Arranque de bomba" }. */
+export type LocalizedText = Record<string, string>;
+
 export interface ParsedTag {
   name: string;
   dataType: string;
   scope: string;
   description?: string;
-  value?: string;
+  descriptions?: LocalizedText;   // Every language when the export carries several
+  value?: string;         // Display value for atomic, string and simple array tags
+  data?: ParsedTagValue;  // Full decoded value tree
   aliasFor?: string;
   usage?: string;
   radix?: string;
   externalAccess?: string;
   dimensions?: string;
+  tagClass?: string;      // "Standard" | "Safety" (GuardLogix)
 }
 
 export interface ParsedRung {
@@ -19,20 +32,61 @@ export interface ParsedRung {
   programName: string;
   content: string;
   comment?: string;
+  comments?: LocalizedText;
   tagReferences: string[];
+  metrics?: RungMetrics;
+}
+
+/** Size and shape of one rung, or one structured text line. */
+export interface RungMetrics {
+  instructionCount: number;
+  branchDepth: number;        // Deepest branch nesting; 0 for a rung with no branches
+  parallelBranches: number;   // Branch legs beyond the first, each one more path through the rung
+  distinctTags: number;       // Base tags referenced, so Motor.Run and Motor.Stop count once
+  lineLength: number;         // Characters of rung text
+  complexity: number;         // Weighted score, see measureRung
 }
 
+/** How an instruction uses one of its operands. "name" operands are routine, label or attribute names, not tags. */
+export type RungOperandRole = "input" | "output" | "inout" | "name";
+
+export interface RungOperand {
+  text: string;
+  role: RungOperandRole;
+}
+
+export interface RungInstruction {
+  kind: "instruction";
+  name: string;
+  operands: RungOperand[];
+}
+
+export interface RungBranch {
+  kind: "branch";
+  legs: RungElement[][];
+}
+
+export type RungElement = RungInstruction | RungBranch;
+
 export interface ParsedTagReference {
   tagName: string;
   routineName: string;
   programName: string;
   rungNumber: number;
   usageType: "read" | "write" | "both";
+  baseTag?: string;        // Tag name the reference starts from, without member or index
+  memberPath?: string;     // Member path after the base tag and its index, e.g. "Cmd.Start"
+  arrayIndex?: string;     // Subscript on the base tag, e.g. "3" or "idx+1"
+  indirectIndex?: boolean; // Subscript is computed at run time
+  tagScope?: string;       // Scope of the tag it resolves to: "Controller" or the program name
+  aliasTarget?: string;    // Reference rewritten onto the alias base tag, e.g. "Local:1:I.Data.3"
+  writeInstructions?: string[]; // Instructions writing the tag in this rung or ST line, once per use, e.g. ["OTE", "OTE"]
 }
 
 export interface ParsedUDT {
   name: string;
   description?: string;
+  descriptions?: LocalizedText;
   familyType?: string;
   members: ParsedUDTMember[];
 }
@@ -44,11 +98,13 @@ export interface ParsedUDTMember {
   radix?: string;
   externalAccess?: string;
   description?: string;
+  descriptions?: LocalizedText;
 }
 
 export interface ParsedAOI {
   name: string;
   description?: string;
+  descriptions?: LocalizedText;
   revision?: string;
   vendor?: string;
   executePrescan?: boolean;
@@ -61,6 +117,28 @@ export interface ParsedAOI {
   parameters: ParsedAOIParameter[];
   localTags: ParsedAOILocalTag[];
   routines: ParsedRoutine[];
+  rungs: ParsedRung[];      // Ladder rungs and ST lines of the AOI's routines; programName is the AOI name
+  protection?: ParsedProtection;
+}
+
+/** One argument of an AOI call and the parameter it is wired to. */
+export interface ParsedAOIBinding {
+  parameter: string;
+  argument: string;
+}
+
+/**
+ * An AOI invocation in program logic, e.g. `Motor_Ctrl(Pump1_AOI, Start, Stop)`.
+ * The first argument is the backing instance tag; the rest bind to the AOI's
+ * required parameters in declaration order. FBD calls bind by pin name.
+ */
+export interface ParsedAOICall {
+  aoiName: string;
+  instanceTag: string;
+  programName: string;
+  routineName: string;
+  rungNumber: number;       // Rung, ST line or FBD sheet number
+  bindings: ParsedAOIBinding[];
 }
 
 export interface ParsedAOIParameter {
@@ -71,6 +149,7 @@ export interface ParsedAOIParameter {
   visible: boolean;
   externalAccess?: string;
   description?: string;
+  descriptions?: LocalizedText;
   defaultValue?: string;
 }
 
@@ -80,6 +159,7 @@ export interface ParsedAOILocalTag {
   radix?: string;
   externalAccess?: string;
   description?: string;
+  defaultValue?: string;
 }
 
 export interface ParsedTask {
@@ -92,13 +172,57 @@ export interface ParsedTask {
   disableUpdateOutputs?: boolean;
   description?: string;
   scheduledPrograms: string[];  // ordered list of program names
+  taskClass?: string;     // "Standard" | "Safety" (GuardLogix)
+}
+
+export interface ParsedProgram {
+  name: string;
+  description?: string;
+  descriptions?: LocalizedText;
+  mainRoutineName?: string;
+  faultRoutineName?: string;
+  disabled: boolean;
+  useAsFolder: boolean;     // Folder-only programs hold child programs but no logic
+  testEdits: boolean;
+  programClass?: string;    // "Standard" | "Safety"
+  parentProgram?: string;   // Set for child programs (v24+ program nesting)
+  childPrograms: string[];
+  taskName?: string;        // Task that runs the program, inherited by child programs
+}
+
+export interface ParsedIOPort {
+  id: number;
+  type?: string;       // ICP, Ethernet, PointIO, Compact, ...
+  address?: string;    // Slot number on a backplane, IP address on Ethernet
+  upstream: boolean;   // Port that connects the module to its parent
+}
+
+export interface ParsedIOConnection {
+  name?: string;
+  type?: string;       // Input, Output, ...
+  rpiMs?: number;      // Requested packet interval in milliseconds
+  inputTag?: string;
+  outputTag?: string;
 }
 
 export interface ParsedIOModule {
   name: string;
   catalogNumber?: string;
   parentModule?: string;
+  parentPortId?: number;
   slot?: number;
+  vendorId?: number;
+  productType?: number;
+  productCode?: number;
+  majorRevision?: number;
+  minorRevision?: number;
+  electronicKeying?: string;   // ExactMatch, CompatibleModule, Disabled
+  inhibited?: boolean;
+  majorFault?: boolean;
+  ipAddress?: string;
+  rpiMs?: number;              // RPI of the module's first connection
+  ports: ParsedIOPort[];
+  connections: ParsedIOConnection[];
   connectionInfo?: Record<string, unknown>;
 }
 
@@ -107,7 +231,205 @@ export interface ParsedRoutine {
   programName: string;
   type: string;
   description?: string;
+  descriptions?: LocalizedText;
   rungCount?: number;
+  protection?: ParsedProtection;
+  metrics?: RoutineMetrics;
+}
+
+/** Complexity aggregated over a routine's rungs. */
+export interface RoutineMetrics {
+  maxComplexity: number;
+  avgComplexity: number;
+  tagFanIn: number;           // Distinct base tags the routine reads
+  tagFanOut: number;          // Distinct base tags the routine writes
+}
+
+/**
+ * Source or license protection on a routine or AOI whose logic is exported
+ * as an opaque EncodedData blob instead of readable content.
+ */
+export interface ParsedProtection {
+  kind: "SourceKey" | "License";
+  encodedType: string;          // "Routine" | "AddOnInstructionDefinition"
+  encryptionConfig?: string;
+}
+
+export type FBDElementType =
+  | "IRef"
+  | "ORef"
+  | "ICon"
+  | "OCon"
+  | "Block"
+  | "Function"
+  | "AddOnInstruction";
+
+export interface ParsedFBDBinding {
+  parameter: string;
+  operand: string;
+  direction: "input" | "output" | "inout";
+}
+
+export interface ParsedFBDElement {
+  id: number;
+  elementType: FBDElementType;
+  instruction?: string;   // PIDE, SCL, ADD, or the AOI name
+  operand?: string;       // IRef/ORef tag or block backing tag
+  connectorName?: string; // ICon/OCon name
+  x?: number;
+  y?: number;
+  visiblePins: string[];
+  bindings: ParsedFBDBinding[];
+}
+
+export interface ParsedFBDWire {
+  fromId: number;
+  fromParam?: string;
+  toId: number;
+  toParam?: string;
+  feedback: boolean;
+}
+
+export interface ParsedFBDSheet {
+  routineName: string;
+  programName: string;
+  number: number;
+  description?: string;
+  elements: ParsedFBDElement[];
+  wires: ParsedFBDWire[];
+}
+
+export type SFCNodeType = "Step" | "Transition" | "Branch" | "Leg" | "Stop" | "SbrRet";
+
+export interface ParsedSFCAction {
+  id: number;
+  name: string;
+  qualifier?: string;   // N, S, R, L, D, P, P0, P1...
+  isBoolean: boolean;
+  body: string;         // embedded ST, one statement line per source line
+}
+
+export interface ParsedSFCNode {
+  id: number;
+  nodeType: SFCNodeType;
+  name?: string;          // Step/Transition/Stop operand tag
+  x?: number;
+  y?: number;
+  initialStep?: boolean;
+  branchType?: string;    // "Simultaneous" | "Selection"
+  branchFlow?: string;    // "Diverge" | "Converge"
+  branchId?: number;      // Parent branch of a Leg
+  condition?: string;     // Transition condition expression (ST)
+  actions: ParsedSFCAction[];
+}
+
+export interface ParsedSFCLink {
+  fromId: number;
+  toId: number;
+}
+
+export interface ParsedSFCChart {
+  routineName: string;
+  programName: string;
+  nodes: ParsedSFCNode[];
+  links: ParsedSFCLink[];
+}
+
+export type CommunicationKind = "produced" | "consumed" | "message";
+
+/**
+ * One end of an inter-controller link: a produced tag published to consumers,
+ * a consumed tag subscribed from another controller, or a MESSAGE tag's
+ * configured request. Fields apply to the matching kind only.
+ */
+export interface ParsedCommunication {
+  kind: CommunicationKind;
+  tagName: string;
+  scope: string;
+  dataType: string;
+  // Produced
+  produceCount?: number;
+  unicastPermitted?: boolean;
+  // Consumed
+  producer?: string;       // Controller (I/O tree module) that produces the tag
+  remoteTag?: string;      // Produced tag name in the producing controller
+  remoteInstance?: number;
+  rpiMs?: number;
+  unicast?: boolean;
+  // MESSAGE
+  messageType?: string;    // e.g. "CIP Data Table Read"
+  connectionPath?: string;
+  remoteElement?: string;
+  localElement?: string;
+  connected?: boolean;
+  cacheConnections?: boolean;
+  requestedLength?: number;
+}
+
+/** A standard tag whose value the safety task copies into a safety tag each scan. */
+export interface ParsedSafetyTagMapping {
+  standardTag: string;
+  safetyTag: string;
+}
+
+/** GuardLogix controller safety state; present only for safety controllers. */
+export interface ParsedSafetyInfo {
+  signature?: string;     // Safety signature (ID and timestamp) when the safety application is signed
+  locked?: boolean;
+  level?: string;         // e.g. "SIL2/PLd", "SIL3/PLe"
+  tagMap: ParsedSafetyTagMapping[];
+}
+
+export type AlarmKind = "digital" | "analog" | "condition" | "definition";
+
+/**
+ * One alarm condition. ALARM_DIGITAL tags give one alarm; ALARM_ANALOG tags
+ * give one per enabled level (`condition` HH, H, L, LL, ROC_POS, ROC_NEG).
+ * Tag-based alarms (v31+) are either `condition`s configured on a tag or
+ * member alarm `definition`s on a data type, which apply to every tag of
+ * that type; for definitions `tagName` is the data type name.
+ */
+export interface ParsedAlarm {
+  kind: AlarmKind;
+  tagName: string;
+  scope: string;
+  dataType: string;
+  condition?: string;
+  input?: string;          // Tag-based alarms: member or expression the condition evaluates
+  conditionType?: string;  // Tag-based alarms: TRIP, EQ, GT, LT, ...
+  limit?: number;
+  severity?: number;       // 1-1000
+  deadband?: number;
+  onDelayMs?: number;
+  offDelayMs?: number;
+  latched?: boolean;
+  ackRequired?: boolean;
+  message?: string;
+}
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type DiagnosticCode =
+  | "unknown-element"            // Section the parser does not read; skipped
+  | "unsupported-routine-type"   // Routine listed but its logic was not parsed
+  | "unparseable-rung"           // Rung text is malformed; references may be incomplete
+  | "unparseable-declaration"    // Declaration could not be read and was dropped
+  | "fallback-default"           // Missing attribute replaced with a default
+  | "missing-element"            // Required root or controller element is absent; nothing was parsed
+  | "diagnostics-truncated";
+
+/**
+ * Something the parser did not fully understand. `path` locates the element,
+ * e.g. `Controller/Programs/Program[Main]/Routines/Routine[R01]/RLLContent/Rung[4]`
+ * for L5X or `PROGRAM[Main]/ROUTINE[R01]/Rung[4]` for L5K; `line` is set where
+ * the parser knows it.
+ */
+export interface ParsedDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  path?: string;
+  line?: number;
 }
 
 export interface ParsedL5XData {
@@ -119,6 +441,14 @@ export interface ParsedL5XData {
   udts: ParsedUDT[];
   aois: ParsedAOI[];
   tasks: ParsedTask[];
+  programs: ParsedProgram[];
+  fbdSheets: ParsedFBDSheet[];
+  sfcCharts: ParsedSFCChart[];
+  aoiCalls: ParsedAOICall[];
+  communications: ParsedCommunication[];
+  alarms: ParsedAlarm[];
+  safety?: ParsedSafetyInfo;
+  diagnostics: ParsedDiagnostic[];
   metadata: {
     projectName?: string;
     processorType?: string;
@@ -126,22 +456,38 @@ export interface ParsedL5XData {
     targetType?: string;
     targetName?: string;
     exportDate?: string;
+    documentationLanguages?: string[];   // Language codes of multi-language descriptions and comments
   };
 }
 
+/** One language of a multi-language description or comment. */
+export interface L5XLocalizedText {
+  "@_Lang"?: string;
+  "#text"?: string;
+}
+
+/** Description or comment text: plain, or one entry per documentation language. */
+export type L5XText =
+  | string
+  | {
+      "#text"?: string;
+      LocalizedDescription?: L5XLocalizedText | L5XLocalizedText[];
+      LocalizedComment?: L5XLocalizedText | L5XLocalizedText[];
+    };
+
 export interface L5XUDTMember {
   "@_Name"?: string;
   "@_DataType"?: string;
   "@_Dimension"?: string;
   "@_Radix"?: string;
   "@_ExternalAccess"?: string;
-  Description?: string | { "#text"?: string };
+  Description?: L5XText;
 }
 
 export interface L5XUDT {
   "@_Name"?: string;
   "@_Family"?: string;
-  Description?: string | { "#text"?: string };
+  Description?: L5XText;
   Members?: {
     Member?: L5XUDTMember | L5XUDTMember[];
   };
@@ -155,7 +501,8 @@ export interface L5XAOIParameter {
   "@_Visible"?: string;
   "@_ExternalAccess"?: string;
   DefaultValue?: string | { "#text"?: string };
-  Description?: string | { "#text"?: string };
+  DefaultData?: L5XTagData | L5XTagData[];
+  Description?: L5XText;
 }
 
 export interface L5XAOILocalTag {
@@ -163,7 +510,8 @@ export interface L5XAOILocalTag {
   "@_DataType"?: string;
   "@_Radix"?: string;
   "@_ExternalAccess"?: string;
-  Description?: string | { "#text"?: string };
+  DefaultData?: L5XTagData | L5XTagData[];
+  Description?: L5XText;
 }
 
 export interface L5XAOI {
@@ -177,7 +525,7 @@ export interface L5XAOI {
   "@_CreatedBy"?: string;
   "@_EditedDate"?: string;
   "@_EditedBy"?: string;
-  Description?: string | { "#text"?: string };
+  Description?: L5XText;
   Parameters?: {
     Parameter?: L5XAOIParameter | L5XAOIParameter[];
   };
@@ -197,7 +545,8 @@ export interface L5XTask {
   "@_Watchdog"?: string;
   "@_InhibitTask"?: string;
   "@_DisableUpdateOutputs"?: string;
-  Description?: string | { "#text"?: string };
+  "@_Class"?: string;
+  Description?: L5XText;
   ScheduledPrograms?: {
     ScheduledProgram?: { "@_Name"?: string } | { "@_Name"?: string }[];
   };
@@ -221,10 +570,22 @@ export interface L5XController {
   };
   AddOnInstructionDefinitions?: {
     AddOnInstructionDefinition?: L5XAOI | L5XAOI[];
+    EncodedData?: L5XEncodedData | L5XEncodedData[];
   };
   Tasks?: {
     Task?: L5XTask | L5XTask[];
   };
+  AlarmDefinitions?: {
+    DatatypeAlarmDefinition?: L5XDatatypeAlarmDefinition | L5XDatatypeAlarmDefinition[];
+  };
+  SafetyInfo?: L5XSafetyInfo;
+}
+
+export interface L5XSafetyInfo {
+  "@_SafetySignature"?: string;
+  "@_SafetyLocked"?: string;
+  "@_SafetyLevel"?: string;
+  SafetyTagMap?: string | { "#text"?: string };
 }
 
 export interface L5XTag {
@@ -235,43 +596,282 @@ export interface L5XTag {
   "@_ExternalAccess"?: string;
   "@_Dimensions"?: string;
   "@_AliasFor"?: string;
-  Description?: string | { "#text"?: string };
-  Data?: unknown;
+  "@_TagType"?: string;
+  "@_Class"?: string;
+  Description?: L5XText;
+  ProduceInfo?: Record<string, string>;
+  ConsumeInfo?: Record<string, string>;
+  AlarmConditions?: {
+    AlarmCondition?: L5XAlarmCondition | L5XAlarmCondition[];
+  };
+  Data?: L5XTagData | L5XTagData[];
+}
+
+/** <AlarmCondition> on a tag or <MemberAlarmDefinition> on a data type; settings are attributes. */
+export interface L5XAlarmCondition {
+  "@_Name"?: string;
+  "@_AlarmConditionDefinition"?: string;
+  "@_Input"?: string;
+  "@_Expression"?: string;
+  "@_ConditionType"?: string;
+  "@_Limit"?: string;
+  "@_Severity"?: string;
+  "@_OnDelay"?: string;
+  "@_OffDelay"?: string;
+  "@_Deadband"?: string;
+  "@_AckRequired"?: string;
+  "@_Latched"?: string;
+  "@_Used"?: string;
+  AlarmConfig?: L5XAlarmConfig;
+}
+
+export interface L5XAlarmConfig {
+  Messages?: {
+    Message?: L5XAlarmMessage | L5XAlarmMessage[];
+  };
+}
+
+export interface L5XAlarmMessage {
+  "@_Type"?: string;
+  Text?: L5XAlarmText | L5XAlarmText[];
+}
+
+export interface L5XAlarmText {
+  "@_Lang"?: string;
+  "#text"?: string | number;
+}
+
+export interface L5XDatatypeAlarmDefinition {
+  "@_Name"?: string;
+  MemberAlarmDefinition?: L5XAlarmCondition | L5XAlarmCondition[];
+}
+
+/** A <Data>/<DefaultData> element. Decorated data nests DataValue, Array or Structure. */
+export interface L5XTagData {
+  "@_Format"?: string;
+  "@_Length"?: string;
+  "#text"?: string | number;
+  DataValue?: L5XDataValue;
+  Array?: L5XDataArray;
+  Structure?: L5XDataStructure;
+  MessageParameters?: Record<string, string>;
+  AlarmDigitalParameters?: Record<string, string>;
+  AlarmAnalogParameters?: Record<string, string>;
+  AlarmConfig?: L5XAlarmConfig;
+}
+
+export interface L5XDataValue {
+  "@_Name"?: string;
+  "@_DataType"?: string;
+  "@_Radix"?: string;
+  "@_Value"?: string;
+  "#text"?: string | number;
+}
+
+export interface L5XDataArray {
+  "@_Name"?: string;
+  "@_DataType"?: string;
+  "@_Dimensions"?: string;
+  "@_Radix"?: string;
+  Element?: L5XDataElement | L5XDataElement[];
+}
+
+export interface L5XDataElement {
+  "@_Index"?: string;
+  "@_Value"?: string;
+  Structure?: L5XDataStructure;
+}
+
+export interface L5XDataStructure {
+  "@_Name"?: string;
+  "@_DataType"?: string;
+  DataValueMember?: L5XDataValue | L5XDataValue[];
+  ArrayMember?: L5XDataArray | L5XDataArray[];
+  StructureMember?: L5XDataStructure | L5XDataStructure[];
 }
 
 export interface L5XProgram {
   "@_Name"?: string;
+  "@_TestEdits"?: string;
+  "@_MainRoutineName"?: string;
+  "@_FaultRoutineName"?: string;
+  "@_Disabled"?: string;
+  "@_UseAsFolder"?: string;
+  "@_Class"?: string;
+  Description?: L5XText;
+  ChildPrograms?: {
+    ChildProgram?: { "@_Name"?: string } | { "@_Name"?: string }[];
+  };
   Tags?: {
     Tag?: L5XTag | L5XTag[];
   };
   Routines?: {
     Routine?: L5XRoutine | L5XRoutine[];
+    EncodedData?: L5XEncodedData | L5XEncodedData[];
   };
 }
 
+/**
+ * Wrapper left in place of a protected component. The encoded text is not
+ * readable, but the attributes identify the component, and AOIs keep their
+ * description and parameter interface alongside the blob.
+ */
+export interface L5XEncodedData {
+  "@_EncodedType"?: string;
+  "@_Name"?: string;
+  "@_Type"?: string;
+  "@_Revision"?: string;
+  "@_Vendor"?: string;
+  "@_EncryptionConfig"?: string;
+  "@_LicenseID"?: string;
+  "@_SignatureID"?: string;
+  Description?: L5XText;
+  Parameters?: {
+    Parameter?: L5XAOIParameter | L5XAOIParameter[];
+  };
+  "#text"?: string;
+}
+
 export interface L5XRung {
   "@_Number"?: string;
   "@_Type"?: string;
-  Comment?: string | { "#text"?: string };
+  Comment?: L5XText;
   Text?: string | { "#text"?: string };
 }
 
+export interface L5XSTLine {
+  "@_Number"?: string;
+  "#text"?: string;
+}
+
+export interface L5XFBDElement {
+  "@_ID"?: string;
+  "@_X"?: string;
+  "@_Y"?: string;
+  "@_Operand"?: string;
+  "@_Name"?: string;
+  "@_Type"?: string;
+  "@_VisiblePins"?: string;
+  InOutParameter?: L5XFBDInOutParameter | L5XFBDInOutParameter[];
+}
+
+export interface L5XFBDInOutParameter {
+  "@_Name"?: string;
+  "@_Argument"?: string;
+}
+
+export interface L5XFBDWire {
+  "@_FromID"?: string;
+  "@_FromParam"?: string;
+  "@_ToID"?: string;
+  "@_ToParam"?: string;
+}
+
+export interface L5XFBDSheet {
+  "@_Number"?: string;
+  Description?: L5XText;
+  IRef?: L5XFBDElement | L5XFBDElement[];
+  ORef?: L5XFBDElement | L5XFBDElement[];
+  ICon?: L5XFBDElement | L5XFBDElement[];
+  OCon?: L5XFBDElement | L5XFBDElement[];
+  Block?: L5XFBDElement | L5XFBDElement[];
+  Function?: L5XFBDElement | L5XFBDElement[];
+  AddOnInstruction?: L5XFBDElement | L5XFBDElement[];
+  Wire?: L5XFBDWire | L5XFBDWire[];
+  FeedbackWire?: L5XFBDWire | L5XFBDWire[];
+}
+
+export interface L5XSTBody {
+  STContent?: {
+    Line?: L5XSTLine | L5XSTLine[];
+  };
+}
+
+export interface L5XSFCAction {
+  "@_ID"?: string;
+  "@_Operand"?: string;
+  "@_Qualifier"?: string;
+  "@_IsBoolean"?: string;
+  Body?: L5XSTBody;
+}
+
+export interface L5XSFCElement {
+  "@_ID"?: string;
+  "@_X"?: string;
+  "@_Y"?: string;
+  "@_Operand"?: string;
+  "@_InitialStep"?: string;
+  "@_BranchType"?: string;
+  "@_BranchFlow"?: string;
+  Action?: L5XSFCAction | L5XSFCAction[];
+  Condition?: L5XSTBody;
+  Leg?: { "@_ID"?: string } | { "@_ID"?: string }[];
+}
+
+export interface L5XSFCContent {
+  Step?: L5XSFCElement | L5XSFCElement[];
+  Transition?: L5XSFCElement | L5XSFCElement[];
+  Branch?: L5XSFCElement | L5XSFCElement[];
+  Stop?: L5XSFCElement | L5XSFCElement[];
+  SbrRet?: L5XSFCElement | L5XSFCElement[];
+  DirectedLink?: { "@_FromID"?: string; "@_ToID"?: string } | { "@_FromID"?: string; "@_ToID"?: string }[];
+}
+
 export interface L5XRoutine {
   "@_Name"?: string;
   "@_Type"?: string;
-  Description?: string | { "#text"?: string };
+  Description?: L5XText;
   RLLContent?: {
     Rung?: L5XRung | L5XRung[];
   };
+  STContent?: {
+    Line?: L5XSTLine | L5XSTLine[];
+  };
+  FBDContent?: {
+    Sheet?: L5XFBDSheet | L5XFBDSheet[];
+  };
+  SFCContent?: L5XSFCContent;
+}
+
+export interface L5XModulePort {
+  "@_Id"?: string;
+  "@_Address"?: string;
+  "@_Type"?: string;
+  "@_Upstream"?: string;
+}
+
+export interface L5XModuleConnection {
+  "@_Name"?: string;
+  "@_RPI"?: string;
+  "@_Type"?: string;
+  "@_InputTagSuffix"?: string;
+  "@_OutputTagSuffix"?: string;
+  InputTag?: unknown;
+  OutputTag?: unknown;
 }
 
 export interface L5XModule {
   "@_Name"?: string;
   "@_CatalogNumber"?: string;
+  "@_Vendor"?: string;
+  "@_ProductType"?: string;
+  "@_ProductCode"?: string;
+  "@_Major"?: string;
+  "@_Minor"?: string;
   "@_ParentModule"?: string;
+  "@_ParentModPortId"?: string;
   "@_Slot"?: string;
-  Ports?: unknown;
-  Communications?: unknown;
+  "@_Inhibited"?: string;
+  "@_MajorFault"?: string;
+  EKey?: { "@_State"?: string };
+  Ports?: {
+    Port?: L5XModulePort | L5XModulePort[];
+  };
+  Communications?: {
+    Connections?: {
+      Connection?: L5XModuleConnection | L5XModuleConnection[];
+    };
+  };
 }
 
 export interface L5XRoot {
@@ -0,0 +1,16 @@
+/**
+ * Protected (EncodedData) routines hide their logic, so any tag they could
+ * reference has unknown usage. Tags scoped to a program that contains a
+ * protected routine are left out of unused-tag counts and their
+ * denominators rather than being reported as unused. Programs are keyed by
+ * file, since every file in a project can have its own MainProgram.
+ */
+export function getProtectedPrograms(
+  routines: Array<{ file_id: string; program_name: string; is_protected?: boolean | null }>
+): Set<string> {
+  return new Set(routines.filter((r) => r.is_protected).map((r) => `${r.file_id}/${r.program_name}`));
+}
+
+export function isInProtectedScope(tag: { file_id: string; scope: string }, protectedPrograms: Set<string>): boolean {
+  return tag.scope !== "Controller" && protectedPrograms.has(`${tag.file_id}/${tag.scope}`);
+}
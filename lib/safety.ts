@@ -0,0 +1,114 @@
+/**
+ * GuardLogix safety separation checks. Standard programs may read safety
+ * tags but must not change them; the only sanctioned path from standard to
+ * safety is the safety tag map, which the safety task copies at the start of
+ * its scan. Standard logic writing a safety tag, or writing a standard tag
+ * that is mapped into a safety tag, changes safety inputs from outside the
+ * safety task and is flagged for review.
+ */
+
+export interface SafetyTagMapping {
+  standardTag: string;
+  safetyTag: string;
+}
+
+export interface SafetyWriteFinding {
+  fileId: string;
+  tagName: string;             // Tag as written, including any member or index
+  reason: "safety-tag" | "safety-mapped";
+  safetyTag: string;           // The safety tag affected
+  programName: string;
+  routineName: string;
+  rungNumber: number;
+}
+
+interface ReferenceRow {
+  file_id: string;
+  tag_name: string;
+  program_name: string;
+  routine_name: string;
+  rung_number: number;
+  usage_type: string;
+}
+
+interface ProgramRow {
+  file_id: string;
+  name: string;
+  program_class: string | null;
+}
+
+interface TagRow {
+  file_id: string;
+  name: string;
+  scope: string;
+  tag_class?: string | null;
+}
+
+interface SafetyFileRow {
+  id: string;
+  safety_tag_map: SafetyTagMapping[] | null;
+}
+
+function baseTagName(tagName: string): string {
+  return tagName.split(/[.[]/)[0];
+}
+
+export function isSafetyProject(
+  files: SafetyFileRow[],
+  programs: ProgramRow[]
+): boolean {
+  return files.some((f) => f.safety_tag_map !== null) || programs.some((p) => p.program_class === "Safety");
+}
+
+export function findStandardWritesToSafety(
+  references: ReferenceRow[],
+  programs: ProgramRow[],
+  tags: TagRow[],
+  files: SafetyFileRow[]
+): SafetyWriteFinding[] {
+  const key = (fileId: string, name: string) => `${fileId}:${name}`;
+
+  const safetyPrograms = new Set(
+    programs.filter((p) => p.program_class === "Safety").map((p) => key(p.file_id, p.name))
+  );
+  // Only controller-scoped tags are shared between standard and safety programs
+  const safetyTags = new Set(
+    tags.filter((t) => t.tag_class === "Safety" && t.scope === "Controller").map((t) => key(t.file_id, t.name))
+  );
+  // Program tags shadow controller tags of the same name
+  const programTags = new Set(
+    tags.filter((t) => t.scope !== "Controller").map((t) => key(t.file_id, `${t.scope}/${t.name}`))
+  );
+  const mappedTags = new Map<string, string>();
+  for (const file of files) {
+    for (const mapping of file.safety_tag_map || []) {
+      mappedTags.set(key(file.id, mapping.standardTag), mapping.safetyTag);
+    }
+  }
+
+  const findings: SafetyWriteFinding[] = [];
+  for (const ref of references) {
+    if (ref.usage_type === "read") continue;
+    if (safetyPrograms.has(key(ref.file_id, ref.program_name))) continue;
+
+    const baseName = baseTagName(ref.tag_name);
+    if (programTags.has(key(ref.file_id, `${ref.program_name}/${baseName}`))) continue;
+
+    const base = key(ref.file_id, baseName);
+    const safetyTag = mappedTags.get(base);
+    const location = {
+      fileId: ref.file_id,
+      tagName: ref.tag_name,
+      programName: ref.program_name,
+      routineName: ref.routine_name,
+      rungNumber: ref.rung_number,
+    };
+    if (safetyTags.has(base)) {
+      findings.push({ ...location, reason: "safety-tag", safetyTag: baseName });
+    } else if (safetyTag) {
+      findings.push({ ...location, reason: "safety-mapped", safetyTag });
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,276 @@
+/**
+ * Studio 5000 tag CSV, the format of Tools > Export > Tags and Logic Comments.
+ *
+ * The file opens with `remark` lines and a format version, then a
+ * `TYPE,SCOPE,NAME,DESCRIPTION,DATATYPE,SPECIFIER,ATTRIBUTES` header. Each
+ * row is one of:
+ *
+ *   TAG     - a base tag; array dimensions ride on the data type, `DINT[10]`
+ *   ALIAS   - an alias tag, its target in SPECIFIER
+ *   COMMENT - a member or bit comment, the full operand in SPECIFIER
+ *
+ * ATTRIBUTES is a `(RADIX := Decimal, ExternalAccess := Read/Write)` block.
+ * Attributes the editor has no field for are kept as read so they are
+ * written back unchanged. Descriptions use the IEC string escapes Logix
+ * uses, so `$N` is a line break and `$$` a dollar sign.
+ */
+
+export interface Studio5000MemberComment {
+  specifier: string;        // Full operand, e.g. Pump1.Cmd or Pump1.Status.3
+  comment: string;
+}
+
+export interface Studio5000Tag {
+  name: string;
+  dataType: string;
+  scope: string;
+  description?: string;
+  radix?: string;
+  externalAccess?: string;
+  usage?: string;
+  dimensions?: string;      // Space-separated, as in L5X: "2 3"
+  aliasFor?: string;
+  attributes?: Record<string, string>;
+  memberComments?: Studio5000MemberComment[];
+}
+
+export interface Studio5000ParseResult {
+  tags: Studio5000Tag[];
+  skippedRows: number;      // Row types other than TAG, ALIAS and COMMENT, e.g. RCOMMENT
+}
+
+const HEADER = ["TYPE", "SCOPE", "NAME", "DESCRIPTION", "DATATYPE", "SPECIFIER", "ATTRIBUTES"];
+
+// Attributes with their own editor field, by their name in the CSV
+const MAPPED_ATTRIBUTES: Record<string, "radix" | "externalAccess" | "usage"> = {
+  RADIX: "radix",
+  EXTERNALACCESS: "externalAccess",
+  USAGE: "usage",
+};
+
+/** Split CSV into rows of cells. Quoted cells may hold commas, doubled quotes and line breaks. */
+export function splitCSVRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+function isHeaderRow(row: string[]): boolean {
+  return row.length >= 3 && HEADER.slice(0, 3).every((h, i) => row[i]?.trim().toUpperCase() === h);
+}
+
+/** Whether CSV content is a Studio 5000 tag export rather than a plain table. */
+export function isStudio5000CSV(content: string): boolean {
+  // Only the lines before the header need checking
+  for (const row of splitCSVRows(content.substring(0, 4096))) {
+    if (isHeaderRow(row)) return true;
+    if (row[0]?.trim().toLowerCase() !== "remark" && !/^\d+(\.\d+)?$/.test(row[0]?.trim() || "")) return false;
+  }
+  return false;
+}
+
+function decodeText(text: string): string {
+  return text.replace(/\$([$'"NnLlRrTt])/g, (_, code: string) => {
+    switch (code.toUpperCase()) {
+      case "N":
+      case "L":
+        return "\n";
+      case "R":
+        return "";
+      case "T":
+        return "\t";
+      default:
+        return code;
+    }
+  });
+}
+
+function encodeText(text: string): string {
+  return text.replace(/\$/g, "$$$$").replace(/\r?\n/g, "$N").replace(/\t/g, "$T");
+}
+
+/** `(RADIX := Decimal, Constant := false)` to its name/value pairs, in order. */
+function parseAttributes(text: string): Array<[string, string]> {
+  const inner = text.trim().replace(/^\(/, "").replace(/\)$/, "");
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of inner) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === "," && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map((part) => part.split(":="))
+    .filter((pair) => pair.length >= 2 && pair[0].trim())
+    .map(([name, ...value]) => [name.trim(), value.join(":=").trim()]);
+}
+
+function formatAttributes(tag: Studio5000Tag): string {
+  const pairs: string[] = [];
+  if (tag.radix) pairs.push(`RADIX := ${tag.radix}`);
+  if (tag.usage) pairs.push(`Usage := ${tag.usage}`);
+  for (const [name, value] of Object.entries(tag.attributes || {})) pairs.push(`${name} := ${value}`);
+  if (tag.externalAccess) pairs.push(`ExternalAccess := ${tag.externalAccess}`);
+  return pairs.length > 0 ? `(${pairs.join(", ")})` : "";
+}
+
+// DINT[2,3] -> DINT with dimensions "2 3"
+function splitDataType(text: string): { dataType: string; dimensions?: string } {
+  const match = text.trim().match(/^([^[]*)\[([^\]]*)\]$/);
+  if (!match) return { dataType: text.trim() };
+  return { dataType: match[1].trim(), dimensions: match[2].split(",").map((d) => d.trim()).join(" ") };
+}
+
+function formatDataType(tag: Studio5000Tag): string {
+  const dimensions = tag.dimensions?.trim().split(/[\s,]+/).filter(Boolean) || [];
+  return dimensions.length > 0 ? `${tag.dataType}[${dimensions.join(",")}]` : tag.dataType;
+}
+
+function tagKey(scope: string, name: string): string {
+  return `${scope.toUpperCase()}/${name.toUpperCase()}`;
+}
+
+export function parseStudio5000CSV(content: string): Studio5000ParseResult {
+  const rows = splitCSVRows(content);
+  const headerIndex = rows.findIndex(isHeaderRow);
+  if (headerIndex === -1) {
+    throw new Error("Studio 5000 CSV must have a TYPE,SCOPE,NAME,DESCRIPTION,DATATYPE,SPECIFIER,ATTRIBUTES header");
+  }
+
+  // Columns by header name, in case a version reorders or adds them
+  const header = rows[headerIndex].map((h) => h.trim().toUpperCase());
+  const column = (row: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? (row[index] || "").trim() : "";
+  };
+
+  const tags: Studio5000Tag[] = [];
+  const byKey = new Map<string, Studio5000Tag>();
+  const pendingComments: Array<{ key: string; comment: Studio5000MemberComment }> = [];
+  let skippedRows = 0;
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const type = row[0]?.trim().toUpperCase();
+    const scope = column(row, "SCOPE") || "Controller";
+    const name = column(row, "NAME");
+    if (!name || type === "REMARK") continue;
+
+    if (type === "COMMENT") {
+      pendingComments.push({
+        key: tagKey(scope, name),
+        comment: { specifier: column(row, "SPECIFIER"), comment: decodeText(column(row, "DESCRIPTION")) },
+      });
+      continue;
+    }
+    if (type !== "TAG" && type !== "ALIAS") {
+      skippedRows++;
+      continue;
+    }
+
+    const tag: Studio5000Tag = { name, scope, dataType: "" };
+    const description = decodeText(column(row, "DESCRIPTION"));
+    if (description) tag.description = description;
+
+    if (type === "ALIAS") {
+      tag.aliasFor = column(row, "SPECIFIER");
+      tag.dataType = column(row, "DATATYPE");
+    } else {
+      Object.assign(tag, splitDataType(column(row, "DATATYPE")));
+      if (!tag.dimensions) delete tag.dimensions;
+    }
+
+    for (const [attribute, value] of parseAttributes(column(row, "ATTRIBUTES"))) {
+      const field = MAPPED_ATTRIBUTES[attribute.toUpperCase()];
+      if (field) tag[field] = value;
+      else tag.attributes = { ...tag.attributes, [attribute]: value };
+    }
+
+    tags.push(tag);
+    byKey.set(tagKey(scope, name), tag);
+  }
+
+  // Comments may come before their tag, so they are attached once every tag is read
+  for (const { key, comment } of pendingComments) {
+    const tag = byKey.get(key);
+    if (tag) tag.memberComments = [...(tag.memberComments || []), comment];
+    else skippedRows++;
+  }
+
+  return { tags, skippedRows };
+}
+
+function csvCell(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/** Tags as a Studio 5000 tag CSV, ready for Tools > Import > Tags and Logic Comments. */
+export function formatStudio5000CSV(tags: Studio5000Tag[], options: { softwareRevision?: string } = {}): string {
+  const lines = [
+    "remark,CSV-Import-Export",
+    `remark,Date = ${new Date().toString()}`,
+    `remark,Version = RSLogix 5000 v${options.softwareRevision || "33.00"}`,
+    "remark,Owner = ",
+    "remark,Company = ",
+    "0.3",
+    HEADER.join(","),
+  ];
+
+  for (const tag of tags) {
+    const scope = tag.scope && tag.scope !== "Controller" ? tag.scope : "";
+    const description = csvCell(encodeText(tag.description || ""));
+    const attributes = csvCell(formatAttributes(tag));
+
+    if (tag.aliasFor) {
+      lines.push(["ALIAS", scope, tag.name, description, csvCell(tag.dataType || ""), csvCell(tag.aliasFor), attributes].join(","));
+    } else {
+      lines.push(["TAG", scope, tag.name, description, csvCell(formatDataType(tag)), csvCell(""), attributes].join(","));
+    }
+    for (const member of tag.memberComments || []) {
+      lines.push(["COMMENT", scope, tag.name, csvCell(encodeText(member.comment)), csvCell(""), csvCell(member.specifier)].join(","));
+    }
+  }
+
+  // Studio 5000 writes and expects Windows line endings
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,45 @@
+import { followTagReference, indexTagsByFile } from "@/lib/parsers/tag-resolution";
+
+/**
+ * Tag usage from stored references. A reference uses the tag it resolves to
+ * after program-scope shadowing, so `Pump1.Cmd` or `Pump1[3]` uses `Pump1`,
+ * and every alias on the way to the tag holding the data. Resolution runs
+ * on the stored reference text, so files parsed before references carried
+ * their resolution are counted the same way.
+ */
+
+interface TagRow {
+  file_id: string;
+  name: string;
+  scope: string;
+  alias_for?: string | null;
+}
+
+interface ReferenceRow {
+  file_id: string;
+  tag_name: string;
+  program_name?: string | null;
+}
+
+function usageKey(fileId: string, scope: string, name: string): string {
+  return `${fileId}/${scope.toUpperCase()}/${name.toUpperCase()}`;
+}
+
+function findUsedTagKeys(tags: TagRow[], references: ReferenceRow[]): Set<string> {
+  const indexes = indexTagsByFile(tags);
+
+  const used = new Set<string>();
+  for (const ref of references) {
+    const index = indexes.get(ref.file_id);
+    if (!index) continue;
+    const { tags: resolved } = followTagReference(index, ref.program_name || undefined, ref.tag_name);
+    for (const tag of resolved) used.add(usageKey(ref.file_id, tag.scope, tag.name));
+  }
+  return used;
+}
+
+/** Tags no reference resolves to, directly or through an alias. */
+export function findUnusedTags<T extends TagRow>(tags: T[], references: ReferenceRow[]): T[] {
+  const used = findUsedTagKeys(tags, references);
+  return tags.filter((tag) => !used.has(usageKey(tag.file_id, tag.scope, tag.name)));
+}
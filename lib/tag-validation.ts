@@ -0,0 +1,336 @@
+import { hasOperandSignature } from "@/lib/parsers/instruction-set";
+import { extractRungTagUsages, flattenRungInstructions, parseRungText } from "@/lib/parsers/rung-parser";
+import {
+  followTagReference,
+  indexTagsByFile,
+  parseDimensions,
+  splitTagPath,
+  splitTagReference,
+} from "@/lib/parsers/tag-resolution";
+
+/**
+ * Tag references checked against the tag, UDT and AOI definitions.
+ *
+ * Logix refuses to verify a routine that names an undeclared tag, a member
+ * its data type does not have, or a constant subscript past the end of an
+ * array, but an export can still carry them: a routine imported without its
+ * tags, a UDT edited after the logic was written, or a hand-edited file.
+ *
+ * Each operand is walked the way the controller reads it. The base tag is
+ * looked up with program-scope shadowing and followed through aliases, then
+ * every `.Member`, `[index]` and `.bit` step is checked against the type
+ * reached so far. Module I/O is only checked for the module name, since the
+ * module's data layout is not in the export, and types with no definition on
+ * record (MESSAGE, PID, module-defined types) end the walk without a
+ * finding. Computed subscripts are only known at run time and are skipped.
+ * An operand that only appears on ladder instructions with no known operand
+ * signature is never reported as undeclared: it may be a keyword or a
+ * literal rather than a tag.
+ */
+
+interface TagRow {
+  file_id: string;
+  name: string;
+  scope: string;
+  data_type: string;
+  dimensions?: string | null;
+  alias_for?: string | null;
+}
+
+interface ReferenceRow {
+  file_id: string;
+  tag_name: string;
+  program_name: string;
+  routine_name: string;
+  rung_number: number;
+}
+
+interface UDTRow {
+  file_id: string;
+  name: string;
+  parsed_udt_members?: Array<{ name: string; data_type: string; dimension?: string | null }> | null;
+}
+
+interface AOIRow {
+  file_id: string;
+  name: string;
+  parsed_aoi_parameters?: Array<{ name: string; data_type: string; usage: string }> | null;
+}
+
+interface ModuleRow {
+  file_id: string;
+  name: string;
+}
+
+interface RoutineRow {
+  file_id: string;
+  name: string;
+  program_name: string;
+  type?: string | null;
+}
+
+interface RungRow {
+  file_id: string;
+  program_name: string;
+  routine_name: string;
+  number: number;
+  content?: string | null;
+}
+
+export type TagReferenceProblemKind = "undeclared" | "unknown-member" | "out-of-range";
+
+export interface TagReferenceProblem {
+  kind: TagReferenceProblemKind;
+  fileId: string;
+  tagName: string;          // The operand as written in the rung
+  programName: string;
+  routineName: string;
+  rungNumber: number;
+  description: string;
+}
+
+interface TypeMember {
+  name: string;
+  dataType: string;
+  dimensions: number[];
+}
+
+// Members of the built-in structures logic most often reaches into
+const BUILT_IN_MEMBERS: Record<string, Array<[string, string, number?]>> = {
+  TIMER: [["PRE", "DINT"], ["ACC", "DINT"], ["EN", "BOOL"], ["TT", "BOOL"], ["DN", "BOOL"]],
+  COUNTER: [["PRE", "DINT"], ["ACC", "DINT"], ["CU", "BOOL"], ["CD", "BOOL"], ["DN", "BOOL"], ["OV", "BOOL"], ["UN", "BOOL"]],
+  CONTROL: [
+    ["LEN", "DINT"], ["POS", "DINT"], ["EN", "BOOL"], ["EU", "BOOL"], ["DN", "BOOL"],
+    ["EM", "BOOL"], ["ER", "BOOL"], ["UL", "BOOL"], ["IN", "BOOL"], ["FD", "BOOL"],
+  ],
+  STRING: [["LEN", "DINT"], ["DATA", "SINT", 82]],
+};
+
+// Bits addressable with `.n` on each integer type
+const INTEGER_BITS: Record<string, number> = {
+  SINT: 8, USINT: 8, INT: 16, UINT: 16, DINT: 32, UDINT: 32, LINT: 64, ULINT: 64,
+};
+
+// Atomic types with no members at all
+const SCALAR_TYPES = new Set(["BOOL", "BIT", "REAL", "LREAL"]);
+
+// I/O-style names that are not modules: the local chassis and status flags such as S:FS
+const SYSTEM_PREFIXES = new Set(["S", "LOCAL"]);
+
+/** Operand text as compared with stored tag references: no whitespace, any case. */
+function operandKey(text: string): string {
+  return text.replace(/\s+/g, "").toUpperCase();
+}
+
+/** Check every tag reference against the declared tags and types. */
+export function findTagReferenceProblems(input: {
+  tags: TagRow[];
+  references: ReferenceRow[];
+  udts: UDTRow[];
+  aois: AOIRow[];
+  modules: ModuleRow[];
+  routines: RoutineRow[];
+  rungs: RungRow[];
+}): TagReferenceProblem[] {
+  const key = (...parts: string[]) => parts.join("/").toUpperCase();
+
+  const indexes = indexTagsByFile(input.tags);
+  const tagRows = new Map<string, TagRow>();
+  for (const tag of input.tags) {
+    tagRows.set(key(tag.file_id, tag.scope, tag.name), tag);
+  }
+
+  // Members by file and type name; AOI instances expose their Input and Output parameters
+  const typeMembers = new Map<string, Map<string, TypeMember>>();
+  for (const udt of input.udts) {
+    typeMembers.set(
+      key(udt.file_id, udt.name),
+      new Map((udt.parsed_udt_members || []).map((m) => [
+        key(m.name),
+        { name: m.name, dataType: m.data_type, dimensions: parseDimensions(m.dimension) },
+      ]))
+    );
+  }
+  for (const aoi of input.aois) {
+    const members = new Map<string, TypeMember>();
+    for (const name of ["EnableIn", "EnableOut"]) members.set(key(name), { name, dataType: "BOOL", dimensions: [] });
+    for (const param of aoi.parsed_aoi_parameters || []) {
+      if (param.usage === "InOut") continue;
+      members.set(key(param.name), { name: param.name, dataType: param.data_type, dimensions: [] });
+    }
+    typeMembers.set(key(aoi.file_id, aoi.name), members);
+  }
+  const membersOf = (fileId: string, dataType: string): Map<string, TypeMember> | undefined => {
+    const defined = typeMembers.get(key(fileId, dataType));
+    if (defined) return defined;
+    const builtIn = BUILT_IN_MEMBERS[dataType.toUpperCase()];
+    if (builtIn) {
+      return new Map(builtIn.map(([name, type, size]) => [name, { name, dataType: type, dimensions: size ? [size] : [] }]));
+    }
+    return undefined;
+  };
+
+  const modulesByFile = new Map<string, Set<string>>();
+  for (const row of input.modules) {
+    const names = modulesByFile.get(row.file_id) || new Set<string>();
+    names.add(row.name.toUpperCase());
+    modulesByFile.set(row.file_id, names);
+  }
+
+  // JSR and SBR operands name routines, which files parsed before call operands were classified stored as tags
+  const routineNames = new Set(input.routines.map((r) => key(r.file_id, r.program_name, r.name)));
+
+  // Operands of ladder instructions with no known signature, which files parsed before unknown
+  // instructions were read stored as tags whatever they named; project AOIs have a signature
+  const aoiNames = new Set(input.aois.map((a) => key(a.file_id, a.name)));
+  const ladderRoutines = new Set(
+    input.routines.filter((r) => r.type === "RLL").map((r) => key(r.file_id, r.program_name, r.name))
+  );
+  const unsignedOperands = new Set<string>();
+  for (const rung of input.rungs) {
+    if (!rung.content || !ladderRoutines.has(key(rung.file_id, rung.program_name, rung.routine_name))) continue;
+    const signed = new Set<string>();
+    const unsigned = new Set<string>();
+    for (const instruction of flattenRungInstructions(parseRungText(rung.content))) {
+      if (hasOperandSignature(instruction.name) || aoiNames.has(key(rung.file_id, instruction.name))) {
+        for (const usage of extractRungTagUsages([instruction])) signed.add(operandKey(usage.tagName));
+      } else {
+        for (const operand of instruction.operands) unsigned.add(operandKey(operand.text));
+      }
+    }
+    for (const operand of unsigned) {
+      if (!signed.has(operand)) {
+        unsignedOperands.add(key(rung.file_id, rung.program_name, rung.routine_name, String(rung.number), operand));
+      }
+    }
+  }
+
+  const problems = new Map<string, TagReferenceProblem>();
+  for (const ref of input.references) {
+    const index = indexes.get(ref.file_id);
+    // A file with no tags on record, such as a routine-only export, has nothing to check against
+    if (!index) continue;
+
+    const report = (kind: TagReferenceProblemKind, description: string) => {
+      const problemKey = key(ref.file_id, ref.program_name, ref.routine_name, String(ref.rung_number), ref.tag_name, kind);
+      if (problems.has(problemKey)) return;
+      problems.set(problemKey, {
+        kind,
+        fileId: ref.file_id,
+        tagName: ref.tag_name,
+        programName: ref.program_name,
+        routineName: ref.routine_name,
+        rungNumber: ref.rung_number,
+        description,
+      });
+    };
+
+    // Another program's parameters (\Program.Param) are resolved by that program
+    if (ref.tag_name.trim().startsWith("\\")) continue;
+
+    const unsignedOnly = unsignedOperands.has(
+      key(ref.file_id, ref.program_name, ref.routine_name, String(ref.rung_number), operandKey(ref.tag_name))
+    );
+
+    const { tags, target } = followTagReference(index, ref.program_name, ref.tag_name);
+    const { baseTag } = splitTagReference(target);
+    const last = tags[tags.length - 1];
+    const viaAlias = tags[0]?.aliasFor ? ` (through alias ${tags[0].name})` : "";
+
+    // Module I/O, e.g. Local:2:I.Data or Conveyor_IO:O.Data
+    if (baseTag.includes(":")) {
+      const moduleName = baseTag.split(":")[0].toUpperCase();
+      const modules = modulesByFile.get(ref.file_id);
+      if (modules && !unsignedOnly && !SYSTEM_PREFIXES.has(moduleName) && !modules.has(moduleName)) {
+        report("undeclared", `No I/O module named ${baseTag.split(":")[0]}${viaAlias}`);
+      }
+      continue;
+    }
+
+    if (!last && routineNames.has(key(ref.file_id, ref.program_name, target))) continue;
+
+    // Not found, or an alias whose target is not declared
+    if (!last || last.aliasFor) {
+      if (unsignedOnly) continue;
+      report(
+        "undeclared",
+        last
+          ? `${last.name} is an alias for ${last.aliasFor}, which is not declared`
+          : `${baseTag} is not declared in ${ref.program_name} or at controller scope`
+      );
+      continue;
+    }
+
+    const row = tagRows.get(key(ref.file_id, last.scope, last.name));
+    if (!row) continue;
+
+    let dataType = row.data_type;
+    let dimensions = parseDimensions(row.dimensions);
+    let reached = row.name;
+    for (const step of splitTagPath(target.substring(baseTag.length))) {
+      if (step.kind === "computed-bit") break;
+
+      if (step.kind === "index") {
+        if (dimensions.length === 0) {
+          report("out-of-range", `${reached}${viaAlias} is a ${dataType}, not an array`);
+          break;
+        }
+        if (step.values.length !== dimensions.length) {
+          report(
+            "out-of-range",
+            `${reached}${viaAlias} has ${dimensions.length} dimension${dimensions.length === 1 ? "" : "s"} but is given ${step.values.length} subscript${step.values.length === 1 ? "" : "s"}`
+          );
+          break;
+        }
+        const outside = step.values.findIndex((value, i) => /^\d+$/.test(value) && Number(value) >= dimensions[i]);
+        if (outside >= 0) {
+          report(
+            "out-of-range",
+            `Index ${step.values[outside]} is past the end of ${reached}${viaAlias}, declared [${dimensions.join(",")}]`
+          );
+          break;
+        }
+        reached += `[${step.values.join(",")}]`;
+        dimensions = [];
+        continue;
+      }
+
+      // A member of a whole array is not addressable; leave that to the instruction's own checks
+      if (dimensions.length > 0) break;
+
+      if (/^\d+$/.test(step.name)) {
+        const bits = INTEGER_BITS[dataType.toUpperCase()];
+        if (bits === undefined) {
+          if (SCALAR_TYPES.has(dataType.toUpperCase()) || typeMembers.has(key(ref.file_id, dataType)) || BUILT_IN_MEMBERS[dataType.toUpperCase()]) {
+            report("unknown-member", `${reached}${viaAlias} is a ${dataType} and has no bit ${step.name}`);
+          }
+        } else if (Number(step.name) >= bits) {
+          report("out-of-range", `Bit ${step.name} is past the end of ${reached}${viaAlias}, a ${dataType} with bits 0-${bits - 1}`);
+        }
+        break;
+      }
+
+      const members = SCALAR_TYPES.has(dataType.toUpperCase()) || INTEGER_BITS[dataType.toUpperCase()]
+        ? new Map<string, TypeMember>()
+        : membersOf(ref.file_id, dataType);
+      if (!members) break;
+      const member = members.get(key(step.name));
+      if (!member) {
+        report("unknown-member", `${dataType} has no member ${step.name} (in ${reached}${viaAlias})`);
+        break;
+      }
+      reached += `.${member.name}`;
+      dataType = member.dataType;
+      dimensions = member.dimensions;
+    }
+  }
+
+  const order: Record<TagReferenceProblemKind, number> = { undeclared: 0, "unknown-member": 1, "out-of-range": 2 };
+  return [...problems.values()].sort(
+    (a, b) =>
+      a.programName.localeCompare(b.programName) ||
+      a.routineName.localeCompare(b.routineName) ||
+      a.rungNumber - b.rungNumber ||
+      order[a.kind] - order[b.kind]
+  );
+}
@@ -0,0 +1,275 @@
+/**
+ * Tag lists from Excel workbooks, as electrical designers keep them.
+ *
+ * Each sheet holds the tags of one scope, named after it: a sheet named
+ * after one of the project's programs holds that program's tags, and any
+ * other sheet ("Controller Tags", "Sheet1", "IO List") controller tags,
+ * unless the sheet has its own Scope column. The header row is found by its
+ * Name and Data Type columns, so title blocks and revision notes above it
+ * are skipped. An I/O list's Address column only makes a row an alias when
+ * the row has no data type of its own.
+ *
+ * Workbooks are read in the browser and arrive here as the text of each
+ * cell, so the server never opens an uploaded workbook. Rows that would not
+ * import into Studio 5000 - bad names, unknown data types, duplicates - are
+ * reported with their sheet and row number instead of being imported.
+ */
+
+export interface WorkbookSheet {
+  name: string;
+  rows: string[][];         // Cell text as Excel displays it, from the first row
+}
+
+export interface WorkbookTag {
+  name: string;
+  dataType: string;
+  scope: string;
+  description?: string;
+  value?: string;
+  usage?: string;
+  radix?: string;
+  externalAccess?: string;
+  dimensions?: string;
+  aliasFor?: string;
+}
+
+export interface WorkbookRowError {
+  sheet: string;
+  row: number;              // As Excel numbers it, from 1
+  name?: string;
+  message: string;
+}
+
+export interface WorkbookParseResult {
+  tags: WorkbookTag[];
+  errors: WorkbookRowError[];
+  sheets: Array<{ name: string; scope: string; tagCount: number }>;
+}
+
+// Largest workbook the editor reads, and most rows the import route accepts from one
+export const MAX_WORKBOOK_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_WORKBOOK_ROWS = 100_000;
+
+/** Data types every Logix controller knows, before project UDTs and AOIs. */
+export const BUILT_IN_DATA_TYPES = [
+  "BOOL", "SINT", "INT", "DINT", "LINT", "USINT", "UINT", "UDINT", "ULINT", "REAL", "LREAL",
+  "STRING", "TIMER", "COUNTER", "CONTROL", "PID", "PIDE", "PIDE_AUTOTUNE", "MESSAGE",
+  "ALARM", "ALARM_ANALOG", "ALARM_DIGITAL", "DEADTIME", "LEAD_LAG", "LEAD_LAG_SEC_ORDER",
+  "FBD_TIMER", "FBD_COUNTER", "FBD_ONESHOT", "FBD_BOOLEAN_AND", "FBD_BOOLEAN_OR", "FBD_COMPARE",
+  "SCALE", "TOTALIZER", "RAMP_SOAK", "INTEGRATOR", "DERIVATIVE", "FILTER_LOW_PASS",
+  "FILTER_HIGH_PASS", "FILTER_NOTCH", "FILTER_SECOND_ORDER", "HL_LIMIT", "RATE_LIMITER",
+  "MOVING_AVERAGE", "MOVING_STD_DEV", "MAXIMUM_CAPTURE", "MINIMUM_CAPTURE", "SELECT",
+  "SELECT_ENHANCED", "SELECTED_SUMMER", "SELECTABLE_NEGATE", "SPLIT_RANGE", "S_CURVE",
+  "POSITION_PROP", "PROP_INT", "PULSE_MULTIPLIER", "UP_DOWN_ACCUM", "MULTIPLEXER",
+  "FUNCTION_GENERATOR", "DISCRETE_2STATE", "DISCRETE_3STATE",
+  "MOTION_GROUP", "MOTION_INSTRUCTION", "AXIS_CIP_DRIVE", "AXIS_VIRTUAL", "AXIS_GENERIC",
+  "COORDINATE_SYSTEM", "CAM", "CAM_PROFILE", "OUTPUT_CAM", "CONNECTION_STATUS",
+];
+
+// Instruction mnemonics designers write in place of the data type the instruction takes
+const INSTRUCTION_DATA_TYPES: Record<string, string> = {
+  ALMD: "ALARM_DIGITAL",
+  ALMA: "ALARM_ANALOG",
+  TOT: "TOTALIZER",
+  SCL: "SCALE",
+  RMPS: "RAMP_SOAK",
+  DEDT: "DEADTIME",
+  LDLG: "LEAD_LAG",
+  TONR: "FBD_TIMER",
+  TOFR: "FBD_TIMER",
+  RTOR: "FBD_TIMER",
+  CTUD: "FBD_COUNTER",
+  MSG: "MESSAGE",
+};
+
+type WorkbookColumn = keyof WorkbookTag | "address";
+
+// Header spellings seen in designers' lists, compared without spaces, underscores or case
+const COLUMN_ALIASES: Record<WorkbookColumn, string[]> = {
+  name: ["name", "tag", "tagname"],
+  dataType: ["datatype", "type", "plcdatatype"],
+  scope: ["scope", "program", "programname"],
+  description: ["description", "desc", "comment", "tagdescription"],
+  value: ["value", "default", "initialvalue"],
+  usage: ["usage"],
+  radix: ["radix", "style"],
+  externalAccess: ["externalaccess", "access"],
+  dimensions: ["dimensions", "dimension", "dim", "arraysize"],
+  aliasFor: ["aliasfor", "alias"],
+  address: ["address", "ioaddress"],
+};
+
+const EXTERNAL_ACCESS = ["Read/Write", "Read Only", "None"];
+const RADIXES = ["Decimal", "Binary", "Octal", "Hex", "ASCII", "Float", "Exponential", "Date/Time"];
+
+// A header is looked for this far down a sheet
+const HEADER_SEARCH_ROWS = 20;
+
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/[\s_\-.]/g, "");
+}
+
+function findHeader(rows: string[][]): { index: number; columns: Partial<Record<WorkbookColumn, number>> } | undefined {
+  for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_ROWS); i++) {
+    const headers = rows[i].map((cell) => normalizeHeader(cell));
+    const columns: Partial<Record<WorkbookColumn, number>> = {};
+    for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as Array<[WorkbookColumn, string[]]>) {
+      const index = headers.findIndex((h) => aliases.includes(h));
+      if (index >= 0) columns[field] = index;
+    }
+    if (
+      columns.name !== undefined &&
+      (columns.dataType !== undefined || columns.aliasFor !== undefined || columns.address !== undefined)
+    ) {
+      return { index: i, columns };
+    }
+  }
+  return undefined;
+}
+
+function scopeName(text: string): string {
+  return /^controller(\s*tags)?$/i.test(text.trim()) ? "Controller" : text.trim();
+}
+
+/** The program a sheet is named after, or Controller for any other sheet name. */
+function sheetScope(sheetName: string, programs: Map<string, string>): string {
+  return programs.get(sheetName.trim().toUpperCase()) ?? "Controller";
+}
+
+/** Why a name would be rejected by Studio 5000, if it would. */
+function checkTagName(name: string): string | undefined {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) return "Name must start with a letter or underscore and contain only letters, digits and underscores";
+  if (name.length > 40) return "Name is longer than 40 characters";
+  if (/__/.test(name) || name.endsWith("_")) return "Name cannot contain consecutive underscores or end with one";
+  return undefined;
+}
+
+function matchOption(value: string, options: string[]): string | undefined {
+  return options.find((o) => normalizeHeader(o) === normalizeHeader(value));
+}
+
+/** Whether `value` is a list of sheets as the editor posts them: names with rows of cell text. */
+export function isWorkbookSheets(value: unknown): value is WorkbookSheet[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (sheet) =>
+        typeof sheet?.name === "string" &&
+        Array.isArray(sheet.rows) &&
+        sheet.rows.every((row: unknown) => Array.isArray(row) && row.every((cell) => typeof cell === "string"))
+    )
+  );
+}
+
+/**
+ * Read every sheet of a workbook. `dataTypes` are the data types the project
+ * already uses and its UDT and AOI names, accepted alongside the built-in
+ * types; `programs` are the project's program names, which sheets may be
+ * named after.
+ */
+export function parseTagWorkbook(sheets: WorkbookSheet[], dataTypes: string[] = [], programs: string[] = []): WorkbookParseResult {
+  const knownTypes = new Map([...BUILT_IN_DATA_TYPES, ...dataTypes].map((t) => [t.toUpperCase(), t]));
+  for (const [mnemonic, dataType] of Object.entries(INSTRUCTION_DATA_TYPES)) {
+    if (!knownTypes.has(mnemonic)) knownTypes.set(mnemonic, dataType);
+  }
+  const programNames = new Map(programs.filter((p) => p !== "Controller").map((p) => [p.toUpperCase(), p]));
+  const result: WorkbookParseResult = { tags: [], errors: [], sheets: [] };
+  const seen = new Set<string>();
+
+  for (const { name: sheetName, rows } of sheets) {
+    const header = findHeader(rows);
+    if (!header) continue;
+
+    const defaultScope = sheetScope(sheetName, programNames);
+    let tagCount = 0;
+
+    for (let i = header.index + 1; i < rows.length; i++) {
+      const row = rows[i];
+      const cell = (field: WorkbookColumn) => {
+        const index = header.columns[field];
+        return index === undefined ? "" : String(row[index] ?? "").trim();
+      };
+      const name = cell("name");
+      if (!name && row.every((c) => !String(c).trim())) continue;
+
+      const error = (message: string) => result.errors.push({ sheet: sheetName, row: i + 1, name: name || undefined, message });
+      if (!name) {
+        error("Missing tag name");
+        continue;
+      }
+      const nameError = checkTagName(name);
+      if (nameError) {
+        error(nameError);
+        continue;
+      }
+
+      const scope = cell("scope")
+        ? programNames.get(cell("scope").toUpperCase()) ?? scopeName(cell("scope"))
+        : defaultScope;
+      let dataType = cell("dataType");
+      // An address stands in for the alias target only on rows without a data type
+      const aliasFor = cell("aliasFor") || (dataType ? "" : cell("address"));
+      let dimensions = cell("dimensions").replace(/[,x×]/gi, " ").replace(/\s+/g, " ").trim();
+
+      // DINT[10] carries its dimensions in the type
+      const arrayMatch = dataType.match(/^([^[]+)\[([^\]]*)\]$/);
+      if (arrayMatch) {
+        dataType = arrayMatch[1].trim();
+        dimensions = dimensions || arrayMatch[2].split(",").map((d) => d.trim()).join(" ");
+      }
+
+      if (!aliasFor) {
+        if (!dataType) {
+          error("Missing data type");
+          continue;
+        }
+        const known = knownTypes.get(dataType.toUpperCase());
+        if (!known) {
+          error(`Unknown data type "${dataType}": not a built-in type, UDT or AOI in this project`);
+          continue;
+        }
+        dataType = known;
+      }
+      if (dimensions && !/^\d+( \d+){0,2}$/.test(dimensions)) {
+        error(`Invalid dimensions "${cell("dimensions")}": use up to three whole numbers`);
+        continue;
+      }
+
+      const externalAccess = cell("externalAccess") ? matchOption(cell("externalAccess"), EXTERNAL_ACCESS) : undefined;
+      if (cell("externalAccess") && !externalAccess) {
+        error(`Invalid external access "${cell("externalAccess")}": use ${EXTERNAL_ACCESS.join(", ")}`);
+        continue;
+      }
+      const radix = cell("radix") ? matchOption(cell("radix"), RADIXES) : undefined;
+      if (cell("radix") && !radix) {
+        error(`Invalid radix "${cell("radix")}"`);
+        continue;
+      }
+
+      const key = `${scope.toUpperCase()}/${name.toUpperCase()}`;
+      if (seen.has(key)) {
+        error(`Duplicate tag "${name}" in ${scope}`);
+        continue;
+      }
+      seen.add(key);
+
+      result.tags.push({
+        name,
+        dataType: aliasFor ? "" : dataType,
+        scope,
+        description: cell("description") || undefined,
+        value: cell("value") || undefined,
+        usage: cell("usage") || undefined,
+        radix,
+        externalAccess,
+        dimensions: aliasFor ? undefined : dimensions || undefined,
+        aliasFor: aliasFor || undefined,
+      });
+      tagCount++;
+    }
+
+    result.sheets.push({ name: sheetName, scope: defaultScope, tagCount });
+  }
+
+  return result;
+}
@@ -0,0 +1,368 @@
+import {
+  followTagReference,
+  indexTagsByFile,
+  parseDimensions,
+  splitTagPath,
+  splitTagReference,
+} from "@/lib/parsers/tag-resolution";
+
+/**
+ * UDT and AOI data types: what they are built from, how much memory they
+ * take and which parts logic never touches.
+ *
+ * Sizes follow the Logix layout rules. Each member starts at a multiple of
+ * its own alignment (1, 2, 4 or 8 bytes for atomic types, at least 4 for
+ * arrays and structures), consecutive BOOL members share a one-byte host,
+ * BOOL arrays are packed 32 to a DINT, and a structure is padded to a
+ * multiple of its largest alignment, never less than 4. L5X exports list the
+ * hidden host SINT and its BIT members themselves, so those take the host's
+ * byte and nothing more. Every tag takes at least 4 bytes and alias tags
+ * take none. Predefined types other than the common ones have no published
+ * layout, so anything built from them is left unsized rather than guessed;
+ * the totals are estimates of tag data and exclude the controller's own
+ * per-tag overhead.
+ *
+ * A member counts as used when a reference in logic reaches it by name, or
+ * when a reference uses the whole structure (a COP source, an AOI or JSR
+ * parameter), which can touch every member. Logic inside AOIs is not
+ * recorded as references, so members only an AOI reads through an InOut
+ * parameter look unused unless the structure is passed to it whole.
+ */
+
+interface UDTRow {
+  file_id: string;
+  name: string;
+  parsed_udt_members?: Array<{ name: string; data_type: string; dimension?: string | null }> | null;
+}
+
+interface AOIRow {
+  file_id: string;
+  name: string;
+  parsed_aoi_parameters?: Array<{ name: string; data_type: string; usage: string }> | null;
+  parsed_aoi_local_tags?: Array<{ name: string; data_type: string }> | null;
+}
+
+interface TagRow {
+  file_id: string;
+  name: string;
+  scope: string;
+  data_type: string;
+  dimensions?: string | null;
+  alias_for?: string | null;
+}
+
+interface ReferenceRow {
+  file_id: string;
+  tag_name: string;
+  program_name: string;
+}
+
+export type DataTypeKind = "udt" | "aoi";
+
+export interface DataTypeDependency {
+  name: string;
+  kind: DataTypeKind | "predefined";
+}
+
+export interface DataTypeFootprint {
+  fileId: string;
+  name: string;
+  kind: DataTypeKind;
+  size?: number;                  // Bytes per instance; undefined when built from a type of unknown layout
+  dependsOn: DataTypeDependency[];
+  usedBy: string[];
+  nestingDepth: number;           // 0 when built only from atomic types
+  instances: number;              // Tags declared with this type
+  tagBytes?: number;              // Memory of those tags
+  instantiated: boolean;          // Declared as a tag, directly or inside another type that is
+  unusedMembers: string[];
+}
+
+export interface ScopeMemory {
+  fileId: string;
+  scope: string;
+  tags: number;
+  bytes: number;
+  unsizedTags: number;            // Tags whose type has no known layout, left out of bytes
+}
+
+export interface UDTAnalysis {
+  types: DataTypeFootprint[];
+  scopes: ScopeMemory[];
+}
+
+interface Layout {
+  size: number;
+  align: number;
+}
+
+interface Member {
+  name: string;
+  dataType: string;
+  dimensions: number[];
+}
+
+const ATOMIC_SIZES: Record<string, number> = {
+  SINT: 1, USINT: 1, INT: 2, UINT: 2, DINT: 4, UDINT: 4, REAL: 4, LINT: 8, ULINT: 8, LREAL: 8,
+};
+
+// Predefined structures with a documented layout
+const PREDEFINED_SIZES: Record<string, number> = {
+  TIMER: 12, COUNTER: 12, CONTROL: 12, STRING: 88,
+};
+
+// Prefix of the hidden SINT members that host a UDT's BOOLs
+const HIDDEN_MEMBER_PREFIX = "ZZZZZZZZZZ";
+
+function roundUp(value: number, multiple: number): number {
+  return Math.ceil(value / multiple) * multiple;
+}
+
+function isBuiltIn(dataType: string): boolean {
+  const type = dataType.toUpperCase();
+  return type === "BOOL" || type === "BIT" || type in ATOMIC_SIZES;
+}
+
+/** Dependency graph, sizes, unused types and members, and tag memory by scope. */
+export function analyzeUDTs(input: {
+  udts: UDTRow[];
+  aois: AOIRow[];
+  tags: TagRow[];
+  references: ReferenceRow[];
+}): UDTAnalysis {
+  const key = (...parts: string[]) => parts.join("/").toUpperCase();
+
+  // Members of every structure by file and type name, in declaration order. An AOI's
+  // InOut parameters point at the caller's tags, so their types are dependencies but not data.
+  const structures = new Map<string, { fileId: string; name: string; kind: DataTypeKind; members: Member[]; inOutTypes?: string[] }>();
+  for (const udt of input.udts) {
+    structures.set(key(udt.file_id, udt.name), {
+      fileId: udt.file_id,
+      name: udt.name,
+      kind: "udt",
+      members: (udt.parsed_udt_members || []).map((m) => ({
+        name: m.name,
+        dataType: m.data_type,
+        dimensions: parseDimensions(m.dimension),
+      })),
+    });
+  }
+  for (const aoi of input.aois) {
+    const members: Member[] = [
+      { name: "EnableIn", dataType: "BOOL", dimensions: [] },
+      { name: "EnableOut", dataType: "BOOL", dimensions: [] },
+      ...(aoi.parsed_aoi_parameters || [])
+        .filter((p) => p.usage !== "InOut" && !["ENABLEIN", "ENABLEOUT"].includes(p.name.toUpperCase()))
+        .map((p) => ({ name: p.name, dataType: p.data_type, dimensions: [] })),
+      ...(aoi.parsed_aoi_local_tags || []).map((t) => ({ name: t.name, dataType: t.data_type, dimensions: [] })),
+    ];
+    const inOutTypes = (aoi.parsed_aoi_parameters || []).filter((p) => p.usage === "InOut").map((p) => p.data_type);
+    structures.set(key(aoi.file_id, aoi.name), { fileId: aoi.file_id, name: aoi.name, kind: "aoi", members, inOutTypes });
+  }
+
+  const layouts = new Map<string, Layout | undefined>();
+  const laying = new Set<string>();
+
+  const structureLayout = (fileId: string, dataType: string): Layout | undefined => {
+    const typeKey = key(fileId, dataType);
+    if (layouts.has(typeKey)) return layouts.get(typeKey);
+    const structure = structures.get(typeKey);
+    if (!structure || laying.has(typeKey)) return undefined;
+
+    laying.add(typeKey);
+    let offset = 0;
+    let align = 4;
+    let hostBits = 8;
+    let layout: Layout | undefined;
+    for (const member of structure.members) {
+      const type = member.dataType.toUpperCase();
+      if (type === "BIT") continue;
+      if (type === "BOOL" && member.dimensions.length === 0) {
+        // Up to eight BOOLs in a row share one host byte
+        if (hostBits < 8) {
+          hostBits++;
+        } else {
+          offset += 1;
+          hostBits = 1;
+        }
+        continue;
+      }
+      hostBits = 8;
+      const memberLayout = layoutOf(fileId, member.dataType, member.dimensions);
+      if (!memberLayout) {
+        offset = -1;
+        break;
+      }
+      offset = roundUp(offset, memberLayout.align) + memberLayout.size;
+      align = Math.max(align, memberLayout.align);
+    }
+    if (offset >= 0) layout = { size: roundUp(offset, align), align };
+    laying.delete(typeKey);
+    layouts.set(typeKey, layout);
+    return layout;
+  };
+
+  const layoutOf = (fileId: string, dataType: string, dimensions: number[]): Layout | undefined => {
+    const type = dataType.toUpperCase();
+    const count = dimensions.reduce((product, n) => product * n, 1);
+    if (type === "BIT") return { size: 0, align: 1 };
+    if (type === "BOOL") {
+      return dimensions.length > 0 ? { size: roundUp(count, 32) / 8, align: 4 } : { size: 1, align: 1 };
+    }
+    const atomic = ATOMIC_SIZES[type];
+    if (atomic !== undefined) {
+      return { size: atomic * count, align: dimensions.length > 0 ? Math.max(4, atomic) : atomic };
+    }
+    const element = structureLayout(fileId, dataType)
+      ?? (PREDEFINED_SIZES[type] !== undefined ? { size: PREDEFINED_SIZES[type], align: 4 } : undefined);
+    return element && { size: element.size * count, align: Math.max(4, element.align) };
+  };
+
+  // Dependencies, each structure type once per structure
+  const dependencies = new Map<string, DataTypeDependency[]>();
+  const usedBy = new Map<string, string[]>();
+  for (const [typeKey, structure] of structures) {
+    const deps = new Map<string, DataTypeDependency>();
+    for (const dataType of [...structure.members.map((m) => m.dataType), ...(structure.inOutTypes || [])]) {
+      if (isBuiltIn(dataType)) continue;
+      const target = structures.get(key(structure.fileId, dataType));
+      deps.set(dataType.toUpperCase(), { name: target?.name ?? dataType, kind: target?.kind ?? "predefined" });
+      if (target) {
+        const targetKey = key(structure.fileId, target.name);
+        const users = usedBy.get(targetKey) || [];
+        if (!users.includes(structure.name)) usedBy.set(targetKey, [...users, structure.name]);
+      }
+    }
+    dependencies.set(typeKey, [...deps.values()]);
+  }
+
+  const depths = new Map<string, number>();
+  const nestingDepth = (typeKey: string, seen = new Set<string>()): number => {
+    if (depths.has(typeKey)) return depths.get(typeKey)!;
+    if (seen.has(typeKey)) return 0;
+    seen.add(typeKey);
+    const fileId = structures.get(typeKey)!.fileId;
+    let depth = 0;
+    for (const dep of dependencies.get(typeKey) || []) {
+      if (dep.kind === "predefined") continue;
+      depth = Math.max(depth, 1 + nestingDepth(key(fileId, dep.name), seen));
+    }
+    depths.set(typeKey, depth);
+    return depth;
+  };
+
+  // Tag memory by scope, and instances of each structure type
+  const scopes = new Map<string, ScopeMemory>();
+  const instances = new Map<string, { count: number; bytes?: number }>();
+  const instantiated = new Set<string>();
+  for (const tag of input.tags) {
+    if (tag.alias_for) continue;
+    const scopeKey = key(tag.file_id, tag.scope);
+    const scope = scopes.get(scopeKey) || { fileId: tag.file_id, scope: tag.scope, tags: 0, bytes: 0, unsizedTags: 0 };
+    const layout = layoutOf(tag.file_id, tag.data_type, parseDimensions(tag.dimensions));
+    const bytes = layout ? Math.max(4, roundUp(layout.size, 4)) : undefined;
+    scope.tags++;
+    if (bytes === undefined) scope.unsizedTags++;
+    else scope.bytes += bytes;
+    scopes.set(scopeKey, scope);
+
+    const typeKey = key(tag.file_id, tag.data_type);
+    if (structures.has(typeKey)) {
+      const entry = instances.get(typeKey) || { count: 0, bytes: 0 };
+      entry.count++;
+      entry.bytes = bytes === undefined || entry.bytes === undefined ? undefined : entry.bytes + bytes;
+      instances.set(typeKey, entry);
+      instantiated.add(typeKey);
+    }
+  }
+  // Types inside instantiated types are instantiated too
+  const pending = [...instantiated];
+  while (pending.length > 0) {
+    const typeKey = pending.pop()!;
+    const fileId = structures.get(typeKey)!.fileId;
+    for (const member of structures.get(typeKey)!.members) {
+      const memberKey = key(fileId, member.dataType);
+      if (structures.has(memberKey) && !instantiated.has(memberKey)) {
+        instantiated.add(memberKey);
+        pending.push(memberKey);
+      }
+    }
+  }
+
+  // Members reached by logic
+  const usedMembers = new Map<string, Set<string>>();
+  const wholeUsed = new Set<string>();
+  const markWhole = (fileId: string, dataType: string) => {
+    const typeKey = key(fileId, dataType);
+    const structure = structures.get(typeKey);
+    if (!structure || wholeUsed.has(typeKey)) return;
+    wholeUsed.add(typeKey);
+    for (const member of structure.members) markWhole(fileId, member.dataType);
+  };
+
+  const indexes = indexTagsByFile(input.tags);
+  const tagRows = new Map<string, TagRow>();
+  for (const tag of input.tags) {
+    tagRows.set(key(tag.file_id, tag.scope, tag.name), tag);
+  }
+
+  for (const ref of input.references) {
+    const index = indexes.get(ref.file_id);
+    if (!index) continue;
+    const { tags, target } = followTagReference(index, ref.program_name, ref.tag_name);
+    const last = tags[tags.length - 1];
+    if (!last || last.aliasFor) continue;
+    const row = tagRows.get(key(ref.file_id, last.scope, last.name));
+    if (!row) continue;
+
+    let dataType = row.data_type;
+    let complete = true;
+    for (const step of splitTagPath(target.substring(splitTagReference(target).baseTag.length))) {
+      if (step.kind === "index") continue;
+      const structure = step.kind === "member" ? structures.get(key(ref.file_id, dataType)) : undefined;
+      if (step.kind === "computed-bit" || !structure) {
+        complete = false;
+        break;
+      }
+      const member = structure.members.find((m) => m.name.toUpperCase() === step.name.toUpperCase());
+      if (!member) {
+        complete = false;
+        break;
+      }
+      const typeKey = key(ref.file_id, dataType);
+      usedMembers.set(typeKey, (usedMembers.get(typeKey) || new Set()).add(member.name.toUpperCase()));
+      dataType = member.dataType;
+    }
+    if (complete) markWhole(ref.file_id, dataType);
+  }
+
+  const types: DataTypeFootprint[] = [];
+  for (const [typeKey, structure] of structures) {
+    const isInstantiated = instantiated.has(typeKey);
+    const used = usedMembers.get(typeKey);
+    types.push({
+      fileId: structure.fileId,
+      name: structure.name,
+      kind: structure.kind,
+      size: structureLayout(structure.fileId, structure.name)?.size,
+      dependsOn: dependencies.get(typeKey) || [],
+      usedBy: usedBy.get(typeKey) || [],
+      nestingDepth: nestingDepth(typeKey),
+      instances: instances.get(typeKey)?.count ?? 0,
+      tagBytes: instances.has(typeKey) ? instances.get(typeKey)!.bytes : 0,
+      instantiated: isInstantiated,
+      // An unused type is reported whole; AOI parameters are the instruction's interface, not data to trim
+      unusedMembers:
+        structure.kind === "udt" && isInstantiated && !wholeUsed.has(typeKey)
+          ? structure.members
+              .filter((m) => !m.name.startsWith(HIDDEN_MEMBER_PREFIX) && !used?.has(m.name.toUpperCase()))
+              .map((m) => m.name)
+          : [],
+    });
+  }
+
+  return {
+    types: types.sort((a, b) => (b.tagBytes ?? 0) - (a.tagBytes ?? 0) || a.name.localeCompare(b.name)),
+    scopes: [...scopes.values()].sort((a, b) => b.bytes - a.bytes || a.scope.localeCompare(b.scope)),
+  };
+}
@@ -0,0 +1,147 @@
+-- Migration: Function Block Diagram routine model
+-- Stores FBD sheets, their elements (IRef/ORef/blocks/AOI calls/connectors)
+-- with resolved operand bindings, and the wires between elements
+
+CREATE TABLE parsed_fbd_sheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES project_files(id) ON DELETE CASCADE,
+  version_id UUID REFERENCES file_versions(id) ON DELETE CASCADE,
+  routine_name TEXT NOT NULL,
+  program_name TEXT NOT NULL,
+  number INTEGER NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE parsed_fbd_elements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sheet_id UUID NOT NULL REFERENCES parsed_fbd_sheets(id) ON DELETE CASCADE,
+  element_id INTEGER NOT NULL,
+  element_type TEXT NOT NULL CHECK (element_type IN ('IRef', 'ORef', 'ICon', 'OCon', 'Block', 'Function', 'AddOnInstruction')),
+  instruction TEXT,
+  operand TEXT,
+  connector_name TEXT,
+  x REAL,
+  y REAL,
+  visible_pins TEXT[] NOT NULL DEFAULT '{}',
+  bindings JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE parsed_fbd_wires (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sheet_id UUID NOT NULL REFERENCES parsed_fbd_sheets(id) ON DELETE CASCADE,
+  from_id INTEGER NOT NULL,
+  from_param TEXT,
+  to_id INTEGER NOT NULL,
+  to_param TEXT,
+  feedback BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_parsed_fbd_sheets_file_id ON parsed_fbd_sheets(file_id);
+CREATE INDEX idx_parsed_fbd_sheets_version_id ON parsed_fbd_sheets(version_id);
+CREATE INDEX idx_parsed_fbd_sheets_routine ON parsed_fbd_sheets(program_name, routine_name);
+CREATE INDEX idx_parsed_fbd_elements_sheet_id ON parsed_fbd_elements(sheet_id);
+CREATE INDEX idx_parsed_fbd_elements_instruction ON parsed_fbd_elements(instruction);
+CREATE INDEX idx_parsed_fbd_wires_sheet_id ON parsed_fbd_wires(sheet_id);
+
+-- Enable Row Level Security
+ALTER TABLE parsed_fbd_sheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE parsed_fbd_elements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE parsed_fbd_wires ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for parsed_fbd_sheets
+CREATE POLICY "Users can view FBD sheets from files in their org projects"
+  ON parsed_fbd_sheets FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE pf.id = parsed_fbd_sheets.file_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE pf.id = parsed_fbd_sheets.file_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert FBD sheets"
+  ON parsed_fbd_sheets FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete FBD sheets"
+  ON parsed_fbd_sheets FOR DELETE
+  USING (true);
+
+-- RLS Policies for parsed_fbd_elements
+CREATE POLICY "Users can view FBD elements from sheets they can access"
+  ON parsed_fbd_elements FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM parsed_fbd_sheets s
+      JOIN project_files pf ON s.file_id = pf.id
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE s.id = parsed_fbd_elements.sheet_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM parsed_fbd_sheets s
+      JOIN project_files pf ON s.file_id = pf.id
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE s.id = parsed_fbd_elements.sheet_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert FBD elements"
+  ON parsed_fbd_elements FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete FBD elements"
+  ON parsed_fbd_elements FOR DELETE
+  USING (true);
+
+-- RLS Policies for parsed_fbd_wires
+CREATE POLICY "Users can view FBD wires from sheets they can access"
+  ON parsed_fbd_wires FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM parsed_fbd_sheets s
+      JOIN project_files pf ON s.file_id = pf.id
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE s.id = parsed_fbd_wires.sheet_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM parsed_fbd_sheets s
+      JOIN project_files pf ON s.file_id = pf.id
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE s.id = parsed_fbd_wires.sheet_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert FBD wires"
+  ON parsed_fbd_wires FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete FBD wires"
+  ON parsed_fbd_wires FOR DELETE
+  USING (true);
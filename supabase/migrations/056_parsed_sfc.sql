@@ -0,0 +1,52 @@
+-- Migration: Sequential Function Chart routine model
+-- Stores each SFC routine as a graph: steps, transitions, branches/legs and
+-- stops as nodes (with actions and transition conditions), plus directed links
+
+CREATE TABLE parsed_sfc_charts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES project_files(id) ON DELETE CASCADE,
+  version_id UUID REFERENCES file_versions(id) ON DELETE CASCADE,
+  routine_name TEXT NOT NULL,
+  program_name TEXT NOT NULL,
+  nodes JSONB NOT NULL DEFAULT '[]',
+  links JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_parsed_sfc_charts_file_id ON parsed_sfc_charts(file_id);
+CREATE INDEX idx_parsed_sfc_charts_version_id ON parsed_sfc_charts(version_id);
+CREATE INDEX idx_parsed_sfc_charts_routine ON parsed_sfc_charts(program_name, routine_name);
+
+-- Enable Row Level Security
+ALTER TABLE parsed_sfc_charts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for parsed_sfc_charts
+CREATE POLICY "Users can view SFC charts from files in their org projects"
+  ON parsed_sfc_charts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE pf.id = parsed_sfc_charts.file_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE pf.id = parsed_sfc_charts.file_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert SFC charts"
+  ON parsed_sfc_charts FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete SFC charts"
+  ON parsed_sfc_charts FOR DELETE
+  USING (true);
@@ -0,0 +1,8 @@
+-- Migration: Decoded tag values
+-- parsed_tags.value now holds a display value (atomic, string or simple array);
+-- the full decoded value tree (structure members, array elements) goes in data.
+-- AOI local tags gain a default value like AOI parameters.
+
+ALTER TABLE parsed_tags ADD COLUMN data JSONB;
+
+ALTER TABLE parsed_aoi_local_tags ADD COLUMN default_value TEXT;
@@ -0,0 +1,18 @@
+-- Migration: I/O module details
+-- Identity, revision and keying from the module definition, addressing from
+-- its ports, and each connection's RPI (milliseconds) and I/O tag names.
+
+ALTER TABLE parsed_io_modules
+  ADD COLUMN parent_port_id INTEGER,
+  ADD COLUMN vendor_id INTEGER,
+  ADD COLUMN product_type INTEGER,
+  ADD COLUMN product_code INTEGER,
+  ADD COLUMN major_revision INTEGER,
+  ADD COLUMN minor_revision INTEGER,
+  ADD COLUMN electronic_keying TEXT,
+  ADD COLUMN inhibited BOOLEAN DEFAULT false,
+  ADD COLUMN major_fault BOOLEAN DEFAULT false,
+  ADD COLUMN ip_address TEXT,
+  ADD COLUMN rpi_ms REAL,
+  ADD COLUMN ports JSONB DEFAULT '[]',
+  ADD COLUMN connections JSONB DEFAULT '[]';
@@ -0,0 +1,59 @@
+-- Migration: Program properties
+-- One row per program with its entry (main) and fault routines, disabled and
+-- folder flags, and its place in the program tree (parent/child programs and
+-- the task that runs it)
+
+CREATE TABLE parsed_programs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES project_files(id) ON DELETE CASCADE,
+  version_id UUID REFERENCES file_versions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  main_routine_name TEXT,
+  fault_routine_name TEXT,
+  disabled BOOLEAN DEFAULT false,
+  use_as_folder BOOLEAN DEFAULT false,
+  test_edits BOOLEAN DEFAULT false,
+  program_class TEXT,
+  parent_program TEXT,
+  child_programs TEXT[] NOT NULL DEFAULT '{}',
+  task_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_parsed_programs_file_id ON parsed_programs(file_id);
+CREATE INDEX idx_parsed_programs_version_id ON parsed_programs(version_id);
+
+-- Enable Row Level Security
+ALTER TABLE parsed_programs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for parsed_programs
+CREATE POLICY "Users can view programs from files in their org projects"
+  ON parsed_programs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE pf.id = parsed_programs.file_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE pf.id = parsed_programs.file_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert programs"
+  ON parsed_programs FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete programs"
+  ON parsed_programs FOR DELETE
+  USING (true);
@@ -0,0 +1,14 @@
+-- Migration: Source- and license-protected content
+-- Protected routines and AOIs are exported as EncodedData; they are now
+-- stored with their protection details so they can be listed and left out
+-- of documentation and tag-usage metrics.
+
+ALTER TABLE parsed_routines
+  ADD COLUMN is_protected BOOLEAN DEFAULT false,
+  ADD COLUMN protection_type TEXT,
+  ADD COLUMN encryption_config TEXT;
+
+ALTER TABLE parsed_aois
+  ADD COLUMN is_protected BOOLEAN DEFAULT false,
+  ADD COLUMN protection_type TEXT,
+  ADD COLUMN encryption_config TEXT;
@@ -0,0 +1,59 @@
+-- Migration: Parser diagnostics
+-- What the parser did not fully understand in each file version: skipped
+-- elements, malformed rungs, unsupported routine types, dropped declarations
+-- and defaults filled in for missing attributes. Per-severity counts on
+-- project_files summarize the latest parse for the file browser.
+
+CREATE TABLE parse_diagnostics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES project_files(id) ON DELETE CASCADE,
+  version_id UUID REFERENCES file_versions(id) ON DELETE CASCADE,
+  severity TEXT NOT NULL CHECK (severity IN ('error', 'warning', 'info')),
+  code TEXT NOT NULL,
+  message TEXT NOT NULL,
+  element_path TEXT,
+  line INTEGER,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE project_files
+  ADD COLUMN IF NOT EXISTS parse_error_count INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS parse_warning_count INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS parse_info_count INTEGER DEFAULT 0;
+
+-- Indexes
+CREATE INDEX idx_parse_diagnostics_file_id ON parse_diagnostics(file_id);
+CREATE INDEX idx_parse_diagnostics_version_id ON parse_diagnostics(version_id);
+
+-- Enable Row Level Security
+ALTER TABLE parse_diagnostics ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for parse_diagnostics
+CREATE POLICY "Users can view diagnostics from files in their org projects"
+  ON parse_diagnostics FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE pf.id = parse_diagnostics.file_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE pf.id = parse_diagnostics.file_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert diagnostics"
+  ON parse_diagnostics FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete diagnostics"
+  ON parse_diagnostics FOR DELETE
+  USING (true);
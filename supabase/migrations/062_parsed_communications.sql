@@ -0,0 +1,70 @@
+-- Migration: Inter-controller communications
+-- Produced and consumed tags with their producer, remote tag and RPI, and
+-- MESSAGE tag configuration (type, connection path, remote element,
+-- connected/cached), so links between controllers can be listed per project.
+
+CREATE TABLE parsed_communications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES project_files(id) ON DELETE CASCADE,
+  version_id UUID REFERENCES file_versions(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('produced', 'consumed', 'message')),
+  tag_name TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  data_type TEXT NOT NULL,
+  -- Produced
+  produce_count INTEGER,
+  unicast_permitted BOOLEAN,
+  -- Consumed
+  producer TEXT,
+  remote_tag TEXT,
+  remote_instance INTEGER,
+  rpi_ms REAL,
+  unicast BOOLEAN,
+  -- MESSAGE
+  message_type TEXT,
+  connection_path TEXT,
+  remote_element TEXT,
+  local_element TEXT,
+  connected BOOLEAN,
+  cache_connections BOOLEAN,
+  requested_length INTEGER,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_parsed_communications_file_id ON parsed_communications(file_id);
+CREATE INDEX idx_parsed_communications_version_id ON parsed_communications(version_id);
+CREATE INDEX idx_parsed_communications_kind ON parsed_communications(kind);
+
+-- Enable Row Level Security
+ALTER TABLE parsed_communications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for parsed_communications
+CREATE POLICY "Users can view communications from files in their org projects"
+  ON parsed_communications FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE pf.id = parsed_communications.file_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE pf.id = parsed_communications.file_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert communications"
+  ON parsed_communications FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete communications"
+  ON parsed_communications FOR DELETE
+  USING (true);
@@ -0,0 +1,63 @@
+-- Migration: Alarm inventory
+-- ALARM_DIGITAL and ALARM_ANALOG tag configuration (one row per digital
+-- alarm or enabled analog level) and tag-based alarms: conditions configured
+-- on tags and member alarm definitions on data types.
+
+CREATE TABLE parsed_alarms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES project_files(id) ON DELETE CASCADE,
+  version_id UUID REFERENCES file_versions(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('digital', 'analog', 'condition', 'definition')),
+  tag_name TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  data_type TEXT NOT NULL,
+  condition TEXT,
+  input TEXT,
+  condition_type TEXT,
+  limit_value REAL,
+  severity INTEGER,
+  deadband REAL,
+  on_delay_ms INTEGER,
+  off_delay_ms INTEGER,
+  latched BOOLEAN,
+  ack_required BOOLEAN,
+  message TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_parsed_alarms_file_id ON parsed_alarms(file_id);
+CREATE INDEX idx_parsed_alarms_version_id ON parsed_alarms(version_id);
+
+-- Enable Row Level Security
+ALTER TABLE parsed_alarms ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for parsed_alarms
+CREATE POLICY "Users can view alarms from files in their org projects"
+  ON parsed_alarms FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE pf.id = parsed_alarms.file_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE pf.id = parsed_alarms.file_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert alarms"
+  ON parsed_alarms FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete alarms"
+  ON parsed_alarms FOR DELETE
+  USING (true);
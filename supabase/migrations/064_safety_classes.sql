@@ -0,0 +1,20 @@
+-- Migration: GuardLogix safety separation
+-- Standard/Safety class of tags and tasks (programs already carry
+-- program_class), and per-file safety state: the safety signature, whether
+-- the safety application is locked, its SIL/PL level and the safety tag map
+-- of standard tags copied into safety tags. safety_tag_map is NULL for
+-- standard controllers.
+
+ALTER TABLE parsed_tags
+  ADD COLUMN IF NOT EXISTS tag_class TEXT;
+
+ALTER TABLE parsed_tasks
+  ADD COLUMN IF NOT EXISTS task_class TEXT;
+
+ALTER TABLE project_files
+  ADD COLUMN IF NOT EXISTS safety_signature TEXT,
+  ADD COLUMN IF NOT EXISTS safety_locked BOOLEAN,
+  ADD COLUMN IF NOT EXISTS safety_level TEXT,
+  ADD COLUMN IF NOT EXISTS safety_tag_map JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_parsed_tags_tag_class ON parsed_tags(tag_class);
@@ -0,0 +1,100 @@
+-- Migration: AOI logic and call sites
+-- Stores the ladder rungs and ST lines inside each AOI so its logic can be
+-- viewed, and every AOI invocation in program logic with its instance tag and
+-- the argument wired to each parameter.
+
+CREATE TABLE parsed_aoi_rungs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  aoi_id UUID NOT NULL REFERENCES parsed_aois(id) ON DELETE CASCADE,
+  routine_name TEXT NOT NULL,
+  number INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE parsed_aoi_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID NOT NULL REFERENCES project_files(id) ON DELETE CASCADE,
+  version_id UUID REFERENCES file_versions(id) ON DELETE CASCADE,
+  aoi_name TEXT NOT NULL,
+  instance_tag TEXT NOT NULL,
+  program_name TEXT NOT NULL,
+  routine_name TEXT NOT NULL,
+  rung_number INTEGER NOT NULL,
+  -- [{ "parameter": "Start", "argument": "PB_Start" }, ...]
+  bindings JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_parsed_aoi_rungs_aoi_id ON parsed_aoi_rungs(aoi_id);
+CREATE INDEX idx_parsed_aoi_calls_file_id ON parsed_aoi_calls(file_id);
+CREATE INDEX idx_parsed_aoi_calls_version_id ON parsed_aoi_calls(version_id);
+CREATE INDEX idx_parsed_aoi_calls_aoi_name ON parsed_aoi_calls(aoi_name);
+
+-- Enable Row Level Security
+ALTER TABLE parsed_aoi_rungs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE parsed_aoi_calls ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for parsed_aoi_rungs
+CREATE POLICY "Users can view AOI rungs from AOIs they can access"
+  ON parsed_aoi_rungs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM parsed_aois aoi
+      JOIN project_files pf ON aoi.file_id = pf.id
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE aoi.id = parsed_aoi_rungs.aoi_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM parsed_aois aoi
+      JOIN project_files pf ON aoi.file_id = pf.id
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE aoi.id = parsed_aoi_rungs.aoi_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert AOI rungs"
+  ON parsed_aoi_rungs FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete AOI rungs"
+  ON parsed_aoi_rungs FOR DELETE
+  USING (true);
+
+-- RLS Policies for parsed_aoi_calls
+CREATE POLICY "Users can view AOI calls from files in their org projects"
+  ON parsed_aoi_calls FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN organization_members om ON p.organization_id = om.organization_id
+      WHERE pf.id = parsed_aoi_calls.file_id
+      AND om.user_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM project_files pf
+      JOIN projects p ON pf.project_id = p.id
+      JOIN project_shares ps ON p.id = ps.project_id
+      WHERE pf.id = parsed_aoi_calls.file_id
+      AND ps.shared_with_user_id = auth.uid()
+      AND ps.accepted_at IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Service role can insert AOI calls"
+  ON parsed_aoi_calls FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can delete AOI calls"
+  ON parsed_aoi_calls FOR DELETE
+  USING (true);
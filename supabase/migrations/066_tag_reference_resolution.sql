@@ -0,0 +1,17 @@
+-- Migration: Tag reference resolution
+-- Each reference is split into the tag it starts from, the subscript on that
+-- tag and the member path after it, and resolved the way the controller
+-- does: program tags shadow controller tags, and alias tags are followed to
+-- their target. tag_scope is NULL when no tag of that name exists (I/O,
+-- undefined tags); alias_target is NULL unless the reference goes through
+-- an alias.
+
+ALTER TABLE tag_references
+  ADD COLUMN IF NOT EXISTS base_tag TEXT,
+  ADD COLUMN IF NOT EXISTS member_path TEXT,
+  ADD COLUMN IF NOT EXISTS array_index TEXT,
+  ADD COLUMN IF NOT EXISTS indirect_index BOOLEAN,
+  ADD COLUMN IF NOT EXISTS tag_scope TEXT,
+  ADD COLUMN IF NOT EXISTS alias_target TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tag_references_base_tag ON tag_references(base_tag);
@@ -0,0 +1,26 @@
+-- Migration: Multi-language documentation
+-- Studio 5000 projects can carry descriptions and rung comments in several
+-- languages. description and comment keep the first language; the new JSONB
+-- columns hold every language keyed by its code, e.g. {"en-US": "...",
+-- "es-MX": "..."}, and are NULL for single-language exports.
+-- documentation_languages lists the languages found in each file, and
+-- documentation_language picks the language the project's views and manual
+-- show; NULL shows the first language of each file.
+
+ALTER TABLE parsed_tags
+  ADD COLUMN IF NOT EXISTS descriptions JSONB;
+
+ALTER TABLE parsed_routines
+  ADD COLUMN IF NOT EXISTS descriptions JSONB;
+
+ALTER TABLE parsed_programs
+  ADD COLUMN IF NOT EXISTS descriptions JSONB;
+
+ALTER TABLE parsed_rungs
+  ADD COLUMN IF NOT EXISTS comments JSONB;
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS documentation_language TEXT;
+
+ALTER TABLE project_files
+  ADD COLUMN IF NOT EXISTS documentation_languages TEXT[];
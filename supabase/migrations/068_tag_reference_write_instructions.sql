@@ -0,0 +1,8 @@
+-- Migration: Writing instructions on tag references
+-- Ladder references record each instruction that writes the tag in the rung
+-- (OTE, OTL, OTU, MOV, ...), once per use, so output conflicts such as the
+-- same coil energized on two rungs can be found from tag_references alone.
+-- NULL for reads, structured text, FBD and SFC references.
+
+ALTER TABLE tag_references
+  ADD COLUMN IF NOT EXISTS write_instructions TEXT[];
@@ -0,0 +1,22 @@
+-- Migration: Rung and routine complexity metrics
+-- Each rung (or structured text line) records its size and shape as parsed:
+-- instruction count, deepest branch nesting, parallel branch legs beyond the
+-- first, distinct tags and text length, with a weighted complexity score.
+-- Routines record the worst and average rung score and how many distinct
+-- tags they read (fan-in) and write (fan-out). NULL until the file is re-parsed.
+
+ALTER TABLE parsed_rungs
+  ADD COLUMN IF NOT EXISTS instruction_count INTEGER,
+  ADD COLUMN IF NOT EXISTS branch_depth INTEGER,
+  ADD COLUMN IF NOT EXISTS parallel_branches INTEGER,
+  ADD COLUMN IF NOT EXISTS distinct_tags INTEGER,
+  ADD COLUMN IF NOT EXISTS line_length INTEGER,
+  ADD COLUMN IF NOT EXISTS complexity INTEGER;
+
+ALTER TABLE parsed_routines
+  ADD COLUMN IF NOT EXISTS max_complexity INTEGER,
+  ADD COLUMN IF NOT EXISTS avg_complexity REAL,
+  ADD COLUMN IF NOT EXISTS tag_fan_in INTEGER,
+  ADD COLUMN IF NOT EXISTS tag_fan_out INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_parsed_rungs_complexity ON parsed_rungs(file_id, complexity DESC);
@@ -0,0 +1,17 @@
+-- Migration: Multi-language UDT and AOI descriptions
+-- UDTs, UDT members, AOIs and AOI parameters carry multi-language
+-- descriptions like tags and routines do. description keeps the first
+-- language; descriptions holds every language keyed by its code and is NULL
+-- for single-language exports.
+
+ALTER TABLE parsed_udts
+  ADD COLUMN IF NOT EXISTS descriptions JSONB;
+
+ALTER TABLE parsed_udt_members
+  ADD COLUMN IF NOT EXISTS descriptions JSONB;
+
+ALTER TABLE parsed_aois
+  ADD COLUMN IF NOT EXISTS descriptions JSONB;
+
+ALTER TABLE parsed_aoi_parameters
+  ADD COLUMN IF NOT EXISTS descriptions JSONB;